@@ -0,0 +1,167 @@
+import fs from 'fs';
+import { ConfigManager } from '../config/manager';
+import { MAX_BACKUPS, diffConfigs } from '../config/backups';
+import { formatTable } from '../utils/table';
+import type { BackupInfo, ConfigChange } from '../types';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Show usage of the backups and restore subcommands
+ */
+function showBackupsUsage(): void {
+  console.log(`Usage:
+  auo backups                    # List configuration snapshots, newest first
+  auo backups diff <#|id>        # Show what restoring a snapshot would change (secrets masked)
+  auo restore <#|id>             # Restore a snapshot (the current configuration is backed up)
+
+Snapshots are taken before deleting, editing, importing, resetting or migrating
+configurations, and the ${MAX_BACKUPS} most recent are kept.`);
+}
+
+/**
+ * Look up a snapshot, reporting (and returning null) when it does not exist
+ */
+function findBackup(configManager: ConfigManager, query: string | undefined): BackupInfo | null {
+  if (query === undefined) {
+    console.error('❌ Missing snapshot number or id (see "auo backups")');
+    return null;
+  }
+
+  const backup = configManager.getBackupStore().find(query);
+  if (!backup) {
+    console.error(`❌ Snapshot "${query}" not found (see "auo backups")`);
+  }
+  return backup;
+}
+
+/**
+ * Format a configuration change as a diff line
+ */
+export function formatChange(change: ConfigChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `+ ${change.path}${change.after !== undefined ? `: ${change.after}` : ''}`;
+    case 'removed':
+      return `- ${change.path}${change.before !== undefined ? `: ${change.before}` : ''}`;
+    case 'changed':
+      return `~ ${change.path}: ${change.before} → ${change.after}`;
+  }
+}
+
+/**
+ * Print the list of snapshots
+ */
+function listBackups(configManager: ConfigManager): void {
+  const store = configManager.getBackupStore();
+  const backups = store.list();
+
+  if (backups.length === 0) {
+    console.log('ℹ️  No configuration snapshots yet');
+    return;
+  }
+
+  console.log(`🗂️  Configuration snapshots in ${store.getBackupDir()}:`);
+  console.log(
+    formatTable(
+      ['#', 'Taken', 'Before', 'Providers', 'Id'],
+      backups.map((backup, index) => {
+        let providers: string;
+        try {
+          providers = String(store.load(backup).providers.length);
+        } catch {
+          providers = 'unreadable';
+        }
+        return [
+          index,
+          new Date(backup.createdAt).toLocaleString(),
+          backup.operation,
+          providers,
+          backup.id,
+        ];
+      })
+    )
+  );
+}
+
+/**
+ * Handle `auo backups`
+ */
+export function handleBackupsCommand(args: string[], configManager: ConfigManager): void {
+  const [action, query] = args;
+
+  if (action === undefined || action === 'list') {
+    listBackups(configManager);
+    return;
+  }
+
+  if (HELP_FLAGS.includes(action)) {
+    showBackupsUsage();
+    return;
+  }
+
+  if (action !== 'diff') {
+    showBackupsUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const backup = findBackup(configManager, query);
+  if (!backup) {
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const changes = diffConfigs(
+      configManager.getConfigFile(),
+      configManager.getBackupStore().load(backup)
+    );
+    if (changes.length === 0) {
+      console.log(`✅ Snapshot ${backup.id} matches the current configuration`);
+      return;
+    }
+
+    console.log(`🔍 Restoring ${backup.id} would change:`);
+    changes.forEach((change) => console.log(`   ${formatChange(change)}`));
+  } catch (error) {
+    console.error('❌ Failed to compare:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Handle `auo restore`
+ */
+export function handleRestoreCommand(args: string[], configManager: ConfigManager): void {
+  if (args.length === 0 || args.some((arg) => HELP_FLAGS.includes(arg))) {
+    showBackupsUsage();
+    if (args.length === 0) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const backup = findBackup(configManager, args[0]);
+  if (!backup) {
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const hadConfig = fs.existsSync(configManager.getConfigPath());
+    configManager.restoreBackup(backup);
+
+    console.log(`✅ Restored configuration from ${new Date(backup.createdAt).toLocaleString()}`);
+    if (hadConfig) {
+      const previous = configManager.getBackupStore().list()[0];
+      console.log(`   The replaced configuration was saved as snapshot ${previous?.id}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to restore:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import { ConfigManager } from '../config/manager';
+import { createBundle, openBundle, parseBundle } from '../config/bundle';
+import { listEnvironments } from '../config/inheritance';
+import { createSecretResolver, obtainPassphrase, prepareSecretWrites } from './secrets';
+import { readStdin } from './provision';
+import { confirm, handleDetectImport } from './discover';
+import type { BundleTokenMode, ConflictResolution, ImportOptions } from '../types';
+
+/**
+ * Environment variable that supplies the bundle passphrase non-interactively
+ */
+export const BUNDLE_PASSPHRASE_ENV = 'AUO_BUNDLE_PASSPHRASE';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Accepted --on-conflict values
+ */
+const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['skip', 'overwrite', 'rename'];
+
+/**
+ * Show usage of the export and import subcommands
+ */
+function showBundleUsage(): void {
+  console.log(`Usage:
+  auo export [file] [--redact | --encrypt | --plain]
+      Write all configurations to a bundle (stdout when no file is given)
+      --redact    Leave tokens and other secrets out (default)
+      --encrypt   Encrypt secrets with a passphrase (${BUNDLE_PASSPHRASE_ENV} or prompt)
+      --plain     Include secrets in plaintext
+
+  auo import <file|-> [--replace] [--on-conflict skip|overwrite|rename] [--dry-run] [--yes]
+      Read a bundle (or a plain config.json from any auo version)
+      --replace       Replace all configurations instead of merging
+      --on-conflict   What to do when a name already exists when merging (default: skip)
+      --dry-run       Validate and show what would change without writing
+      --yes           Import \${cmd:...} and \${file:...} values without asking
+
+  auo import --detect [--yes] [--dry-run]
+      Add providers found in ANTHROPIC_* shell variables and ~/.claude/settings.json,
+      skipping those with the same base URL and token as an existing configuration`);
+}
+
+/**
+ * Handle `auo export`
+ */
+export async function handleExportCommand(
+  args: string[],
+  configManager: ConfigManager
+): Promise<void> {
+  let tokens: BundleTokenMode = 'redacted';
+  let file: string | undefined;
+
+  for (const arg of args) {
+    if (HELP_FLAGS.includes(arg)) {
+      showBundleUsage();
+      return;
+    } else if (arg === '--redact') {
+      tokens = 'redacted';
+    } else if (arg === '--encrypt') {
+      tokens = 'encrypted';
+    } else if (arg === '--plain') {
+      tokens = 'plain';
+    } else if (!arg.startsWith('-') && file === undefined) {
+      file = arg;
+    } else {
+      console.error(`❌ Unknown export argument "${arg}"`);
+      showBundleUsage();
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  try {
+    const config = configManager.getConfigFile();
+
+    // Stored secret references are exported as their real value unless redacted
+    const secrets =
+      tokens === 'redacted'
+        ? undefined
+        : await createSecretResolver(
+            configManager,
+            listEnvironments(config).map(([, env]) => ({ env }))
+          );
+    const passphrase =
+      tokens === 'encrypted'
+        ? await obtainPassphrase(BUNDLE_PASSPHRASE_ENV, 'Bundle', true)
+        : undefined;
+
+    const bundle = createBundle(config, tokens, {
+      ...(passphrase !== undefined ? { passphrase } : {}),
+      ...(secrets ? { resolveValue: (key, value) => secrets.resolveValue(key, value) } : {}),
+    });
+    const data = `${JSON.stringify(bundle, null, 2)}\n`;
+
+    if (file === undefined) {
+      process.stdout.write(data);
+      return;
+    }
+
+    fs.writeFileSync(file, data, { encoding: 'utf8', mode: 0o600 });
+    console.log(`✅ Exported ${config.providers.length} configuration(s) to ${file}`);
+    if (tokens === 'redacted') {
+      console.log('   Tokens were left out, use --encrypt to include them');
+    }
+  } catch (error) {
+    console.error('❌ Failed to export:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Parse import arguments, returning null (after reporting why) when they are invalid
+ */
+function parseImportArgs(
+  args: string[]
+): { source: string; options: ImportOptions; yes: boolean } | null {
+  const options: ImportOptions = {};
+  let source: string | undefined;
+  let yes = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+
+    if (arg === '--replace') {
+      options.strategy = 'replace';
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--yes' || arg === '-y') {
+      yes = true;
+    } else if (arg === '--on-conflict') {
+      const value = args[++i];
+      if (!CONFLICT_RESOLUTIONS.includes(value as ConflictResolution)) {
+        console.error(`❌ --on-conflict must be one of: ${CONFLICT_RESOLUTIONS.join(', ')}`);
+        return null;
+      }
+      options.onConflict = value as ConflictResolution;
+    } else if ((arg === '-' || !arg.startsWith('-')) && source === undefined) {
+      source = arg;
+    } else {
+      console.error(`❌ Unknown import argument "${arg}"`);
+      return null;
+    }
+  }
+
+  if (source === undefined) {
+    console.error('❌ Missing bundle file (use "-" to read from stdin)');
+    return null;
+  }
+
+  return { source, options, yes };
+}
+
+/**
+ * Ask before importing variables that read files or run commands on every launch
+ * @returns Whether the import may go ahead, false (after reporting) otherwise
+ */
+async function confirmCommands(commands: string[], yes: boolean): Promise<boolean> {
+  console.log('⚠️  These imported variables read files or run commands on every launch:');
+  commands.forEach((id) => console.log(`   ${id}`));
+  if (yes) {
+    return true;
+  }
+
+  if (!process.stdin.isTTY) {
+    console.error('❌ Review the bundle and re-run with --yes to import them');
+    process.exitCode = 1;
+    return false;
+  }
+  if (!(await confirm('Import them? [y/N] '))) {
+    console.log('ℹ️  Nothing imported');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Handle `auo import`
+ */
+export async function handleImportCommand(
+  args: string[],
+  configManager: ConfigManager
+): Promise<void> {
+  if (args.length === 0 || args.some((arg) => HELP_FLAGS.includes(arg))) {
+    showBundleUsage();
+    if (args.length === 0) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (args[0] === '--detect') {
+    await handleDetectImport(args.slice(1), configManager);
+    return;
+  }
+
+  const parsed = parseImportArgs(args);
+  if (!parsed) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const { source, options, yes } = parsed;
+
+  try {
+    const text = source === '-' ? await readStdin() : fs.readFileSync(source, 'utf8');
+
+    // Everything is validated before the configuration is touched
+    const bundle = parseBundle(text);
+    const passphrase =
+      bundle.tokens === 'encrypted'
+        ? await obtainPassphrase(BUNDLE_PASSPHRASE_ENV, 'Bundle')
+        : undefined;
+    const { config, redacted } = openBundle(bundle, passphrase);
+    let summary = configManager.importConfig(config, { ...options, dryRun: true });
+    if (summary.commands.length > 0) {
+      const confirmed = await confirmCommands(summary.commands, yes || options.dryRun === true);
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    if (!options.dryRun) {
+      const env = Object.assign(
+        { ...config.defaults?.env },
+        ...config.providers.map((provider) => provider.env)
+      );
+      if (!(await prepareSecretWrites(configManager, env))) {
+        process.exitCode = 1;
+        return;
+      }
+      summary = configManager.importConfig(config, options);
+    }
+
+    const prefix = options.dryRun ? '🔍 Would import' : '✅ Imported';
+    const count = summary.added.length + summary.overwritten.length + summary.renamed.length;
+    const replacing = options.strategy === 'replace' ? ' (replacing existing configurations)' : '';
+    console.log(`${prefix} ${count} configuration(s)${replacing}`);
+    summary.added.forEach((name) => console.log(`   + ${name}`));
+    summary.overwritten.forEach((name) => console.log(`   ~ ${name} (overwritten)`));
+    summary.renamed.forEach(({ from, to }) => console.log(`   + ${to} (renamed from ${from})`));
+    summary.skipped.forEach((name) => console.log(`   - ${name} (exists, skipped)`));
+    summary.groups.added.forEach((name) => console.log(`   + group ${name}`));
+    summary.groups.overwritten.forEach((name) => console.log(`   ~ group ${name} (overwritten)`));
+    summary.groups.renamed.forEach(({ from, to }) =>
+      console.log(`   + group ${to} (renamed from ${from})`)
+    );
+    summary.groups.skipped.forEach((name) => console.log(`   - group ${name} (exists, skipped)`));
+    summary.settings.imported.forEach((label) => console.log(`   + ${label}`));
+    summary.settings.kept.forEach((label) =>
+      console.log(`   - ${label} (set differently here, kept; use --on-conflict overwrite)`)
+    );
+
+    const skipped = [...summary.skipped, ...summary.groups.skipped.map((name) => `@${name}`)];
+    const missing = redacted.filter((id) => !skipped.includes(id.slice(0, id.lastIndexOf('/'))));
+    if (missing.length > 0) {
+      console.log('⚠️  These secrets were redacted in the bundle, set them with "auo env set":');
+      missing.forEach((id) => console.log(`   ${id}`));
+    }
+  } catch (error) {
+    console.error('❌ Failed to import:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
@@ -1,21 +1,236 @@
 import readline from 'readline';
 import { ConfigManager } from '../config/manager';
 import { runClaudeCode } from '../utils/claude';
-import type { CLIOptions, EnvironmentVariables, ConfigItemV2, AddConfigParamsV2 } from '../types';
+import { handleBackupsCommand, handleRestoreCommand } from './backups';
+import { handleExportCommand, handleImportCommand } from './bundle';
+import { handleDoctorCommand } from './doctor';
+import { handleCompletionCommand } from './completion';
+import { handleEnvCommand, handleShellHookCommand } from './env';
+import { handleFailoverCommand, selectFailoverProvider } from './failover';
+import {
+  PROVIDER_FLAGS,
+  addConfigScripted,
+  applyProviderFlag,
+  editConfigScripted,
+} from './provision';
+import { createSecretResolver, handleSecretsCommand, prepareSecretWrites } from './secrets';
+import {
+  describeActiveSource,
+  handleCurrentCommand,
+  handleShowCommand,
+  summarizeProvider,
+} from './show';
+import { handleStatsCommand, startSessionLog } from './stats';
+import { getProxyLog, handleLogsCommand } from './logs';
+import { PROXY_TOKEN_HEADER, startProxy } from '../proxy/server';
+import { DEFAULT_BASE_URL } from '../utils/health';
+import { handleRotateCommand } from './rotate';
+import { handleTrustCommand } from './trust';
+import { editDistance } from '../config/matcher';
+import { SecretResolver, parseSecretReference } from '../config/secrets';
+import {
+  applyProjectConfig,
+  getProjectClaudeArgs,
+  loadProjectConfig,
+  resolveActiveProvider,
+} from '../config/project';
+import { mapModelArgs, mapModelEnvironment } from '../config/models';
+import type {
+  ActiveProvider,
+  CLIOptions,
+  EnvironmentVariables,
+  ConfigItemV3,
+  AddConfigParamsV2,
+  ProviderOverride,
+  RunningProxy,
+} from '../types';
 
 // Declare global variables that will be replaced by Vite during build
 declare const __PKG_NAME__: string;
 declare const __PKG_VERSION__: string;
 declare const __PKG_DESCRIPTION__: string;
 
+/**
+ * Subcommands recognised as the first argument
+ */
+const SUBCOMMANDS = [
+  'backups',
+  'completion',
+  'current',
+  'doctor',
+  'env',
+  'export',
+  'failover',
+  'import',
+  'logs',
+  'restore',
+  'rotate',
+  'secrets',
+  'shell-hook',
+  'show',
+  'stats',
+  'trust',
+];
+
+/**
+ * Options handled by auo itself
+ */
+const AUO_FLAGS = [
+  '--help',
+  '-h',
+  '--version',
+  '-v',
+  '--use',
+  '--remove',
+  '--edit',
+  '--list',
+  '--tag',
+  '--json',
+  '--config-path',
+  '--add',
+  '--failover',
+  '--no-failover',
+  '--provider',
+  '--proxy',
+  '--proxy-transcripts',
+];
+
+/**
+ * Reserved prefix for auo options; unknown options with it are always errors
+ */
+const AUO_FLAG_PREFIX = '--auo-';
+
+/**
+ * Claude Code options that must never be mistaken for mistyped auo options
+ */
+const CLAUDE_FLAGS = [
+  '--add-dir',
+  '--agents',
+  '--allowedTools',
+  '--append-system-prompt',
+  '--continue',
+  '--dangerously-skip-permissions',
+  '--debug',
+  '--disallowedTools',
+  '--fallback-model',
+  '--ide',
+  '--input-format',
+  '--max-turns',
+  '--mcp-config',
+  '--model',
+  '--output-format',
+  '--permission-mode',
+  '--print',
+  '--resume',
+  '--session-id',
+  '--settings',
+  '--strict-mcp-config',
+  '--verbose',
+];
+
+/**
+ * Maximum edit distance at which an unknown long flag is treated as a mistyped auo option
+ */
+const MAX_FLAG_TYPO_DISTANCE = 2;
+
+/**
+ * Environment variable selecting a provider for a single run
+ */
+export const PROVIDER_ENV = 'AUO_PROVIDER';
+
+/**
+ * Parse a configuration target, which is either a numeric index or a name
+ */
+function parseTarget(value: string | undefined): number | string | undefined {
+  if (value === undefined || value.startsWith('--') || !value.trim()) {
+    return undefined;
+  }
+
+  if (/^-?\d+$/.test(value.trim())) {
+    return parseInt(value, 10);
+  }
+
+  return value.startsWith('-') ? undefined : value;
+}
+
+/**
+ * Explain why an argument in auo's position can't be accepted, or return null when it simply
+ * starts the Claude Code arguments
+ * @param strict Whether a "--" separator follows, so only auo options are expected here
+ */
+function describeUnknownArg(arg: string, strict: boolean): string | null {
+  if (strict) {
+    return arg.startsWith('-')
+      ? `Unknown auo option "${arg}". Claude Code arguments go after "--"`
+      : `Unexpected argument "${arg}" before "--". Claude Code arguments go after "--"`;
+  }
+
+  if (arg.startsWith(AUO_FLAG_PREFIX)) {
+    return `Unknown auo option "${arg}"`;
+  }
+
+  // Long flags that look like a mistyped auo option are errors, unless Claude Code knows them
+  const name = arg.split('=')[0] || arg;
+  if (!name.startsWith('--') || CLAUDE_FLAGS.includes(name)) {
+    return null;
+  }
+
+  // Suggest the closest auo option within the typo distance
+  const suggestion = AUO_FLAGS.filter((flag) => flag.startsWith('--'))
+    .map((flag) => ({ flag, distance: editDistance(name, flag) }))
+    .filter((candidate) => candidate.distance <= MAX_FLAG_TYPO_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)[0]?.flag;
+  return suggestion
+    ? `Unknown option "${name}", did you mean "${suggestion}"? ` +
+        `Use "auo -- ${arg}" to pass it to Claude Code`
+    : null;
+}
+
+/**
+ * Check whether --add or --edit was given, which enables the provider field flags
+ */
+function isProvisioning(options: CLIOptions): boolean {
+  return (
+    options.addConfig === true || options.editIndex !== undefined || options.editName !== undefined
+  );
+}
+
 /**
  * Parse command line arguments into options object
+ * Usage: auo [auo options] [--] [Claude Code arguments]
+ * Without "--", auo options are read until the first argument that isn't one
  */
 export function parseArgs(args: string[]): CLIOptions {
   const options: CLIOptions = {};
 
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+  // Subcommands parse their own arguments
+  const [first, ...rest] = args;
+  if (first !== undefined && SUBCOMMANDS.includes(first)) {
+    options.command = first;
+    options.commandArgs = rest;
+    return options;
+  }
+
+  // Everything after "--" belongs to Claude Code, and only auo options may precede it
+  const separator = args.indexOf('--');
+  const strict = separator !== -1;
+  const auoArgs = strict ? args.slice(0, separator) : args;
+  let claudeStart = strict ? -1 : args.length;
+
+  for (let i = 0; i < auoArgs.length && (strict || claudeStart === args.length); i++) {
+    const arg = auoArgs[i];
+
+    // Provider fields are auo options once --add or --edit has been given
+    if (arg !== undefined && PROVIDER_FLAGS.includes(arg) && isProvisioning(options)) {
+      options.providerFields = options.providerFields || {};
+      const consumed = applyProviderFlag(options.providerFields, arg, auoArgs[i + 1]);
+      if (typeof consumed === 'string') {
+        options.error = consumed;
+        return options;
+      }
+      i += consumed;
+      continue;
+    }
 
     switch (arg) {
       case '--help':
@@ -27,53 +242,131 @@ export function parseArgs(args: string[]): CLIOptions {
         options.version = true;
         break;
       case '--use': {
-        // Get the next argument as index
-        const useIndexStr = args[i + 1];
-        if (useIndexStr !== undefined && !useIndexStr.startsWith('--')) {
-          const useIndex = parseInt(useIndexStr, 10);
-          if (!isNaN(useIndex)) {
-            options.useIndex = useIndex;
-            i++; // Skip next argument as it's the index
-          }
+        // Get the next argument as index or name
+        const target = parseTarget(args[i + 1]);
+        if (typeof target === 'number') {
+          options.useIndex = target;
+        }
+        if (typeof target === 'string' || (target !== undefined && target >= 0)) {
+          // Numeric targets keep their text too, it may be the name of a configuration
+          options.useName = String(args[i + 1]).trim();
+        }
+        if (target !== undefined) {
+          i++; // Skip next argument as it's the target
         }
         break;
       }
       case '--remove': {
-        // Get the next argument as index
-        const removeIndexStr = args[i + 1];
-        if (removeIndexStr !== undefined && !removeIndexStr.startsWith('--')) {
-          const removeIndex = parseInt(removeIndexStr, 10);
-          if (!isNaN(removeIndex)) {
-            options.removeIndex = removeIndex;
-            i++; // Skip next argument as it's the index
-          }
+        // Get the next argument as index or name
+        const target = parseTarget(args[i + 1]);
+        if (typeof target === 'number') {
+          options.removeIndex = target;
+        }
+        if (typeof target === 'string' || (target !== undefined && target >= 0)) {
+          // Numeric targets keep their text too, it may be the name of a configuration
+          options.removeName = String(args[i + 1]).trim();
+        }
+        if (target !== undefined) {
+          i++; // Skip next argument as it's the target
         }
         break;
       }
       case '--list':
         options.listConfigs = true;
         break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--proxy':
+        options.proxy = true;
+        break;
+      case '--proxy-transcripts':
+        options.proxy = true;
+        options.proxyTranscripts = true;
+        break;
+      case '--tag': {
+        const tag = auoArgs[i + 1];
+        if (tag === undefined || tag.startsWith('-') || !tag.trim()) {
+          options.error = '--tag requires a tag name';
+          return options;
+        }
+        options.listTag = tag.trim();
+        i++; // Skip next argument as it's the tag
+        break;
+      }
       case '--config-path':
         options.configPath = true;
         break;
       case '--add':
         options.addConfig = true;
         break;
+      case '--failover':
+        options.failover = true;
+        break;
+      case '--no-failover':
+        options.failover = false;
+        break;
+      case '--provider': {
+        const target = auoArgs[i + 1];
+        if (target === undefined || target.startsWith('-') || !target.trim()) {
+          options.error = '--provider requires a configuration name or index';
+          return options;
+        }
+        options.provider = target.trim();
+        i++; // Skip next argument as it's the provider
+        break;
+      }
       case '--edit': {
-        // Get the next argument as index
-        const editIndexStr = args[i + 1];
-        if (editIndexStr !== undefined && !editIndexStr.startsWith('--')) {
-          const editIndex = parseInt(editIndexStr, 10);
-          if (!isNaN(editIndex)) {
-            options.editIndex = editIndex;
-            i++; // Skip next argument as it's the index
-          }
+        // Get the next argument as index or name
+        const target = parseTarget(args[i + 1]);
+        if (typeof target === 'number') {
+          options.editIndex = target;
+        }
+        if (typeof target === 'string' || (target !== undefined && target >= 0)) {
+          // Numeric targets keep their text too, it may be the name of a configuration
+          options.editName = String(args[i + 1]).trim();
+        }
+        if (target !== undefined) {
+          i++; // Skip next argument as it's the target
         }
         break;
       }
+      default: {
+        if (arg === undefined) {
+          break;
+        }
+
+        if (arg.startsWith('--provider=')) {
+          options.provider = arg.slice('--provider='.length).trim();
+          if (!options.provider) {
+            options.error = '--provider requires a configuration name or index';
+            return options;
+          }
+          break;
+        }
+
+        const error = describeUnknownArg(arg, strict);
+        if (error) {
+          options.error = error;
+          return options;
+        }
+
+        // First argument that isn't auo's: it and everything after go to Claude Code
+        claudeStart = i;
+      }
     }
   }
 
+  if (options.listTag !== undefined && !options.listConfigs) {
+    options.error = '--tag filters --list, e.g. auo --list --tag work';
+    return options;
+  }
+  if (options.json && !options.listConfigs) {
+    options.error = '--json is only supported with --list (see also auo show and auo current)';
+    return options;
+  }
+
+  options.claudeArgs = args.slice(strict ? separator + 1 : claudeStart);
   return options;
 }
 
@@ -93,6 +386,7 @@ export function showHelp(): void {
 
 Usage:
   auo [options] [command]
+  auo [auo options] [--] [Claude Code arguments]
 
 Basic Commands:
   auo                         # Start Claude Code interactive mode
@@ -101,68 +395,293 @@ Basic Commands:
   auo --help, -h              # Show this help message
 
 Configuration Management:
-  auo --use <index>           # Switch to configuration at specified index
-  auo --remove <index>        # Remove configuration at specified index
-  auo --edit <index>          # Edit configuration at specified index
+  auo --use <index|name>      # Switch to configuration by index or name
+  auo --remove <index|name>   # Remove configuration by index or name
+  auo --edit <index|name>     # Edit configuration by index or name
   auo --list                  # List all configurations
+  auo --list --tag <tag>      # List configurations with a tag
+  auo --list --json           # List configurations as JSON (masked secrets, resolved env)
+  auo show <index|name>       # Show resolved env and where each value comes from
+  auo current [--json|--name] # Show the configuration used in this directory
+  auo --use @<group>          # Rotate launches through a group (same as auo rotate use)
   auo --add                   # Add a new configuration (interactive)
   auo --config-path           # Show config file path
+  auo --add --name <name> [--base-url <url>] [--model <model>] --token-stdin
+                              # Add a configuration without prompts (see Scripting)
+  auo --provider <name> "prompt"  # Use a configuration for this run only (or AUO_PROVIDER=<name>)
+  auo --provider @<group> "prompt"  # Pick from a group for this run only
+
+Export & Import:
+  auo export [file] [--redact|--encrypt|--plain]  # Write configurations to a bundle
+  auo import <file|-> [--replace] [--on-conflict skip|overwrite|rename] [--dry-run]
+  auo import --detect          # Add providers from ANTHROPIC_* variables and Claude settings
+
+Backups:
+  auo backups                 # List configuration snapshots taken before changes
+  auo backups diff <#|id>     # Show what restoring a snapshot would change
+  auo restore <#|id>          # Restore a snapshot
+
+Rotation:
+  auo rotate set <group> <name> [...]  # Group equivalent providers
+  auo rotate strategy <group> round-robin|weighted|least-recent|until-exhausted
+  auo rotate use <group>      # Spread launches across the group (auo rotate off to stop)
+  auo rotate exhausted <name> --until 5h  # Skip a provider until its quota resets
+
+Usage Stats:
+  auo stats                   # Sessions, time and tokens per provider
+  auo stats --by day|project  # ...per day or per project directory
+  auo stats --days 7 --json   # Last week as JSON
+
+Secrets:
+  auo secrets                 # Show where tokens are stored
+  auo secrets migrate         # Move plaintext tokens into the encrypted vault
+  auo secrets migrate --backend keychain  # ...or into the OS keychain
+
+Diagnostics:
+  auo doctor [index|name]     # Check DNS/TLS, latency, token and model of providers
+  auo doctor --json           # Print health check results as JSON
+
+Proxy:
+  auo --proxy "prompt"        # Route requests through a local proxy that logs them
+  auo --proxy-transcripts     # ...and save request/response bodies (secrets masked)
+  auo --proxy --failover      # Switch to the failover list mid-session on errors, 429 and 5xx
+  auo logs [--errors]         # Show proxied requests: status, latency, model, tokens
+  auo logs show <id>          # Show one request and its transcript
+
+Failover:
+  auo failover                # Show failover settings and last decision
+  auo failover enable|disable # Health-check providers before every launch
+  auo failover set <names...> # Set the ordered fallback list
+  auo --failover "prompt"     # Check and fail over for this run only
+  auo --no-failover "prompt"  # Skip failover checks for this run
+
+Scripting:
+  After --add or --edit <index|name>, these flags skip the prompts:
+    --name <name>  --description <text>  --base-url <url>  --model <model>
+    --token <token>     # Visible in shell history, prefer --token-stdin
+    --token-stdin       # Read the token from the first line of stdin
+    --env KEY=VALUE     # Set any variable (repeatable)
+    --unset-env KEY     # Remove a variable (--edit only, repeatable)
+    --tag <tag>         # Add a tag (repeatable)
+    --untag <tag>       # Remove a tag (--edit only, repeatable)
+    --extends <name>    # Inherit env and description from another configuration ("" to stop)
+    --model-map FROM=TO # Send model FROM as TO to this provider (repeatable)
+    --unset-model-map <from>  # Remove a model mapping (--edit only, repeatable)
+    --protocol <name>   # anthropic (default) or openai, reached through a translating proxy
+    --json-stdin        # Read {"name", "env", "tags", "extends", "models", "protocol", ...} from stdin; flags win
+  Validation errors exit with a non-zero code.
+    echo "$TOKEN" | auo --add --name relay --base-url https://relay.example.com --token-stdin
+    auo --edit relay --model opus --unset-env HTTPS_PROXY
+
+Arguments:
+  auo options are read until the first argument that isn't one; that argument and
+  everything after it are passed to Claude Code unchanged. Use "--" to make the
+  boundary explicit, e.g. to reach Claude Code's own -v/--help:
+    auo --provider official -- --version
+    auo --no-failover -- -p "explain this repo" --output-format json
+  Unknown options that look like auo's (e.g. --fialover) are rejected.
+
+Project Config:
+  A .auorc or .auo.json file in the current directory or any parent can pin a
+  provider for that project, override env and add default Claude arguments:
+    { "provider": "anyrouter", "env": { "ANTHROPIC_MODEL": "opus" }, "claudeArgs": ["--verbose"] }
+  Until you review it, only the provider and model variables in it apply; run:
+    auo trust                 # Trust the nearest project file (auo trust --list, --revoke)
+
+Environment Variables:
+  eval "$(auo env [target])"             # Export a configuration into the current shell
+  eval "$(auo env --unset)"              # Remove what auo env exported
+  eval "$(auo shell-hook bash)"          # Load project providers on cd (bash, zsh, fish, powershell)
+  eval "$(auo completion bash)"          # Tab completion for flags and names (bash, zsh, fish)
+  auo env set <target> KEY=VALUE [...]   # Set variables on a configuration
+  auo env unset <target> KEY [...]       # Remove variables from a configuration
+  auo env set @<group> KEY=VALUE [...]   # Defaults inherited by members of a group
+  auo env set --defaults KEY=VALUE [...] # Defaults inherited by every configuration
 
 Notes:
   • Claude Code will be installed automatically on first use
   • Config file is stored at ~/.auo/config.json
+  • Set AUO_VAULT_PASSPHRASE to unlock the vault without a prompt
+  • Set AUO_BUNDLE_PASSPHRASE to encrypt or open bundles without a prompt
   • Use config management to easily switch between different API endpoints and tokens
   • Use --list to see configuration indices before using --use or --remove
+  • Names can be given in full, as a unique prefix, or approximately (e.g. "anyr" or "anyrouter-2")
+  • --remove, --edit, env set/unset and failover set only accept a full name or unique prefix
 
 Examples:
   auo --add                   # Add a new API configuration
   auo --use 1                 # Switch to configuration at index 1
+  auo --use anyrouter         # Switch to the configuration named "anyrouter"
   auo --edit 1                # Edit configuration at index 1
   auo --remove 2              # Remove configuration at index 2
+  auo env set anyrouter API_TIMEOUT_MS=600000  # Set an extra variable
   auo "Write a React component" # Ask Claude with the current config`);
 }
 
+/**
+ * Resolve a command target given either as index or as name, names first
+ * Returns -1 when the name cannot be matched to a single configuration
+ * @param strict Only accept an exact name, unique prefix or index
+ */
+function resolveTargetIndex(
+  configManager: ConfigManager,
+  index: number | undefined,
+  name: string | undefined,
+  strict = false
+): number {
+  if (name !== undefined) {
+    return configManager.findConfigIndex(name, { strict });
+  }
+
+  return index ?? -1;
+}
+
+/**
+ * List configurations, marking the active one and the source that decided it
+ * @param options.tag Only list configurations with this tag
+ * @param options.json Print summaries as JSON instead
+ */
+function listConfigurations(
+  configManager: ConfigManager,
+  override: ProviderOverride | undefined,
+  options: { tag?: string; json?: boolean } = {}
+): void {
+  const { tag, json } = options;
+  const configs = configManager.getAllConfigs();
+
+  let active: ActiveProvider;
+  try {
+    active = resolveActiveProvider(
+      configManager,
+      loadProjectConfig(process.cwd(), configManager.getStateStore()),
+      override
+    );
+  } catch (error) {
+    console.warn(`⚠️  ${error instanceof Error ? error.message : String(error)}`);
+    active = resolveActiveProvider(configManager, null);
+  }
+
+  // Indices stay those of the full list so they still work with --use
+  const listed = configs
+    .map((cfg, idx) => ({ cfg, idx }))
+    .filter(({ cfg }) => tag === undefined || cfg.tags?.includes(tag));
+
+  if (json) {
+    const summaries = listed.map(({ cfg, idx }) =>
+      summarizeProvider(configManager, cfg, idx, idx === active.index)
+    );
+    console.log(JSON.stringify(summaries, null, 2));
+    return;
+  }
+
+  if (configs.length === 0) {
+    console.log('No configurations found. Use --add to create one.');
+    return;
+  }
+  if (listed.length === 0) {
+    console.log(`No configurations tagged "${tag}".`);
+    return;
+  }
+
+  const source = describeActiveSource(active);
+  console.log(tag === undefined ? 'Available configurations:' : `Configurations tagged ${tag}:`);
+  listed.forEach(({ cfg, idx }) => {
+    const current = idx === active.index ? ` (current, from ${source})` : '';
+    const tags = cfg.tags?.length ? ` [${cfg.tags.join(', ')}]` : '';
+    console.log(
+      `  [${idx}] ${cfg.name}${cfg.description ? ` - ${cfg.description}` : ''}${tags}${current}`
+    );
+  });
+
+  if (active.source === 'global' && active.projectFile) {
+    console.log(`📁 Project config ${active.projectFile} overrides env and arguments only`);
+  }
+}
+
+/**
+ * Get the provider chosen for this run only: --provider wins over AUO_PROVIDER
+ */
+export function getProviderOverride(
+  options: CLIOptions,
+  env: NodeJS.ProcessEnv = process.env
+): ProviderOverride | undefined {
+  if (options.provider !== undefined) {
+    return { name: options.provider, origin: '--provider' };
+  }
+
+  const fromEnv = env[PROVIDER_ENV]?.trim();
+  return fromEnv ? { name: fromEnv, origin: PROVIDER_ENV } : undefined;
+}
+
+/**
+ * Run a non-interactive add/edit, turning failures into a non-zero exit code
+ */
+async function runScripted(action: () => Promise<boolean>): Promise<void> {
+  try {
+    if (!(await action())) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
 /**
  * Handle configuration-related commands
  */
-export function handleConfigCommands(options: CLIOptions, configManager: ConfigManager): boolean {
-  if (options.useIndex !== undefined) {
-    const config = configManager.switchToIndex(options.useIndex);
+export async function handleConfigCommands(
+  options: CLIOptions,
+  configManager: ConfigManager
+): Promise<boolean> {
+  if (options.useName?.startsWith('@')) {
+    const group = options.useName.slice(1);
+    if (configManager.setActiveGroup(group)) {
+      console.log(
+        `✅ Launches now rotate through group ${group}, next: ${configManager.getCurrentConfig().name}`
+      );
+    } else {
+      process.exitCode = 1;
+    }
+    return true;
+  }
+
+  if (options.useIndex !== undefined || options.useName !== undefined) {
+    const index = resolveTargetIndex(configManager, options.useIndex, options.useName);
+    if (index === -1) {
+      process.exitCode = 1;
+      return true;
+    }
+
+    const config = configManager.switchToIndex(index);
     if (config) {
       console.log(
-        `✅ Switched to config [${options.useIndex}]: ${config.name} - ${config.description || 'No description'}`
+        `✅ Switched to config [${index}]: ${config.name} - ${config.description || 'No description'}`
       );
       console.log(`   Base URL: ${config.env.ANTHROPIC_BASE_URL || '(not set)'}`);
       console.log(`   Token: ${config.env.ANTHROPIC_AUTH_TOKEN ? 'set' : 'not set'}`);
       console.log(`   Model: ${config.env.ANTHROPIC_MODEL || 'not set'}`);
     } else {
       const allConfigs = configManager.getAllConfigs();
-      console.error(
-        `❌ Invalid index ${options.useIndex}. Must be between 0 and ${allConfigs.length - 1}`
-      );
+      console.error(`❌ Invalid index ${index}. Must be between 0 and ${allConfigs.length - 1}`);
+      process.exitCode = 1;
     }
     return true;
   }
 
-  if (options.removeIndex !== undefined) {
-    configManager.removeConfigByIndex(options.removeIndex);
+  if (options.removeIndex !== undefined || options.removeName !== undefined) {
+    const index = resolveTargetIndex(configManager, options.removeIndex, options.removeName, true);
+    if (index === -1 || !configManager.removeConfigByIndex(index)) {
+      process.exitCode = 1;
+    }
     return true;
   }
 
   if (options.listConfigs) {
-    const configs = configManager.getAllConfigs();
-    if (configs.length === 0) {
-      console.log('No configurations found. Use --add to create one.');
-    } else {
-      console.log('Available configurations:');
-      configs.forEach((cfg, idx) => {
-        const currentConfig = configManager.getCurrentConfig();
-        const current = cfg === currentConfig ? ' (current)' : '';
-        console.log(
-          `  [${idx}] ${cfg.name}${cfg.description ? ` - ${cfg.description}` : ''}${current}`
-        );
-      });
-    }
+    listConfigurations(configManager, getProviderOverride(options), {
+      ...(options.listTag !== undefined ? { tag: options.listTag } : {}),
+      json: options.json === true,
+    });
     return true;
   }
 
@@ -172,12 +691,24 @@ export function handleConfigCommands(options: CLIOptions, configManager: ConfigM
   }
 
   if (options.addConfig) {
-    addConfigInteractive(configManager);
+    if (options.providerFields) {
+      await runScripted(() => addConfigScripted(options.providerFields || {}, configManager));
+    } else {
+      addConfigInteractive(configManager);
+    }
     return true;
   }
 
-  if (options.editIndex !== undefined) {
-    editConfigInteractive(configManager, options.editIndex);
+  if (options.editIndex !== undefined || options.editName !== undefined) {
+    const index = resolveTargetIndex(configManager, options.editIndex, options.editName, true);
+    if (index === -1) {
+      process.exitCode = 1;
+    } else if (options.providerFields) {
+      const fields = options.providerFields;
+      await runScripted(() => editConfigScripted(fields, configManager, index));
+    } else {
+      editConfigInteractive(configManager, index);
+    }
     return true;
   }
 
@@ -185,7 +716,72 @@ export function handleConfigCommands(options: CLIOptions, configManager: ConfigM
 }
 
 /**
- * Interactive prompt to add a new configuration (v2 format)
+ * Dispatch a subcommand to its handler
+ */
+export async function handleSubcommand(
+  command: string,
+  args: string[],
+  configManager: ConfigManager
+): Promise<void> {
+  switch (command) {
+    case 'backups':
+      handleBackupsCommand(args, configManager);
+      break;
+    case 'restore':
+      handleRestoreCommand(args, configManager);
+      break;
+    case 'doctor':
+      await handleDoctorCommand(args, configManager, setupEnvironment);
+      break;
+    case 'env':
+      await handleEnvCommand(args, configManager, getProviderOverride({}));
+      break;
+    case 'shell-hook':
+      handleShellHookCommand(args);
+      break;
+    case 'completion':
+      handleCompletionCommand(args, configManager, {
+        subcommands: SUBCOMMANDS,
+        flags: AUO_FLAGS,
+        providerFlags: PROVIDER_FLAGS,
+        claudeFlags: CLAUDE_FLAGS,
+      });
+      break;
+    case 'export':
+      await handleExportCommand(args, configManager);
+      break;
+    case 'import':
+      await handleImportCommand(args, configManager);
+      break;
+    case 'failover':
+      handleFailoverCommand(args, configManager);
+      break;
+    case 'secrets':
+      await handleSecretsCommand(args, configManager);
+      break;
+    case 'stats':
+      handleStatsCommand(args, configManager);
+      break;
+    case 'logs':
+      handleLogsCommand(args, configManager);
+      break;
+    case 'show':
+      handleShowCommand(args, configManager);
+      break;
+    case 'current':
+      handleCurrentCommand(args, configManager, getProviderOverride({}));
+      break;
+    case 'rotate':
+      handleRotateCommand(args, configManager);
+      break;
+    case 'trust':
+      handleTrustCommand(args, configManager);
+      break;
+  }
+}
+
+/**
+ * Interactive prompt to add a new configuration (v3 format)
  */
 export function addConfigInteractive(configManager: ConfigManager): void {
   const rl = readline.createInterface({
@@ -196,6 +792,7 @@ export function addConfigInteractive(configManager: ConfigManager): void {
   rl.question('Config name: ', (name) => {
     if (!name.trim()) {
       console.log('❌ Config name cannot be empty');
+      process.exitCode = 1;
       rl.close();
       return;
     }
@@ -214,13 +811,15 @@ export function addConfigInteractive(configManager: ConfigManager): void {
               },
             };
 
-            const success = configManager.addConfig(configParams);
-
-            if (success) {
-              console.log(`✅ Config "${name}" added successfully!`);
-            }
-
+            // Closed first, unlocking the vault may prompt on the terminal
             rl.close();
+            void prepareSecretWrites(configManager, configParams.env).then((ready) => {
+              if (ready && configManager.addConfig(configParams)) {
+                console.log(`✅ Config "${name}" added successfully!`);
+              } else {
+                process.exitCode = 1;
+              }
+            });
           });
         });
       });
@@ -229,7 +828,7 @@ export function addConfigInteractive(configManager: ConfigManager): void {
 }
 
 /**
- * Interactive prompt to edit an existing configuration (v2 format)
+ * Interactive prompt to edit an existing configuration (v3 format)
  */
 export function editConfigInteractive(configManager: ConfigManager, index: number): void {
   const allConfigs = configManager.getAllConfigs();
@@ -272,7 +871,7 @@ export function editConfigInteractive(configManager: ConfigManager, index: numbe
                   const oldName = currentConfig.name;
 
                   // Build updates object - only include changed values
-                  const updates: Partial<ConfigItemV2> = {};
+                  const updates: Partial<ConfigItemV3> = {};
 
                   if (name.trim() && name.trim() !== currentConfig.name) {
                     updates.name = name.trim();
@@ -318,15 +917,17 @@ export function editConfigInteractive(configManager: ConfigManager, index: numbe
                     return;
                   }
 
-                  const success = configManager.updateConfig(oldName, updates);
-
-                  if (success) {
-                    console.log(
-                      `✅ Configuration "${updates.name || oldName}" updated successfully!`
-                    );
-                  }
-
+                  // Closed first, unlocking the vault may prompt on the terminal
                   rl.close();
+                  void prepareSecretWrites(configManager, updates.env || {}).then((ready) => {
+                    if (ready && configManager.updateConfig(oldName, updates)) {
+                      console.log(
+                        `✅ Configuration "${updates.name || oldName}" updated successfully!`
+                      );
+                    } else {
+                      process.exitCode = 1;
+                    }
+                  });
                 }
               );
             }
@@ -338,40 +939,65 @@ export function editConfigInteractive(configManager: ConfigManager, index: numbe
 }
 
 /**
- * Set environment variables based on configuration (v2 format)
+ * Set environment variables based on configuration (v3 format)
+ * Secret references and ${env:...}, ${file:...} and ${cmd:...} values are resolved here,
+ * right before the child process env is built. Model variables are translated with the
+ * provider's model map, except behind the proxy, which translates each request for the provider
+ * that serves it
+ * @param proxy Local proxy Claude Code talks to instead of the provider's base URL, with the
+ * session token that replaces the provider's credentials
  */
-export function setupEnvironment(config: ConfigItemV2): EnvironmentVariables {
+export function setupEnvironment(
+  config: ConfigItemV3,
+  secrets?: SecretResolver,
+  proxy?: Pick<RunningProxy, 'url' | 'token'>
+): EnvironmentVariables {
   const env: EnvironmentVariables = {};
+  const resolver = secrets || new SecretResolver([]);
 
   // Ensure config.env exists before accessing its properties
   if (!config.env) {
     return env;
   }
 
-  // Set environment variables from config.env
-  if (config.env.ANTHROPIC_BASE_URL) {
-    env.ANTHROPIC_BASE_URL = config.env.ANTHROPIC_BASE_URL;
-  }
-  if (config.env.ANTHROPIC_AUTH_TOKEN) {
-    env.ANTHROPIC_AUTH_TOKEN = config.env.ANTHROPIC_AUTH_TOKEN;
+  // Set every non-empty variable from config.env
+  for (const [key, value] of Object.entries(config.env)) {
+    if (!value) {
+      continue;
+    }
+
+    if (!secrets && parseSecretReference(value)) {
+      throw new Error(`${key} of "${config.name}" refers to a stored secret that was not resolved`);
+    }
+    env[key] = resolver.resolveValue(key, value);
   }
-  if (config.env.ANTHROPIC_MODEL) {
-    env.ANTHROPIC_MODEL = config.env.ANTHROPIC_MODEL;
+
+  if (proxy !== undefined) {
+    env.ANTHROPIC_BASE_URL = proxy.url;
+    // Claude Code only gets the session token, the proxy adds the provider's credentials
+    const credentials = ['ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_API_KEY'].filter((key) => env[key]);
+    credentials.forEach((key) => (env[key] = proxy.token));
+    if (credentials.length === 0) {
+      // Claude Code signs in on its own, so the token goes in a header of its own
+      env.ANTHROPIC_CUSTOM_HEADERS = [
+        env.ANTHROPIC_CUSTOM_HEADERS,
+        `${PROXY_TOKEN_HEADER}: ${proxy.token}`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+    }
+  } else {
+    mapModelEnvironment(env, config.models);
   }
 
   return env;
 }
 
 /**
- * Show current configuration information (v2 format)
+ * Show current configuration information (v3 format)
  */
-export function showCurrentConfig(config: ConfigItemV2): void {
-  if (
-    config.name !== 'default' ||
-    config.env.ANTHROPIC_BASE_URL ||
-    config.env.ANTHROPIC_AUTH_TOKEN ||
-    config.env.ANTHROPIC_MODEL
-  ) {
+export function showCurrentConfig(config: ConfigItemV3, active?: ActiveProvider): void {
+  if (config.name !== 'default' || Object.values(config.env).some(Boolean)) {
     console.log(
       `🔧 Current config: ${config.name}${config.description ? ` - ${config.description}` : ''}`
     );
@@ -379,6 +1005,65 @@ export function showCurrentConfig(config: ConfigItemV2): void {
     const model = config.env.ANTHROPIC_MODEL || 'not set';
     console.log(`   Using model: ${model}`);
   }
+
+  if (active?.overrideOrigin) {
+    console.log(`   Selected by ${active.overrideOrigin} for this run only`);
+  }
+  if (active?.group !== undefined) {
+    console.log(`   Picked from group ${active.group}`);
+  }
+  if (active?.projectFile) {
+    console.log(`📁 Project config: ${active.projectFile}`);
+  }
+  if (active?.ignoredProjectKeys) {
+    console.warn(
+      `⚠️  Ignoring ${active.ignoredProjectKeys.join(', ')} from the untrusted project config, review it and run "auo trust" to allow them`
+    );
+  }
+}
+
+/**
+ * Start the local proxy for a launch, returning the URL and session token Claude Code should use
+ * @param providers Serving provider first, then fallbacks; fallbacks whose env can't be built
+ * are left out
+ */
+async function startLaunchProxy(
+  configManager: ConfigManager,
+  providers: ConfigItemV3[],
+  buildEnv: (config: ConfigItemV3) => EnvironmentVariables,
+  transcripts: boolean
+): Promise<RunningProxy> {
+  const upstreams = providers.flatMap((config, index) => {
+    try {
+      const { models, protocol } = configManager.resolveConfig(config);
+      return [
+        {
+          provider: config.name,
+          env: buildEnv(config),
+          ...(models ? { models } : {}),
+          ...(protocol ? { protocol } : {}),
+        },
+      ];
+    } catch (error) {
+      if (index === 0) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Proxy skips fallback ${config.name}: ${reason}`);
+      return [];
+    }
+  });
+
+  const proxy = await startProxy({ upstreams, transcripts }, getProxyLog(configManager));
+  const [primary, ...fallbacks] = upstreams;
+  const translated = primary?.protocol === 'openai' ? ' as OpenAI chat completions' : '';
+  console.log(
+    `🛰️  Proxying ${primary?.env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL}${translated} through ${proxy.url} (see auo logs)`
+  );
+  if (fallbacks.length > 0) {
+    console.log(`   Fails over to ${fallbacks.map((upstream) => upstream.provider).join(', ')}`);
+  }
+  return proxy;
 }
 
 /**
@@ -388,6 +1073,12 @@ export async function handleCLI(args: string[]): Promise<void> {
   const configManager = new ConfigManager();
   const options = parseArgs(args);
 
+  // Handle subcommands
+  if (options.command !== undefined) {
+    await handleSubcommand(options.command, options.commandArgs || [], configManager);
+    return;
+  }
+
   // Handle auo's own commands
   if (options.version) {
     showVersion();
@@ -399,19 +1090,81 @@ export async function handleCLI(args: string[]): Promise<void> {
     return;
   }
 
+  if (options.error !== undefined) {
+    console.error(`❌ ${options.error}`);
+    console.error('💡 Run "auo --help" to see auo options');
+    process.exit(1);
+  }
+
   // Handle configuration-related commands
-  if (handleConfigCommands(options, configManager)) {
+  if (await handleConfigCommands(options, configManager)) {
     return;
   }
 
   try {
+    // One-shot override wins over the project file (nearest .auorc / .auo.json),
+    // which is layered over the global selection
+    const project = loadProjectConfig(process.cwd(), configManager.getStateStore());
+    const active = resolveActiveProvider(
+      configManager,
+      project,
+      getProviderOverride(options),
+      true
+    );
+    let currentConfig = active.config;
+    const failoverSettings = configManager.getFailoverSettings();
+    const useFailover = options.failover ?? failoverSettings.enabled;
+
+    // Unlock secret storage for every provider that may be launched
+    const candidates = useFailover
+      ? configManager
+          .getAllConfigs()
+          .filter(
+            (cfg) =>
+              cfg.name === currentConfig.name || failoverSettings.providers.includes(cfg.name)
+          )
+      : [currentConfig];
+    const resolve = (config: ConfigItemV3) =>
+      applyProjectConfig(configManager.resolveConfig(config), project);
+    const secrets = await createSecretResolver(configManager, candidates.map(resolve));
+    const buildEnv = (config: ConfigItemV3) => setupEnvironment(resolve(config), secrets);
+
+    // Health-check and fall back to another provider if requested
+    if (useFailover) {
+      const selected = await selectFailoverProvider(configManager, currentConfig, buildEnv);
+      if (!selected) {
+        process.exit(1);
+      }
+      currentConfig = selected;
+    }
+
     // Show current configuration info (only in non-silent mode)
-    const currentConfig = configManager.getCurrentConfig();
-    showCurrentConfig(currentConfig);
+    showCurrentConfig(currentConfig, active);
 
-    // Set environment variables and run Claude Code
-    const env = setupEnvironment(currentConfig);
-    runClaudeCode(args, env);
+    // Set environment variables and run Claude Code, project arguments first
+    let env = buildEnv(currentConfig);
+    let claudeArgs = [...getProjectClaudeArgs(project), ...(options.claudeArgs || [])];
+    // OpenAI-compatible providers are only reachable through the translating proxy
+    if (options.proxy || resolve(currentConfig).protocol === 'openai') {
+      // With failover on, the proxy also moves to the next provider mid-session
+      const fallbacks = useFailover
+        ? failoverSettings.providers
+            .filter((name) => name !== currentConfig.name)
+            .map((name) => configManager.getConfig(name))
+            .filter((config): config is ConfigItemV3 => config !== null)
+        : [];
+      const proxy = await startLaunchProxy(
+        configManager,
+        [currentConfig, ...fallbacks],
+        buildEnv,
+        options.proxyTranscripts === true
+      );
+      env = setupEnvironment(resolve(currentConfig), secrets, proxy);
+    } else {
+      claudeArgs = mapModelArgs(claudeArgs, resolve(currentConfig).models);
+    }
+    const endSession = startSessionLog(configManager, currentConfig.name, claudeArgs, env);
+    runClaudeCode(claudeArgs, env, endSession);
   } catch (error) {
     if (error instanceof Error) {
       console.error('❌ Error:', error.message);
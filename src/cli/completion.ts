@@ -0,0 +1,237 @@
+import { ConfigManager } from '../config/manager';
+import { ROTATION_STRATEGIES } from '../config/rotation';
+import { PROVIDER_PROTOCOLS } from '../config/types';
+import { SHELL_NAMES, getCompletionScript, parseShellName } from '../utils/shell';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Argument after which the rest of the command line is completed
+ */
+const COMPLETE_FLAG = '--complete';
+
+/**
+ * Words auo itself accepts, passed in by the command dispatcher
+ */
+export interface CompletionSpec {
+  subcommands: string[];
+  /** auo options */
+  flags: string[];
+  /** Options accepted after --add / --edit */
+  providerFlags: string[];
+  /** Claude Code options, forwarded as they are */
+  claudeFlags: string[];
+}
+
+/**
+ * Values read from the configuration
+ */
+interface CompletionValues {
+  providers: string[];
+  groups: string[];
+  tags: string[];
+}
+
+/**
+ * Show usage of the completion subcommand
+ */
+function showCompletionUsage(): void {
+  console.log(`Usage:
+  auo completion <bash|zsh|fish>   # Print a completion script
+
+Add to your shell startup file:
+  bash (~/.bashrc):     eval "$(auo completion bash)"
+  zsh (~/.zshrc):       eval "$(auo completion zsh)"
+  fish (config.fish):   auo completion fish | source
+
+Configuration names, tags and @groups are completed from your configuration.`);
+}
+
+/**
+ * Read completion values from the configuration
+ */
+function readCompletionValues(configManager: ConfigManager): CompletionValues {
+  const providers = configManager.getAllConfigs();
+  return {
+    providers: providers.map((cfg) => cfg.name),
+    groups: Object.keys(configManager.getGroups()),
+    tags: [...new Set(providers.flatMap((cfg) => cfg.tags || []))],
+  };
+}
+
+/**
+ * Complete the arguments of a subcommand
+ * @param args Complete words after the subcommand
+ */
+function completeSubcommand(command: string, args: string[], values: CompletionValues): string[] {
+  const { providers } = values;
+  const targets = [...providers, ...values.groups.map((group) => `@${group}`)];
+  const [action] = args;
+  const previous = args[args.length - 1];
+
+  switch (command) {
+    case 'show':
+      return args.length === 0 ? providers : ['--json'];
+    case 'current':
+      return ['--json', '--name'];
+    case 'doctor':
+      if (previous === '--timeout' || previous === '--model') {
+        return [];
+      }
+      return [...(args.length === 0 ? providers : []), '--json', '--timeout', '--model'];
+    case 'env':
+      if (action === 'set' || action === 'unset') {
+        return args.length === 1 ? [...targets, '--defaults'] : [];
+      }
+      if (previous === '--shell') {
+        return SHELL_NAMES;
+      }
+      return [...(args.length === 0 ? ['set', 'unset'] : []), ...targets, '--shell', '--unset'];
+    case 'completion':
+      return args.length === 0 ? ['bash', 'zsh', 'fish'] : [];
+    case 'shell-hook':
+      return args.length === 0 ? SHELL_NAMES : [];
+    case 'rotate':
+      if (args.length === 0) {
+        return ['set', 'strategy', 'weight', 'delete', 'use', 'off', 'exhausted', 'available'];
+      }
+      if (['set', 'strategy', 'weight', 'delete', 'use'].includes(action as string)) {
+        if (args.length === 1) {
+          return values.groups;
+        }
+        if (action === 'strategy') {
+          return args.length === 2 ? ROTATION_STRATEGIES : [];
+        }
+        return action === 'set' || (action === 'weight' && args.length === 2) ? providers : [];
+      }
+      if (action === 'exhausted' || action === 'available') {
+        return args.length === 1 ? providers : action === 'exhausted' ? ['--until'] : [];
+      }
+      return [];
+    case 'failover':
+      if (args.length === 0) {
+        return ['enable', 'disable', 'set', 'timeout'];
+      }
+      return action === 'set' ? providers : [];
+    case 'secrets':
+      if (previous === '--backend') {
+        return ['vault', 'keychain'];
+      }
+      return args.length === 0 ? ['migrate'] : action === 'migrate' ? ['--backend'] : [];
+    case 'stats':
+      if (previous === '--by') {
+        return ['provider', 'day', 'project'];
+      }
+      return previous === '--days' ? [] : ['--by', '--days', '--json'];
+    case 'logs':
+      if (previous === '--provider') {
+        return providers;
+      }
+      if (previous === '--limit' || action === 'show') {
+        return [];
+      }
+      return [
+        ...(args.length === 0 ? ['show'] : []),
+        '--limit',
+        '--provider',
+        '--errors',
+        '--json',
+      ];
+    case 'backups':
+      return args.length === 0 ? ['diff'] : [];
+    case 'trust':
+      return args.length === 0 ? ['--list', '--revoke'] : [];
+    case 'export':
+      return ['--redact', '--encrypt', '--plain'];
+    case 'import':
+      if (previous === '--on-conflict') {
+        return ['skip', 'overwrite', 'rename'];
+      }
+      return ['--replace', '--on-conflict', '--dry-run', '--detect', '--yes'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get candidates for the word after the given ones; the shell filters them by what was typed
+ * An empty result lets the shell fall back to its default (file names)
+ * @param words Complete words typed after "auo"
+ */
+export function getCompletions(
+  words: string[],
+  spec: CompletionSpec,
+  values: CompletionValues
+): string[] {
+  const [first, ...rest] = words;
+  if (first !== undefined && spec.subcommands.includes(first)) {
+    return completeSubcommand(first, rest, values);
+  }
+
+  // Everything after "--" belongs to Claude Code
+  if (words.includes('--')) {
+    return spec.claudeFlags;
+  }
+
+  const previous = words[words.length - 1];
+  const provisioning = words.includes('--add') || words.includes('--edit');
+  switch (previous) {
+    case '--use':
+    case '--provider':
+      return [...values.providers, ...values.groups.map((group) => `@${group}`)];
+    case '--remove':
+    case '--edit':
+    case '--extends':
+      return values.providers;
+    case '--tag':
+    case '--untag':
+      return values.tags;
+    case '--protocol':
+      return PROVIDER_PROTOCOLS;
+  }
+  // Other provider flags take free-form values, except the --*-stdin switches
+  const takesValue =
+    previous !== undefined && spec.providerFlags.includes(previous) && !previous.endsWith('-stdin');
+  if (provisioning && takesValue) {
+    return [];
+  }
+
+  return [
+    ...(words.length === 0 ? spec.subcommands : []),
+    ...spec.flags,
+    ...(provisioning ? spec.providerFlags : []),
+    ...spec.claudeFlags,
+  ];
+}
+
+/**
+ * Handle `auo completion <shell>` and the `--complete` callback used by the scripts
+ */
+export function handleCompletionCommand(
+  args: string[],
+  configManager: ConfigManager,
+  spec: CompletionSpec
+): void {
+  const [first] = args;
+
+  if (first === COMPLETE_FLAG) {
+    const values = readCompletionValues(configManager);
+    const candidates = [...new Set(getCompletions(args.slice(1), spec, values))];
+    candidates.forEach((candidate) => console.log(candidate));
+    return;
+  }
+
+  const shell = first !== undefined ? parseShellName(first) : null;
+  if (!shell || shell === 'powershell' || args.length > 1) {
+    showCompletionUsage();
+    if (first === undefined || !HELP_FLAGS.includes(first)) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  console.log(getCompletionScript(shell));
+}
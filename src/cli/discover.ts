@@ -0,0 +1,168 @@
+import readline from 'readline';
+import { ConfigManager } from '../config/manager';
+import {
+  detectClaudeSettings,
+  detectShellEnvironment,
+  getClaudeSettingsPath,
+  planDetectedImport,
+  tokenFingerprint,
+} from '../config/discovery';
+import { formatTable } from '../utils/table';
+import { SecretResolver } from '../config/secrets';
+import { createSecretResolver, prepareSecretWrites } from './secrets';
+import type { DetectedProvider } from '../config/discovery';
+import type { ConfigEnvironment, ConfigItemV3 } from '../config/types';
+
+/**
+ * Where providers are detected from
+ */
+export interface DetectionSources {
+  /** Shell environment to read ANTHROPIC_* variables from */
+  env: NodeJS.ProcessEnv;
+  /** Claude Code settings file */
+  settingsFile: string;
+}
+
+/**
+ * Ask a yes/no question, defaulting to no
+ */
+export function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+/**
+ * Build a reader of the env each existing provider actually runs with, so a detected provider
+ * matches one storing its token as a reference or inheriting its base URL
+ * A locked vault only leaves its secrets unresolved
+ */
+async function createEffectiveEnvReader(
+  configManager: ConfigManager
+): Promise<(provider: ConfigItemV3) => ConfigEnvironment> {
+  const resolved = (provider: ConfigItemV3) => configManager.resolveConfig(provider);
+  let secrets: SecretResolver;
+  try {
+    const providers = configManager.getAllConfigs().map((provider) => {
+      try {
+        return resolved(provider);
+      } catch {
+        return provider;
+      }
+    });
+    secrets = await createSecretResolver(configManager, providers);
+  } catch (error) {
+    console.warn(`⚠️  ${error instanceof Error ? error.message : String(error)}`);
+    secrets = new SecretResolver([]);
+  }
+
+  return (provider) => {
+    const env: ConfigEnvironment = {};
+    for (const [key, value] of Object.entries(resolved(provider).env)) {
+      if (value) {
+        try {
+          env[key] = secrets.resolveValue(key, value);
+        } catch {
+          env[key] = value;
+        }
+      }
+    }
+    return env;
+  };
+}
+
+/**
+ * Print detected providers the way they would be added
+ */
+function printPreview(providers: DetectedProvider[]): void {
+  console.log(
+    formatTable(
+      ['Name', 'Base URL', 'Token', 'Variables', 'Source'],
+      providers.map(({ config, source }) => {
+        const token = config.env.ANTHROPIC_AUTH_TOKEN || config.env.ANTHROPIC_API_KEY || '';
+        return [
+          config.name,
+          config.env.ANTHROPIC_BASE_URL || '(default)',
+          `#${tokenFingerprint(token)}`,
+          Object.keys(config.env).length,
+          source,
+        ];
+      })
+    )
+  );
+}
+
+/**
+ * Handle `auo import --detect`: find providers in the shell environment and Claude Code
+ * settings, preview them and add the new ones
+ */
+export async function handleDetectImport(
+  args: string[],
+  configManager: ConfigManager,
+  sources: DetectionSources = { env: process.env, settingsFile: getClaudeSettingsPath() }
+): Promise<void> {
+  const unknown = args.find((arg) => !['--yes', '-y', '--dry-run'].includes(arg));
+  if (unknown !== undefined) {
+    console.error(`❌ Unknown argument "${unknown}" for import --detect`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const detected = [
+    detectShellEnvironment(sources.env),
+    detectClaudeSettings(sources.settingsFile),
+  ].filter((provider): provider is DetectedProvider => provider !== null);
+
+  if (detected.length === 0) {
+    console.log('ℹ️  No provider found in ANTHROPIC_* variables or ' + sources.settingsFile);
+    return;
+  }
+
+  const plan = planDetectedImport(
+    configManager.getAllConfigs(),
+    detected,
+    await createEffectiveEnvReader(configManager)
+  );
+  plan.duplicates.forEach(({ detected: duplicate, matches }) => {
+    console.log(`   Skipping ${duplicate.source}: same base URL and token as "${matches}"`);
+  });
+
+  if (plan.toAdd.length === 0) {
+    console.log('✅ Everything found is already configured');
+    return;
+  }
+
+  console.log(`🔎 Found ${plan.toAdd.length} new provider(s):`);
+  printPreview(plan.toAdd);
+
+  if (args.includes('--dry-run')) {
+    return;
+  }
+
+  if (!args.includes('--yes') && !args.includes('-y')) {
+    if (!process.stdin.isTTY) {
+      console.log('💡 Re-run with --yes to add them');
+      return;
+    }
+    if (!(await confirm(`Add ${plan.toAdd.length} configuration(s)? [y/N] `))) {
+      console.log('ℹ️  Nothing added');
+      return;
+    }
+  }
+
+  const env = Object.assign({}, ...plan.toAdd.map(({ config }) => config.env));
+  if (!(await prepareSecretWrites(configManager, env))) {
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const { config } of plan.toAdd) {
+    if (!configManager.addConfig(config)) {
+      process.exitCode = 1;
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import { ConfigManager } from '../config/manager';
+import { SecretResolver } from '../config/secrets';
+import { DEFAULT_BASE_URL, DEFAULT_PROBE_MODEL, diagnoseProvider } from '../utils/health';
+import { formatTable } from '../utils/table';
+import { createSecretResolver } from './secrets';
+import type { CheckStatus, ConfigItemV3, EnvironmentVariables, ProviderDiagnosis } from '../types';
+
+/**
+ * Options of the doctor subcommand
+ */
+interface DoctorOptions {
+  target?: string;
+  json: boolean;
+  timeout?: number;
+  model?: string;
+}
+
+/**
+ * Show usage of the doctor subcommand
+ */
+function showDoctorUsage(): void {
+  console.log(`Usage:
+  auo doctor [index|name] [options]   # Check one provider, or all when omitted
+
+Options:
+  --json            Print results as JSON
+  --timeout <ms>    Request timeout per provider (default 10000)
+  --model <model>   Model to request instead of ANTHROPIC_MODEL`);
+}
+
+/**
+ * Parse doctor arguments, returning null when they are invalid
+ */
+function parseDoctorArgs(args: string[]): DoctorOptions | null {
+  const options: DoctorOptions = { json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--json':
+        options.json = true;
+        break;
+      case '--timeout': {
+        const timeout = Number(args[++i]);
+        if (!Number.isInteger(timeout) || timeout <= 0) {
+          console.error('❌ --timeout must be a positive number of milliseconds');
+          return null;
+        }
+        options.timeout = timeout;
+        break;
+      }
+      case '--model': {
+        const model = args[++i];
+        if (!model) {
+          console.error('❌ --model requires a value');
+          return null;
+        }
+        options.model = model;
+        break;
+      }
+      default:
+        if (arg === undefined || arg.startsWith('-') || options.target !== undefined) {
+          console.error(`❌ Unexpected argument "${arg}"`);
+          return null;
+        }
+        options.target = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Render a check status for the table
+ */
+function formatCheck(status: CheckStatus): string {
+  return status === 'ok' ? 'ok' : status === 'fail' ? 'FAIL' : '-';
+}
+
+/**
+ * Print diagnoses as a table followed by failure details
+ */
+export function printDiagnosisTable(diagnoses: ProviderDiagnosis[]): void {
+  console.log(
+    formatTable(
+      ['Name', 'DNS', 'TLS', 'Latency', 'HTTP', 'Token', 'Model', 'Result'],
+      diagnoses.map((diagnosis) => [
+        diagnosis.name,
+        formatCheck(diagnosis.dns),
+        formatCheck(diagnosis.tls),
+        `${diagnosis.latencyMs}ms`,
+        diagnosis.status ?? '-',
+        formatCheck(diagnosis.tokenAccepted),
+        formatCheck(diagnosis.modelServed),
+        diagnosis.healthy ? 'healthy' : 'UNHEALTHY',
+      ])
+    )
+  );
+
+  const failures = diagnoses.filter((diagnosis) => diagnosis.error);
+  if (failures.length > 0) {
+    console.log('');
+    failures.forEach((diagnosis) => {
+      console.log(`❌ ${diagnosis.name} (${diagnosis.baseUrl}): ${diagnosis.error}`);
+    });
+  }
+}
+
+/**
+ * Build the diagnosis of a provider that could not be checked at all
+ */
+function failedDiagnosis(provider: ConfigItemV3, error: string): ProviderDiagnosis {
+  return {
+    name: provider.name,
+    baseUrl: provider.env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL,
+    model: provider.env.ANTHROPIC_MODEL || DEFAULT_PROBE_MODEL,
+    dns: 'skip',
+    tls: 'skip',
+    latencyMs: 0,
+    tokenAccepted: 'skip',
+    modelServed: 'skip',
+    healthy: false,
+    error,
+  };
+}
+
+/**
+ * Check providers and report the results
+ * @param getEnv Builds the environment Claude Code would be launched with, from the resolved
+ * provider
+ * @param resolve Applies inheritance (extends, defaults, group) to a provider
+ */
+export async function runDoctor(
+  providers: ConfigItemV3[],
+  getEnv: (config: ConfigItemV3) => EnvironmentVariables,
+  options: Omit<DoctorOptions, 'target'>,
+  resolve: (config: ConfigItemV3) => ConfigItemV3 = (config) => config
+): Promise<ProviderDiagnosis[]> {
+  return Promise.all(
+    providers.map((provider) => {
+      let resolved: ConfigItemV3;
+      let env: EnvironmentVariables;
+      try {
+        resolved = resolve(provider);
+        env = getEnv(resolved);
+      } catch (error) {
+        // e.g. a broken extends or a secret that cannot be resolved: report it in the
+        // provider's row instead of aborting the whole run
+        return Promise.resolve(
+          failedDiagnosis(provider, error instanceof Error ? error.message : String(error))
+        );
+      }
+
+      return diagnoseProvider(provider.name, env, {
+        ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+        ...(options.model !== undefined ? { model: options.model } : {}),
+        ...(resolved.protocol ? { protocol: resolved.protocol } : {}),
+      });
+    })
+  );
+}
+
+/**
+ * Create a resolver for the secrets of the checked providers only, so checking one provider
+ * never asks for the vault passphrase of another
+ */
+async function createDoctorSecretResolver(
+  configManager: ConfigManager,
+  providers: ConfigItemV3[]
+): Promise<SecretResolver> {
+  const resolvable = providers.flatMap((provider) => {
+    try {
+      return [configManager.resolveConfig(provider)];
+    } catch {
+      // Reported in the provider's row
+      return [];
+    }
+  });
+
+  try {
+    return await createSecretResolver(configManager, resolvable);
+  } catch (error) {
+    // Providers needing the locked backend report it in their row
+    console.warn(`⚠️  ${error instanceof Error ? error.message : String(error)}`);
+    return new SecretResolver([]);
+  }
+}
+
+/**
+ * Handle `auo doctor` command
+ */
+export async function handleDoctorCommand(
+  args: string[],
+  configManager: ConfigManager,
+  getEnv: (config: ConfigItemV3, secrets: SecretResolver) => EnvironmentVariables
+): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    showDoctorUsage();
+    return;
+  }
+
+  const options = parseDoctorArgs(args);
+  if (!options) {
+    showDoctorUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  let providers = configManager.getAllConfigs();
+  if (options.target !== undefined) {
+    const provider = providers[configManager.findConfigIndex(options.target)];
+    if (!provider) {
+      process.exitCode = 1;
+      return;
+    }
+    providers = [provider];
+  }
+
+  if (!options.json) {
+    console.log(`🩺 Checking ${providers.length} provider(s)...`);
+  }
+
+  const secrets = await createDoctorSecretResolver(configManager, providers);
+  const diagnoses = await runDoctor(
+    providers,
+    (config) => getEnv(config, secrets),
+    options,
+    (config) => configManager.resolveConfig(config)
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(diagnoses, null, 2));
+  } else {
+    printDiagnosisTable(diagnoses);
+  }
+
+  if (diagnoses.some((diagnosis) => !diagnosis.healthy)) {
+    process.exitCode = 1;
+  }
+}
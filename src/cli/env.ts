@@ -0,0 +1,379 @@
+import { ConfigManager } from '../config/manager';
+import { loadProjectConfig, resolveActiveProvider } from '../config/project';
+import { isValidEnvName } from '../config/types';
+import {
+  SHELL_KEYS_VAR,
+  SHELL_PROJECT_VAR,
+  detectShell,
+  formatSetVariable,
+  formatUnsetVariable,
+  getShellHook,
+  parseShellName,
+} from '../utils/shell';
+import { createSecretResolver, prepareSecretWrites } from './secrets';
+import type { ConfigEnvironment, ProviderOverride } from '../types';
+import type { ShellName } from '../utils/shell';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Show usage of the env subcommand
+ */
+function showEnvUsage(): void {
+  console.log(`Usage:
+  auo env [index|name] [--shell <shell>]              # Print exports of a configuration (default: current)
+  auo env --unset [index|name] [--shell <shell>]      # Print statements removing them again
+  auo env set <index|name> KEY=VALUE [KEY=VALUE...]   # Set variables on a configuration
+  auo env unset <index|name> KEY [KEY...]             # Remove variables from a configuration
+  auo env set @<group> KEY=VALUE [KEY=VALUE...]       # Set defaults inherited by a group's members
+  auo env unset @<group> KEY [KEY...]                 # Remove defaults from a group
+  auo env set --defaults KEY=VALUE [KEY=VALUE...]     # Set defaults inherited by every configuration
+  auo env unset --defaults KEY [KEY...]               # Remove shared defaults
+
+Shells: bash, zsh, fish, powershell (detected from $SHELL when --shell is omitted)
+
+Examples:
+  eval "$(auo env)"                        # bash/zsh: export the current configuration
+  auo env anyrouter --shell fish | source  # fish
+  auo env anyrouter --shell powershell | Out-String | Invoke-Expression
+  auo env set anyrouter ANTHROPIC_SMALL_FAST_MODEL=claude-3-5-haiku-20241022
+  auo env set 1 API_TIMEOUT_MS=600000 DISABLE_TELEMETRY=1
+  auo env unset anyrouter HTTPS_PROXY
+  auo env set @work HTTPS_PROXY=http://proxy.internal:3128`);
+}
+
+/**
+ * Parse KEY=VALUE assignments into an environment object
+ * Returns null (and reports why) when an assignment is malformed
+ */
+export function parseEnvAssignments(assignments: string[]): ConfigEnvironment | null {
+  const env: ConfigEnvironment = {};
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      console.error(`❌ Invalid assignment "${assignment}", expected KEY=VALUE`);
+      return null;
+    }
+
+    const key = assignment.slice(0, separator).trim();
+    if (!isValidEnvName(key)) {
+      console.error(`❌ Invalid environment variable name "${key}"`);
+      return null;
+    }
+
+    env[key] = assignment.slice(separator + 1);
+  }
+
+  return env;
+}
+
+/**
+ * Apply variable changes to a configuration, to a group's defaults for "@group", or to the
+ * shared defaults for --defaults; undefined values remove the variable
+ */
+function applyEnvUpdates(
+  configManager: ConfigManager,
+  target: string,
+  updates: ConfigEnvironment
+): boolean {
+  if (target === '--defaults') {
+    if (!configManager.updateDefaultEnv(updates)) {
+      return false;
+    }
+    console.log('✅ Shared defaults updated');
+    return true;
+  }
+
+  if (!target.startsWith('@')) {
+    const index = configManager.findConfigIndex(target, { strict: true });
+    const provider = index === -1 ? undefined : configManager.getAllConfigs()[index];
+    return provider !== undefined && configManager.updateConfig(provider.name, { env: updates });
+  }
+
+  const name = target.slice(1);
+  const group = configManager.getGroups()[name];
+  if (!group) {
+    console.error(`❌ Group "${name}" not found`);
+    return false;
+  }
+
+  const env: ConfigEnvironment = { ...group.env };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) {
+      delete env[key];
+    } else {
+      env[key] = value;
+    }
+  }
+
+  const { env: _env, ...rest } = group;
+  if (!configManager.setGroup(name, Object.keys(env).length > 0 ? { ...rest, env } : rest)) {
+    return false;
+  }
+  console.log(`✅ Defaults of group "${name}" updated`);
+  return true;
+}
+
+/**
+ * Options of `auo env` when printing shell statements
+ */
+interface ShellEnvOptions {
+  /** Configuration to print instead of the current one */
+  query?: string;
+  shell: ShellName;
+  /** Print statements removing the variables instead */
+  unset: boolean;
+  /** Called by the shell hook: follow the project file of the working directory */
+  hook: boolean;
+}
+
+/**
+ * Parse the arguments of `auo env` printing shell statements, null when they are invalid
+ */
+function parseShellEnvArgs(args: string[]): ShellEnvOptions | null {
+  const options: ShellEnvOptions = { shell: detectShell(), unset: false, hook: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    if (arg === '--unset') {
+      options.unset = true;
+    } else if (arg === '--hook') {
+      options.hook = true;
+    } else if (arg === '--shell') {
+      const shell = parseShellName(args[++i] || '');
+      if (!shell) {
+        console.error('❌ --shell must be one of: bash, zsh, fish, powershell');
+        return null;
+      }
+      options.shell = shell;
+    } else if (arg.startsWith('-') || options.query !== undefined) {
+      console.error(`❌ Unexpected argument "${arg}"`);
+      return null;
+    } else {
+      options.query = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Get the keys a previous `auo env` exported into the calling shell
+ */
+function getExportedKeys(): string[] {
+  return (process.env[SHELL_KEYS_VAR] || '').split(' ').filter(isValidEnvName);
+}
+
+/**
+ * Print statements removing variables, along with auo's bookkeeping variables
+ */
+function printUnsets(keys: string[], shell: ShellName): void {
+  [...new Set([...keys, SHELL_KEYS_VAR, SHELL_PROJECT_VAR])].forEach((key) =>
+    console.log(formatUnsetVariable(key, shell))
+  );
+}
+
+/**
+ * Print statements exporting the resolved env of a provider into the calling shell
+ * Keys exported earlier but missing now are removed, so switching never leaves stale values
+ * @param projectFile Project file the hook applied, remembered to skip it until the next change
+ */
+async function printExports(
+  configManager: ConfigManager,
+  override: ProviderOverride | undefined,
+  shell: ShellName,
+  projectFile?: string
+): Promise<string> {
+  const active = resolveActiveProvider(
+    configManager,
+    loadProjectConfig(process.cwd(), configManager.getStateStore()),
+    override
+  );
+  const secrets = await createSecretResolver(configManager, [active.config]);
+  if (active.ignoredProjectKeys) {
+    console.error(
+      `⚠️  Ignoring ${active.ignoredProjectKeys.join(', ')} from untrusted ${active.projectFile}, review it and run "auo trust" to allow them`
+    );
+  }
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(active.config.env)) {
+    if (value) {
+      env[key] = secrets.resolveValue(key, value);
+    }
+  }
+
+  const stale = getExportedKeys().filter((key) => env[key] === undefined);
+  stale.forEach((key) => console.log(formatUnsetVariable(key, shell)));
+  for (const [key, value] of Object.entries(env)) {
+    console.log(formatSetVariable(key, value, shell));
+  }
+  console.log(formatSetVariable(SHELL_KEYS_VAR, Object.keys(env).join(' '), shell));
+  console.log(
+    projectFile !== undefined
+      ? formatSetVariable(SHELL_PROJECT_VAR, projectFile, shell)
+      : formatUnsetVariable(SHELL_PROJECT_VAR, shell)
+  );
+
+  return active.config.name;
+}
+
+/**
+ * Print what the shell hook should run in the working directory: exports when entering a
+ * directory whose trusted project file pins a provider, removals when leaving it, otherwise
+ * nothing
+ * Messages go to stderr, stdout is evaluated by the shell
+ */
+async function printHookStatements(configManager: ConfigManager, shell: ShellName): Promise<void> {
+  const project = loadProjectConfig(process.cwd(), configManager.getStateStore());
+  const applied = process.env[SHELL_PROJECT_VAR];
+
+  if (!project?.config.provider) {
+    if (applied) {
+      printUnsets(getExportedKeys(), shell);
+      console.error(`🔧 auo: unloaded env of ${applied}`);
+    }
+    return;
+  }
+
+  // A repository checked out from elsewhere is only loaded once the user trusts its file
+  if (!project.trusted) {
+    if (applied) {
+      printUnsets(getExportedKeys(), shell);
+    }
+    console.error(`🔒 auo: not loading untrusted ${project.path}, review it and run "auo trust"`);
+    return;
+  }
+
+  if (applied === project.path) {
+    return;
+  }
+
+  const name = await printExports(configManager, undefined, shell, project.path);
+  console.error(`🔧 auo: loaded ${name} from ${project.path}`);
+}
+
+/**
+ * Print shell statements for `auo env [name]`, `auo env --unset` and the shell hook
+ * @param override Provider chosen for a single run (AUO_PROVIDER), used when no name is given
+ */
+async function handleShellEnv(
+  options: ShellEnvOptions,
+  configManager: ConfigManager,
+  override?: ProviderOverride
+): Promise<void> {
+  const target =
+    options.query !== undefined ? { name: options.query, origin: 'auo env' } : override;
+
+  try {
+    if (options.hook) {
+      await printHookStatements(configManager, options.shell);
+    } else if (options.unset) {
+      // Without a name, remove what was exported, whichever configuration it came from
+      const exported = getExportedKeys();
+      const keys =
+        options.query === undefined && exported.length > 0
+          ? exported
+          : Object.keys(
+              resolveActiveProvider(
+                configManager,
+                loadProjectConfig(process.cwd(), configManager.getStateStore()),
+                target
+              ).config.env
+            );
+      printUnsets(keys, options.shell);
+    } else {
+      await printExports(configManager, target, options.shell);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Handle `auo shell-hook <shell>`, printing the script to add to the shell's startup file
+ */
+export function handleShellHookCommand(args: string[]): void {
+  const [name] = args;
+  const shell = name !== undefined ? parseShellName(name) : detectShell();
+
+  if (!shell || args.length > 1) {
+    console.log(`Usage:
+  auo shell-hook [bash|zsh|fish|powershell]   # Print a hook loading project providers on cd
+
+Add to your shell startup file:
+  bash (~/.bashrc):     eval "$(auo shell-hook bash)"
+  zsh (~/.zshrc):       eval "$(auo shell-hook zsh)"
+  fish (config.fish):   auo shell-hook fish | source
+  PowerShell ($PROFILE): Invoke-Expression (& auo shell-hook powershell | Out-String)`);
+    if (name === undefined || !HELP_FLAGS.includes(name)) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  console.log(getShellHook(shell));
+}
+
+/**
+ * Handle `auo env` commands: set|unset edit stored variables, anything else prints shell
+ * statements for the current or given configuration
+ * @param override Provider chosen for a single run (AUO_PROVIDER)
+ */
+export async function handleEnvCommand(
+  args: string[],
+  configManager: ConfigManager,
+  override?: ProviderOverride
+): Promise<void> {
+  const [action, target, ...rest] = args;
+
+  if (action !== 'set' && action !== 'unset') {
+    const options =
+      action !== undefined && HELP_FLAGS.includes(action) ? null : parseShellEnvArgs(args);
+    if (!options) {
+      showEnvUsage();
+      if (action === undefined || !HELP_FLAGS.includes(action)) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    await handleShellEnv(options, configManager, override);
+    return;
+  }
+
+  if (target === undefined || rest.length === 0) {
+    showEnvUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  let updates: ConfigEnvironment | null;
+  if (action === 'set') {
+    updates = parseEnvAssignments(rest);
+  } else {
+    const invalidKey = rest.find((key) => !isValidEnvName(key));
+    if (invalidKey) {
+      console.error(`❌ Invalid environment variable name "${invalidKey}"`);
+      updates = null;
+    } else {
+      updates = Object.fromEntries(rest.map((key) => [key, undefined]));
+    }
+  }
+
+  if (
+    !updates ||
+    !(await prepareSecretWrites(configManager, updates)) ||
+    !applyEnvUpdates(configManager, target, updates)
+  ) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const verb = action === 'set' ? 'Set' : 'Removed';
+  console.log(`   ${verb}: ${Object.keys(updates).join(', ')}`);
+}
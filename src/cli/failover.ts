@@ -0,0 +1,172 @@
+import { ConfigManager } from '../config/manager';
+import { findHealthyProvider } from '../utils/health';
+import type { ConfigItemV3, EnvironmentVariables, FailoverSettings } from '../types';
+
+/**
+ * Show usage of the failover subcommand
+ */
+function showFailoverUsage(): void {
+  console.log(`Usage:
+  auo failover                              # Show failover settings and last decision
+  auo failover enable                       # Health-check providers before every launch
+  auo failover disable                      # Turn automatic failover off
+  auo failover set <index|name> [...]       # Set the ordered fallback list
+  auo failover timeout <ms>                 # Set the health check timeout
+
+One-off overrides:
+  auo --failover "prompt"                   # Check and fail over for this run only
+  auo --no-failover "prompt"                # Skip checks for this run only`);
+}
+
+/**
+ * Build the ordered candidate list: current provider first, then the fallback list
+ */
+export function buildFailoverCandidates(
+  current: ConfigItemV3,
+  settings: FailoverSettings,
+  allConfigs: ConfigItemV3[]
+): ConfigItemV3[] {
+  const candidates: ConfigItemV3[] = [current];
+
+  for (const name of settings.providers) {
+    const config = allConfigs.find((cfg) => cfg.name === name);
+    if (!config) {
+      console.warn(`⚠️  Fallback provider "${name}" not found, ignoring`);
+      continue;
+    }
+    if (!candidates.some((candidate) => candidate.name === config.name)) {
+      candidates.push(config);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Health-check the current provider and fall back through the configured list
+ * Returns the first healthy provider, or null when none is usable
+ */
+export async function selectFailoverProvider(
+  configManager: ConfigManager,
+  current: ConfigItemV3,
+  getEnv: (config: ConfigItemV3) => EnvironmentVariables
+): Promise<ConfigItemV3 | null> {
+  const settings = configManager.getFailoverSettings();
+  const candidates = buildFailoverCandidates(current, settings, configManager.getAllConfigs());
+  const skipped: Array<{ name: string; reason: string }> = [];
+
+  console.log('🩺 Checking provider health...');
+  const selected = await findHealthyProvider(candidates, getEnv, {
+    ...(settings.timeout !== undefined ? { timeout: settings.timeout } : {}),
+    getProtocol: (candidate) => configManager.resolveConfig(candidate).protocol,
+    onSkip: (candidate, reason) => {
+      skipped.push({ name: candidate.name, reason });
+      console.warn(`⚠️  ${candidate.name}: ${reason}`);
+    },
+  });
+
+  if (!selected) {
+    console.error('❌ No healthy provider available');
+    if (candidates.length === 1) {
+      console.error('💡 Add fallback providers with: auo failover set <name> [...]');
+    }
+    return null;
+  }
+
+  if (selected.name !== current.name) {
+    console.log(`🔀 Failing over to ${selected.name}`);
+  }
+
+  configManager.getStateStore().update((state) => {
+    state.lastFailover = { selected: selected.name, skipped, at: new Date().toISOString() };
+  });
+
+  return selected;
+}
+
+/**
+ * Print failover settings and the last recorded decision
+ */
+function showFailoverStatus(configManager: ConfigManager): void {
+  const settings = configManager.getFailoverSettings();
+  const last = configManager.getStateStore().read().lastFailover;
+
+  console.log(`🔀 Failover: ${settings.enabled ? 'enabled' : 'disabled'}`);
+  console.log(
+    `   Fallback order: ${settings.providers.length > 0 ? settings.providers.join(' → ') : '(empty)'}`
+  );
+  if (settings.timeout !== undefined) {
+    console.log(`   Timeout: ${settings.timeout}ms`);
+  }
+
+  if (last) {
+    console.log(`   Last choice: ${last.selected} at ${last.at}`);
+    last.skipped.forEach((entry) => {
+      console.log(`      skipped ${entry.name}: ${entry.reason}`);
+    });
+  }
+}
+
+/**
+ * Handle `auo failover` commands
+ */
+export function handleFailoverCommand(args: string[], configManager: ConfigManager): void {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case undefined:
+    case 'status':
+      showFailoverStatus(configManager);
+      return;
+    case 'enable':
+    case 'disable':
+      if (configManager.updateFailoverSettings({ enabled: action === 'enable' })) {
+        console.log(`✅ Failover ${action}d`);
+      } else {
+        process.exitCode = 1;
+      }
+      return;
+    case 'set': {
+      const allConfigs = configManager.getAllConfigs();
+      const names: string[] = [];
+      for (const target of rest) {
+        const index = configManager.findConfigIndex(target, { strict: true });
+        const config = allConfigs[index];
+        if (index === -1 || !config) {
+          process.exitCode = 1;
+          return;
+        }
+        names.push(config.name);
+      }
+
+      if (configManager.updateFailoverSettings({ providers: names })) {
+        console.log(`✅ Fallback order: ${names.length > 0 ? names.join(' → ') : '(empty)'}`);
+      } else {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    case 'timeout': {
+      const timeout = Number(rest[0]);
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        console.error('❌ Timeout must be a positive number of milliseconds');
+        process.exitCode = 1;
+        return;
+      }
+      if (configManager.updateFailoverSettings({ timeout })) {
+        console.log(`✅ Health check timeout set to ${timeout}ms`);
+      } else {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    case 'help':
+    case '--help':
+    case '-h':
+      showFailoverUsage();
+      return;
+    default:
+      showFailoverUsage();
+      process.exitCode = 1;
+  }
+}
@@ -0,0 +1,195 @@
+import { ConfigManager } from '../config/manager';
+import { ProxyLog } from '../proxy/log';
+import { formatTable } from '../utils/table';
+import { formatTokens } from './stats';
+import type { ProxyLogEntry } from '../types';
+
+/**
+ * Entries shown when --limit is not given
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Characters of request ids shown in the table (enough to look a request up)
+ */
+const SHORT_ID_LENGTH = 8;
+
+/**
+ * Show usage of the logs subcommand
+ */
+function showLogsUsage(): void {
+  console.log(`Usage:
+  auo logs [--limit <n>] [--provider <name>] [--errors] [--json]
+      Show requests recorded by the local proxy (auo --proxy), newest last
+      --limit      Number of requests to show (default: ${DEFAULT_LIMIT})
+      --provider   Only requests served by this configuration
+      --errors     Only failed requests
+      --json       Print entries as JSON
+  auo logs show <id>   # Show one request, with its transcript when one was saved
+
+Launch with --proxy-transcripts to also save request and response bodies (secrets masked).`);
+}
+
+/**
+ * Get the request log of the local proxy
+ */
+export function getProxyLog(configManager: ConfigManager): ProxyLog {
+  return new ProxyLog(configManager.getConfigDir());
+}
+
+/**
+ * Check whether a request failed, including responses cut off by Claude Code going away
+ */
+function isFailedRequest(entry: ProxyLogEntry): boolean {
+  return entry.status === undefined || entry.status >= 400 || entry.aborted === true;
+}
+
+/**
+ * Print headers and body of a transcript message, indenting JSON bodies
+ */
+function printMessage(headers: Record<string, string>, body: string): void {
+  Object.entries(headers).forEach(([name, value]) => console.log(`  ${name}: ${value}`));
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    // Not JSON, e.g. server-sent events
+  }
+  console.log(`\n${text}\n`);
+}
+
+/**
+ * Print one request with its transcript
+ */
+function showLogEntry(log: ProxyLog, query: string): boolean {
+  const matches = log.read().filter((entry) => entry.id.startsWith(query));
+  const [entry] = matches;
+  if (!entry || matches.length > 1) {
+    console.error(
+      `❌ ${matches.length > 1 ? `Request id "${query}" is ambiguous` : `No request "${query}"`}`
+    );
+    return false;
+  }
+
+  console.log(JSON.stringify(entry, null, 2));
+  const transcript = entry.transcript ? log.readTranscript(entry.id) : null;
+  if (!transcript) {
+    return true;
+  }
+
+  console.log(`📝 Transcript (${log.getTranscriptPath(entry.id)}):`);
+  const { request, response } = transcript;
+  console.log(`→ ${request.method} ${request.path}`);
+  printMessage(request.headers, request.body);
+  if (response) {
+    console.log(`← ${response.status}`);
+    printMessage(response.headers, response.body);
+  }
+  return true;
+}
+
+/**
+ * Describe the providers tried before the one that served a request
+ */
+function describeFailover(entry: ProxyLogEntry): string {
+  if (!entry.attempts || entry.attempts.length === 0) {
+    return '';
+  }
+  const tried = entry.attempts.map(
+    (attempt) => `${attempt.provider} (${attempt.status ?? 'unreachable'})`
+  );
+  return `⤳ after ${tried.join(', ')}`;
+}
+
+/**
+ * Handle `auo logs`
+ */
+export function handleLogsCommand(args: string[], configManager: ConfigManager): void {
+  const log = getProxyLog(configManager);
+  let limit = DEFAULT_LIMIT;
+  let provider: string | undefined;
+  let errors = false;
+  let json = false;
+
+  if (args[0] === 'show') {
+    if (args[1] === undefined || !showLogEntry(log, args[1])) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+
+    if (['help', '--help', '-h'].includes(arg)) {
+      showLogsUsage();
+      return;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '--errors') {
+      errors = true;
+    } else if (arg === '--provider') {
+      provider = args[++i];
+      if (provider === undefined) {
+        console.error('❌ --provider requires a configuration name');
+        process.exitCode = 1;
+        return;
+      }
+    } else if (arg === '--limit') {
+      limit = Number(args[++i]);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        console.error('❌ --limit must be a positive whole number');
+        process.exitCode = 1;
+        return;
+      }
+    } else {
+      console.error(`❌ Unknown logs argument "${arg}"`);
+      showLogsUsage();
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const entries = log
+    .read()
+    .filter((entry) => provider === undefined || entry.provider === provider)
+    .filter((entry) => !errors || isFailedRequest(entry))
+    .slice(-limit);
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log('ℹ️  No proxied requests recorded yet, launch with: auo --proxy');
+    return;
+  }
+
+  console.log(
+    formatTable(
+      ['Id', 'Time', 'Provider', 'Model', 'Status', 'Latency', 'In', 'Out', 'Note'],
+      entries.map((entry) => [
+        entry.id.slice(0, SHORT_ID_LENGTH),
+        new Date(entry.time).toLocaleString(),
+        entry.provider,
+        entry.upstreamModel ? `${entry.model} → ${entry.upstreamModel}` : entry.model || '-',
+        entry.status ?? 'ERR',
+        `${entry.latencyMs}ms`,
+        entry.tokens ? formatTokens(entry.tokens.input) : '-',
+        entry.tokens ? formatTokens(entry.tokens.output) : '-',
+        [
+          describeFailover(entry),
+          entry.stream ? 'stream' : '',
+          entry.aborted ? 'aborted' : '',
+          entry.transcript ? '📝' : '',
+          entry.error?.split('\n')[0],
+        ]
+          .filter(Boolean)
+          .join(' ')
+          .slice(0, 60),
+      ])
+    )
+  );
+  console.log(`📄 ${log.getLogPath()}`);
+}
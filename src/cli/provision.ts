@@ -0,0 +1,387 @@
+import { ConfigManager } from '../config/manager';
+import { PROVIDER_PROTOCOLS, isProviderProtocol, isValidEnvName } from '../config/types';
+import { prepareSecretWrites } from './secrets';
+import type {
+  AddConfigParamsV2,
+  ConfigEnvironment,
+  ConfigItemV3,
+  ProviderFieldOptions,
+} from '../types';
+
+/**
+ * Provider flags that take a value
+ */
+const PROVIDER_VALUE_FLAGS = [
+  '--name',
+  '--description',
+  '--base-url',
+  '--token',
+  '--model',
+  '--env',
+  '--unset-env',
+  '--tag',
+  '--untag',
+  '--extends',
+  '--model-map',
+  '--unset-model-map',
+  '--protocol',
+];
+
+/**
+ * Provider flags accepted after --add / --edit
+ */
+export const PROVIDER_FLAGS = [...PROVIDER_VALUE_FLAGS, '--token-stdin', '--json-stdin'];
+
+/**
+ * Record a provider flag, returning an error message when it is invalid
+ * @returns Number of arguments consumed after the flag, or an error message
+ */
+export function applyProviderFlag(
+  fields: ProviderFieldOptions,
+  flag: string,
+  value: string | undefined
+): number | string {
+  if (flag === '--token-stdin') {
+    fields.tokenStdin = true;
+    return 0;
+  }
+  if (flag === '--json-stdin') {
+    fields.jsonStdin = true;
+    return 0;
+  }
+
+  if (value === undefined) {
+    return `${flag} requires a value`;
+  }
+
+  switch (flag) {
+    case '--name':
+      fields.name = value;
+      break;
+    case '--description':
+      fields.description = value;
+      break;
+    case '--base-url':
+      fields.baseUrl = value;
+      break;
+    case '--token':
+      fields.token = value;
+      break;
+    case '--model':
+      fields.model = value;
+      break;
+    case '--env': {
+      const separator = value.indexOf('=');
+      const key = value.slice(0, Math.max(separator, 0)).trim();
+      if (separator <= 0 || !isValidEnvName(key)) {
+        return `Invalid --env "${value}", expected KEY=VALUE`;
+      }
+      fields.env = { ...fields.env, [key]: value.slice(separator + 1) };
+      break;
+    }
+    case '--unset-env':
+      if (!isValidEnvName(value)) {
+        return `Invalid environment variable name "${value}"`;
+      }
+      fields.unsetEnv = [...(fields.unsetEnv || []), value];
+      break;
+    case '--tag':
+      fields.tags = [...(fields.tags || []), value];
+      break;
+    case '--untag':
+      fields.untags = [...(fields.untags || []), value];
+      break;
+    case '--extends':
+      fields.extends = value.trim();
+      break;
+    case '--model-map': {
+      const separator = value.indexOf('=');
+      const from = value.slice(0, Math.max(separator, 0)).trim();
+      const to = value.slice(separator + 1).trim();
+      if (separator <= 0 || !from || !to) {
+        return `Invalid --model-map "${value}", expected FROM=TO`;
+      }
+      fields.models = { ...fields.models, [from]: to };
+      break;
+    }
+    case '--unset-model-map':
+      fields.unsetModels = [...(fields.unsetModels || []), value.trim()];
+      break;
+    case '--protocol':
+      if (!isProviderProtocol(value)) {
+        return `Invalid --protocol "${value}", expected ${PROVIDER_PROTOCOLS.join(' or ')}`;
+      }
+      fields.protocol = value;
+      break;
+  }
+  return 1;
+}
+
+/**
+ * Read all of stdin as text
+ */
+export function readStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    stream.setEncoding('utf8');
+    stream.on('data', (chunk: string) => (data += chunk));
+    stream.on('end', () => resolve(data));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Parse a provider JSON document:
+ * { "name": ..., "description": ..., "env": { ... }, "tags": [...], "extends": ..., "models": { ... },
+ *   "protocol": ... }
+ * null env and model values mark entries to remove when editing, a null "extends" stops inheriting
+ */
+export function parseProviderDocument(text: string): Partial<ConfigItemV3> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid provider JSON on stdin: ${reason}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Provider JSON must be an object');
+  }
+
+  const doc = data as Record<string, unknown>;
+  const provider: Partial<ConfigItemV3> = {};
+
+  if (doc.name !== undefined) {
+    if (typeof doc.name !== 'string') {
+      throw new Error('Provider JSON "name" must be a string');
+    }
+    provider.name = doc.name;
+  }
+
+  if (doc.description !== undefined) {
+    if (typeof doc.description !== 'string') {
+      throw new Error('Provider JSON "description" must be a string');
+    }
+    provider.description = doc.description;
+  }
+
+  if (doc.env !== undefined) {
+    if (!doc.env || typeof doc.env !== 'object' || Array.isArray(doc.env)) {
+      throw new Error('Provider JSON "env" must be an object');
+    }
+
+    const env: ConfigEnvironment = {};
+    for (const [key, value] of Object.entries(doc.env)) {
+      if (!isValidEnvName(key)) {
+        throw new Error(`Provider JSON has an invalid variable name "${key}"`);
+      }
+      if (value !== null && typeof value !== 'string') {
+        throw new Error(`Provider JSON "env.${key}" must be a string or null`);
+      }
+      env[key] = value ?? undefined;
+    }
+    provider.env = env;
+  }
+
+  if (doc.tags !== undefined) {
+    if (!Array.isArray(doc.tags) || doc.tags.some((tag) => typeof tag !== 'string')) {
+      throw new Error('Provider JSON "tags" must be an array of strings');
+    }
+    provider.tags = doc.tags as string[];
+  }
+
+  if (doc.extends !== undefined) {
+    if (doc.extends !== null && typeof doc.extends !== 'string') {
+      throw new Error('Provider JSON "extends" must be a string or null');
+    }
+    provider.extends = doc.extends ?? '';
+  }
+
+  // Removed mappings are kept as empty names until the edit is applied
+  if (doc.models !== undefined) {
+    if (!doc.models || typeof doc.models !== 'object' || Array.isArray(doc.models)) {
+      throw new Error('Provider JSON "models" must be an object');
+    }
+
+    const models: Record<string, string> = {};
+    for (const [from, to] of Object.entries(doc.models)) {
+      if (to !== null && typeof to !== 'string') {
+        throw new Error(`Provider JSON "models.${from}" must be a string or null`);
+      }
+      models[from] = to ?? '';
+    }
+    provider.models = models;
+  }
+
+  if (doc.protocol !== undefined) {
+    if (!isProviderProtocol(doc.protocol)) {
+      throw new Error(`Provider JSON "protocol" must be ${PROVIDER_PROTOCOLS.join(' or ')}`);
+    }
+    provider.protocol = doc.protocol;
+  }
+
+  return provider;
+}
+
+/**
+ * Combine the stdin document and flags (flags win) into provider fields
+ */
+export async function readProviderInput(
+  fields: ProviderFieldOptions,
+  stdin: NodeJS.ReadableStream = process.stdin
+): Promise<Partial<ConfigItemV3> & { env: ConfigEnvironment }> {
+  if (fields.tokenStdin && fields.jsonStdin) {
+    throw new Error('--token-stdin and --json-stdin cannot be used together');
+  }
+  if (fields.tokenStdin && fields.token !== undefined) {
+    throw new Error('--token and --token-stdin cannot be used together');
+  }
+
+  const provider = fields.jsonStdin ? parseProviderDocument(await readStdin(stdin)) : {};
+  const env: ConfigEnvironment = { ...provider.env };
+
+  let token = fields.token;
+  if (fields.tokenStdin) {
+    token = (await readStdin(stdin)).split(/\r?\n/)[0]?.trim();
+    if (!token) {
+      throw new Error('No token received on stdin');
+    }
+  }
+
+  if (fields.baseUrl !== undefined) {
+    env.ANTHROPIC_BASE_URL = fields.baseUrl;
+  }
+  if (token !== undefined) {
+    env.ANTHROPIC_AUTH_TOKEN = token;
+  }
+  if (fields.model !== undefined) {
+    env.ANTHROPIC_MODEL = fields.model;
+  }
+  Object.assign(env, fields.env);
+  for (const key of fields.unsetEnv || []) {
+    env[key] = undefined;
+  }
+
+  const models: Record<string, string> = { ...provider.models, ...fields.models };
+  for (const from of fields.unsetModels || []) {
+    models[from] = '';
+  }
+
+  const tags = [...(provider.tags || []), ...(fields.tags || [])];
+  return {
+    ...provider,
+    ...(fields.name !== undefined ? { name: fields.name } : {}),
+    ...(fields.description !== undefined ? { description: fields.description } : {}),
+    env,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(fields.extends !== undefined ? { extends: fields.extends } : {}),
+    ...(Object.keys(models).length > 0 ? { models } : {}),
+    ...(fields.protocol !== undefined ? { protocol: fields.protocol } : {}),
+  };
+}
+
+/**
+ * Drop the mappings marked for removal (empty target names)
+ */
+function withoutRemovedModels(models: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(models).filter(([, to]) => to));
+}
+
+/**
+ * Add a configuration from flags and/or stdin without prompting
+ * @returns Whether the configuration was added
+ */
+export async function addConfigScripted(
+  fields: ProviderFieldOptions,
+  configManager: ConfigManager,
+  stdin: NodeJS.ReadableStream = process.stdin
+): Promise<boolean> {
+  const editOnly = [
+    ...(fields.unsetEnv ? ['--unset-env'] : []),
+    ...(fields.untags ? ['--untag'] : []),
+    ...(fields.unsetModels ? ['--unset-model-map'] : []),
+  ];
+  if (editOnly.length > 0) {
+    console.error(`❌ ${editOnly[0]} can only be used with --edit`);
+    return false;
+  }
+
+  const input = await readProviderInput(fields, stdin);
+  if (!input.name) {
+    console.error('❌ Configuration name is required (--name or "name" in the JSON document)');
+    return false;
+  }
+
+  const params: AddConfigParamsV2 = {
+    name: input.name,
+    env: input.env,
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.tags ? { tags: input.tags } : {}),
+    ...(input.extends ? { extends: input.extends } : {}),
+    ...(input.models ? { models: withoutRemovedModels(input.models) } : {}),
+    ...(input.protocol ? { protocol: input.protocol } : {}),
+  };
+  return (await prepareSecretWrites(configManager, params.env)) && configManager.addConfig(params);
+}
+
+/**
+ * Update a configuration from flags and/or stdin without prompting
+ * @returns Whether the configuration was updated (or nothing needed to change)
+ */
+export async function editConfigScripted(
+  fields: ProviderFieldOptions,
+  configManager: ConfigManager,
+  index: number,
+  stdin: NodeJS.ReadableStream = process.stdin
+): Promise<boolean> {
+  const existing = configManager.getAllConfigs()[index];
+  if (!existing) {
+    console.error(`❌ Configuration at index ${index} not found`);
+    return false;
+  }
+
+  const input = await readProviderInput(fields, stdin);
+  const updates: Partial<ConfigItemV3> = {};
+  if (input.name !== undefined && input.name.trim() !== existing.name) {
+    if (!input.name.trim()) {
+      console.error('❌ Configuration name cannot be empty');
+      return false;
+    }
+    updates.name = input.name.trim();
+  }
+  if (input.description !== undefined) {
+    updates.description = input.description;
+  }
+  if (Object.keys(input.env).length > 0) {
+    // Empty values remove the variable, like --unset-env
+    updates.env = Object.fromEntries(
+      Object.entries(input.env).map(([key, value]) => [key, value || undefined])
+    );
+  }
+  if (input.extends !== undefined && input.extends !== (existing.extends || '')) {
+    updates.extends = input.extends;
+  }
+  if (input.protocol !== undefined && input.protocol !== existing.protocol) {
+    updates.protocol = input.protocol;
+  }
+  if (input.models) {
+    updates.models = withoutRemovedModels({ ...existing.models, ...input.models });
+  }
+  if (input.tags || fields.untags) {
+    const untags = fields.untags || [];
+    updates.tags = [...(existing.tags || []), ...(input.tags || [])].filter(
+      (tag) => !untags.includes(tag)
+    );
+  }
+
+  if (Object.keys(updates).length === 0) {
+    console.log('ℹ️  No changes made to configuration');
+    return true;
+  }
+
+  return (
+    (await prepareSecretWrites(configManager, updates.env || {})) &&
+    configManager.updateConfig(existing.name, updates)
+  );
+}
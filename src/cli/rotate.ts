@@ -0,0 +1,287 @@
+import { ConfigManager } from '../config/manager';
+import { ROTATION_STRATEGIES, getExhaustedUntil, isRotationStrategy } from '../config/rotation';
+import { formatTable } from '../utils/table';
+import type { ProviderGroup } from '../types';
+
+/**
+ * Units accepted in relative --until values
+ */
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Show usage of the rotate subcommand
+ */
+function showRotateUsage(): void {
+  console.log(`Usage:
+  auo rotate                                   # Show groups, active rotation and exhausted providers
+  auo rotate set <group> <index|name> [...]    # Create or replace a group of equivalent providers
+  auo rotate strategy <group> <strategy>       # ${ROTATION_STRATEGIES.join(' | ')}
+  auo rotate weight <group> <index|name> <n>   # Relative weight for the weighted strategy
+  auo rotate delete <group>                    # Delete a group
+  auo rotate use <group>                       # Rotate launches through a group
+  auo rotate off                               # Go back to the configuration picked with --use
+  auo rotate exhausted <index|name> [--until <time>]
+                                               # Skip a provider until its quota resets
+                                               # (e.g. 5h, 30m, 2d or a date; default: midnight)
+  auo rotate available <index|name>            # Clear the exhausted mark
+
+Strategies:
+  round-robin       Take members in turn
+  weighted          Take members in proportion to their weight
+  least-recent      Take the member used longest ago
+  until-exhausted   Keep the first member until it is marked exhausted`);
+}
+
+/**
+ * Parse a reset time: a duration from now (30m, 5h, 2d) or a date
+ * Returns null when the value is not understood
+ */
+export function parseResetTime(value: string | undefined, now: Date = new Date()): Date | null {
+  if (value === undefined) {
+    const midnight = new Date(now);
+    midnight.setHours(24, 0, 0, 0);
+    return midnight;
+  }
+
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  if (duration) {
+    return new Date(
+      now.getTime() + Number(duration[1]) * (DURATION_UNITS[duration[2] as string] as number)
+    );
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Resolve a provider query to its name, reporting failures
+ */
+function resolveProviderName(
+  configManager: ConfigManager,
+  query: string | undefined
+): string | null {
+  if (query === undefined) {
+    console.error('❌ Missing configuration index or name');
+    return null;
+  }
+  const index = configManager.findConfigIndex(query);
+  return index === -1 ? null : (configManager.getAllConfigs()[index]?.name ?? null);
+}
+
+/**
+ * Get a group by name, reporting when it does not exist
+ */
+function findGroup(configManager: ConfigManager, name: string | undefined): ProviderGroup | null {
+  const group = name !== undefined ? configManager.getGroups()[name] : undefined;
+  if (!group) {
+    console.error(`❌ Group "${name ?? ''}" not found`);
+    return null;
+  }
+  return group;
+}
+
+/**
+ * Print groups, the active rotation and exhausted providers
+ */
+function showRotateStatus(configManager: ConfigManager): void {
+  const groups = Object.entries(configManager.getGroups());
+  const active = configManager.getActiveGroup();
+  const now = Date.now();
+  const state = configManager.getStateStore().read();
+
+  if (groups.length === 0) {
+    console.log('ℹ️  No provider groups yet, create one with: auo rotate set <group> <name> [...]');
+  } else {
+    console.log(
+      formatTable(
+        ['', 'Group', 'Strategy', 'Providers', 'Defaults', 'Last picked'],
+        groups.map(([name, group]) => [
+          name === active ? '👉' : '',
+          name,
+          group.strategy || 'round-robin',
+          group.providers
+            .map((member) => {
+              const weight = group.weights?.[member];
+              return weight !== undefined && group.strategy === 'weighted'
+                ? `${member}×${weight}`
+                : member;
+            })
+            .join(', '),
+          Object.keys(group.env || {}).join(', ') || '-',
+          state.rotation?.[name]?.last || '-',
+        ])
+      )
+    );
+  }
+
+  if (active !== undefined) {
+    console.log(
+      `🔁 Launches rotate through ${active}, next: ${configManager.getCurrentConfig().name}`
+    );
+  }
+
+  const exhausted = Object.keys(state.exhausted || {}).filter(
+    (name) => getExhaustedUntil(state, name, now) !== undefined
+  );
+  exhausted.forEach((name) => {
+    const until = new Date(getExhaustedUntil(state, name, now) as number).toLocaleString();
+    console.log(`⏳ ${name} is exhausted until ${until}`);
+  });
+}
+
+/**
+ * Handle `auo rotate` commands
+ */
+export function handleRotateCommand(args: string[], configManager: ConfigManager): void {
+  const [action, target, ...rest] = args;
+  let ok = true;
+
+  if (action === undefined || action === 'status') {
+    showRotateStatus(configManager);
+    return;
+  }
+
+  if (action === 'off') {
+    if (configManager.setActiveGroup(null)) {
+      console.log(`✅ Rotation off, using ${configManager.getCurrentConfig().name}`);
+    } else {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  // Every other action needs a group or provider
+  if (target === undefined || ['help', '--help', '-h'].includes(action)) {
+    showRotateUsage();
+    if (!['help', '--help', '-h'].includes(action)) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  switch (action) {
+    case 'set': {
+      const names: string[] = [];
+      for (const query of rest) {
+        const name = resolveProviderName(configManager, query);
+        if (name === null) {
+          process.exitCode = 1;
+          return;
+        }
+        names.push(name);
+      }
+      if (names.length === 0) {
+        console.error('❌ Usage: auo rotate set <group> <index|name> [...]');
+        process.exitCode = 1;
+        return;
+      }
+
+      // Keep strategy, defaults and weights of members that stay
+      const existing = configManager.getGroups()[target];
+      const weights = Object.fromEntries(
+        Object.entries(existing?.weights || {}).filter(([name]) => names.includes(name))
+      );
+      ok = configManager.setGroup(target, {
+        providers: names,
+        ...(existing?.strategy ? { strategy: existing.strategy } : {}),
+        ...(Object.keys(weights).length > 0 ? { weights } : {}),
+        ...(existing?.env ? { env: existing.env } : {}),
+      });
+      if (ok) {
+        console.log(`✅ Group ${target}: ${names.join(', ')}`);
+      }
+      break;
+    }
+    case 'strategy': {
+      const group = findGroup(configManager, target);
+      const strategy = rest[0];
+      if (!group) {
+        ok = false;
+      } else if (strategy === undefined || !isRotationStrategy(strategy)) {
+        console.error(`❌ Strategy must be one of: ${ROTATION_STRATEGIES.join(', ')}`);
+        ok = false;
+      } else {
+        ok = configManager.setGroup(target, { ...group, strategy });
+        if (ok) {
+          console.log(`✅ Group ${target} uses ${strategy}`);
+        }
+      }
+      break;
+    }
+    case 'weight': {
+      const group = findGroup(configManager, target);
+      const name = group ? resolveProviderName(configManager, rest[0]) : null;
+      const weight = Number(rest[1]);
+      if (!group || name === null) {
+        ok = false;
+      } else if (!group.providers.includes(name)) {
+        console.error(`❌ ${name} is not a member of group ${target}`);
+        ok = false;
+      } else if (!(weight > 0)) {
+        console.error('❌ Weight must be a positive number');
+        ok = false;
+      } else {
+        ok = configManager.setGroup(target, {
+          ...group,
+          weights: { ...group.weights, [name]: weight },
+        });
+        if (ok) {
+          console.log(`✅ ${name} weighs ${weight} in group ${target}`);
+        }
+      }
+      break;
+    }
+    case 'delete':
+      ok = configManager.setGroup(target, null);
+      if (ok) {
+        console.log(`✅ Group ${target} deleted`);
+      }
+      break;
+    case 'use':
+      ok = configManager.setActiveGroup(target);
+      if (ok) {
+        console.log(`✅ Launches now rotate through group ${target}`);
+      }
+      break;
+    case 'exhausted':
+    case 'available': {
+      const name = resolveProviderName(configManager, target);
+      const untilIndex = rest.indexOf('--until');
+      const until =
+        action === 'exhausted' && !(untilIndex !== -1 && rest[untilIndex + 1] === undefined)
+          ? parseResetTime(untilIndex === -1 ? undefined : rest[untilIndex + 1])
+          : null;
+
+      if (name === null) {
+        ok = false;
+      } else if (action === 'exhausted' && until === null) {
+        console.error('❌ --until must be a duration such as 5h, 30m or 2d, or a date');
+        ok = false;
+      } else {
+        configManager.getStateStore().update((state) => {
+          const exhausted = { ...state.exhausted };
+          if (until) {
+            exhausted[name] = until.toISOString();
+          } else {
+            delete exhausted[name];
+          }
+          state.exhausted = exhausted;
+        });
+        console.log(
+          until
+            ? `⏳ ${name} is skipped by rotations until ${until.toLocaleString()}`
+            : `✅ ${name} is available again`
+        );
+      }
+      break;
+    }
+    default:
+      showRotateUsage();
+      ok = false;
+  }
+
+  if (!ok) {
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { ConfigManager } from '../config/manager';
+import {
+  SecretResolver,
+  createSecretBackends,
+  getVaultPath,
+  hasSecretReferences,
+  hasValueReferences,
+  isPlaintextSecret,
+  isSecretKey,
+  parseSecretReference,
+} from '../config/secrets';
+import type { ConfigEnvironment, ConfigItemV3 } from '../types';
+
+/**
+ * Environment variable that supplies the vault passphrase non-interactively
+ */
+export const VAULT_PASSPHRASE_ENV = 'AUO_VAULT_PASSPHRASE';
+
+/**
+ * Show usage of the secrets subcommand
+ */
+function showSecretsUsage(): void {
+  console.log(`Usage:
+  auo secrets                              # Show where each provider's secrets are stored
+  auo secrets migrate [--backend <name>]   # Move plaintext tokens into secret storage
+
+Backends:
+  vault      Passphrase-encrypted file ~/.auo/vault.json (AES-256-GCM, scrypt) [default]
+  keychain   OS keychain (macOS Keychain, Linux Secret Service via secret-tool)
+
+The vault passphrase is read from ${VAULT_PASSPHRASE_ENV} or prompted for.
+
+Values can also be read when Claude Code starts, without storing them:
+  \${env:MY_TOKEN}          Environment variable of the auo process
+  \${file:~/.secrets/relay} File contents (trailing newline removed)
+  \${cmd:pass show relay}   Output of a shell command (trailing newline removed)
+  e.g. auo env set relay 'ANTHROPIC_AUTH_TOKEN=\${cmd:pass show relay}'`);
+}
+
+/**
+ * Prompt for a value without echoing the typed characters
+ * Prompts go to stderr, so output captured by a shell (eval "$(auo env)") stays clean
+ */
+export function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    // Suppress echo of everything typed after the question
+    let muted = false;
+    const output = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        if (!muted) {
+          process.stderr.write(chunk);
+        }
+        callback();
+      },
+    });
+
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    rl.question(question, (answer) => {
+      process.stderr.write('\n');
+      rl.close();
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Get a passphrase from an environment variable or by prompting
+ * @param envName Variable checked first, for non-interactive use
+ * @param label What the passphrase unlocks, used in prompts and errors
+ * @param confirm Ask twice (used when creating something new)
+ */
+export async function obtainPassphrase(
+  envName: string,
+  label: string,
+  confirm = false
+): Promise<string> {
+  const fromEnv = process.env[envName];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(`${label} is locked: set ${envName} to provide the passphrase`);
+  }
+
+  const passphrase = await promptHidden(`🔑 ${label} passphrase: `);
+  if (!passphrase) {
+    throw new Error(`${label} passphrase cannot be empty`);
+  }
+
+  if (confirm && (await promptHidden('🔑 Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+
+  return passphrase;
+}
+
+/**
+ * Get the vault passphrase from the environment or by prompting
+ * @param confirm Ask twice (used when creating a new vault)
+ */
+export function obtainVaultPassphrase(confirm = false): Promise<string> {
+  return obtainPassphrase(VAULT_PASSPHRASE_ENV, 'Vault', confirm);
+}
+
+/**
+ * Create a resolver for the given providers, unlocking the vault up front when they need it
+ */
+export async function createSecretResolver(
+  configManager: ConfigManager,
+  providers: Array<Pick<ConfigItemV3, 'env'>>
+): Promise<SecretResolver> {
+  const needsVault = providers.some((provider) => hasSecretReferences(provider.env, 'vault'));
+  const passphrase = needsVault ? await obtainVaultPassphrase() : undefined;
+
+  return new SecretResolver(
+    createSecretBackends(configManager.getConfigDir(), () => {
+      if (passphrase === undefined) {
+        throw new Error(`Vault is locked: set ${VAULT_PASSPHRASE_ENV} to provide the passphrase`);
+      }
+      return passphrase;
+    })
+  );
+}
+
+/**
+ * Send plaintext secrets about to be written to the backend already holding the others, so
+ * nothing lands in the configuration file after "auo secrets migrate"
+ * @param env Values the command writes
+ * @returns Whether writing may go ahead, false (after reporting) when the backend is locked
+ */
+export async function prepareSecretWrites(
+  configManager: ConfigManager,
+  env: ConfigEnvironment
+): Promise<boolean> {
+  const backendName = configManager.getStoredSecretBackend();
+  if (!backendName || !Object.entries(env).some(([key, value]) => isPlaintextSecret(key, value))) {
+    return true;
+  }
+
+  try {
+    const passphrase = backendName === 'vault' ? await obtainVaultPassphrase() : undefined;
+    const backend = createSecretBackends(configManager.getConfigDir(), () => passphrase || '').find(
+      (candidate) => candidate.name === backendName
+    );
+    configManager.useSecretBackend(backend || null);
+    return true;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Print where each provider's secrets are stored
+ */
+function showSecretsStatus(configManager: ConfigManager): void {
+  console.log('🔐 Secret storage:');
+
+  let plaintext = 0;
+  configManager.getAllConfigs().forEach((provider, index) => {
+    console.log(`  [${index}] ${provider.name}`);
+    Object.entries(provider.env).forEach(([key, value]) => {
+      const reference = parseSecretReference(value);
+      if (reference) {
+        console.log(`      ${key}: 🔒 ${reference.backend}`);
+      } else if (hasValueReferences(value)) {
+        console.log(`      ${key}: 🔗 ${value}`);
+      } else if (value && isSecretKey(key)) {
+        plaintext++;
+        console.log(`      ${key}: ⚠️  plaintext`);
+      }
+    });
+  });
+
+  if (plaintext > 0) {
+    console.log('💡 Run "auo secrets migrate" to move plaintext secrets into the vault');
+  }
+}
+
+/**
+ * Move plaintext secrets into the chosen backend
+ */
+async function migrateSecrets(configManager: ConfigManager, backendName: string): Promise<void> {
+  const configDir = configManager.getConfigDir();
+  let passphrase: string | undefined;
+
+  if (backendName === 'vault') {
+    passphrase = await obtainVaultPassphrase(!fs.existsSync(getVaultPath(configDir)));
+  }
+
+  const backend = createSecretBackends(configDir, () => passphrase || '').find(
+    (candidate) => candidate.name === backendName
+  );
+  if (!backend) {
+    console.error(`❌ Unknown secret backend "${backendName}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const moved = configManager.moveSecretsToBackend(backend);
+  if (moved.length === 0) {
+    console.log('ℹ️  No plaintext secrets found');
+    return;
+  }
+
+  console.log(`✅ Moved ${moved.length} secret(s) to ${backendName}:`);
+  moved.forEach((id) => console.log(`   ${id}`));
+}
+
+/**
+ * Handle `auo secrets` commands
+ */
+export async function handleSecretsCommand(
+  args: string[],
+  configManager: ConfigManager
+): Promise<void> {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case undefined:
+    case 'status':
+      showSecretsStatus(configManager);
+      return;
+    case 'migrate': {
+      const backendIndex = rest.indexOf('--backend');
+      const backendName = backendIndex === -1 ? 'vault' : rest[backendIndex + 1];
+      if (!backendName) {
+        console.error('❌ --backend requires a value');
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        await migrateSecrets(configManager, backendName);
+      } catch (error) {
+        console.error(
+          '❌ Failed to migrate secrets:',
+          error instanceof Error ? error.message : error
+        );
+        process.exitCode = 1;
+      }
+      return;
+    }
+    case 'help':
+    case '--help':
+    case '-h':
+      showSecretsUsage();
+      return;
+    default:
+      showSecretsUsage();
+      process.exitCode = 1;
+  }
+}
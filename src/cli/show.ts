@@ -0,0 +1,276 @@
+import { ConfigManager } from '../config/manager';
+import { formatEnvSource } from '../config/inheritance';
+import { getIgnoredProjectKeys, loadProjectConfig, resolveActiveProvider } from '../config/project';
+import { isSecretKey, maskSecret } from '../config/secrets';
+import { formatTable } from '../utils/table';
+import type {
+  ActiveProvider,
+  ConfigItemV3,
+  LoadedProjectConfig,
+  ProviderOverride,
+  ProviderSummary,
+  ResolvedProvider,
+} from '../types';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Show usage of the show and current subcommands
+ */
+function showShowUsage(): void {
+  console.log(`Usage:
+  auo show <index|name> [--json]   # Show the resolved env of a configuration and where each value comes from
+  auo current [--json|--name]      # Show the configuration the next launch in this directory uses
+
+Values are inherited, from lowest to highest precedence, from shared defaults
+(auo env set --defaults), defaults of the configuration's groups (auo env set @group)
+and the configurations it extends (--extends). Secrets are masked, and \${env:...},
+\${file:...} and \${cmd:...} references are shown without being resolved.`);
+}
+
+/**
+ * Describe where the active configuration was decided
+ */
+export function describeActiveSource(active: ActiveProvider): string {
+  if (active.source === 'override') {
+    return `${active.overrideOrigin}, this run only`;
+  }
+  if (active.source === 'project') {
+    return `project ${active.projectFile}`;
+  }
+  return active.group !== undefined
+    ? `group ${active.group}, next in rotation`
+    : 'global selection';
+}
+
+/**
+ * Describe a configuration for display or JSON output
+ * @param current Whether launches currently use it
+ * @param project Project file whose env is layered over the configuration
+ */
+export function summarizeProvider(
+  configManager: ConfigManager,
+  provider: ConfigItemV3,
+  index: number,
+  current: boolean,
+  project: LoadedProjectConfig | null = null
+): ProviderSummary {
+  let resolved: ResolvedProvider;
+  let error: string | undefined;
+  try {
+    resolved = configManager.getResolvedProvider(provider);
+  } catch (resolveError) {
+    error = resolveError instanceof Error ? resolveError.message : String(resolveError);
+    const sources = Object.fromEntries(
+      Object.keys(provider.env).map((key) => [key, { kind: 'provider', name: provider.name }])
+    ) as ResolvedProvider['sources'];
+    resolved = { config: provider, sources, chain: [] };
+  }
+
+  const env: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+  for (const [key, value] of Object.entries(resolved.config.env)) {
+    if (value === undefined) {
+      continue;
+    }
+    env[key] = isSecretKey(key) ? maskSecret(value) : value;
+    const source = resolved.sources[key];
+    sources[key] = source ? formatEnvSource(source, provider.name) : '-';
+  }
+
+  // Empty project values remove the variable, sensitive ones only once the file is trusted
+  const ignored = getIgnoredProjectKeys(project);
+  for (const [key, value] of Object.entries(project?.config.env || {})) {
+    if (ignored.includes(key)) {
+      continue;
+    }
+    if (value) {
+      env[key] = isSecretKey(key) ? maskSecret(value) : value;
+      sources[key] = `project ${project?.path}`;
+    } else {
+      delete env[key];
+      delete sources[key];
+    }
+  }
+
+  return {
+    index,
+    name: provider.name,
+    description: resolved.config.description,
+    tags: provider.tags || [],
+    groups: Object.entries(configManager.getGroups())
+      .filter(([, group]) => group.providers.includes(provider.name))
+      .map(([name]) => name),
+    extends: resolved.chain,
+    current,
+    env,
+    sources,
+    models: resolved.config.models || {},
+    protocol: resolved.config.protocol || 'anthropic',
+    ...(error !== undefined ? { error } : {}),
+  };
+}
+
+/**
+ * Print a configuration summary
+ */
+function printSummary(summary: ProviderSummary): void {
+  console.log(
+    `🔍 [${summary.index}] ${summary.name}${summary.description ? ` - ${summary.description}` : ''}`
+  );
+  if (summary.extends.length > 0) {
+    console.log(`   Extends: ${summary.extends.join(' → ')}`);
+  }
+  if (summary.tags.length > 0) {
+    console.log(`   Tags: ${summary.tags.join(', ')}`);
+  }
+  if (summary.groups.length > 0) {
+    console.log(`   Groups: ${summary.groups.join(', ')}`);
+  }
+  if (summary.protocol === 'openai') {
+    console.log('   Protocol: OpenAI chat completions, through the local translating proxy');
+  }
+  const models = Object.entries(summary.models);
+  if (models.length > 0) {
+    console.log(`   Models: ${models.map(([from, to]) => `${from} → ${to}`).join(', ')}`);
+  }
+  if (summary.error !== undefined) {
+    console.error(`❌ ${summary.error}`);
+  }
+
+  const keys = Object.keys(summary.env);
+  if (keys.length === 0) {
+    console.log('ℹ️  No environment variables set');
+    return;
+  }
+
+  console.log(
+    formatTable(
+      ['Variable', 'Value', 'Source'],
+      keys.map((key) => [key, summary.env[key] || '', summary.sources[key] || '-'])
+    )
+  );
+}
+
+/**
+ * Get the launch configuration without advancing a rotation, reporting failures
+ */
+function getActiveProvider(
+  configManager: ConfigManager,
+  override?: ProviderOverride
+): { active: ActiveProvider; project: LoadedProjectConfig | null } | null {
+  try {
+    const project = loadProjectConfig(process.cwd(), configManager.getStateStore());
+    return { active: resolveActiveProvider(configManager, project, override), project };
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Handle `auo show`
+ */
+export function handleShowCommand(args: string[], configManager: ConfigManager): void {
+  const json = args.includes('--json');
+  const [query] = args.filter((arg) => arg !== '--json');
+  if (query === undefined || HELP_FLAGS.includes(query)) {
+    showShowUsage();
+    if (query === undefined) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const index = configManager.findConfigIndex(query);
+  const provider = configManager.getAllConfigs()[index];
+  if (!provider) {
+    process.exitCode = 1;
+    return;
+  }
+
+  // Problems deciding the launch configuration are reported by auo current, not here
+  let current = false;
+  try {
+    current =
+      resolveActiveProvider(
+        configManager,
+        loadProjectConfig(process.cwd(), configManager.getStateStore())
+      ).index === index;
+  } catch {
+    current = false;
+  }
+
+  const summary = summarizeProvider(configManager, provider, index, current);
+  if (json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    printSummary(summary);
+  }
+  if (summary.error !== undefined) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Handle `auo current`
+ * @param override Provider chosen for a single run (AUO_PROVIDER)
+ */
+export function handleCurrentCommand(
+  args: string[],
+  configManager: ConfigManager,
+  override?: ProviderOverride
+): void {
+  const unknown = args.find((arg) => arg !== '--json' && arg !== '--name');
+  if (unknown !== undefined) {
+    showShowUsage();
+    if (!HELP_FLAGS.includes(unknown)) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const launch = getActiveProvider(configManager, override);
+  if (!launch) {
+    process.exitCode = 1;
+    return;
+  }
+  const { active, project } = launch;
+
+  // Only the name, fast to embed in shell prompts and status bars
+  if (args.includes('--name')) {
+    console.log(active.config.name);
+    return;
+  }
+
+  // Summarize the stored configuration so every value keeps its source
+  const stored = configManager.getAllConfigs()[active.index] || active.config;
+  const summary = summarizeProvider(configManager, stored, active.index, true, project);
+  if (args.includes('--json')) {
+    console.log(
+      JSON.stringify(
+        {
+          ...summary,
+          source: active.source,
+          ...(active.group !== undefined ? { group: active.group } : {}),
+          ...(active.projectFile !== undefined ? { projectFile: active.projectFile } : {}),
+          ...(active.overrideOrigin !== undefined ? { overrideOrigin: active.overrideOrigin } : {}),
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  printSummary(summary);
+  console.log(`   Selected by ${describeActiveSource(active)}`);
+  if (active.ignoredProjectKeys) {
+    console.log(
+      `⚠️  Ignoring ${active.ignoredProjectKeys.join(', ')} from untrusted ${active.projectFile}, review it and run "auo trust" to allow them`
+    );
+  }
+}
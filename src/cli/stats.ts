@@ -0,0 +1,195 @@
+import { ConfigManager } from '../config/manager';
+import { getClaudeConfigDir } from '../config/discovery';
+import { getTranscriptDir, readTranscriptUsage, summarizeSessions } from '../config/usage';
+import { formatTable } from '../utils/table';
+import type { EnvironmentVariables, TokenUsage, UsageGroupBy, UsageSummary } from '../types';
+
+/**
+ * Accepted --by values
+ */
+const GROUP_BY: UsageGroupBy[] = ['provider', 'day', 'project'];
+
+/**
+ * Column header of each grouping
+ */
+const GROUP_HEADERS: Record<UsageGroupBy, string> = {
+  provider: 'Provider',
+  day: 'Day',
+  project: 'Project',
+};
+
+/**
+ * Show usage of the stats subcommand
+ */
+function showStatsUsage(): void {
+  console.log(`Usage:
+  auo stats [--by provider|day|project] [--days <n>] [--json]
+      Summarize Claude Code sessions launched by auo
+      --by      Group sessions (default: provider)
+      --days    Only count sessions started in the last n days
+      --json    Print the summary as JSON
+
+Token counts are read from Claude Code's transcripts (~/.claude/projects) when a
+session ends; concurrent sessions in the same directory are counted for each of them.`);
+}
+
+/**
+ * Get the model a session asks for: --model wins over ANTHROPIC_MODEL
+ */
+function getSessionModel(claudeArgs: string[], env: EnvironmentVariables): string | undefined {
+  const index = claudeArgs.findIndex((arg) => arg === '--model' || arg.startsWith('--model='));
+  const arg = claudeArgs[index];
+  if (arg !== undefined) {
+    return arg === '--model' ? claudeArgs[index + 1] : arg.slice('--model='.length);
+  }
+  return env.ANTHROPIC_MODEL;
+}
+
+/**
+ * Record the start of a Claude Code session
+ * Returns the callback recording its end, with token counts when transcripts have them
+ * @param env Provider env Claude Code is launched with, which may move its transcripts
+ */
+export function startSessionLog(
+  configManager: ConfigManager,
+  provider: string,
+  claudeArgs: string[],
+  env: EnvironmentVariables
+): (exitCode: number) => void {
+  const log = configManager.getUsageLog();
+  const model = getSessionModel(claudeArgs, env);
+  const session = log.start({ provider, cwd: process.cwd(), ...(model ? { model } : {}) });
+
+  return (exitCode) => {
+    const tokens = readTranscriptUsage(
+      getTranscriptDir(getClaudeConfigDir({ ...process.env, ...env }), session.cwd),
+      new Date(session.startedAt),
+      new Date()
+    );
+    log.finish(session, exitCode, tokens);
+  };
+}
+
+/**
+ * Format a duration as hours and minutes
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) {
+    return `${Math.round(ms / 1000)}s`;
+  }
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Format a token count in thousands or millions
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1e6) {
+    return `${(count / 1e6).toFixed(1)}M`;
+  }
+  return count >= 1e3 ? `${(count / 1e3).toFixed(1)}k` : String(count);
+}
+
+/**
+ * Print a summary table
+ */
+function printSummary(groupBy: UsageGroupBy, groups: UsageSummary[]): void {
+  const tokens = (usage: TokenUsage | undefined, field: keyof TokenUsage): string =>
+    usage ? formatTokens(usage[field]) : '-';
+
+  console.log(
+    formatTable(
+      [
+        GROUP_HEADERS[groupBy],
+        'Sessions',
+        'Failed',
+        'Time',
+        'Input',
+        'Output',
+        'Cache write',
+        'Cache read',
+      ],
+      groups.map((group) => [
+        group.key,
+        group.sessions,
+        group.failed,
+        formatDuration(group.durationMs),
+        tokens(group.tokens, 'input'),
+        tokens(group.tokens, 'output'),
+        tokens(group.tokens, 'cacheCreation'),
+        tokens(group.tokens, 'cacheRead'),
+      ])
+    )
+  );
+}
+
+/**
+ * Handle `auo stats`
+ */
+export function handleStatsCommand(args: string[], configManager: ConfigManager): void {
+  let groupBy: UsageGroupBy = 'provider';
+  let days: number | undefined;
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+
+    if (['help', '--help', '-h'].includes(arg)) {
+      showStatsUsage();
+      return;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '--by') {
+      const value = args[++i];
+      if (!GROUP_BY.includes(value as UsageGroupBy)) {
+        console.error(`❌ --by must be one of: ${GROUP_BY.join(', ')}`);
+        process.exitCode = 1;
+        return;
+      }
+      groupBy = value as UsageGroupBy;
+    } else if (arg === '--days') {
+      days = Number(args[++i]);
+      if (!Number.isInteger(days) || days <= 0) {
+        console.error('❌ --days must be a positive whole number');
+        process.exitCode = 1;
+        return;
+      }
+    } else {
+      console.error(`❌ Unknown stats argument "${arg}"`);
+      showStatsUsage();
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const since = days !== undefined ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined;
+  const sessions = configManager
+    .getUsageLog()
+    .read()
+    .filter((session) => since === undefined || Date.parse(session.startedAt) >= since);
+  const groups = summarizeSessions(sessions, groupBy);
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          groupBy,
+          ...(since !== undefined ? { since: new Date(since).toISOString() } : {}),
+          groups,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (groups.length === 0) {
+    console.log('ℹ️  No sessions recorded yet');
+    return;
+  }
+
+  console.log(`📊 ${sessions.length} session(s) by ${groupBy}:`);
+  printSummary(groupBy, groups);
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigManager } from '../config/manager';
+import {
+  findProjectFile,
+  getIgnoredProjectKeys,
+  loadProjectFile,
+  trustProject,
+  untrustProject,
+} from '../config/project';
+import { formatTable } from '../utils/table';
+
+/**
+ * Arguments that request usage instead of an action
+ */
+const HELP_FLAGS = ['help', '--help', '-h'];
+
+/**
+ * Show usage of the trust subcommand
+ */
+function showTrustUsage(): void {
+  console.log(`Usage:
+  auo trust [file|dir]            # Trust the nearest project file (.auorc / .auo.json)
+  auo trust --list                # List trusted project files
+  auo trust --revoke [file|dir]   # Stop trusting a project file
+
+Until a project file is trusted only its provider and model variables (e.g.
+ANTHROPIC_MODEL) apply: other variables such as ANTHROPIC_BASE_URL, HTTPS_PROXY or
+PATH and its claudeArgs are ignored, and the shell hook does not load it. Changing
+the file makes it untrusted again.`);
+}
+
+/**
+ * Find the project file a command refers to: a file, the nearest one from a directory, or the
+ * nearest one from the working directory
+ */
+function findTargetFile(target: string | undefined): string | null {
+  const resolved = path.resolve(target ?? process.cwd());
+  if (fs.existsSync(resolved) && fs.statSync(resolved).isFile()) {
+    return resolved;
+  }
+  return findProjectFile(resolved);
+}
+
+/**
+ * Print trusted project files and whether they changed since
+ */
+function listTrustedProjects(configManager: ConfigManager): void {
+  const store = configManager.getStateStore();
+  const trusted = Object.keys(store.read().trustedProjects || {});
+  if (trusted.length === 0) {
+    console.log('ℹ️  No trusted project files');
+    return;
+  }
+
+  const rows = trusted.map((filePath) => {
+    if (!fs.existsSync(filePath)) {
+      return [filePath, 'missing'];
+    }
+    try {
+      return [filePath, loadProjectFile(filePath, store).trusted ? 'trusted' : 'changed'];
+    } catch {
+      return [filePath, 'invalid'];
+    }
+  });
+  console.log(formatTable(['Project file', 'Status'], rows));
+}
+
+/**
+ * Handle `auo trust`
+ */
+export function handleTrustCommand(args: string[], configManager: ConfigManager): void {
+  const [first, ...rest] = args;
+  if (first !== undefined && HELP_FLAGS.includes(first)) {
+    showTrustUsage();
+    return;
+  }
+
+  if (first === '--list' && rest.length === 0) {
+    listTrustedProjects(configManager);
+    return;
+  }
+
+  const revoke = first === '--revoke';
+  const targets = revoke ? rest : args;
+  if (targets.length > 1 || targets[0]?.startsWith('-')) {
+    showTrustUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const store = configManager.getStateStore();
+  const filePath = findTargetFile(targets[0]);
+  if (revoke) {
+    const revoked = filePath !== null && untrustProject(store, filePath);
+    if (!revoked) {
+      console.error(`❌ ${filePath ?? targets[0] ?? 'No project file'} is not trusted`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`✅ No longer trusting ${filePath}`);
+    return;
+  }
+
+  if (!filePath) {
+    console.error('❌ No project file (.auorc / .auo.json) found');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const project = loadProjectFile(filePath);
+    const sensitive = getIgnoredProjectKeys(project);
+    trustProject(store, project);
+
+    console.log(`✅ Trusted ${filePath}`);
+    console.log(JSON.stringify(project.config, null, 2));
+    if (sensitive.length > 0) {
+      console.log(`   Now allowed to override: ${sensitive.join(', ')}`);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
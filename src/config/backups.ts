@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import { listEnvironments } from './inheritance';
+import { ConfigMigration } from './migration';
+import { isSecretKey, maskSecret } from './secrets';
+import { writeFileAtomic } from './storage';
+import type {
+  BackupInfo,
+  ConfigChange,
+  ConfigEnvironment,
+  ConfigFile,
+  ConfigFileV3,
+} from './types';
+
+/**
+ * Number of snapshots kept, older ones are removed
+ */
+export const MAX_BACKUPS = 20;
+
+/**
+ * Snapshot file names: <timestamp>_<operation>[_<n>].json
+ */
+const BACKUP_FILE_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z_([a-z-]+)(_\d+)?\.json$/;
+
+/**
+ * Rotating history of configuration snapshots
+ * Each snapshot is a copy of the configuration file it replaced, with secrets moved to a backend
+ * later replaced by their references
+ */
+export class BackupStore {
+  private readonly backupDir: string;
+  private readonly maxBackups: number;
+
+  constructor(configDir: string, maxBackups = MAX_BACKUPS) {
+    this.backupDir = path.join(configDir, 'backups');
+    this.maxBackups = maxBackups;
+  }
+
+  /**
+   * Get backup directory path
+   */
+  getBackupDir(): string {
+    return this.backupDir;
+  }
+
+  /**
+   * Store a snapshot and drop the oldest ones beyond the limit
+   * @param onDrop Called with the configuration of each dropped snapshot once it is gone, e.g. to
+   * remove secrets nothing refers to anymore
+   */
+  create(data: string, operation: string, onDrop?: (config: ConfigFileV3) => void): BackupInfo {
+    if (!/^[a-z-]+$/.test(operation)) {
+      throw new Error(`Invalid backup operation "${operation}"`);
+    }
+
+    fs.mkdirSync(this.backupDir, { recursive: true, mode: 0o700 });
+
+    const createdAt = new Date().toISOString();
+    const base = `${createdAt.replace(/[:.]/g, '-')}_${operation}`;
+    let id = base;
+    for (let n = 2; fs.existsSync(path.join(this.backupDir, `${id}.json`)); n++) {
+      id = `${base}_${n}`;
+    }
+
+    const filePath = path.join(this.backupDir, `${id}.json`);
+    // Snapshots may hold plaintext tokens, like the configuration itself
+    writeFileAtomic(filePath, data, 0o600);
+
+    const dropped: ConfigFileV3[] = [];
+    for (const backup of this.list().slice(this.maxBackups)) {
+      if (onDrop) {
+        try {
+          dropped.push(this.load(backup));
+        } catch {
+          // Nothing usable to hand over
+        }
+      }
+      fs.rmSync(backup.path, { force: true });
+    }
+    dropped.forEach((config) => onDrop?.(config));
+
+    return { id, createdAt, operation, path: filePath };
+  }
+
+  /**
+   * List snapshots, newest first
+   */
+  list(): BackupInfo[] {
+    if (!fs.existsSync(this.backupDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.backupDir)
+      .flatMap((file): BackupInfo[] => {
+        const match = BACKUP_FILE_PATTERN.exec(file);
+        if (!match) {
+          return [];
+        }
+        const [, date, hours, minutes, seconds, millis, operation] = match;
+        return [
+          {
+            id: file.slice(0, -'.json'.length),
+            createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+            operation: operation as string,
+            path: path.join(this.backupDir, file),
+          },
+        ];
+      })
+      .sort((a, b) => b.id.localeCompare(a.id, undefined, { numeric: true }));
+  }
+
+  /**
+   * Find a snapshot by list position (0 is the newest) or id
+   */
+  find(query: string): BackupInfo | null {
+    const backups = this.list();
+    if (/^\d+$/.test(query)) {
+      return backups[parseInt(query, 10)] || null;
+    }
+    return backups.find((backup) => backup.id === query) || null;
+  }
+
+  /**
+   * Overwrite a snapshot with a changed configuration, e.g. once its secrets moved to a backend
+   */
+  replace(backup: BackupInfo, config: ConfigFileV3): void {
+    writeFileAtomic(backup.path, JSON.stringify(config, null, 2), 0o600);
+  }
+
+  /**
+   * Get every env value in the snapshots, so secrets they refer to stay available to restore
+   * Unusable snapshots are skipped
+   */
+  listValues(): Set<string> {
+    const values = new Set<string>();
+    for (const backup of this.list()) {
+      try {
+        for (const [, env] of listEnvironments(this.load(backup))) {
+          Object.values(env).forEach((value) => value && values.add(value));
+        }
+      } catch {
+        // Can't be restored either
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Read a snapshot as a current-format configuration
+   * Throws when the snapshot cannot be used as a configuration
+   */
+  load(backup: BackupInfo): ConfigFileV3 {
+    let config: ConfigFileV3;
+    try {
+      const raw = JSON.parse(fs.readFileSync(backup.path, 'utf8')) as ConfigFile;
+      config = ConfigMigration.migrate(raw).config;
+    } catch (error) {
+      throw new Error(
+        `Backup ${backup.id} is unreadable: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!ConfigMigration.validateV3Config(config)) {
+      throw new Error(`Backup ${backup.id} is not a valid configuration`);
+    }
+    return config;
+  }
+}
+
+/**
+ * List what changes going from one configuration to another, with secrets masked
+ */
+export function diffConfigs(from: ConfigFileV3, to: ConfigFileV3): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const change = (
+    field: string,
+    before: string | undefined,
+    after: string | undefined,
+    secret = false
+  ): void => {
+    if (before === after) {
+      return;
+    }
+    // Compare real values, show masked ones
+    const show = (value: string): string => (secret ? maskSecret(value) : value);
+    const kind = before === undefined ? 'added' : after === undefined ? 'removed' : 'changed';
+    changes.push({
+      kind,
+      path: field,
+      ...(before !== undefined ? { before: show(before) } : {}),
+      ...(after !== undefined ? { after: show(after) } : {}),
+    });
+  };
+
+  const json = (value: unknown): string | undefined =>
+    value === undefined ? undefined : JSON.stringify(value);
+  const changeEnv = (
+    prefix: string,
+    before: ConfigEnvironment = {},
+    after: ConfigEnvironment = {}
+  ): void => {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      change(`${prefix}.env.${key}`, before[key], after[key], isSecretKey(key));
+    }
+  };
+
+  const names = [...new Set([...from.providers, ...to.providers].map((cfg) => cfg.name))];
+  for (const name of names) {
+    const before = from.providers.find((cfg) => cfg.name === name);
+    const after = to.providers.find((cfg) => cfg.name === name);
+
+    if (!before || !after) {
+      changes.push({ kind: before ? 'removed' : 'added', path: name });
+      continue;
+    }
+
+    change(`${name}.description`, before.description, after.description);
+    change(`${name}.tags`, before.tags?.join(', '), after.tags?.join(', '));
+    change(`${name}.extends`, before.extends, after.extends);
+    change(`${name}.protocol`, before.protocol, after.protocol);
+    const models = [
+      ...new Set([...Object.keys(before.models || {}), ...Object.keys(after.models || {})]),
+    ];
+    for (const model of models) {
+      change(`${name}.models.${model}`, before.models?.[model], after.models?.[model]);
+    }
+    changeEnv(name, before.env, after.env);
+  }
+
+  changeEnv('defaults', from.defaults?.env, to.defaults?.env);
+
+  const groups = [...new Set([...Object.keys(from.groups || {}), ...Object.keys(to.groups || {})])];
+  for (const group of groups) {
+    const before = from.groups?.[group];
+    const after = to.groups?.[group];
+
+    if (!before || !after) {
+      changes.push({ kind: before ? 'removed' : 'added', path: `@${group}` });
+      continue;
+    }
+
+    change(`@${group}.providers`, before.providers.join(', '), after.providers.join(', '));
+    change(`@${group}.strategy`, before.strategy, after.strategy);
+    change(`@${group}.weights`, json(before.weights), json(after.weights));
+    changeEnv(`@${group}`, before.env, after.env);
+  }
+
+  change('current', from.providers[from.currentIndex]?.name, to.providers[to.currentIndex]?.name);
+  change('activeGroup', from.activeGroup, to.activeGroup);
+  change('failover', json(from.failover), json(to.failover));
+
+  return changes;
+}
@@ -0,0 +1,406 @@
+import { ConfigMigration } from './migration';
+import { listEnvironments } from './inheritance';
+import { decryptSecret, encryptSecret, hasValueReferences, isSecretKey } from './secrets';
+import type {
+  BundleTokenMode,
+  ConfigBundle,
+  ConfigFile,
+  ConfigFileV3,
+  ConfigItemV3,
+  ImportOptions,
+  ImportOutcome,
+  ImportSummary,
+  ProviderGroup,
+} from './types';
+
+/**
+ * Format marker of export bundles
+ */
+const BUNDLE_FORMAT = 'auo-bundle';
+
+/**
+ * Current bundle format version
+ */
+const BUNDLE_VERSION = 1;
+
+/**
+ * Pattern of placeholders standing in for encrypted secrets
+ */
+const BUNDLE_PLACEHOLDER_PATTERN = /^\$\{bundle:([^}]+)\}$/;
+
+/**
+ * Options for creating a bundle
+ */
+export interface CreateBundleOptions {
+  /** Passphrase for encrypted bundles */
+  passphrase?: string;
+  /** Turn stored values (e.g. vault references) into the real secret */
+  resolveValue?: (key: string, value: string) => string;
+}
+
+/**
+ * Bundle content ready to import
+ */
+export interface OpenedBundle {
+  /** Configuration with secrets restored */
+  config: ConfigFileV3;
+  /** Secret ids that were redacted at export */
+  redacted: string[];
+}
+
+/**
+ * Deep copy a configuration so bundle operations never touch the caller's objects
+ */
+function cloneConfig(config: ConfigFileV3): ConfigFileV3 {
+  return JSON.parse(JSON.stringify(config)) as ConfigFileV3;
+}
+
+/**
+ * Build the secret id of a variable, e.g. relay/ANTHROPIC_AUTH_TOKEN or defaults/ANTHROPIC_API_KEY
+ */
+function secretId(owner: string, key: string): string {
+  return `${owner}/${key}`;
+}
+
+/**
+ * Create an export bundle from a configuration
+ */
+export function createBundle(
+  config: ConfigFileV3,
+  tokens: BundleTokenMode,
+  options: CreateBundleOptions = {}
+): ConfigBundle {
+  if (tokens === 'encrypted' && !options.passphrase) {
+    throw new Error('A passphrase is required to encrypt the bundle');
+  }
+
+  const exported = cloneConfig(config);
+  const secrets: Record<string, string> = {};
+  const redacted: string[] = [];
+
+  for (const [owner, env] of listEnvironments(exported)) {
+    for (const [key, value] of Object.entries(env)) {
+      // ${env:...}, ${file:...} and ${cmd:...} hold no secret, they are exported as they are
+      if (value === undefined || !isSecretKey(key) || hasValueReferences(value)) {
+        continue;
+      }
+
+      const id = secretId(owner, key);
+      if (tokens === 'redacted') {
+        delete env[key];
+        redacted.push(id);
+        continue;
+      }
+
+      const secret = options.resolveValue ? options.resolveValue(key, value) : value;
+      if (tokens === 'encrypted') {
+        secrets[id] = secret;
+        env[key] = `\${bundle:${id}}`;
+      } else {
+        env[key] = secret;
+      }
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    tokens,
+    config: exported,
+    ...(tokens === 'encrypted'
+      ? { secrets: encryptSecret(JSON.stringify(secrets), options.passphrase || '') }
+      : {}),
+    ...(tokens === 'redacted' ? { redacted } : {}),
+  };
+}
+
+/**
+ * Parse and validate a bundle
+ * A plain configuration file (any version) is accepted as an unencrypted bundle
+ */
+export function parseBundle(text: string): ConfigBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Bundle is not valid JSON: ${reason}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Bundle must be a JSON object');
+  }
+
+  const raw = data as Record<string, unknown>;
+  let bundle: ConfigBundle;
+
+  if (raw.format === BUNDLE_FORMAT) {
+    if (raw.version !== BUNDLE_VERSION) {
+      throw new Error(`Unsupported bundle version ${String(raw.version)}`);
+    }
+    if (raw.tokens !== 'plain' && raw.tokens !== 'redacted' && raw.tokens !== 'encrypted') {
+      throw new Error(`Unsupported token mode ${String(raw.tokens)}`);
+    }
+    if (raw.tokens === 'encrypted' && (!raw.secrets || typeof raw.secrets !== 'object')) {
+      throw new Error('Encrypted bundle has no secrets');
+    }
+    bundle = data as ConfigBundle;
+  } else if (Array.isArray(raw.providers)) {
+    bundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: '',
+      tokens: 'plain',
+      config: data as ConfigFile,
+    };
+  } else {
+    throw new Error('Not an auo bundle or configuration file');
+  }
+
+  if (!bundle.config || typeof bundle.config !== 'object') {
+    throw new Error('Bundle has no configuration');
+  }
+
+  // Bring older configurations up to date, then validate before anything is written
+  let config: ConfigFileV3;
+  try {
+    config = ConfigMigration.migrate(bundle.config).config;
+  } catch {
+    throw new Error('Bundle contains an invalid configuration');
+  }
+  if (!ConfigMigration.validateV3Config(config)) {
+    throw new Error('Bundle contains an invalid configuration');
+  }
+
+  return { ...bundle, config };
+}
+
+/**
+ * Restore secrets of a parsed bundle
+ * @param passphrase Required for encrypted bundles
+ */
+export function openBundle(bundle: ConfigBundle, passphrase?: string): OpenedBundle {
+  const config = cloneConfig(ConfigMigration.migrate(bundle.config).config);
+
+  if (bundle.tokens === 'encrypted') {
+    if (!bundle.secrets || passphrase === undefined) {
+      throw new Error('A passphrase is required to open an encrypted bundle');
+    }
+
+    const secrets = JSON.parse(decryptSecret(bundle.secrets, passphrase)) as Record<string, string>;
+    for (const [, env] of listEnvironments(config)) {
+      for (const [key, value] of Object.entries(env)) {
+        const id = value ? BUNDLE_PLACEHOLDER_PATTERN.exec(value)?.[1] : undefined;
+        if (id === undefined) {
+          continue;
+        }
+        const secret = secrets[id];
+        if (secret === undefined) {
+          throw new Error(`Bundle is missing the encrypted value of ${id}`);
+        }
+        env[key] = secret;
+      }
+    }
+  }
+
+  return { config, redacted: bundle.redacted || [] };
+}
+
+/**
+ * Check whether a configuration only holds the untouched built-in default provider
+ */
+function isPristine(config: ConfigFileV3): boolean {
+  const [only] = config.providers;
+  return (
+    config.providers.length === 1 &&
+    only?.name === 'default' &&
+    !Object.values(only.env).some(Boolean)
+  );
+}
+
+/**
+ * Find a free name by appending -2, -3, ...
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  let suffix = 2;
+  while (taken.has(`${name}-${suffix}`)) {
+    suffix++;
+  }
+  return `${name}-${suffix}`;
+}
+
+/**
+ * Create an empty import outcome
+ */
+function emptyOutcome(): ImportOutcome {
+  return { added: [], overwritten: [], renamed: [], skipped: [] };
+}
+
+/**
+ * Describe taking a whole imported configuration, replacing the existing one
+ */
+function summarizeReplacement(incoming: ConfigFileV3): Omit<ImportSummary, 'commands'> {
+  return {
+    ...emptyOutcome(),
+    added: incoming.providers.map((provider) => provider.name),
+    groups: { ...emptyOutcome(), added: Object.keys(incoming.groups || {}) },
+    settings: {
+      imported: [
+        ...(incoming.failover ? ['failover settings'] : []),
+        ...Object.keys(incoming.defaults?.env || {}).map((key) => `default ${key}`),
+      ],
+      kept: [],
+    },
+  };
+}
+
+/**
+ * List variables of a merged configuration that read files or run commands and weren't already
+ * set that way, as "owner/KEY"; importing them runs whatever the bundle says on the next launch
+ */
+function listNewCommands(existing: ConfigFileV3, merged: ConfigFileV3): string[] {
+  const known = new Map(listEnvironments(existing));
+  return listEnvironments(merged).flatMap(([owner, env]) =>
+    Object.entries(env)
+      .filter(
+        ([key, value]) =>
+          hasValueReferences(value, ['file', 'cmd']) && known.get(owner)?.[key] !== value
+      )
+      .map(([key]) => `${owner}/${key}`)
+  );
+}
+
+/**
+ * Point a group at the names its members were imported under
+ */
+function renameGroupMembers(group: ProviderGroup, rename: (name: string) => string): ProviderGroup {
+  return {
+    ...group,
+    providers: group.providers.map(rename),
+    ...(group.weights
+      ? {
+          weights: Object.fromEntries(
+            Object.entries(group.weights).map(([member, weight]) => [rename(member), weight])
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Combine an imported configuration with the existing one
+ * Groups follow the same conflict handling as providers. Failover settings and shared defaults
+ * are taken when the existing configuration has none (or with overwrite) and reported as kept
+ * otherwise. Imported providers, groups and failover settings refer to renamed providers by
+ * their new names
+ */
+export function mergeConfigs(
+  existing: ConfigFileV3,
+  incoming: ConfigFileV3,
+  options: ImportOptions = {}
+): { config: ConfigFileV3; summary: ImportSummary } {
+  // A fresh installation has nothing worth keeping, take the imported selection as well
+  if (options.strategy === 'replace' || isPristine(existing)) {
+    const config = cloneConfig(incoming);
+    return {
+      config,
+      summary: { ...summarizeReplacement(incoming), commands: listNewCommands(existing, config) },
+    };
+  }
+
+  const summary: ImportSummary = {
+    ...emptyOutcome(),
+    groups: emptyOutcome(),
+    settings: { imported: [], kept: [] },
+    commands: [],
+  };
+  const config = cloneConfig(existing);
+  const imported = cloneConfig(incoming);
+  const taken = new Set(config.providers.map((provider) => provider.name));
+  const onConflict = options.onConflict || 'skip';
+  const renames = new Map<string, string>();
+  const merged: ConfigItemV3[] = [];
+
+  for (const provider of imported.providers) {
+    const index = config.providers.findIndex((cfg) => cfg.name === provider.name);
+
+    if (index === -1) {
+      config.providers.push(provider);
+      merged.push(provider);
+      summary.added.push(provider.name);
+    } else if (onConflict === 'overwrite') {
+      config.providers[index] = provider;
+      merged.push(provider);
+      summary.overwritten.push(provider.name);
+    } else if (onConflict === 'rename') {
+      const renamed: ConfigItemV3 = { ...provider, name: uniqueName(provider.name, taken) };
+      config.providers.push(renamed);
+      merged.push(renamed);
+      renames.set(provider.name, renamed.name);
+      summary.renamed.push({ from: provider.name, to: renamed.name });
+    } else {
+      summary.skipped.push(provider.name);
+    }
+
+    config.providers.forEach((cfg) => taken.add(cfg.name));
+  }
+
+  // Skipped providers are served by the existing ones of the same name
+  const rename = (name: string): string => renames.get(name) ?? name;
+  for (const provider of merged) {
+    if (provider.extends !== undefined) {
+      provider.extends = rename(provider.extends);
+    }
+  }
+
+  for (const [name, group] of Object.entries(imported.groups || {})) {
+    const groups = (config.groups = config.groups || {});
+    const mapped = renameGroupMembers(group, rename);
+
+    if (!groups[name]) {
+      groups[name] = mapped;
+      summary.groups.added.push(name);
+    } else if (onConflict === 'overwrite') {
+      groups[name] = mapped;
+      summary.groups.overwritten.push(name);
+    } else if (onConflict === 'rename') {
+      const to = uniqueName(name, new Set(Object.keys(groups)));
+      groups[to] = mapped;
+      summary.groups.renamed.push({ from: name, to });
+    } else {
+      summary.groups.skipped.push(name);
+    }
+  }
+
+  if (imported.failover) {
+    const failover = { ...imported.failover, providers: imported.failover.providers.map(rename) };
+    const current = config.failover;
+    if (
+      !current ||
+      (!current.enabled && current.providers.length === 0) ||
+      onConflict === 'overwrite'
+    ) {
+      config.failover = failover;
+      summary.settings.imported.push('failover settings');
+    } else if (JSON.stringify(current) !== JSON.stringify(failover)) {
+      summary.settings.kept.push('failover settings');
+    }
+  }
+
+  for (const [key, value] of Object.entries(imported.defaults?.env || {})) {
+    const env = config.defaults?.env || {};
+    if (value === undefined || env[key] === value) {
+      continue;
+    }
+    if (env[key] === undefined || onConflict === 'overwrite') {
+      config.defaults = { ...config.defaults, env: { ...env, [key]: value } };
+      summary.settings.imported.push(`default ${key}`);
+    } else {
+      summary.settings.kept.push(`default ${key}`);
+    }
+  }
+
+  summary.commands = listNewCommands(existing, config);
+  return { config, summary };
+}
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { DEFAULT_BASE_URL } from '../utils/health';
+import type { ConfigEnvironment, ConfigItemV2, ConfigItemV3 } from './types';
+
+/**
+ * Prefix of the variables picked up from the shell environment
+ */
+const SHELL_ENV_PREFIX = 'ANTHROPIC_';
+
+/**
+ * Provider found outside auo
+ */
+export interface DetectedProvider {
+  /** Human-readable source, e.g. "shell environment" */
+  source: string;
+  /** Configuration entry with a suggested name */
+  config: ConfigItemV2;
+}
+
+/**
+ * Detected providers split into new ones and those auo already has
+ */
+export interface DetectionPlan {
+  /** Providers to add */
+  toAdd: DetectedProvider[];
+  /** Providers matching an existing or earlier detected one */
+  duplicates: Array<{ detected: DetectedProvider; matches: string }>;
+}
+
+/**
+ * Short fingerprint of a token, safe to show and compare
+ */
+export function tokenFingerprint(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 12);
+}
+
+/**
+ * Identity of a provider: normalized base URL plus token fingerprint
+ * Returns null when the environment has no token
+ */
+export function providerIdentity(env: ConfigEnvironment): string | null {
+  const token = env.ANTHROPIC_AUTH_TOKEN || env.ANTHROPIC_API_KEY;
+  if (!token) {
+    return null;
+  }
+
+  const baseUrl = (env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL).trim().replace(/\/+$/, '');
+  return `${baseUrl.toLowerCase()}#${tokenFingerprint(token)}`;
+}
+
+/**
+ * Suggest a configuration name from the base URL host, e.g. https://api.anyrouter.top → anyrouter
+ */
+export function suggestProviderName(env: ConfigEnvironment): string {
+  if (!env.ANTHROPIC_BASE_URL) {
+    return 'official';
+  }
+
+  let host: string;
+  try {
+    host = new URL(env.ANTHROPIC_BASE_URL).hostname;
+  } catch {
+    return 'imported';
+  }
+
+  if (host === new URL(DEFAULT_BASE_URL).hostname) {
+    return 'official';
+  }
+
+  const labels = host.split('.').filter((label) => !['www', 'api'].includes(label));
+  // Keep the registrable part without its TLD, unless the host is a bare name or an IP
+  const name = labels.length > 1 && !/^\d+$/.test(labels.at(-1) || '') ? labels.at(-2) : host;
+  return name || 'imported';
+}
+
+/**
+ * Keep only non-empty string values of an unknown env object
+ */
+function pickEnvironment(
+  source: Record<string, unknown>,
+  filter: (key: string) => boolean
+): ConfigEnvironment {
+  const env: ConfigEnvironment = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (filter(key) && typeof value === 'string' && value.trim()) {
+      env[key] = value.trim();
+    }
+  }
+  return env;
+}
+
+/**
+ * Check whether an environment can authenticate
+ */
+function hasToken(env: ConfigEnvironment): boolean {
+  return Boolean(env.ANTHROPIC_AUTH_TOKEN || env.ANTHROPIC_API_KEY);
+}
+
+/**
+ * Detect a provider from ANTHROPIC_* variables of the shell environment
+ */
+export function detectShellEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): DetectedProvider | null {
+  const picked = pickEnvironment(env, (key) => key.startsWith(SHELL_ENV_PREFIX));
+  if (!hasToken(picked)) {
+    return null;
+  }
+
+  return {
+    source: 'shell environment',
+    config: {
+      name: suggestProviderName(picked),
+      description: 'Imported from shell environment',
+      env: picked,
+    },
+  };
+}
+
+/**
+ * Get Claude Code's user configuration directory
+ */
+export function getClaudeConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+}
+
+/**
+ * Get the path of Claude Code's user settings file
+ */
+export function getClaudeSettingsPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(getClaudeConfigDir(env), 'settings.json');
+}
+
+/**
+ * Detect a provider from the env block of Claude Code's settings.json
+ * Unreadable or malformed files are treated as having nothing to import
+ */
+export function detectClaudeSettings(settingsFile: string): DetectedProvider | null {
+  let settings: unknown;
+  try {
+    settings = JSON.parse(fs.readFileSync(settingsFile, 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const block = (settings as { env?: unknown } | null)?.env;
+  if (!block || typeof block !== 'object' || Array.isArray(block)) {
+    return null;
+  }
+
+  // Everything in the block is passed to Claude Code, so keep all variables
+  const picked = pickEnvironment(block as Record<string, unknown>, () => true);
+  if (!hasToken(picked)) {
+    return null;
+  }
+
+  return {
+    source: settingsFile,
+    config: {
+      name: suggestProviderName(picked),
+      description: 'Imported from Claude Code settings',
+      env: picked,
+    },
+  };
+}
+
+/**
+ * Drop duplicates and give every new provider a unique name
+ * @param getEnv Effective env of an existing provider (inherited values applied, secrets and
+ * references resolved) to compare against; the stored env is used when it throws
+ */
+export function planDetectedImport(
+  existing: ConfigItemV3[],
+  detected: DetectedProvider[],
+  getEnv: (provider: ConfigItemV3) => ConfigEnvironment = (provider) => provider.env
+): DetectionPlan {
+  const plan: DetectionPlan = { toAdd: [], duplicates: [] };
+  const identities = new Map<string, string>();
+  const names = new Set(existing.map((provider) => provider.name));
+
+  for (const provider of existing) {
+    let env: ConfigEnvironment;
+    try {
+      env = getEnv(provider);
+    } catch {
+      env = provider.env;
+    }
+    const identity = providerIdentity(env);
+    if (identity && !identities.has(identity)) {
+      identities.set(identity, provider.name);
+    }
+  }
+
+  for (const candidate of detected) {
+    const identity = providerIdentity(candidate.config.env);
+    const match = identity ? identities.get(identity) : undefined;
+    if (match !== undefined) {
+      plan.duplicates.push({ detected: candidate, matches: match });
+      continue;
+    }
+
+    let name = candidate.config.name;
+    for (let suffix = 2; names.has(name); suffix++) {
+      name = `${candidate.config.name}-${suffix}`;
+    }
+
+    const renamed = { ...candidate, config: { ...candidate.config, name } };
+    plan.toAdd.push(renamed);
+    names.add(name);
+    if (identity) {
+      identities.set(identity, name);
+    }
+  }
+
+  return plan;
+}
@@ -2,6 +2,18 @@
 export * from './types';
 export * from './manager';
 export * from './migration';
+export * from './matcher';
+export * from './state';
+export * from './secrets';
+export * from './project';
+export * from './bundle';
+export * from './discovery';
+export * from './storage';
+export * from './backups';
+export * from './usage';
+export * from './rotation';
+export * from './inheritance';
+export * from './models';
 
 // Export a default instance for convenience
 export { ConfigManager as default } from './manager';
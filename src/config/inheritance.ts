@@ -0,0 +1,114 @@
+import type {
+  ConfigEnvironment,
+  ConfigFileV3,
+  ConfigItemV3,
+  EnvSource,
+  ResolvedProvider,
+} from './types';
+
+/**
+ * Get a provider followed by the providers it extends, nearest first
+ * Throws when a parent doesn't exist or the chain loops back
+ */
+export function getInheritanceChain(config: ConfigFileV3, provider: ConfigItemV3): ConfigItemV3[] {
+  const chain = [provider];
+
+  for (let current = provider; current.extends !== undefined; ) {
+    const parentName = current.extends;
+    if (chain.some((cfg) => cfg.name === parentName)) {
+      const loop = [...chain.map((cfg) => cfg.name), parentName].join(' → ');
+      throw new Error(`Configuration "${provider.name}" has an inheritance cycle: ${loop}`);
+    }
+
+    const parent = config.providers.find((cfg) => cfg.name === parentName);
+    if (!parent) {
+      throw new Error(
+        `Configuration "${current.name}" extends "${parentName}", which does not exist`
+      );
+    }
+    chain.push(parent);
+    current = parent;
+  }
+
+  return chain;
+}
+
+/**
+ * Resolve the env of a provider, from lowest to highest precedence: global defaults, defaults of
+ * the groups it belongs to (in definition order), then the providers it extends from the farthest
+ * to itself. The description and protocol are inherited when the provider has none, model maps
+ * are merged along the inheritance chain
+ * The given provider stands for itself, so changes layered over the stored one are kept
+ */
+export function resolveProvider(config: ConfigFileV3, provider: ConfigItemV3): ResolvedProvider {
+  const chain = getInheritanceChain(config, provider);
+  const env: ConfigEnvironment = {};
+  const sources: Record<string, EnvSource> = {};
+
+  const layer = (values: ConfigEnvironment | undefined, source: EnvSource): void => {
+    for (const [key, value] of Object.entries(values || {})) {
+      if (value !== undefined) {
+        env[key] = value;
+        sources[key] = source;
+      }
+    }
+  };
+
+  layer(config.defaults?.env, { kind: 'defaults' });
+  for (const [name, group] of Object.entries(config.groups || {})) {
+    if (group.providers.includes(provider.name)) {
+      layer(group.env, { kind: 'group', name });
+    }
+  }
+  const protocol = chain.find((cfg) => cfg.protocol)?.protocol;
+  const models: Record<string, string> = {};
+  for (const cfg of [...chain].reverse()) {
+    layer(cfg.env, { kind: 'provider', name: cfg.name });
+    Object.assign(models, cfg.models);
+  }
+
+  return {
+    config: {
+      ...provider,
+      description: chain.find((cfg) => cfg.description)?.description || '',
+      env,
+      ...(Object.keys(models).length > 0 ? { models } : {}),
+      ...(protocol ? { protocol } : {}),
+    },
+    sources,
+    chain: chain.slice(1).map((cfg) => cfg.name),
+  };
+}
+
+/**
+ * Describe where a resolved variable comes from, relative to the provider being shown
+ */
+export function formatEnvSource(source: EnvSource, provider: string): string {
+  switch (source.kind) {
+    case 'defaults':
+      return 'defaults';
+    case 'group':
+      return `group ${source.name}`;
+    case 'provider':
+      return source.name === provider ? 'own' : `extends ${source.name}`;
+  }
+}
+
+/**
+ * Get every environment of a configuration with the name of its owner: providers by name,
+ * shared defaults as "defaults" and group defaults as "@group"
+ */
+export function listEnvironments(config: ConfigFileV3): Array<[string, ConfigEnvironment]> {
+  return [
+    ...config.providers.map((provider): [string, ConfigEnvironment] => [
+      provider.name,
+      provider.env,
+    ]),
+    ...(config.defaults?.env
+      ? [['defaults', config.defaults.env] as [string, ConfigEnvironment]]
+      : []),
+    ...Object.entries(config.groups || {}).flatMap(([name, group]) =>
+      group.env ? [[`@${name}`, group.env] as [string, ConfigEnvironment]] : []
+    ),
+  ];
+}
@@ -2,22 +2,84 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import type {
+  BackupInfo,
   ConfigFile,
-  ConfigFileV2,
-  ConfigItemV2,
+  ConfigFileV3,
+  ConfigItemV3,
   ConfigManagerOptions,
   AddConfigParams,
   AddConfigParamsV2,
   ConfigEnvironment,
+  FailoverSettings,
+  ImportOptions,
+  ImportSummary,
   MigrationResult,
+  ProviderGroup,
+  ResolvedProvider,
+  SecretBackend,
 } from './types';
+import { isValidEnvName, isValidLabel } from './types';
 import { ConfigMigration } from './migration';
+import { matchProviderName } from './matcher';
+import type { MatchOptions } from './matcher';
+import { StateStore } from './state';
+import { BackupStore } from './backups';
+import { UsageLog } from './usage';
+import { mergeConfigs } from './bundle';
+import { isRotationStrategy, pickGroupMember } from './rotation';
+import { getInheritanceChain, listEnvironments, resolveProvider } from './inheritance';
+import { FileLock, writeFileAtomic } from './storage';
+import {
+  createSecretBackends,
+  createSecretId,
+  formatSecretReference,
+  isPlaintextSecret,
+  parseSecretReference,
+} from './secrets';
+import type { SecretBackendName } from './secrets';
 
 /**
- * Type guard to check if config file is v2
+ * Environment keys shown individually when listing configurations
  */
-function isConfigFileV2(config: ConfigFile): config is ConfigFileV2 {
-  return 'version' in config && config.version === 'v2';
+const PRIMARY_ENV_KEYS = ['ANTHROPIC_BASE_URL', 'ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_MODEL'];
+
+/**
+ * Trim all values of an environment object
+ */
+function trimEnvironment(env: ConfigEnvironment): ConfigEnvironment {
+  const trimmed: ConfigEnvironment = {};
+  for (const [key, value] of Object.entries(env)) {
+    trimmed[key.trim()] = value?.trim();
+  }
+  return trimmed;
+}
+
+/**
+ * Trim and deduplicate tags, reporting (and returning null on) an invalid one
+ */
+function normalizeTags(tags: string[]): string[] | null {
+  const normalized = [...new Set(tags.map((tag) => tag.trim()))];
+  const invalid = normalized.find((tag) => !isValidLabel(tag));
+  if (invalid !== undefined) {
+    console.error(`❌ Invalid tag "${invalid}", use letters, digits, ".", "_" or "-"`);
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Trim a model map, reporting (and returning null on) an empty name
+ */
+function normalizeModels(models: Record<string, string>): Record<string, string> | null {
+  const normalized: Record<string, string> = {};
+  for (const [from, to] of Object.entries(models)) {
+    if (!from.trim() || !to.trim()) {
+      console.error(`❌ Invalid model mapping "${from}=${to}", both names are required`);
+      return null;
+    }
+    normalized[from.trim()] = to.trim();
+  }
+  return normalized;
 }
 
 /**
@@ -34,10 +96,14 @@ function isAddConfigParamsV2(params: AddConfigParams): params is AddConfigParams
 export class ConfigManager {
   private readonly configDir: string;
   private readonly configFile: string;
+  private readonly lock: FileLock;
+  /** Backend receiving plaintext secrets before they are written, see useSecretBackend */
+  private secretBackend: SecretBackend | null = null;
 
   constructor(options: ConfigManagerOptions = {}) {
     this.configDir = options.configDir || path.join(os.homedir(), '.auo');
     this.configFile = path.join(this.configDir, options.configFileName || 'config.json');
+    this.lock = new FileLock(`${this.configFile}.lock`);
     this.ensureConfigDir();
   }
 
@@ -46,73 +112,108 @@ export class ConfigManager {
    */
   private ensureConfigDir(): void {
     if (!fs.existsSync(this.configDir)) {
-      fs.mkdirSync(this.configDir, { recursive: true });
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
     }
   }
 
   /**
-   * Get default configuration (v2 format)
+   * Get default configuration (v3 format)
    */
-  private getDefaultConfig(): ConfigFileV2 {
-    return ConfigMigration.getDefaultV2Config();
+  private getDefaultConfig(): ConfigFileV3 {
+    return ConfigMigration.getDefaultV3Config();
   }
 
   /**
    * Load configuration file with automatic migration
+   * A missing file yields the default configuration; a corrupt one is never replaced
    */
-  private loadConfig(): ConfigFileV2 {
+  private loadConfig(): ConfigFileV3 {
+    if (!fs.existsSync(this.configFile)) {
+      return this.getDefaultConfig();
+    }
+
+    const data = fs.readFileSync(this.configFile, 'utf8');
+    let migration: { config: ConfigFileV3; result: MigrationResult };
     try {
-      if (fs.existsSync(this.configFile)) {
-        const data = fs.readFileSync(this.configFile, 'utf8');
-        const rawConfig = JSON.parse(data) as ConfigFile;
+      migration = ConfigMigration.migrate(JSON.parse(data) as ConfigFile);
+    } catch (error) {
+      throw this.corruptConfigError(data, error instanceof Error ? error.message : String(error));
+    }
 
-        // Check if migration is needed
-        if (ConfigMigration.needsMigration(rawConfig)) {
-          console.log('🔄 Migrating configuration to latest format...');
-          const { config: migratedConfig, result } = ConfigMigration.migrate(rawConfig);
+    const { config, result } = migration;
 
-          // Save migrated configuration
-          this.saveConfig(migratedConfig);
+    // Ensure currentIndex is valid
+    if (
+      Array.isArray(config.providers) &&
+      typeof config.currentIndex === 'number' &&
+      (config.currentIndex < 0 || config.currentIndex >= config.providers.length)
+    ) {
+      config.currentIndex = 0;
+    }
 
-          if (result.migrated) {
-            console.log(
-              `✅ Configuration migrated from ${result.fromVersion} to ${result.toVersion}`
-            );
-          }
+    if (!ConfigMigration.validateV3Config(config)) {
+      throw this.corruptConfigError(data, 'not a valid auo configuration');
+    }
 
-          return migratedConfig;
-        }
+    if (result.migrated) {
+      console.log('🔄 Migrating configuration to latest format...');
+      this.saveConfig(config, 'migrate');
+      console.log(`✅ Configuration migrated from ${result.fromVersion} to ${result.toVersion}`);
+    }
 
-        // Validate v2 configuration
-        if (isConfigFileV2(rawConfig)) {
-          if (ConfigMigration.validateV2Config(rawConfig)) {
-            // Ensure currentIndex is valid
-            if (
-              rawConfig.currentIndex < 0 ||
-              rawConfig.currentIndex >= rawConfig.providers.length
-            ) {
-              rawConfig.currentIndex = 0;
-            }
-            return rawConfig;
-          } else {
-            console.warn('⚠️ Invalid v2 configuration format detected, using default config');
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️ Failed to read configuration file, using default config:', error);
+    return config;
+  }
+
+  /**
+   * Keep a copy of an unreadable configuration file and describe how to recover
+   */
+  private corruptConfigError(data: string, reason: string): Error {
+    const prefix = `${path.basename(this.configFile)}.corrupt-`;
+    let backupFile = fs
+      .readdirSync(this.configDir)
+      .filter((file) => file.startsWith(prefix))
+      .map((file) => path.join(this.configDir, file))
+      .find((file) => fs.readFileSync(file, 'utf8') === data);
+
+    // Repeated runs reuse the copy of the same content instead of piling up new ones
+    if (!backupFile) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      backupFile = path.join(this.configDir, `${prefix}${timestamp}`);
+      fs.writeFileSync(backupFile, data, { encoding: 'utf8', mode: 0o600 });
     }
 
-    return this.getDefaultConfig();
+    return new Error(
+      `Configuration file ${this.configFile} is corrupt (${reason}). ` +
+        `It was left untouched and a copy was saved to ${backupFile}. ` +
+        'Fix the file, or delete it to start over.'
+    );
   }
 
   /**
-   * Save configuration file (always saves as v2 format)
+   * Save configuration file (always saves as v3 format)
+   * The file is replaced atomically while holding the configuration lock; when an operation
+   * is given, the replaced file is kept as a backup first
    */
-  private saveConfig(config: ConfigFileV2): void {
+  private saveConfig(config: ConfigFileV3, operation?: string): void {
     try {
+      if (this.secretBackend) {
+        this.storeSecrets(config, this.secretBackend);
+      }
       const data = JSON.stringify(config, null, 2);
-      fs.writeFileSync(this.configFile, data, 'utf8');
+      const dropped: ConfigFileV3[] = [];
+      this.lock.withLock(() => {
+        if (operation !== undefined && fs.existsSync(this.configFile)) {
+          this.getBackupStore().create(fs.readFileSync(this.configFile, 'utf8'), operation, (old) =>
+            dropped.push(old)
+          );
+        }
+        // The file may hold plaintext tokens, keep it private to the current user
+        writeFileAtomic(this.configFile, data, 0o600);
+      });
+      // Secrets of the oldest snapshot go with it once nothing else refers to them
+      dropped.forEach((old) =>
+        listEnvironments(old).forEach(([, env]) => this.releaseSecrets(config, env))
+      );
     } catch (error) {
       throw new Error(`Failed to save configuration file: ${error}`);
     }
@@ -125,13 +226,48 @@ export class ConfigManager {
     return this.configFile;
   }
 
+  /**
+   * Get configuration directory path
+   */
+  getConfigDir(): string {
+    return this.configDir;
+  }
+
+  /**
+   * Get runtime state store stored alongside the configuration
+   */
+  getStateStore(): StateStore {
+    return new StateStore(this.configDir);
+  }
+
+  /**
+   * Get log of Claude Code sessions stored alongside the configuration
+   */
+  getUsageLog(): UsageLog {
+    return new UsageLog(this.configDir);
+  }
+
+  /**
+   * Get history of configuration snapshots stored alongside the configuration
+   */
+  getBackupStore(): BackupStore {
+    return new BackupStore(this.configDir);
+  }
+
   /**
    * Get current configuration
+   * While a group is active, its strategy picks the configuration instead of currentIndex;
+   * with rotate set, the pick is saved so the next launch continues the rotation
    */
-  getCurrentConfig(): ConfigItemV2 {
+  getCurrentConfig(options: { rotate?: boolean } = {}): ConfigItemV3 {
     const config = this.loadConfig();
     const currentIndex = config.currentIndex;
 
+    const rotated = this.pickFromActiveGroup(config, options.rotate === true);
+    if (rotated) {
+      return rotated;
+    }
+
     if (currentIndex >= 0 && currentIndex < config.providers.length) {
       const currentConfig = config.providers[currentIndex];
       if (currentConfig) {
@@ -152,103 +288,158 @@ export class ConfigManager {
   }
 
   /**
-   * Switch to configuration at specified index
+   * Get index of the configuration returned by getCurrentConfig (-1 when none are configured)
    */
-  switchToIndex(index: number): ConfigItemV2 | null {
+  getCurrentIndex(): number {
     const config = this.loadConfig();
-
-    if (index < 0 || index >= config.providers.length) {
-      return null;
+    const rotated = this.pickFromActiveGroup(config, false);
+    if (rotated) {
+      return config.providers.findIndex((cfg) => cfg.name === rotated.name);
+    }
+    if (config.currentIndex >= 0 && config.currentIndex < config.providers.length) {
+      return config.currentIndex;
     }
+    return config.providers.length > 0 ? 0 : -1;
+  }
+
+  /**
+   * Switch to configuration at specified index
+   */
+  switchToIndex(index: number): ConfigItemV3 | null {
+    return this.lock.withLock(() => {
+      const config = this.loadConfig();
+
+      if (index < 0 || index >= config.providers.length) {
+        return null;
+      }
 
-    config.currentIndex = index;
-    this.saveConfig(config);
+      // Picking a configuration by hand stops rotating through a group
+      config.currentIndex = index;
+      delete config.activeGroup;
+      this.saveConfig(config);
 
-    return config.providers[index] || null;
+      return config.providers[index] || null;
+    });
   }
 
   /**
    * List all configurations
+   * @deprecated Use getAllConfigs() and getCurrentIndex(), or `auo --list --json` for output
    */
   listConfigs(): void {
-    const config = this.loadConfig();
-    const currentIndex = config.currentIndex;
+    const currentIndex = this.getCurrentIndex();
 
     console.log('📋 All configurations:');
-    config.providers.forEach((cfg, index) => {
-      const isCurrent = index === currentIndex;
-      const marker = isCurrent ? '👉' : '  ';
+    this.getAllConfigs().forEach((cfg, index) => {
+      const marker = index === currentIndex ? '👉' : '  ';
       const baseUrl = cfg.env.ANTHROPIC_BASE_URL || '(not set)';
-      const authToken = cfg.env.ANTHROPIC_AUTH_TOKEN ? '✅' : '❌';
+      const tokenReference = parseSecretReference(cfg.env.ANTHROPIC_AUTH_TOKEN);
+      const authToken = tokenReference
+        ? `🔒 (${tokenReference.backend})`
+        : cfg.env.ANTHROPIC_AUTH_TOKEN
+          ? '✅'
+          : '❌';
       const model = cfg.env.ANTHROPIC_MODEL || 'not set';
       const description = cfg.description ? ` - ${cfg.description}` : '';
+      const extraEnv = Object.keys(cfg.env).filter((key) => !PRIMARY_ENV_KEYS.includes(key));
 
       console.log(`${marker} [${index}] ${cfg.name}${description}`);
       console.log(`      Base URL: ${baseUrl}`);
       console.log(`      Auth Token: ${authToken}`);
       console.log(`      Model: ${model}`);
+      if (extraEnv.length > 0) {
+        console.log(`      Extra Env: ${extraEnv.join(', ')}`);
+      }
     });
   }
 
   /**
-   * Add new configuration (v2 format)
+   * Add new configuration (v3 format)
    */
   addConfig(params: AddConfigParams): boolean {
     try {
-      const config = this.loadConfig();
-
-      // Validate input parameters
-      if (!params.name || !params.name.trim()) {
-        console.error('❌ Configuration name cannot be empty');
-        return false;
-      }
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
 
-      // Check if name already exists
-      if (config.providers.some((cfg) => cfg.name === params.name)) {
-        console.error(`❌ Configuration name "${params.name}" already exists`);
-        return false;
-      }
-
-      let newProvider: ConfigItemV2;
-
-      if (isAddConfigParamsV2(params)) {
-        // V2 format parameters
-        if (!params.env.ANTHROPIC_AUTH_TOKEN || !params.env.ANTHROPIC_AUTH_TOKEN.trim()) {
-          console.error('❌ Auth Token cannot be empty');
+        // Validate input parameters
+        if (!params.name || !params.name.trim()) {
+          console.error('❌ Configuration name cannot be empty');
           return false;
         }
 
-        newProvider = {
-          name: params.name.trim(),
-          description: params.description?.trim() || '',
-          env: {
-            ANTHROPIC_BASE_URL: params.env.ANTHROPIC_BASE_URL?.trim() || undefined,
-            ANTHROPIC_AUTH_TOKEN: params.env.ANTHROPIC_AUTH_TOKEN.trim(),
-            ANTHROPIC_MODEL: params.env.ANTHROPIC_MODEL?.trim() || undefined,
-          },
-        };
-      } else {
-        // V1 format parameters - convert to V2
-        if (!params.authToken || !params.authToken.trim()) {
-          console.error('❌ Auth Token cannot be empty');
+        // Check if name already exists
+        if (config.providers.some((cfg) => cfg.name === params.name)) {
+          console.error(`❌ Configuration name "${params.name}" already exists`);
           return false;
         }
 
-        newProvider = {
-          name: params.name.trim(),
-          description: params.description?.trim() || '',
-          env: {
-            ANTHROPIC_BASE_URL: params.baseUrl?.trim() || undefined,
-            ANTHROPIC_AUTH_TOKEN: params.authToken.trim(),
-            ANTHROPIC_MODEL: undefined,
-          },
-        };
-      }
+        let newProvider: ConfigItemV3;
 
-      config.providers.push(newProvider);
-      this.saveConfig(config);
-      console.log(`✅ Configuration "${newProvider.name}" added successfully`);
-      return true;
+        if (isAddConfigParamsV2(params)) {
+          // Environment-based parameters, any variables are accepted
+          const env = ConfigMigration.compactEnvironment(trimEnvironment(params.env));
+
+          const invalidKey = Object.keys(env).find((key) => !isValidEnvName(key));
+          if (invalidKey) {
+            console.error(`❌ Invalid environment variable name "${invalidKey}"`);
+            return false;
+          }
+
+          const tags = normalizeTags(params.tags || []);
+          const models = normalizeModels(params.models || {});
+          if (!tags || !models) {
+            return false;
+          }
+
+          const parent = params.extends?.trim();
+          newProvider = {
+            name: params.name.trim(),
+            description: params.description?.trim() || '',
+            env,
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(parent ? { extends: parent } : {}),
+            ...(Object.keys(models).length > 0 ? { models } : {}),
+            ...(params.protocol ? { protocol: params.protocol } : {}),
+          };
+
+          // The token may be inherited from defaults or the extended configuration
+          let inherited: ConfigEnvironment;
+          try {
+            inherited = resolveProvider(
+              { ...config, providers: [...config.providers, newProvider] },
+              newProvider
+            ).config.env;
+          } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            return false;
+          }
+
+          if (!inherited.ANTHROPIC_AUTH_TOKEN && !inherited.ANTHROPIC_API_KEY) {
+            console.error('❌ Auth Token cannot be empty');
+            return false;
+          }
+        } else {
+          // V1 format parameters - convert to V3
+          if (!params.authToken || !params.authToken.trim()) {
+            console.error('❌ Auth Token cannot be empty');
+            return false;
+          }
+
+          newProvider = {
+            name: params.name.trim(),
+            description: params.description?.trim() || '',
+            env: ConfigMigration.compactEnvironment({
+              ANTHROPIC_BASE_URL: params.baseUrl?.trim(),
+              ANTHROPIC_AUTH_TOKEN: params.authToken.trim(),
+            }),
+          };
+        }
+
+        config.providers.push(newProvider);
+        this.saveConfig(config);
+        console.log(`✅ Configuration "${newProvider.name}" added successfully`);
+        return true;
+      });
     } catch (error) {
       console.error('❌ Failed to add configuration:', error);
       return false;
@@ -260,30 +451,38 @@ export class ConfigManager {
    */
   deleteConfig(name: string): boolean {
     try {
-      const config = this.loadConfig();
-      const index = config.providers.findIndex((cfg) => cfg.name === name);
-      if (index === -1) {
-        console.error(`❌ Configuration "${name}" not found`);
-        return false;
-      }
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+        const index = config.providers.findIndex((cfg) => cfg.name === name);
+        if (index === -1) {
+          console.error(`❌ Configuration "${name}" not found`);
+          return false;
+        }
 
-      if (config.providers.length <= 1) {
-        console.error('❌ Cannot delete the last configuration');
-        return false;
-      }
+        if (config.providers.length <= 1) {
+          console.error('❌ Cannot delete the last configuration');
+          return false;
+        }
 
-      config.providers.splice(index, 1);
+        if (this.isExtended(config, name)) {
+          return false;
+        }
 
-      // Adjust current index if necessary
-      if (config.currentIndex >= config.providers.length) {
-        config.currentIndex = config.providers.length - 1;
-      } else if (config.currentIndex > index) {
-        config.currentIndex = config.currentIndex - 1;
-      }
+        const [deletedConfig] = config.providers.splice(index, 1);
 
-      this.saveConfig(config);
-      console.log(`✅ Configuration "${name}" deleted successfully`);
-      return true;
+        // Adjust current index if necessary
+        if (config.currentIndex >= config.providers.length) {
+          config.currentIndex = config.providers.length - 1;
+        } else if (config.currentIndex > index) {
+          config.currentIndex = config.currentIndex - 1;
+        }
+
+        this.renameReferences(config, name, null);
+        this.saveConfig(config, 'delete');
+        this.releaseSecrets(config, deletedConfig?.env || {});
+        console.log(`✅ Configuration "${name}" deleted successfully`);
+        return true;
+      });
     } catch (error) {
       console.error('❌ Failed to delete configuration:', error);
       return false;
@@ -293,70 +492,586 @@ export class ConfigManager {
   /**
    * Update configuration
    */
-  updateConfig(name: string, updates: Partial<ConfigItemV2>): boolean {
+  updateConfig(name: string, updates: Partial<ConfigItemV3>): boolean {
     try {
-      const config = this.loadConfig();
-      const index = config.providers.findIndex((cfg) => cfg.name === name);
-      if (index === -1) {
-        console.error(`❌ Configuration "${name}" not found`);
-        return false;
-      }
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+        const index = config.providers.findIndex((cfg) => cfg.name === name);
+        if (index === -1) {
+          console.error(`❌ Configuration "${name}" not found`);
+          return false;
+        }
+
+        // Check if new name conflicts with other configurations (if name was modified)
+        if (updates.name && updates.name !== name) {
+          if (config.providers.some((cfg) => cfg.name === updates.name)) {
+            console.error(`❌ Configuration name "${updates.name}" already exists`);
+            return false;
+          }
+        }
+
+        // Update configuration
+        const existingConfig = config.providers[index];
+        if (!existingConfig) {
+          console.error(`❌ Configuration "${name}" does not exist`);
+          return false;
+        }
+
+        // Merge env updates: undefined removes a variable, strings set it
+        const env: ConfigEnvironment = { ...existingConfig.env };
+        for (const [key, value] of Object.entries(updates.env || {})) {
+          if (!isValidEnvName(key)) {
+            console.error(`❌ Invalid environment variable name "${key}"`);
+            return false;
+          }
+
+          if (value === undefined) {
+            delete env[key];
+          } else {
+            env[key] = value;
+          }
+        }
 
-      // Check if new name conflicts with other configurations (if name was modified)
-      if (updates.name && updates.name !== name) {
-        if (config.providers.some((cfg) => cfg.name === updates.name)) {
-          console.error(`❌ Configuration name "${updates.name}" already exists`);
+        // Tags are replaced as a whole, an empty list removes them
+        const tags = normalizeTags(updates.tags || existingConfig.tags || []);
+        if (!tags) {
           return false;
         }
+
+        // The model map is replaced as a whole too
+        const models = normalizeModels(updates.models || existingConfig.models || {});
+        if (!models) {
+          return false;
+        }
+
+        // An empty parent name stops inheriting
+        const parent =
+          updates.extends !== undefined ? updates.extends.trim() : existingConfig.extends;
+
+        const protocol = updates.protocol ?? existingConfig.protocol;
+
+        // Merge updates, keeping existing values as defaults
+        config.providers[index] = {
+          name: updates.name || existingConfig.name,
+          description:
+            updates.description !== undefined ? updates.description : existingConfig.description,
+          env,
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(parent ? { extends: parent } : {}),
+          ...(Object.keys(models).length > 0 ? { models } : {}),
+          ...(protocol ? { protocol } : {}),
+        };
+
+        if (updates.name && updates.name !== name) {
+          this.renameReferences(config, name, updates.name);
+        }
+
+        try {
+          getInheritanceChain(config, config.providers[index] as ConfigItemV3);
+        } catch (error) {
+          console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+          return false;
+        }
+
+        this.saveConfig(config, 'edit');
+        this.releaseSecrets(config, existingConfig.env);
+        console.log(`✅ Configuration "${name}" updated successfully`);
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Failed to update configuration:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether other configurations extend a configuration, reporting them when they do
+   */
+  private isExtended(config: ConfigFileV3, name: string): boolean {
+    const children = config.providers.filter((cfg) => cfg.extends === name);
+    if (children.length > 0) {
+      const names = children.map((cfg) => cfg.name).join(', ');
+      console.error(`❌ Cannot delete "${name}", it is extended by ${names}`);
+    }
+    return children.length > 0;
+  }
+
+  /**
+   * Rename (or drop, when newName is null) references to a configuration name
+   */
+  private renameReferences(config: ConfigFileV3, oldName: string, newName: string | null): void {
+    const rename = (names: string[]): string[] =>
+      names.flatMap((name) => (name !== oldName ? [name] : newName !== null ? [newName] : []));
+
+    if (config.failover) {
+      config.failover.providers = rename(config.failover.providers);
+    }
+
+    if (newName !== null) {
+      for (const provider of config.providers) {
+        if (provider.extends === oldName) {
+          provider.extends = newName;
+        }
       }
+    }
 
-      // Update configuration
-      const existingConfig = config.providers[index];
-      if (!existingConfig) {
-        console.error(`❌ Configuration "${name}" does not exist`);
-        return false;
+    for (const group of Object.values(config.groups || {})) {
+      group.providers = rename(group.providers);
+      const weight = group.weights?.[oldName];
+      if (group.weights && weight !== undefined) {
+        delete group.weights[oldName];
+        if (newName !== null) {
+          group.weights[newName] = weight;
+        }
       }
+    }
+  }
+
+  /**
+   * Pick a configuration from the active group, null when no group is active or it is empty
+   */
+  private pickFromActiveGroup(config: ConfigFileV3, save: boolean): ConfigItemV3 | null {
+    return config.activeGroup !== undefined
+      ? this.pickMember(config, config.activeGroup, save)
+      : null;
+  }
 
-      // Merge updates, keeping existing values as defaults
-      config.providers[index] = {
-        name: updates.name || existingConfig.name,
-        description:
-          updates.description !== undefined ? updates.description : existingConfig.description,
-        env: {
-          ANTHROPIC_BASE_URL:
-            updates.env && 'ANTHROPIC_BASE_URL' in updates.env
-              ? updates.env.ANTHROPIC_BASE_URL
-              : existingConfig.env.ANTHROPIC_BASE_URL,
-          ANTHROPIC_AUTH_TOKEN:
-            updates.env && 'ANTHROPIC_AUTH_TOKEN' in updates.env
-              ? updates.env.ANTHROPIC_AUTH_TOKEN
-              : existingConfig.env.ANTHROPIC_AUTH_TOKEN,
-          ANTHROPIC_MODEL:
-            updates.env && 'ANTHROPIC_MODEL' in updates.env
-              ? updates.env.ANTHROPIC_MODEL
-              : existingConfig.env.ANTHROPIC_MODEL,
-        },
-      };
+  /**
+   * Pick a configuration from a group with its strategy, null when the group doesn't exist
+   * or has no members left; with save, the pick continues the rotation next time
+   */
+  private pickMember(config: ConfigFileV3, groupName: string, save: boolean): ConfigItemV3 | null {
+    const group = config.groups?.[groupName];
+    if (!group) {
+      return null;
+    }
 
-      this.saveConfig(config);
-      console.log(`✅ Configuration "${name}" updated successfully`);
-      return true;
+    const members = group.providers.filter((name) =>
+      config.providers.some((cfg) => cfg.name === name)
+    );
+    if (members.length === 0) {
+      return null;
+    }
+
+    const store = this.getStateStore();
+    let decision = pickGroupMember(groupName, group, members, store.read());
+
+    if (save) {
+      // Picked again from the state read under the lock, so concurrent launches take turns
+      store.update((state) => {
+        decision = pickGroupMember(groupName, group, members, state);
+        state.rotation = decision.state.rotation;
+        state.lastUsed = decision.state.lastUsed;
+      });
+      if (decision.allExhausted) {
+        console.warn(
+          `⚠️  Every provider in group "${groupName}" is exhausted, using ${decision.selected}`
+        );
+      }
+    }
+
+    return config.providers.find((cfg) => cfg.name === decision.selected) || null;
+  }
+
+  /**
+   * Pick a configuration from a group for a single run, without making the group active
+   */
+  pickFromGroup(groupName: string, options: { rotate?: boolean } = {}): ConfigItemV3 | null {
+    return this.pickMember(this.loadConfig(), groupName, options.rotate === true);
+  }
+
+  /**
+   * Apply inherited values to a configuration: global defaults, group defaults and the
+   * configurations it extends (throws when they can't be resolved)
+   */
+  resolveConfig(provider: ConfigItemV3): ConfigItemV3 {
+    return this.getResolvedProvider(provider).config;
+  }
+
+  /**
+   * Apply inherited values to a configuration, keeping track of where each variable comes from
+   */
+  getResolvedProvider(provider: ConfigItemV3): ResolvedProvider {
+    return resolveProvider(this.loadConfig(), provider);
+  }
+
+  /**
+   * Get variables inherited by every configuration
+   */
+  getDefaultEnv(): ConfigEnvironment {
+    return { ...this.loadConfig().defaults?.env };
+  }
+
+  /**
+   * Change variables inherited by every configuration; undefined removes a variable
+   */
+  updateDefaultEnv(updates: ConfigEnvironment): boolean {
+    try {
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+        const env: ConfigEnvironment = { ...config.defaults?.env };
+
+        for (const [key, value] of Object.entries(updates)) {
+          if (!isValidEnvName(key)) {
+            console.error(`❌ Invalid environment variable name "${key}"`);
+            return false;
+          }
+          if (value === undefined) {
+            delete env[key];
+          } else {
+            env[key] = value;
+          }
+        }
+
+        if (Object.keys(env).length > 0) {
+          config.defaults = { ...config.defaults, env };
+        } else if (config.defaults) {
+          delete config.defaults.env;
+          if (Object.keys(config.defaults).length === 0) {
+            delete config.defaults;
+          }
+        }
+
+        this.saveConfig(config, 'edit');
+        return true;
+      });
     } catch (error) {
-      console.error('❌ Failed to update configuration:', error);
+      console.error('❌ Failed to update defaults:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get provider groups
+   */
+  getGroups(): Record<string, ProviderGroup> {
+    return JSON.parse(JSON.stringify(this.loadConfig().groups || {})) as Record<
+      string,
+      ProviderGroup
+    >;
+  }
+
+  /**
+   * Get the group launches rotate through, undefined when a single configuration is used
+   */
+  getActiveGroup(): string | undefined {
+    return this.loadConfig().activeGroup;
+  }
+
+  /**
+   * Create, replace or (with null) delete a provider group
+   */
+  setGroup(name: string, group: ProviderGroup | null): boolean {
+    try {
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+
+        if (group === null) {
+          if (!config.groups?.[name]) {
+            console.error(`❌ Group "${name}" not found`);
+            return false;
+          }
+          delete config.groups[name];
+          if (config.activeGroup === name) {
+            delete config.activeGroup;
+          }
+          this.saveConfig(config, 'delete');
+          return true;
+        }
+
+        if (!isValidLabel(name)) {
+          console.error(`❌ Invalid group name "${name}"`);
+          return false;
+        }
+
+        const badKey = Object.keys(group.env || {}).find((key) => !isValidEnvName(key));
+        if (badKey !== undefined) {
+          console.error(`❌ Invalid environment variable name "${badKey}"`);
+          return false;
+        }
+
+        const unknown = group.providers.find(
+          (member) => !config.providers.some((cfg) => cfg.name === member)
+        );
+        if (unknown !== undefined) {
+          console.error(`❌ Configuration "${unknown}" not found`);
+          return false;
+        }
+
+        if (group.strategy !== undefined && !isRotationStrategy(group.strategy)) {
+          console.error(`❌ Unknown strategy "${group.strategy}"`);
+          return false;
+        }
+
+        const badWeight = Object.entries(group.weights || {}).find(
+          ([, weight]) => !(typeof weight === 'number' && weight > 0)
+        );
+        if (badWeight) {
+          console.error(`❌ Weight of "${badWeight[0]}" must be a positive number`);
+          return false;
+        }
+
+        config.groups = { ...config.groups, [name]: group };
+        this.saveConfig(config, 'group');
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Failed to update group:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rotate launches through a group, or (with null) go back to the current configuration
+   */
+  setActiveGroup(name: string | null): boolean {
+    try {
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+
+        if (name === null) {
+          delete config.activeGroup;
+        } else if (!config.groups?.[name]) {
+          console.error(`❌ Group "${name}" not found`);
+          return false;
+        } else {
+          config.activeGroup = name;
+        }
+
+        this.saveConfig(config, 'group-switch');
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Failed to update active group:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get failover settings (disabled with an empty list when not configured)
+   */
+  getFailoverSettings(): FailoverSettings {
+    const config = this.loadConfig();
+    return {
+      enabled: false,
+      ...config.failover,
+      providers: [...(config.failover?.providers || [])],
+    };
+  }
+
+  /**
+   * Update failover settings
+   */
+  updateFailoverSettings(updates: Partial<FailoverSettings>): boolean {
+    try {
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
+
+        const unknown = (updates.providers || []).find(
+          (name) => !config.providers.some((cfg) => cfg.name === name)
+        );
+        if (unknown !== undefined) {
+          console.error(`❌ Configuration "${unknown}" not found`);
+          return false;
+        }
+
+        config.failover = {
+          enabled: false,
+          providers: [],
+          ...config.failover,
+          ...updates,
+        };
+
+        this.saveConfig(config);
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Failed to update failover settings:', error);
       return false;
     }
   }
 
+  /**
+   * Move plaintext secrets (tokens, API keys) into a secret backend
+   * The configuration keeps only references such as ${vault:relay/ANTHROPIC_AUTH_TOKEN-3f9a1c2b}
+   * @returns Names of the moved variables as "provider/KEY"
+   */
+  moveSecretsToBackend(backend: SecretBackend): string[] {
+    return this.lock.withLock(() => {
+      const config = this.loadConfig();
+      const stored = new Map<string, string>();
+      const moved = this.storeSecrets(config, backend, stored);
+
+      if (moved.length > 0) {
+        this.saveConfig(config, 'secrets-migrate');
+      }
+      this.storeSnapshotSecrets(backend, stored);
+      return moved;
+    });
+  }
+
+  /**
+   * Replace plaintext secrets in backup snapshots with references too, so the snapshot files
+   * don't keep them and restoring one doesn't put them back into the configuration
+   * @param stored References of values already in the backend, by value
+   */
+  private storeSnapshotSecrets(backend: SecretBackend, stored: Map<string, string>): void {
+    const backups = this.getBackupStore();
+    for (const backup of backups.list()) {
+      let snapshot: ConfigFileV3;
+      try {
+        snapshot = backups.load(backup);
+      } catch {
+        // Unusable snapshots can't be restored either
+        continue;
+      }
+      if (this.storeSecrets(snapshot, backend, stored).length > 0) {
+        backups.replace(backup, snapshot);
+      }
+    }
+  }
+
+  /**
+   * Store plaintext secrets written from now on in a backend instead of the configuration file,
+   * e.g. new tokens once the others were moved with "auo secrets migrate"
+   */
+  useSecretBackend(backend: SecretBackend | null): void {
+    this.secretBackend = backend;
+  }
+
+  /**
+   * Get the backend already holding secrets of the configuration, null when none does
+   */
+  getStoredSecretBackend(): SecretBackendName | null {
+    for (const [, env] of listEnvironments(this.loadConfig())) {
+      for (const value of Object.values(env)) {
+        const reference = parseSecretReference(value);
+        if (reference) {
+          return reference.backend;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace plaintext secrets of a configuration with references to a backend holding them
+   * @param stored References of values already in the backend, by value; the same value is
+   * stored once
+   * @returns Names of the moved variables as "owner/KEY"
+   */
+  private storeSecrets(
+    config: ConfigFileV3,
+    backend: SecretBackend,
+    stored = new Map<string, string>()
+  ): string[] {
+    const moved: string[] = [];
+    for (const [owner, env] of listEnvironments(config)) {
+      for (const [key, value] of Object.entries(env)) {
+        if (!isPlaintextSecret(key, value)) {
+          continue;
+        }
+
+        let reference = stored.get(value);
+        if (reference === undefined) {
+          const id = createSecretId(owner, key);
+          backend.set(id, value);
+          reference = formatSecretReference(backend.name, id);
+          stored.set(value, reference);
+        }
+        env[key] = reference;
+        moved.push(`${owner}/${key}`);
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Remove stored secrets an environment referred to once neither the configuration nor any
+   * snapshot does, so restoring a snapshot never brings back a reference to a deleted secret
+   * Failures only leave an unused secret behind, so they are reported but not raised
+   */
+  private releaseSecrets(config: ConfigFileV3, env: ConfigEnvironment): void {
+    const candidates = Object.values(env).filter((value) => parseSecretReference(value));
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const inUse = this.getBackupStore().listValues();
+    listEnvironments(config).forEach(([, other]) =>
+      Object.values(other).forEach((value) => value && inUse.add(value))
+    );
+    const unused = candidates.filter((value) => value && !inUse.has(value));
+    if (unused.length === 0) {
+      return;
+    }
+
+    // Removing needs no passphrase, the vault is only unlocked to read or write values
+    const backends = createSecretBackends(this.configDir, () => '');
+    for (const value of unused) {
+      const reference = parseSecretReference(value);
+      const backend = backends.find((candidate) => candidate.name === reference?.backend);
+      if (!reference || !backend) {
+        continue;
+      }
+      try {
+        backend.delete(reference.id);
+      } catch (error) {
+        console.warn(
+          `⚠️  Could not remove secret "${reference.id}" from ${reference.backend}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get a copy of the whole configuration file
+   */
+  getConfigFile(): ConfigFileV3 {
+    return JSON.parse(JSON.stringify(this.loadConfig())) as ConfigFileV3;
+  }
+
+  /**
+   * Import a validated configuration, merging it with or replacing the existing one
+   * Throws when the result would not be a valid configuration; nothing is written then
+   */
+  importConfig(incoming: ConfigFileV3, options: ImportOptions = {}): ImportSummary {
+    return this.lock.withLock(() => {
+      const existing = this.loadConfig();
+      const { config, summary } = mergeConfigs(existing, incoming, options);
+
+      if (!ConfigMigration.validateV3Config(config)) {
+        throw new Error('Imported configuration is invalid');
+      }
+
+      if (!options.dryRun) {
+        this.saveConfig(config, 'import');
+        // Overwritten and replaced environments may leave stored secrets unused
+        listEnvironments(existing).forEach(([, env]) => this.releaseSecrets(config, env));
+      }
+      return summary;
+    });
+  }
+
   /**
    * Reset configuration to default values
    */
   resetConfig(): void {
     const defaultConfig = this.getDefaultConfig();
-    this.saveConfig(defaultConfig);
+    this.saveConfig(defaultConfig, 'reset');
 
     console.log('✅ Configuration reset to default values');
   }
 
+  /**
+   * Replace the configuration with a snapshot; the replaced configuration is backed up too
+   * Throws when the snapshot is not a valid configuration
+   */
+  restoreBackup(backup: BackupInfo): void {
+    const config = this.getBackupStore().load(backup);
+    this.saveConfig(config, 'restore');
+  }
+
   /**
    * Check if configuration exists
    */
@@ -368,15 +1083,67 @@ export class ConfigManager {
   /**
    * Get configuration by name
    */
-  getConfig(name: string): ConfigItemV2 | null {
+  getConfig(name: string): ConfigItemV3 | null {
     const config = this.loadConfig();
     return config.providers.find((cfg) => cfg.name === name) || null;
   }
 
+  /**
+   * Find configuration index by index string, name, unique prefix or fuzzy match
+   * Names are tried before indices, so a configuration named "2" can still be selected
+   * Returns -1 (and reports why) when nothing or more than one configuration matches
+   * @param options.strict Only accept an exact name, unique prefix or index, for commands that
+   * delete or overwrite a configuration
+   */
+  findConfigIndex(query: string, options: MatchOptions = {}): number {
+    const config = this.loadConfig();
+    const names = config.providers.map((cfg) => cfg.name);
+    const exact = names.indexOf(query.trim());
+    if (exact !== -1) {
+      return exact;
+    }
+
+    if (/^\d+$/.test(query.trim())) {
+      const index = parseInt(query, 10);
+      if (index < config.providers.length) {
+        return index;
+      }
+      console.error(
+        `❌ Invalid index ${index}. Must be between 0 and ${config.providers.length - 1}`
+      );
+      return -1;
+    }
+
+    const match = matchProviderName(names, query, options);
+
+    if (match.status === 'found') {
+      return match.index;
+    }
+
+    if (match.status === 'ambiguous') {
+      console.error(`❌ Ambiguous configuration name "${query}" matches:`);
+      match.candidates.forEach((candidate) => {
+        const index = config.providers.findIndex((cfg) => cfg.name === candidate);
+        console.error(`   [${index}] ${candidate}`);
+      });
+      console.error('💡 Use a longer name or the index to select one');
+      return -1;
+    }
+
+    console.error(`❌ Configuration "${query}" not found`);
+    const approximate = options.strict ? matchProviderName(names, query) : match;
+    if (approximate.status === 'found') {
+      console.error(
+        `💡 Did you mean "${approximate.name}"? Give its full name or index [${approximate.index}] to change it`
+      );
+    }
+    return -1;
+  }
+
   /**
    * Get all configurations
    */
-  getAllConfigs(): ConfigItemV2[] {
+  getAllConfigs(): ConfigItemV3[] {
     const config = this.loadConfig();
     return [...config.providers];
   }
@@ -386,39 +1153,49 @@ export class ConfigManager {
    */
   removeConfigByIndex(index: number): boolean {
     try {
-      const config = this.loadConfig();
+      return this.lock.withLock(() => {
+        const config = this.loadConfig();
 
-      // Check index boundaries
-      if (index < 0 || index >= config.providers.length) {
-        console.error(
-          `❌ Invalid index ${index}. Must be between 0 and ${config.providers.length - 1}`
-        );
-        return false;
-      }
+        // Check index boundaries
+        if (index < 0 || index >= config.providers.length) {
+          console.error(
+            `❌ Invalid index ${index}. Must be between 0 and ${config.providers.length - 1}`
+          );
+          return false;
+        }
 
-      if (config.providers.length <= 1) {
-        console.error('❌ Cannot delete the last configuration');
-        return false;
-      }
+        if (config.providers.length <= 1) {
+          console.error('❌ Cannot delete the last configuration');
+          return false;
+        }
 
-      const deletedConfig = config.providers[index];
-      if (!deletedConfig) {
-        console.error(`❌ Configuration at index ${index} not found`);
-        return false;
-      }
+        const deletedConfig = config.providers[index];
+        if (!deletedConfig) {
+          console.error(`❌ Configuration at index ${index} not found`);
+          return false;
+        }
 
-      config.providers.splice(index, 1);
+        if (this.isExtended(config, deletedConfig.name)) {
+          return false;
+        }
 
-      // Adjust current index if necessary
-      if (config.currentIndex >= config.providers.length) {
-        config.currentIndex = config.providers.length - 1;
-      } else if (config.currentIndex > index) {
-        config.currentIndex = config.currentIndex - 1;
-      }
+        config.providers.splice(index, 1);
 
-      this.saveConfig(config);
-      console.log(`✅ Configuration "${deletedConfig.name}" (index ${index}) deleted successfully`);
-      return true;
+        // Adjust current index if necessary
+        if (config.currentIndex >= config.providers.length) {
+          config.currentIndex = config.providers.length - 1;
+        } else if (config.currentIndex > index) {
+          config.currentIndex = config.currentIndex - 1;
+        }
+
+        this.renameReferences(config, deletedConfig.name, null);
+        this.saveConfig(config, 'delete');
+        this.releaseSecrets(config, deletedConfig.env);
+        console.log(
+          `✅ Configuration "${deletedConfig.name}" (index ${index}) deleted successfully`
+        );
+        return true;
+      });
     } catch (error) {
       console.error('❌ Failed to delete configuration:', error);
       return false;
@@ -428,7 +1205,7 @@ export class ConfigManager {
   /**
    * Get configuration environment variables
    */
-  getConfigEnvironment(config?: ConfigItemV2): ConfigEnvironment {
+  getConfigEnvironment(config?: ConfigItemV3): ConfigEnvironment {
     const targetConfig = config || this.getCurrentConfig();
     return { ...targetConfig.env };
   }
@@ -438,33 +1215,35 @@ export class ConfigManager {
    */
   forceMigration(): MigrationResult {
     try {
-      if (fs.existsSync(this.configFile)) {
-        const data = fs.readFileSync(this.configFile, 'utf8');
-        const rawConfig = JSON.parse(data) as ConfigFile;
+      return this.lock.withLock(() => {
+        if (fs.existsSync(this.configFile)) {
+          const data = fs.readFileSync(this.configFile, 'utf8');
+          const rawConfig = JSON.parse(data) as ConfigFile;
 
-        const { config: migratedConfig, result } = ConfigMigration.migrate(rawConfig);
+          const { config: migratedConfig, result } = ConfigMigration.migrate(rawConfig);
 
-        if (result.migrated) {
-          this.saveConfig(migratedConfig);
-          console.log(
-            `✅ Configuration migrated from ${result.fromVersion} to ${result.toVersion}`
-          );
-        } else {
-          console.log('ℹ️  Configuration is already up to date');
-        }
+          if (result.migrated) {
+            this.saveConfig(migratedConfig, 'migrate');
+            console.log(
+              `✅ Configuration migrated from ${result.fromVersion} to ${result.toVersion}`
+            );
+          } else {
+            console.log('ℹ️  Configuration is already up to date');
+          }
 
-        return result;
-      } else {
-        // No config file exists, create default
-        const defaultConfig = this.getDefaultConfig();
-        this.saveConfig(defaultConfig);
+          return result;
+        } else {
+          // No config file exists, create default
+          const defaultConfig = this.getDefaultConfig();
+          this.saveConfig(defaultConfig);
 
-        return {
-          migrated: true,
-          fromVersion: 'none',
-          toVersion: 'v2',
-        };
-      }
+          return {
+            migrated: true,
+            fromVersion: 'none',
+            toVersion: 'v3',
+          };
+        }
+      });
     } catch (error) {
       console.error('❌ Failed to perform migration:', error);
       throw error;
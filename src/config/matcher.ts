@@ -0,0 +1,106 @@
+/**
+ * Result of matching a query against provider names
+ */
+export type ProviderMatch =
+  | { status: 'found'; index: number; name: string }
+  | { status: 'ambiguous'; candidates: string[] }
+  | { status: 'not-found' };
+
+/**
+ * Maximum edit distance accepted for typo-tolerant matching
+ */
+const MAX_EDIT_DISTANCE = 2;
+
+/**
+ * Matching stages used by strict matching: exact, case-insensitive and prefix
+ */
+const STRICT_STAGES = 3;
+
+/**
+ * Compute Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Check whether all characters of query appear in target in order
+ */
+function isSubsequence(query: string, target: string): boolean {
+  let position = 0;
+  for (const char of target) {
+    if (char === query[position]) {
+      position++;
+    }
+    if (position === query.length) {
+      return true;
+    }
+  }
+  return position === query.length;
+}
+
+/**
+ * Options of provider name matching
+ */
+export interface MatchOptions {
+  /** Only accept exact names and unique prefixes, e.g. before deleting or overwriting */
+  strict?: boolean;
+}
+
+/**
+ * Match a query against a list of provider names
+ *
+ * Matching stages are tried in order and the first stage with any hit wins:
+ * exact name, case-insensitive name, unique prefix, substring, subsequence
+ * and finally small edit distance (typos). Several hits in the winning stage
+ * produce an ambiguous result listing every candidate. Strict matching stops
+ * after the prefix stage.
+ */
+export function matchProviderName(
+  names: string[],
+  query: string,
+  options: MatchOptions = {}
+): ProviderMatch {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return { status: 'not-found' };
+  }
+
+  const entries = names.map((name, index) => ({ name, index, lower: name.toLowerCase() }));
+
+  const stages: Array<(entry: (typeof entries)[number]) => boolean> = [
+    (entry) => entry.name === query.trim(),
+    (entry) => entry.lower === needle,
+    (entry) => entry.lower.startsWith(needle),
+    (entry) => entry.lower.includes(needle),
+    (entry) => isSubsequence(needle, entry.lower),
+    (entry) => editDistance(needle, entry.lower) <= MAX_EDIT_DISTANCE,
+  ];
+
+  for (const stage of options.strict ? stages.slice(0, STRICT_STAGES) : stages) {
+    const hits = entries.filter(stage);
+    if (hits.length === 1 && hits[0]) {
+      return { status: 'found', index: hits[0].index, name: hits[0].name };
+    }
+    if (hits.length > 1) {
+      return { status: 'ambiguous', candidates: hits.map((hit) => hit.name) };
+    }
+  }
+
+  return { status: 'not-found' };
+}
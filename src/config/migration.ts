@@ -1,18 +1,15 @@
 import type {
+  ConfigEnvironment,
   ConfigFile,
   ConfigFileV1,
   ConfigFileV2,
+  ConfigFileV3,
   ConfigItemV1,
   ConfigItemV2,
+  ConfigItemV3,
   MigrationResult,
 } from './types';
-
-/**
- * Type guard to check if config file is v2
- */
-function isConfigFileV2(config: ConfigFile): config is ConfigFileV2 {
-  return 'version' in config && config.version === 'v2';
-}
+import { isConfigFileV2, isConfigFileV3, isProviderProtocol, isValidEnvName } from './types';
 
 /**
  * Migration utility for configuration files
@@ -22,8 +19,8 @@ export class ConfigMigration {
    * Check if configuration needs migration
    */
   static needsMigration(config: ConfigFile): boolean {
-    // If config doesn't have version or version is not v2, it needs migration
-    return !isConfigFileV2(config);
+    // If config doesn't have version or version is not v3, it needs migration
+    return !isConfigFileV3(config);
   }
 
   /**
@@ -47,30 +44,65 @@ export class ConfigMigration {
     };
   }
 
+  /**
+   * Migrate configuration from v2 to v3 format
+   * Unset (undefined or empty) variables are dropped, as v3 env only holds strings
+   */
+  static migrateV2ToV3(configV2: ConfigFileV2): ConfigFileV3 {
+    const migratedProviders: ConfigItemV3[] = configV2.providers.map((provider: ConfigItemV2) => ({
+      name: provider.name,
+      description: provider.description,
+      env: this.compactEnvironment(provider.env),
+    }));
+
+    return {
+      version: 'v3',
+      providers: migratedProviders,
+      currentIndex: configV2.currentIndex,
+    };
+  }
+
+  /**
+   * Remove unset variables from an environment object
+   */
+  static compactEnvironment(env: ConfigEnvironment | undefined): ConfigEnvironment {
+    const compacted: ConfigEnvironment = {};
+
+    for (const [key, value] of Object.entries(env || {})) {
+      if (typeof value === 'string' && value !== '') {
+        compacted[key] = value;
+      }
+    }
+
+    return compacted;
+  }
+
   /**
    * Perform automatic migration
    */
-  static migrate(config: ConfigFile): { config: ConfigFileV2; result: MigrationResult } {
-    if (isConfigFileV2(config)) {
-      // Already v2, no migration needed
+  static migrate(config: ConfigFile): { config: ConfigFileV3; result: MigrationResult } {
+    if (isConfigFileV3(config)) {
+      // Already v3, no migration needed
       return {
         config,
         result: {
           migrated: false,
-          toVersion: 'v2',
+          toVersion: 'v3',
         },
       };
     }
 
-    // Migrate from v1 to v2
-    const migratedConfig = this.migrateV1ToV2(config);
+    // Migrate step by step: v1 -> v2 -> v3
+    const fromVersion = isConfigFileV2(config) ? 'v2' : 'v1';
+    const configV2 = isConfigFileV2(config) ? config : this.migrateV1ToV2(config);
+    const migratedConfig = this.migrateV2ToV3(configV2);
 
     return {
       config: migratedConfig,
       result: {
         migrated: true,
-        fromVersion: 'v1',
-        toVersion: 'v2',
+        fromVersion,
+        toVersion: 'v3',
       },
     };
   }
@@ -96,6 +128,23 @@ export class ConfigMigration {
     };
   }
 
+  /**
+   * Get default v3 configuration
+   */
+  static getDefaultV3Config(): ConfigFileV3 {
+    return {
+      version: 'v3',
+      providers: [
+        {
+          name: 'default',
+          description: 'Default configuration',
+          env: {},
+        },
+      ],
+      currentIndex: 0,
+    };
+  }
+
   /**
    * Validate v2 configuration structure
    */
@@ -153,4 +202,147 @@ export class ConfigMigration {
       return false;
     }
   }
+
+  /**
+   * Validate v3 configuration structure
+   */
+  static validateV3Config(config: ConfigFileV3): boolean {
+    try {
+      // Check basic structure
+      if (!config.version || config.version !== 'v3') {
+        return false;
+      }
+
+      if (!Array.isArray(config.providers) || config.providers.length === 0) {
+        return false;
+      }
+
+      if (
+        typeof config.currentIndex !== 'number' ||
+        config.currentIndex < 0 ||
+        config.currentIndex >= config.providers.length
+      ) {
+        return false;
+      }
+
+      // Validate each provider
+      for (const provider of config.providers) {
+        if (!provider.name || typeof provider.name !== 'string') {
+          return false;
+        }
+
+        if (typeof provider.description !== 'string') {
+          return false;
+        }
+
+        if (!provider.env || typeof provider.env !== 'object' || Array.isArray(provider.env)) {
+          return false;
+        }
+
+        // Any variable is allowed, but names must be valid and values must be strings
+        for (const [key, value] of Object.entries(provider.env)) {
+          if (!isValidEnvName(key) || typeof value !== 'string') {
+            return false;
+          }
+        }
+
+        if (
+          provider.tags !== undefined &&
+          (!Array.isArray(provider.tags) || provider.tags.some((tag) => typeof tag !== 'string'))
+        ) {
+          return false;
+        }
+
+        if (provider.extends !== undefined && typeof provider.extends !== 'string') {
+          return false;
+        }
+
+        if (
+          provider.models !== undefined &&
+          (!provider.models ||
+            typeof provider.models !== 'object' ||
+            Array.isArray(provider.models) ||
+            Object.values(provider.models).some((model) => typeof model !== 'string'))
+        ) {
+          return false;
+        }
+
+        if (provider.protocol !== undefined && !isProviderProtocol(provider.protocol)) {
+          return false;
+        }
+      }
+
+      // Failover settings are optional
+      if (config.failover !== undefined) {
+        const { enabled, providers, timeout } = config.failover;
+
+        if (typeof enabled !== 'boolean' || !Array.isArray(providers)) {
+          return false;
+        }
+
+        if (providers.some((name) => typeof name !== 'string')) {
+          return false;
+        }
+
+        if (timeout !== undefined && (typeof timeout !== 'number' || timeout <= 0)) {
+          return false;
+        }
+      }
+
+      // Provider groups are optional, members must be names and defaults must be strings
+      if (config.groups !== undefined) {
+        if (!config.groups || typeof config.groups !== 'object' || Array.isArray(config.groups)) {
+          return false;
+        }
+
+        for (const group of Object.values(config.groups)) {
+          if (
+            !group ||
+            !Array.isArray(group.providers) ||
+            group.providers.some((name) => typeof name !== 'string')
+          ) {
+            return false;
+          }
+
+          if (group.env !== undefined) {
+            if (!group.env || typeof group.env !== 'object' || Array.isArray(group.env)) {
+              return false;
+            }
+            for (const [key, value] of Object.entries(group.env)) {
+              if (!isValidEnvName(key) || typeof value !== 'string') {
+                return false;
+              }
+            }
+          }
+        }
+      }
+
+      if (config.activeGroup !== undefined && typeof config.activeGroup !== 'string') {
+        return false;
+      }
+
+      // Shared defaults are optional, values must be strings
+      if (config.defaults !== undefined) {
+        if (!config.defaults || typeof config.defaults !== 'object') {
+          return false;
+        }
+
+        const env = config.defaults.env;
+        if (env !== undefined) {
+          if (!env || typeof env !== 'object' || Array.isArray(env)) {
+            return false;
+          }
+          for (const [key, value] of Object.entries(env)) {
+            if (!isValidEnvName(key) || typeof value !== 'string') {
+              return false;
+            }
+          }
+        }
+      }
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
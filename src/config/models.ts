@@ -0,0 +1,71 @@
+import type { ConfigEnvironment } from './types';
+
+/**
+ * Variables through which Claude Code picks its models
+ */
+export const MODEL_ENV_KEYS = [
+  'ANTHROPIC_MODEL',
+  'ANTHROPIC_SMALL_FAST_MODEL',
+  'ANTHROPIC_DEFAULT_OPUS_MODEL',
+  'ANTHROPIC_DEFAULT_SONNET_MODEL',
+  'ANTHROPIC_DEFAULT_HAIKU_MODEL',
+];
+
+/**
+ * Claude Code options that take a model name
+ */
+const MODEL_ARG_FLAGS = ['--model', '--fallback-model'];
+
+/**
+ * Translate a model name with a provider's model map; names not in the map are kept
+ */
+export function mapModel(models: Record<string, string> | undefined, model: string): string {
+  return models && Object.prototype.hasOwnProperty.call(models, model)
+    ? (models[model] as string)
+    : model;
+}
+
+/**
+ * Translate the model variables of an environment in place
+ */
+export function mapModelEnvironment(
+  env: ConfigEnvironment,
+  models: Record<string, string> | undefined
+): void {
+  for (const key of MODEL_ENV_KEYS) {
+    const model = env[key];
+    if (model) {
+      env[key] = mapModel(models, model);
+    }
+  }
+}
+
+/**
+ * Translate the model options (--model, --fallback-model) of Claude Code arguments
+ */
+export function mapModelArgs(args: string[], models: Record<string, string> | undefined): string[] {
+  if (!models || Object.keys(models).length === 0) {
+    return args;
+  }
+
+  const mapped = [...args];
+  for (let i = 0; i < mapped.length; i++) {
+    const arg = mapped[i] as string;
+    // Everything after "--" is a prompt or file name, not an option
+    if (arg === '--') {
+      break;
+    }
+
+    const [flag, inline] = arg.split(/=(.*)/s);
+    if (flag === undefined || !MODEL_ARG_FLAGS.includes(flag)) {
+      continue;
+    }
+    if (inline !== undefined) {
+      mapped[i] = `${flag}=${mapModel(models, inline)}`;
+    } else if (mapped[i + 1] !== undefined) {
+      mapped[i + 1] = mapModel(models, mapped[i + 1] as string);
+      i++;
+    }
+  }
+  return mapped;
+}
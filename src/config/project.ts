@@ -0,0 +1,350 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ConfigManager } from './manager';
+import { matchProviderName } from './matcher';
+import { MODEL_ENV_KEYS } from './models';
+import { hasValueReferences, parseSecretReference } from './secrets';
+import { StateStore } from './state';
+import { isValidEnvName } from './types';
+import type {
+  ActiveProvider,
+  ConfigEnvironment,
+  ConfigItemV3,
+  LoadedProjectConfig,
+  ProjectConfig,
+  ProviderOverride,
+} from './types';
+
+/**
+ * Project file names, in order of precedence within one directory
+ */
+export const PROJECT_FILE_NAMES = ['.auorc', '.auo.json'];
+
+/**
+ * Entry reported among the ignored keys when an untrusted project file sets claudeArgs
+ */
+const CLAUDE_ARGS_KEY = 'claudeArgs';
+
+/**
+ * Check whether a project file needs to be trusted before it may override a variable
+ * Only model choices are safe to take from a repository; anything else can redirect requests,
+ * leak tokens or run code (PATH, LD_PRELOAD, BASH_ENV, NODE_OPTIONS, CLAUDE_CONFIG_DIR, ...)
+ */
+export function isSensitiveProjectKey(key: string): boolean {
+  return !MODEL_ENV_KEYS.includes(key);
+}
+
+/**
+ * Check whether the user trusted a project file with exactly this content
+ */
+export function isProjectTrusted(store: StateStore, filePath: string, hash: string): boolean {
+  return store.read().trustedProjects?.[filePath] === hash;
+}
+
+/**
+ * Trust the current content of a project file; later changes need to be trusted again
+ */
+export function trustProject(store: StateStore, project: LoadedProjectConfig): void {
+  const hash = project.hash;
+  if (hash === undefined) {
+    throw new Error(`Project config ${project.path} was not read from disk`);
+  }
+  store.update((state) => {
+    state.trustedProjects = { ...state.trustedProjects, [project.path]: hash };
+  });
+}
+
+/**
+ * Forget that a project file was trusted, returning false when it wasn't
+ */
+export function untrustProject(store: StateStore, filePath: string): boolean {
+  if (store.read().trustedProjects?.[filePath] === undefined) {
+    return false;
+  }
+  store.update((state) => {
+    delete state.trustedProjects?.[filePath];
+  });
+  return true;
+}
+
+/**
+ * Get the sensitive variables a project file sets or removes that are ignored until it is
+ * trusted, along with "claudeArgs" when it sets Claude Code arguments
+ */
+export function getIgnoredProjectKeys(project: LoadedProjectConfig | null): string[] {
+  if (!project || project.trusted) {
+    return [];
+  }
+  const keys = Object.keys(project.config.env || {}).filter(isSensitiveProjectKey);
+  return project.config.claudeArgs?.length ? [...keys, CLAUDE_ARGS_KEY] : keys;
+}
+
+/**
+ * Get the Claude Code arguments of a project file, none until it is trusted
+ */
+export function getProjectClaudeArgs(project: LoadedProjectConfig | null): string[] {
+  return project?.trusted ? project.config.claudeArgs || [] : [];
+}
+
+/**
+ * Validate parsed project file content
+ * Returns the list of problems (empty when valid)
+ */
+export function validateProjectConfig(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['expected a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const config = data as Record<string, unknown>;
+
+  if (config.provider !== undefined && (typeof config.provider !== 'string' || !config.provider)) {
+    errors.push('"provider" must be a non-empty string');
+  }
+
+  if (config.env !== undefined) {
+    if (!config.env || typeof config.env !== 'object' || Array.isArray(config.env)) {
+      errors.push('"env" must be an object');
+    } else {
+      for (const [key, value] of Object.entries(config.env)) {
+        if (!isValidEnvName(key)) {
+          errors.push(`"env" has an invalid variable name "${key}"`);
+        } else if (typeof value !== 'string') {
+          errors.push(`"env.${key}" must be a string`);
+        } else if (parseSecretReference(value) || hasValueReferences(value)) {
+          // A checked-out repository must not run commands or read secrets and files
+          errors.push(
+            `"env.${key}" must not contain references, only the user config resolves them`
+          );
+        }
+      }
+    }
+  }
+
+  if (
+    config.claudeArgs !== undefined &&
+    (!Array.isArray(config.claudeArgs) ||
+      !config.claudeArgs.every((arg) => typeof arg === 'string'))
+  ) {
+    errors.push('"claudeArgs" must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Read and validate a project file
+ * Throws with the file path when it cannot be parsed or is invalid
+ * @param trustStore State holding trusted project files, without it the file is untrusted
+ */
+export function loadProjectFile(filePath: string, trustStore?: StateStore): LoadedProjectConfig {
+  let content: string;
+  let data: unknown;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+    data = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read project config ${filePath}: ${reason}`);
+  }
+
+  const errors = validateProjectConfig(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid project config ${filePath}: ${errors.join('; ')}`);
+  }
+
+  // Hash what was parsed, so the file can't change between the check and its use
+  const hash = crypto.createHash('sha256').update(content).digest('hex');
+  return {
+    path: filePath,
+    config: data as ProjectConfig,
+    hash,
+    trusted: trustStore !== undefined && isProjectTrusted(trustStore, filePath, hash),
+  };
+}
+
+/**
+ * Find the nearest project file by walking up from a directory to the filesystem root
+ */
+export function findProjectFile(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  for (;;) {
+    for (const fileName of PROJECT_FILE_NAMES) {
+      const candidate = path.join(dir, fileName);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Find and load the nearest project configuration, or null when there is none
+ * @param trustStore State holding trusted project files, without it the file is untrusted
+ */
+export function loadProjectConfig(
+  startDir: string = process.cwd(),
+  trustStore?: StateStore
+): LoadedProjectConfig | null {
+  const filePath = findProjectFile(startDir);
+  return filePath ? loadProjectFile(filePath, trustStore) : null;
+}
+
+/**
+ * Layer project env over a provider
+ * Empty project values remove the variable inherited from the provider; sensitive variables
+ * are left alone until the project file is trusted
+ */
+export function applyProjectConfig(
+  config: ConfigItemV3,
+  project: LoadedProjectConfig | null
+): ConfigItemV3 {
+  const overrides = project?.config.env;
+  if (!overrides || Object.keys(overrides).length === 0) {
+    return config;
+  }
+
+  const env: ConfigEnvironment = { ...config.env };
+  const ignored = getIgnoredProjectKeys(project);
+  for (const [key, value] of Object.entries(overrides)) {
+    if (ignored.includes(key)) {
+      continue;
+    }
+    if (value) {
+      env[key] = value;
+    } else {
+      delete env[key];
+    }
+  }
+
+  return { ...config, env };
+}
+
+/**
+ * Match a provider by name for a given origin, throwing a clear error when it doesn't match one
+ */
+function matchPinnedProvider(
+  providers: ConfigItemV3[],
+  name: string,
+  origin: string
+): { provider: ConfigItemV3; index: number } {
+  // Numeric values select by index unless a provider is literally named so
+  if (/^\d+$/.test(name) && !providers.some((cfg) => cfg.name === name)) {
+    const index = parseInt(name, 10);
+    const provider = providers[index];
+    if (!provider) {
+      throw new Error(`Provider index ${index} from ${origin} is out of range`);
+    }
+    return { provider, index };
+  }
+
+  const match = matchProviderName(
+    providers.map((cfg) => cfg.name),
+    name
+  );
+  const provider = match.status === 'found' ? providers[match.index] : undefined;
+
+  if (match.status !== 'found' || !provider) {
+    const reason =
+      match.status === 'ambiguous'
+        ? `is ambiguous (${match.candidates.join(', ')})`
+        : 'does not match any configuration';
+    throw new Error(`Provider "${name}" from ${origin} ${reason}`);
+  }
+
+  return { provider, index: match.index };
+}
+
+/**
+ * Resolve a pinned provider, where "@group" picks a member of a group with its strategy
+ */
+function pickPinnedProvider(
+  configManager: ConfigManager,
+  name: string,
+  origin: string,
+  rotate: boolean
+): { provider: ConfigItemV3; index: number; group?: string } {
+  const providers = configManager.getAllConfigs();
+  if (!name.startsWith('@')) {
+    return matchPinnedProvider(providers, name, origin);
+  }
+
+  const group = name.slice(1);
+  const provider = configManager.pickFromGroup(group, { rotate });
+  if (!provider) {
+    throw new Error(`Group "${group}" from ${origin} does not exist or has no members`);
+  }
+  return { provider, index: providers.findIndex((cfg) => cfg.name === provider.name), group };
+}
+
+/**
+ * Decide which provider to launch, in order of precedence: a one-shot override, the provider
+ * pinned by the project file, then the global selection. Group defaults and project env are
+ * layered over the result
+ * When the provider is picked from a group, rotate saves the pick for the next launch
+ */
+export function resolveActiveProvider(
+  configManager: ConfigManager,
+  project: LoadedProjectConfig | null,
+  override?: ProviderOverride,
+  rotate = false
+): ActiveProvider {
+  const ignored = getIgnoredProjectKeys(project);
+  const projectFile = project
+    ? { projectFile: project.path, ...(ignored.length > 0 ? { ignoredProjectKeys: ignored } : {}) }
+    : {};
+  const resolve = (provider: ConfigItemV3): ConfigItemV3 =>
+    applyProjectConfig(configManager.resolveConfig(provider), project);
+
+  if (override) {
+    const { provider, index, group } = pickPinnedProvider(
+      configManager,
+      override.name,
+      override.origin,
+      rotate
+    );
+    return {
+      config: resolve(provider),
+      index,
+      source: 'override',
+      overrideOrigin: override.origin,
+      ...projectFile,
+      ...(group !== undefined ? { group } : {}),
+    };
+  }
+
+  const pinned = project?.config.provider;
+  if (project && pinned) {
+    const { provider, index, group } = pickPinnedProvider(
+      configManager,
+      pinned,
+      project.path,
+      rotate
+    );
+    return {
+      config: resolve(provider),
+      index,
+      source: 'project',
+      ...projectFile,
+      ...(group !== undefined ? { group } : {}),
+    };
+  }
+
+  const current = configManager.getCurrentConfig({ rotate });
+  const group = configManager.getActiveGroup();
+  return {
+    config: resolve(current),
+    index: configManager.getAllConfigs().findIndex((cfg) => cfg.name === current.name),
+    source: 'global',
+    ...projectFile,
+    ...(group !== undefined && configManager.getGroups()[group] ? { group } : {}),
+  };
+}
@@ -0,0 +1,160 @@
+import type { AuoState, ProviderGroup, RotationState, RotationStrategyName } from './types';
+
+/**
+ * All selection strategies, the first one is the default
+ */
+export const ROTATION_STRATEGIES: RotationStrategyName[] = [
+  'round-robin',
+  'weighted',
+  'least-recent',
+  'until-exhausted',
+];
+
+/**
+ * Outcome of picking a group member
+ */
+export interface RotationDecision {
+  /** Picked provider name */
+  selected: string;
+  /** Members skipped because they are exhausted */
+  skipped: string[];
+  /** Whether every member is exhausted (the one resetting first is picked then) */
+  allExhausted: boolean;
+  /** State to save so the next pick continues the rotation */
+  state: AuoState & Required<Pick<AuoState, 'rotation' | 'lastUsed'>>;
+}
+
+/**
+ * Inputs of a strategy
+ */
+interface StrategyContext {
+  /** All members in group order */
+  members: string[];
+  /** Members that may be picked, in group order (never empty) */
+  available: string[];
+  /** Group configuration */
+  group: ProviderGroup;
+  /** Saved rotation state of the group */
+  rotation: RotationState;
+  /** Last pick time of each provider */
+  lastUsed: Record<string, string>;
+}
+
+/**
+ * Strategy picking a member and returning the group's new rotation state
+ */
+type Strategy = (context: StrategyContext) => { selected: string; rotation: RotationState };
+
+/**
+ * Selection strategies by name
+ */
+const STRATEGIES: Record<RotationStrategyName, Strategy> = {
+  // Next member after the last pick, wrapping around
+  'round-robin': ({ members, available, rotation }) => {
+    const start = rotation.last !== undefined ? members.indexOf(rotation.last) + 1 : 0;
+    const selected =
+      members
+        .slice(start)
+        .concat(members.slice(0, start))
+        .find((name) => available.includes(name)) || (available[0] as string);
+    return { selected, rotation: { ...rotation, last: selected } };
+  },
+
+  // Smooth weighted round-robin: spreads picks evenly while honoring the weights
+  weighted: ({ available, group, rotation }) => {
+    const credits = { ...rotation.credits };
+    let total = 0;
+    let selected = available[0] as string;
+
+    for (const name of available) {
+      const weight = group.weights?.[name] ?? 1;
+      credits[name] = (credits[name] || 0) + weight;
+      total += weight;
+      if ((credits[name] as number) > (credits[selected] as number)) {
+        selected = name;
+      }
+    }
+    credits[selected] = (credits[selected] as number) - total;
+
+    return { selected, rotation: { ...rotation, last: selected, credits } };
+  },
+
+  // Member picked longest ago, never picked ones first
+  'least-recent': ({ available, rotation, lastUsed }) => {
+    const time = (name: string): number => (lastUsed[name] ? Date.parse(lastUsed[name]) : 0);
+    const selected = available.reduce((oldest, name) =>
+      time(name) < time(oldest) ? name : oldest
+    );
+    return { selected, rotation: { ...rotation, last: selected } };
+  },
+
+  // First member in order, moving on only while earlier ones are exhausted
+  'until-exhausted': ({ available, rotation }) => {
+    const selected = available[0] as string;
+    return { selected, rotation: { ...rotation, last: selected } };
+  },
+};
+
+/**
+ * Check whether a string names a strategy
+ */
+export function isRotationStrategy(name: string): name is RotationStrategyName {
+  return (ROTATION_STRATEGIES as string[]).includes(name);
+}
+
+/**
+ * Get the reset time of an exhausted provider, undefined when it is usable
+ */
+export function getExhaustedUntil(state: AuoState, name: string, now: number): number | undefined {
+  const until = state.exhausted?.[name];
+  const time = until ? Date.parse(until) : NaN;
+  return time > now ? time : undefined;
+}
+
+/**
+ * Pick a member of a group with its strategy, skipping exhausted members
+ * @param groupName Group name, used to keep its rotation state
+ * @param group Group configuration
+ * @param members Existing member names in group order (not empty)
+ * @param state Saved runtime state
+ * @param now Current time in milliseconds
+ */
+export function pickGroupMember(
+  groupName: string,
+  group: ProviderGroup,
+  members: string[],
+  state: AuoState,
+  now: number = Date.now()
+): RotationDecision {
+  const skipped = members.filter((name) => getExhaustedUntil(state, name, now) !== undefined);
+  let available = members.filter((name) => !skipped.includes(name));
+  const allExhausted = available.length === 0;
+
+  if (allExhausted) {
+    // Nothing is usable, take the member whose quota comes back first
+    const resetsAt = (name: string): number => getExhaustedUntil(state, name, now) as number;
+    available = [
+      members.reduce((first, name) => (resetsAt(name) < resetsAt(first) ? name : first)),
+    ];
+  }
+
+  const lastUsed = state.lastUsed || {};
+  const { selected, rotation } = STRATEGIES[group.strategy || 'round-robin']({
+    members,
+    available,
+    group,
+    rotation: state.rotation?.[groupName] || {},
+    lastUsed,
+  });
+
+  return {
+    selected,
+    skipped,
+    allExhausted,
+    state: {
+      ...state,
+      rotation: { ...state.rotation, [groupName]: rotation },
+      lastUsed: { ...lastUsed, [selected]: new Date(now).toISOString() },
+    },
+  };
+}
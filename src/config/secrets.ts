@@ -0,0 +1,565 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFileSync, execSync } from 'child_process';
+import { writeFileAtomic } from './storage';
+import type {
+  ConfigEnvironment,
+  EncryptedSecret,
+  SecretBackend,
+  ValueSource,
+  VaultFile,
+} from './types';
+
+/**
+ * Pattern of a value that refers to a stored secret, e.g. ${vault:relay/ANTHROPIC_AUTH_TOKEN}
+ */
+const SECRET_REFERENCE_PATTERN = /^\$\{(vault|keychain):([^}]+)\}$/;
+
+/**
+ * Pattern of references interpolated into values, e.g. ${env:MY_TOKEN} or ${file:~/.secrets/relay}
+ */
+const VALUE_REFERENCE_PATTERN = /\$\{(env|file|cmd):([^}]+)\}/g;
+
+/**
+ * Time allowed for a ${cmd:...} reference to print its value
+ */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Pattern of environment variable names holding secrets
+ */
+const SECRET_KEY_PATTERN = /TOKEN|API_KEY|SECRET|PASSWORD/i;
+
+/**
+ * Service name used for OS keychain entries
+ */
+const KEYCHAIN_SERVICE = 'auo';
+
+/**
+ * scrypt parameters used to derive vault keys
+ */
+const KDF_PARAMS = { N: 16384, r: 8, p: 1 };
+
+/**
+ * Plaintext encrypted as passphrase check in every vault
+ */
+const VAULT_CHECK_VALUE = 'auo-vault';
+
+/**
+ * Supported secret backend names
+ */
+export type SecretBackendName = 'vault' | 'keychain';
+
+/**
+ * Parsed secret reference
+ */
+export interface SecretReference {
+  /** Backend holding the secret */
+  backend: SecretBackendName;
+  /** Secret identifier within the backend */
+  id: string;
+}
+
+/**
+ * Check whether an environment variable name usually holds a secret
+ */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Check whether a value is a secret stored in plaintext, i.e. one a secret backend should hold
+ * References are not secrets themselves, and resolved values must stay off disk
+ */
+export function isPlaintextSecret(key: string, value: string | undefined): value is string {
+  return !!value && isSecretKey(key) && !parseSecretReference(value) && !hasValueReferences(value);
+}
+
+/**
+ * Create a backend id for a secret, e.g. relay/ANTHROPIC_AUTH_TOKEN-3f9a1c2b
+ * The random suffix keeps ids unique when a provider is renamed and its old name reused
+ */
+export function createSecretId(owner: string, key: string): string {
+  return `${owner}/${key}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Parse a secret reference, returning null for plain values
+ */
+export function parseSecretReference(value: string | undefined): SecretReference | null {
+  const match = value ? SECRET_REFERENCE_PATTERN.exec(value) : null;
+  if (!match || !match[1] || !match[2]) {
+    return null;
+  }
+  return { backend: match[1] as SecretBackendName, id: match[2] };
+}
+
+/**
+ * Check whether a value interpolates ${env:...}, ${file:...} or ${cmd:...} references
+ * @param sources Only look for references to these sources, e.g. ['cmd']
+ */
+export function hasValueReferences(
+  value: string | undefined,
+  sources: string[] = ['env', 'file', 'cmd']
+): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  return [...value.matchAll(VALUE_REFERENCE_PATTERN)].some(([, name]) =>
+    sources.includes(name as string)
+  );
+}
+
+/**
+ * Build a reference string pointing at a stored secret
+ */
+export function formatSecretReference(backend: string, id: string): string {
+  return `\${${backend}:${id}}`;
+}
+
+/**
+ * Mask a secret for display, keeping only enough to recognize it (sk-...abcd)
+ * References are not secret and are returned unchanged
+ */
+export function maskSecret(value: string): string {
+  if (parseSecretReference(value) || hasValueReferences(value)) {
+    return value;
+  }
+  if (value.length <= 12) {
+    return '*'.repeat(Math.min(value.length, 8));
+  }
+  return `${value.slice(0, 3)}...${value.slice(-4)}`;
+}
+
+/**
+ * Derive an AES-256 key from a passphrase
+ */
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, KDF_PARAMS);
+}
+
+/**
+ * Encrypt a value with AES-256-GCM using a derived key
+ */
+function encryptWithKey(key: Buffer, plaintext: string): EncryptedSecret {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt an AES-256-GCM value, throwing when the key is wrong or data was tampered with
+ */
+function decryptWithKey(key: Buffer, secret: EncryptedSecret): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(secret.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Encrypt a value with a passphrase (self-contained, includes its own salt)
+ */
+export function encryptSecret(plaintext: string, passphrase: string): EncryptedSecret {
+  const salt = crypto.randomBytes(16);
+  return {
+    ...encryptWithKey(deriveKey(passphrase, salt), plaintext),
+    salt: salt.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ */
+export function decryptSecret(secret: EncryptedSecret, passphrase: string): string {
+  if (!secret.salt) {
+    throw new Error('Encrypted value has no salt');
+  }
+
+  try {
+    return decryptWithKey(deriveKey(passphrase, Buffer.from(secret.salt, 'base64')), secret);
+  } catch {
+    throw new Error('Wrong passphrase or corrupted data');
+  }
+}
+
+/**
+ * Passphrase-encrypted vault file backend (AES-256-GCM, scrypt KDF)
+ */
+export class VaultSecretBackend implements SecretBackend {
+  readonly name = 'vault';
+  private readonly vaultFile: string;
+  private readonly getPassphrase: () => string;
+  private key: Buffer | null = null;
+
+  constructor(vaultFile: string, getPassphrase: () => string) {
+    this.vaultFile = vaultFile;
+    this.getPassphrase = getPassphrase;
+  }
+
+  /**
+   * Check whether the vault file exists
+   */
+  exists(): boolean {
+    return fs.existsSync(this.vaultFile);
+  }
+
+  /**
+   * Read vault file, creating an empty vault (in memory) when missing
+   */
+  private readVault(): VaultFile {
+    if (!this.exists()) {
+      const salt = crypto.randomBytes(16).toString('base64');
+      return { version: 1, kdf: { name: 'scrypt', salt, ...KDF_PARAMS }, entries: {} };
+    }
+
+    const vault = JSON.parse(fs.readFileSync(this.vaultFile, 'utf8')) as VaultFile;
+    if (vault.version !== 1 || vault.kdf?.name !== 'scrypt' || typeof vault.entries !== 'object') {
+      throw new Error(`Unsupported vault format: ${this.vaultFile}`);
+    }
+    return vault;
+  }
+
+  /**
+   * Derive (once) and verify the vault key
+   */
+  private unlock(vault: VaultFile): Buffer {
+    if (!this.key) {
+      const key = crypto.scryptSync(
+        this.getPassphrase(),
+        Buffer.from(vault.kdf.salt, 'base64'),
+        32,
+        { N: vault.kdf.N, r: vault.kdf.r, p: vault.kdf.p }
+      );
+
+      if (vault.check) {
+        try {
+          decryptWithKey(key, vault.check);
+        } catch {
+          throw new Error('Wrong vault passphrase');
+        }
+      }
+      this.key = key;
+    }
+    return this.key;
+  }
+
+  /**
+   * Write vault file readable by the current user only
+   */
+  private writeVault(vault: VaultFile): void {
+    fs.mkdirSync(path.dirname(this.vaultFile), { recursive: true });
+    writeFileAtomic(this.vaultFile, JSON.stringify(vault, null, 2), 0o600);
+  }
+
+  get(id: string): string | null {
+    if (!this.exists()) {
+      return null;
+    }
+
+    const vault = this.readVault();
+    const entry = vault.entries[id];
+    if (!entry) {
+      return null;
+    }
+    return decryptWithKey(this.unlock(vault), entry);
+  }
+
+  set(id: string, value: string): void {
+    const vault = this.readVault();
+    const key = this.unlock(vault);
+    vault.check = vault.check || encryptWithKey(key, VAULT_CHECK_VALUE);
+    vault.entries[id] = encryptWithKey(key, value);
+    this.writeVault(vault);
+  }
+
+  delete(id: string): void {
+    if (!this.exists()) {
+      return;
+    }
+    const vault = this.readVault();
+    delete vault.entries[id];
+    this.writeVault(vault);
+  }
+}
+
+/**
+ * Quote an argument for the command line read by `security -i`
+ */
+function quoteSecurityArgument(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * OS keychain backend (macOS Keychain via `security`, Linux Secret Service via `secret-tool`)
+ */
+export class KeychainSecretBackend implements SecretBackend {
+  readonly name = 'keychain';
+  private readonly platform: NodeJS.Platform;
+
+  constructor(platform: NodeJS.Platform = process.platform) {
+    this.platform = platform;
+  }
+
+  /**
+   * Ensure the current platform has a supported keychain tool
+   */
+  private assertSupported(): void {
+    if (this.platform !== 'darwin' && this.platform !== 'linux') {
+      throw new Error(`OS keychain is not supported on ${this.platform}, use the vault instead`);
+    }
+  }
+
+  get(id: string): string | null {
+    this.assertSupported();
+    try {
+      const output =
+        this.platform === 'darwin'
+          ? execFileSync(
+              'security',
+              ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', id, '-w'],
+              {
+                encoding: 'utf8',
+                stdio: ['ignore', 'pipe', 'ignore'],
+              }
+            )
+          : execFileSync('secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', id], {
+              encoding: 'utf8',
+              stdio: ['ignore', 'pipe', 'ignore'],
+            });
+      return output.replace(/\n$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  set(id: string, value: string): void {
+    this.assertSupported();
+    // The value goes through stdin, arguments are visible to other users in the process list
+    if (this.platform === 'darwin') {
+      const command = ['add-generic-password', '-U', '-s', KEYCHAIN_SERVICE, '-a', id, '-w', value]
+        .map(quoteSecurityArgument)
+        .join(' ');
+      execFileSync('security', ['-i'], {
+        input: `${command}\n`,
+        stdio: ['pipe', 'ignore', 'ignore'],
+      });
+    } else {
+      execFileSync(
+        'secret-tool',
+        ['store', `--label=${KEYCHAIN_SERVICE} ${id}`, 'service', KEYCHAIN_SERVICE, 'account', id],
+        { input: value, stdio: ['pipe', 'ignore', 'ignore'] }
+      );
+    }
+  }
+
+  delete(id: string): void {
+    this.assertSupported();
+    try {
+      if (this.platform === 'darwin') {
+        execFileSync('security', ['delete-generic-password', '-s', KEYCHAIN_SERVICE, '-a', id], {
+          stdio: 'ignore',
+        });
+      } else {
+        execFileSync('secret-tool', ['clear', 'service', KEYCHAIN_SERVICE, 'account', id], {
+          stdio: 'ignore',
+        });
+      }
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Values of environment variables of the auo process, ${env:NAME}
+ */
+export class EnvValueSource implements ValueSource {
+  readonly name = 'env';
+  private readonly env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+  }
+
+  read(name: string): string {
+    const value = this.env[name];
+    if (value === undefined) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Contents of a file without the trailing newline, ${file:~/path}
+ */
+export class FileValueSource implements ValueSource {
+  readonly name = 'file';
+
+  read(filePath: string): string {
+    const resolved = path.resolve(filePath.replace(/^~(?=$|[\\/])/, os.homedir()));
+    try {
+      return fs.readFileSync(resolved, 'utf8').replace(/\r?\n$/, '');
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new Error(`cannot read ${resolved}${code ? ` (${code})` : ''}`);
+    }
+  }
+}
+
+/**
+ * Output of a shell command without the trailing newline, ${cmd:pass show relay}
+ * The command may prompt on the terminal, e.g. to unlock a password manager
+ */
+export class CommandValueSource implements ValueSource {
+  readonly name = 'cmd';
+
+  read(command: string): string {
+    try {
+      return execSync(command, {
+        encoding: 'utf8',
+        stdio: ['inherit', 'pipe', 'inherit'],
+        timeout: COMMAND_TIMEOUT_MS,
+      }).replace(/\r?\n$/, '');
+    } catch (error) {
+      const { status, signal } = error as { status?: number | null; signal?: string | null };
+      const reason =
+        signal === 'SIGTERM'
+          ? `timed out after ${COMMAND_TIMEOUT_MS / 1000}s`
+          : status !== undefined && status !== null
+            ? `exited with code ${status}`
+            : error instanceof Error
+              ? error.message
+              : String(error);
+      throw new Error(`command ${reason}`);
+    }
+  }
+}
+
+/**
+ * Create the built-in sources of interpolated values
+ */
+export function createValueSources(env: NodeJS.ProcessEnv = process.env): ValueSource[] {
+  return [new EnvValueSource(env), new FileValueSource(), new CommandValueSource()];
+}
+
+/**
+ * Resolves secret references and interpolated values in provider environments
+ * Values are only resolved in memory for the child process and never written back
+ */
+export class SecretResolver {
+  private readonly backends: Map<string, SecretBackend>;
+  private readonly sources: Map<string, ValueSource>;
+  /** Interpolated values already read, so commands run once per launch */
+  private readonly cache = new Map<string, string>();
+
+  constructor(backends: SecretBackend[], sources: ValueSource[] = createValueSources()) {
+    this.backends = new Map(backends.map((backend) => [backend.name, backend]));
+    this.sources = new Map(sources.map((source) => [source.name, source]));
+  }
+
+  /**
+   * Get a registered backend by name
+   */
+  getBackend(name: string): SecretBackend | undefined {
+    return this.backends.get(name);
+  }
+
+  /**
+   * Resolve a single value, returning plain values unchanged
+   */
+  resolveValue(key: string, value: string): string {
+    const reference = parseSecretReference(value);
+    if (!reference) {
+      return this.interpolate(key, value);
+    }
+
+    const backend = this.backends.get(reference.backend);
+    if (!backend) {
+      throw new Error(`No "${reference.backend}" secret backend available to resolve ${key}`);
+    }
+
+    let secret: string | null;
+    try {
+      secret = backend.get(reference.id);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read secret for ${key} from ${reference.backend}: ${reason}`);
+    }
+
+    if (secret === null) {
+      throw new Error(`Secret "${reference.id}" for ${key} not found in ${reference.backend}`);
+    }
+    return secret;
+  }
+
+  /**
+   * Replace ${env:...}, ${file:...} and ${cmd:...} references in a value
+   */
+  private interpolate(key: string, value: string): string {
+    return value.replace(VALUE_REFERENCE_PATTERN, (match, name: string, argument: string) => {
+      const cached = this.cache.get(match);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const source = this.sources.get(name);
+      if (!source) {
+        throw new Error(`No "${name}" value source available to resolve ${key}`);
+      }
+
+      let resolved: string;
+      try {
+        resolved = source.read(argument.trim());
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to resolve ${match} in ${key}: ${reason}`);
+      }
+
+      this.cache.set(match, resolved);
+      return resolved;
+    });
+  }
+}
+
+/**
+ * Check whether an environment contains references to a given backend
+ */
+export function hasSecretReferences(env: ConfigEnvironment, backend?: SecretBackendName): boolean {
+  return Object.values(env).some((value) => {
+    const reference = parseSecretReference(value);
+    return reference !== null && (backend === undefined || reference.backend === backend);
+  });
+}
+
+/**
+ * Get the vault file path for a configuration directory
+ */
+export function getVaultPath(configDir: string): string {
+  return path.join(configDir, 'vault.json');
+}
+
+/**
+ * Create the built-in secret backends for a configuration directory
+ * @param getPassphrase Called lazily the first time the vault is unlocked
+ */
+export function createSecretBackends(
+  configDir: string,
+  getPassphrase: () => string
+): SecretBackend[] {
+  return [
+    new VaultSecretBackend(getVaultPath(configDir), getPassphrase),
+    new KeychainSecretBackend(),
+  ];
+}
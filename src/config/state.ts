@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { FileLock, writeFileAtomic } from './storage';
+import type { AuoState } from './types';
+
+/**
+ * Runtime state store
+ * Keeps decisions made at launch time (e.g. failover) out of the configuration file
+ */
+export class StateStore {
+  private readonly stateFile: string;
+  private readonly lock: FileLock;
+
+  constructor(configDir: string, stateFileName = 'state.json') {
+    this.stateFile = path.join(configDir, stateFileName);
+    this.lock = new FileLock(`${this.stateFile}.lock`);
+  }
+
+  /**
+   * Get state file path
+   */
+  getStatePath(): string {
+    return this.stateFile;
+  }
+
+  /**
+   * Read state, returning an empty state when missing or unreadable
+   */
+  read(): AuoState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf8')) as unknown;
+        if (data && typeof data === 'object' && !Array.isArray(data)) {
+          return data as AuoState;
+        }
+      }
+    } catch {
+      // State is best-effort, a broken file is simply replaced
+    }
+    return {};
+  }
+
+  /**
+   * Apply changes to the state and save it
+   * The state is read and written under a lock, so concurrent launches (e.g. rotating through
+   * a group) see each other's changes; without the lock the change is still applied, unlocked
+   */
+  update(updater: (state: AuoState) => void): AuoState {
+    let locked = false;
+    try {
+      return this.lock.withLock(() => {
+        locked = true;
+        return this.apply(updater);
+      });
+    } catch (error) {
+      if (locked) {
+        throw error;
+      }
+      console.warn('⚠️ Failed to lock state file:', error);
+      return this.apply(updater);
+    }
+  }
+
+  /**
+   * Read the state, change it and write it back
+   */
+  private apply(updater: (state: AuoState) => void): AuoState {
+    const state = this.read();
+    updater(state);
+
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+      writeFileAtomic(this.stateFile, JSON.stringify(state, null, 2), 0o644);
+    } catch (error) {
+      console.warn('⚠️ Failed to save state file:', error);
+    }
+
+    return state;
+  }
+}
@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * How long to wait for another auo process to release a lock
+ */
+const LOCK_TIMEOUT_MS = 5000;
+
+/**
+ * Locks older than this are considered abandoned even if their owner still runs
+ */
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Delay between attempts to take a held lock
+ */
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Contents of a lock file
+ */
+interface LockInfo {
+  pid: number;
+  createdAt: number;
+}
+
+/**
+ * Block the current thread; config access is synchronous, so the lock wait is too
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Check whether a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Write a file atomically: write a temporary file next to it, flush it and rename it over
+ * the target, so readers see either the old or the new content and never a partial write
+ */
+export function writeFileAtomic(filePath: string, data: string, mode = 0o600): void {
+  const tempFile = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  try {
+    const fd = fs.openSync(tempFile, 'w', mode);
+    try {
+      fs.writeFileSync(fd, data, 'utf8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.chmodSync(tempFile, mode);
+    fs.renameSync(tempFile, filePath);
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Advisory lock backed by a lock file created exclusively
+ * Locks left behind by crashed processes are detected and taken over
+ */
+export class FileLock {
+  private readonly lockFile: string;
+  private readonly timeoutMs: number;
+  private depth = 0;
+
+  constructor(lockFile: string, timeoutMs = LOCK_TIMEOUT_MS) {
+    this.lockFile = lockFile;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Get lock file path
+   */
+  getLockPath(): string {
+    return this.lockFile;
+  }
+
+  /**
+   * Run a function while holding the lock; nested calls reuse the held lock
+   */
+  withLock<T>(fn: () => T): T {
+    if (this.depth === 0) {
+      this.acquire();
+    }
+    this.depth++;
+
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+      if (this.depth === 0) {
+        this.release();
+      }
+    }
+  }
+
+  /**
+   * Take the lock, waiting for other holders and removing stale locks
+   */
+  private acquire(): void {
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (;;) {
+      try {
+        const info: LockInfo = { pid: process.pid, createdAt: Date.now() };
+        fs.writeFileSync(this.lockFile, JSON.stringify(info), { flag: 'wx', mode: 0o600 });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Removing a stale lock doesn't make it ours, it only lets everyone compete again with wx
+      const holder = this.readHolder();
+      if (this.isStale(holder) && this.removeStale(holder)) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        const owner = holder ? `process ${holder.pid}` : 'another process';
+        throw new Error(
+          `Configuration is locked by ${owner}. If no other auo is running, delete ${this.lockFile}`
+        );
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Remove a stale lock unless another process replaced it since it was judged stale
+   * Takeovers are serialized through a second lock file, so a process can't remove the fresh
+   * lock of one that took over just before it
+   * @returns Whether the stale lock is gone; false when another takeover is in progress or the
+   * lock changed hands
+   */
+  private removeStale(stale: LockInfo | null): boolean {
+    const guard = `${this.lockFile}.takeover`;
+    try {
+      fs.writeFileSync(guard, String(process.pid), { flag: 'wx', mode: 0o600 });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // Clear the guard of a takeover that crashed halfway
+      try {
+        if (Date.now() - fs.statSync(guard).mtimeMs > LOCK_STALE_MS) {
+          fs.rmSync(guard, { force: true });
+        }
+      } catch {
+        // Finished in the meantime
+      }
+      return false;
+    }
+
+    try {
+      const holder = this.readHolder();
+      if (holder?.pid !== stale?.pid || holder?.createdAt !== stale?.createdAt) {
+        return false;
+      }
+      if (!this.isStale(holder)) {
+        return false;
+      }
+      fs.rmSync(this.lockFile, { force: true });
+      return true;
+    } finally {
+      fs.rmSync(guard, { force: true });
+    }
+  }
+
+  /**
+   * Release the lock if this process still holds it
+   */
+  private release(): void {
+    if (this.readHolder()?.pid === process.pid) {
+      fs.rmSync(this.lockFile, { force: true });
+    }
+  }
+
+  /**
+   * Read who holds the lock, null when it is gone or unreadable
+   */
+  private readHolder(): LockInfo | null {
+    try {
+      const info = JSON.parse(fs.readFileSync(this.lockFile, 'utf8')) as Partial<LockInfo>;
+      if (typeof info.pid === 'number' && typeof info.createdAt === 'number') {
+        return { pid: info.pid, createdAt: info.createdAt };
+      }
+    } catch {
+      // Missing, or caught between creation and write; judged by its age below
+    }
+    return null;
+  }
+
+  /**
+   * A lock is stale when its owner is gone or it has been held for too long
+   */
+  private isStale(holder: LockInfo | null): boolean {
+    if (holder) {
+      return !isProcessAlive(holder.pid) || Date.now() - holder.createdAt > LOCK_STALE_MS;
+    }
+
+    try {
+      return Date.now() - fs.statSync(this.lockFile).mtimeMs > LOCK_STALE_MS;
+    } catch {
+      // Released in the meantime, try again
+      return true;
+    }
+  }
+}
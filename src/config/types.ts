@@ -1,5 +1,7 @@
 /**
  * Environment variables for a configuration
+ * Besides the well-known Anthropic keys, any variable understood by Claude Code
+ * (e.g. ANTHROPIC_SMALL_FAST_MODEL, API_TIMEOUT_MS, HTTPS_PROXY) may be set
  */
 export interface ConfigEnvironment {
   /** Anthropic API base URL */
@@ -8,6 +10,8 @@ export interface ConfigEnvironment {
   ANTHROPIC_AUTH_TOKEN?: string | undefined;
   /** Anthropic model to use */
   ANTHROPIC_MODEL?: string | undefined;
+  /** Additional environment variables passed to Claude Code */
+  [key: string]: string | undefined;
 }
 
 /**
@@ -36,10 +40,36 @@ export interface ConfigItemV2 {
   env: ConfigEnvironment;
 }
 
+/**
+ * Single configuration item (v3 format)
+ */
+export interface ConfigItemV3 {
+  /** Configuration name */
+  name: string;
+  /** Configuration description */
+  description: string;
+  /** Environment variables (any string variables) */
+  env: ConfigEnvironment;
+  /** Labels used to filter the list, e.g. "work" or "relay" (optional) */
+  tags?: string[];
+  /** Provider whose env and description are inherited (optional) */
+  extends?: string;
+  /** Model names this provider expects, keyed by the name asked for, e.g. "sonnet[1m]" (optional) */
+  models?: Record<string, string>;
+  /** API the provider speaks, Anthropic Messages when not set (optional) */
+  protocol?: ProviderProtocol;
+}
+
+/**
+ * API spoken by a provider; OpenAI chat completions providers are reached through the local
+ * translating proxy
+ */
+export type ProviderProtocol = 'anthropic' | 'openai';
+
 /**
  * Union type for configuration items
  */
-export type ConfigItem = ConfigItemV1 | ConfigItemV2;
+export type ConfigItem = ConfigItemV1 | ConfigItemV2 | ConfigItemV3;
 
 /**
  * Configuration file structure (v1 format)
@@ -63,10 +93,69 @@ export interface ConfigFileV2 {
   currentIndex: number;
 }
 
+/**
+ * Failover settings
+ */
+export interface FailoverSettings {
+  /** Whether providers are health-checked before every launch */
+  enabled: boolean;
+  /** Ordered provider names tried when the current one is unhealthy */
+  providers: string[];
+  /** Health check timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * How a provider is picked from a group
+ */
+export type RotationStrategyName = 'round-robin' | 'weighted' | 'least-recent' | 'until-exhausted';
+
+/**
+ * Named set of equivalent providers that launches rotate through
+ */
+export interface ProviderGroup {
+  /** Member provider names, in order */
+  providers: string[];
+  /** Selection strategy (default: round-robin) */
+  strategy?: RotationStrategyName;
+  /** Relative weights used by the weighted strategy (default: 1) */
+  weights?: Record<string, number>;
+  /** Default variables inherited by members that don't set them */
+  env?: ConfigEnvironment;
+}
+
+/**
+ * Values shared by every provider
+ */
+export interface ConfigDefaults {
+  /** Variables inherited by providers that don't set them */
+  env?: ConfigEnvironment;
+}
+
+/**
+ * Configuration file structure (v3 format)
+ */
+export interface ConfigFileV3 {
+  /** Configuration version */
+  version: 'v3';
+  /** All service provider configurations */
+  providers: ConfigItemV3[];
+  /** Current selected configuration index */
+  currentIndex: number;
+  /** Failover settings (optional) */
+  failover?: FailoverSettings;
+  /** Provider groups (optional) */
+  groups?: Record<string, ProviderGroup>;
+  /** Group rotated through instead of using currentIndex (optional) */
+  activeGroup?: string;
+  /** Values shared by every provider (optional) */
+  defaults?: ConfigDefaults;
+}
+
 /**
  * Union type for configuration files
  */
-export type ConfigFile = ConfigFileV1 | ConfigFileV2;
+export type ConfigFile = ConfigFileV1 | ConfigFileV2 | ConfigFileV3;
 
 /**
  * Configuration manager options
@@ -102,6 +191,14 @@ export interface AddConfigParamsV2 {
   description?: string;
   /** Environment variables */
   env: ConfigEnvironment;
+  /** Labels (optional) */
+  tags?: string[];
+  /** Provider to inherit from (optional) */
+  extends?: string;
+  /** Model name map (optional) */
+  models?: Record<string, string>;
+  /** API the provider speaks (optional) */
+  protocol?: ProviderProtocol;
 }
 
 /**
@@ -109,6 +206,340 @@ export interface AddConfigParamsV2 {
  */
 export type AddConfigParams = AddConfigParamsV1 | AddConfigParamsV2;
 
+/**
+ * Where a resolved variable comes from
+ */
+export type EnvSource =
+  | { kind: 'defaults' }
+  | { kind: 'group'; name: string }
+  | { kind: 'provider'; name: string };
+
+/**
+ * Provider with inherited values applied
+ */
+export interface ResolvedProvider {
+  /** Provider with the full env and description */
+  config: ConfigItemV3;
+  /** Source of each variable in config.env */
+  sources: Record<string, EnvSource>;
+  /** Providers inherited from, nearest first */
+  chain: string[];
+}
+
+/**
+ * Record of a failover decision
+ */
+export interface FailoverRecord {
+  /** Name of the provider that was launched */
+  selected: string;
+  /** Providers skipped before it, with the reason */
+  skipped: Array<{ name: string; reason: string }>;
+  /** ISO timestamp of the decision */
+  at: string;
+}
+
+/**
+ * Rotation state of a provider group
+ */
+export interface RotationState {
+  /** Provider picked last */
+  last?: string;
+  /** Running credits of the weighted strategy */
+  credits?: Record<string, number>;
+}
+
+/**
+ * Runtime state persisted next to the configuration file
+ */
+export interface AuoState {
+  /** Last failover decision */
+  lastFailover?: FailoverRecord;
+  /** Rotation state per provider group */
+  rotation?: Record<string, RotationState>;
+  /** When each provider was last picked by a rotation (ISO 8601) */
+  lastUsed?: Record<string, string>;
+  /** Providers out of quota, with the time their quota resets (ISO 8601) */
+  exhausted?: Record<string, string>;
+  /** Project files trusted with `auo trust`, with the SHA-256 of the content that was trusted */
+  trustedProjects?: Record<string, string>;
+}
+
+/**
+ * AES-256-GCM encrypted value (base64 fields)
+ */
+export interface EncryptedSecret {
+  /** Initialization vector */
+  iv: string;
+  /** Authentication tag */
+  tag: string;
+  /** Ciphertext */
+  data: string;
+  /** KDF salt (only for self-contained values) */
+  salt?: string;
+}
+
+/**
+ * Passphrase-encrypted vault file structure
+ */
+export interface VaultFile {
+  /** Vault format version */
+  version: 1;
+  /** Key derivation parameters */
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  /** Encrypted known value used to verify the passphrase */
+  check?: EncryptedSecret;
+  /** Encrypted secrets by identifier */
+  entries: Record<string, EncryptedSecret>;
+}
+
+/**
+ * Pluggable secret storage backend
+ */
+export interface SecretBackend {
+  /** Backend name used in references, e.g. "vault" in ${vault:id} */
+  readonly name: string;
+  /** Read a secret, returning null when it doesn't exist */
+  get(id: string): string | null;
+  /** Store or replace a secret */
+  set(id: string, value: string): void;
+  /** Remove a secret */
+  delete(id: string): void;
+}
+
+/**
+ * Read-only source of values interpolated into env values, e.g. "env" in ${env:MY_TOKEN}
+ */
+export interface ValueSource {
+  /** Source name used in references */
+  readonly name: string;
+  /** Read a value, throwing with the reason when it can't be read */
+  read(argument: string): string;
+}
+
+/**
+ * Project-local configuration (.auorc / .auo.json)
+ */
+export interface ProjectConfig {
+  /** Provider name pinned for this project, or @group to pick from a group */
+  provider?: string;
+  /** Environment variables layered over the provider's env */
+  env?: ConfigEnvironment;
+  /** Arguments passed to Claude Code before the ones given on the command line */
+  claudeArgs?: string[];
+}
+
+/**
+ * Project configuration together with the file it was read from
+ */
+export interface LoadedProjectConfig {
+  /** Absolute path of the project file */
+  path: string;
+  /** Parsed project configuration */
+  config: ProjectConfig;
+  /** SHA-256 of the file content */
+  hash?: string;
+  /** Whether the user trusted this content, untrusted files cannot override sensitive variables */
+  trusted?: boolean;
+}
+
+/**
+ * Where the active provider was decided
+ */
+export type ProviderSource = 'global' | 'project' | 'override';
+
+/**
+ * Provider chosen for a single run (e.g. --provider or AUO_PROVIDER)
+ */
+export interface ProviderOverride {
+  /** Provider name, index, prefix or approximate name, or @group */
+  name: string;
+  /** Where the override came from, used in messages */
+  origin: string;
+}
+
+/**
+ * Provider used for a launch and how it was chosen
+ */
+export interface ActiveProvider {
+  /** Provider with project overrides applied */
+  config: ConfigItemV3;
+  /** Index of the provider in the global configuration (-1 for the built-in default) */
+  index: number;
+  /** Source that decided the provider */
+  source: ProviderSource;
+  /** Project file involved in the decision, if any */
+  projectFile?: string;
+  /** Origin of the one-shot override that decided the provider */
+  overrideOrigin?: string;
+  /** Group whose strategy picked the provider */
+  group?: string;
+  /** Sensitive variables the untrusted project file tried to override */
+  ignoredProjectKeys?: string[];
+}
+
+/**
+ * How secret values are stored in an exported bundle
+ */
+export type BundleTokenMode = 'plain' | 'redacted' | 'encrypted';
+
+/**
+ * Versioned export bundle
+ */
+export interface ConfigBundle {
+  /** Format marker */
+  format: 'auo-bundle';
+  /** Bundle format version */
+  version: 1;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  /** How secret values are stored */
+  tokens: BundleTokenMode;
+  /** Exported configuration; encrypted secrets are replaced by ${bundle:<id>} placeholders */
+  config: ConfigFile;
+  /** Encrypted JSON map of secret id to value (encrypted bundles only) */
+  secrets?: EncryptedSecret;
+  /** Secret ids left out of the bundle (redacted bundles only) */
+  redacted?: string[];
+}
+
+/**
+ * How an import combines the bundle with the existing configuration
+ */
+export type ImportStrategy = 'merge' | 'replace';
+
+/**
+ * What a merge does when a provider name already exists
+ */
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * Import options
+ */
+export interface ImportOptions {
+  /** Merge into (default) or replace the existing configuration */
+  strategy?: ImportStrategy;
+  /** Name conflict handling when merging (default: skip) */
+  onConflict?: ConflictResolution;
+  /** Validate and report without writing */
+  dryRun?: boolean;
+}
+
+/**
+ * What happened to the imported providers or groups
+ */
+export interface ImportOutcome {
+  /** Added under their own name */
+  added: string[];
+  /** Existing ones replaced by imported ones */
+  overwritten: string[];
+  /** Added under a new name */
+  renamed: Array<{ from: string; to: string }>;
+  /** Left out because the name exists */
+  skipped: string[];
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportSummary extends ImportOutcome {
+  /** Outcome for the groups of the bundle */
+  groups: ImportOutcome;
+  /** Failover settings and shared defaults, e.g. "failover settings" or "default API_TIMEOUT_MS" */
+  settings: {
+    /** Taken from the bundle */
+    imported: string[];
+    /** Left out because the existing configuration sets them differently */
+    kept: string[];
+  };
+  /** Imported variables reading files or running commands at launch, as "owner/KEY" */
+  commands: string[];
+}
+
+/**
+ * Configuration snapshot taken before a destructive change
+ */
+export interface BackupInfo {
+  /** Identifier, also the snapshot file name without extension */
+  id: string;
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** Operation that replaced the snapshotted configuration, e.g. "delete" */
+  operation: string;
+  /** Snapshot file path */
+  path: string;
+}
+
+/**
+ * Single difference between two configurations
+ */
+export interface ConfigChange {
+  /** Kind of difference */
+  kind: 'added' | 'removed' | 'changed';
+  /** What changed, e.g. "relay" or "relay.env.ANTHROPIC_MODEL" */
+  path: string;
+  /** Value before the change, secrets masked */
+  before?: string;
+  /** Value after the change, secrets masked */
+  after?: string;
+}
+
+/**
+ * Token counts read from Claude Code transcripts
+ */
+export interface TokenUsage {
+  /** Uncached input tokens */
+  input: number;
+  /** Output tokens */
+  output: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreation: number;
+  /** Input tokens read from the prompt cache */
+  cacheRead: number;
+}
+
+/**
+ * One Claude Code run launched by auo
+ */
+export interface SessionRecord {
+  /** Unique session id */
+  id: string;
+  /** Provider configuration name */
+  provider: string;
+  /** Model requested for the session (if any) */
+  model?: string;
+  /** Working directory Claude Code ran in */
+  cwd: string;
+  /** Start time (ISO 8601) */
+  startedAt: string;
+  /** End time (ISO 8601), missing while running or when auo was killed */
+  endedAt?: string;
+  /** Claude Code exit code */
+  exitCode?: number;
+  /** Tokens used, when found in Claude Code transcripts */
+  tokens?: TokenUsage;
+}
+
+/**
+ * How `auo stats` groups sessions
+ */
+export type UsageGroupBy = 'provider' | 'day' | 'project';
+
+/**
+ * Aggregated usage of a group of sessions
+ */
+export interface UsageSummary {
+  /** Provider name, local day (YYYY-MM-DD) or project directory */
+  key: string;
+  /** Number of sessions */
+  sessions: number;
+  /** Sessions that exited with a non-zero code */
+  failed: number;
+  /** Total duration of finished sessions */
+  durationMs: number;
+  /** Token totals, when any session has them */
+  tokens?: TokenUsage;
+}
+
 /**
  * Configuration migration result
  */
@@ -124,7 +555,22 @@ export interface MigrationResult {
 /**
  * Current configuration version
  */
-export const CURRENT_CONFIG_VERSION = 'v2' as const;
+export const CURRENT_CONFIG_VERSION = 'v3' as const;
+
+/**
+ * All provider protocols
+ */
+export const PROVIDER_PROTOCOLS: ProviderProtocol[] = ['anthropic', 'openai'];
+
+/**
+ * Pattern for valid environment variable names
+ */
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Pattern for valid group and tag names
+ */
+const LABEL_PATTERN = /^[\w.-]+$/;
 
 /**
  * Type guard to check if config file is v2
@@ -133,6 +579,34 @@ export function isConfigFileV2(config: ConfigFile): config is ConfigFileV2 {
   return 'version' in config && config.version === 'v2';
 }
 
+/**
+ * Type guard to check if config file is v3
+ */
+export function isConfigFileV3(config: ConfigFile): config is ConfigFileV3 {
+  return 'version' in config && config.version === 'v3';
+}
+
+/**
+ * Check if a string is a valid environment variable name
+ */
+export function isValidEnvName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+/**
+ * Check if a value names a provider protocol
+ */
+export function isProviderProtocol(value: unknown): value is ProviderProtocol {
+  return (PROVIDER_PROTOCOLS as unknown[]).includes(value);
+}
+
+/**
+ * Check if a string is a valid group or tag name
+ */
+export function isValidLabel(name: string): boolean {
+  return LABEL_PATTERN.test(name);
+}
+
 /**
  * Type guard to check if config item is v2
  */
@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { SessionRecord, TokenUsage, UsageGroupBy, UsageSummary } from './types';
+
+/**
+ * Line of the session log: a start record, or the end of a started session
+ */
+type SessionLogEntry =
+  | ({ event: 'start' } & SessionRecord)
+  | ({ event: 'end' } & Pick<SessionRecord, 'id' | 'endedAt' | 'exitCode' | 'tokens'>);
+
+/**
+ * Append-only log of Claude Code sessions launched by auo
+ * Start and end are separate lines, so concurrent runs never rewrite each other's entries
+ */
+export class UsageLog {
+  private readonly logFile: string;
+
+  constructor(configDir: string, logFileName = 'sessions.jsonl') {
+    this.logFile = path.join(configDir, logFileName);
+  }
+
+  /**
+   * Get session log path
+   */
+  getLogPath(): string {
+    return this.logFile;
+  }
+
+  /**
+   * Record the start of a session
+   */
+  start(session: Pick<SessionRecord, 'provider' | 'model' | 'cwd'>): SessionRecord {
+    const record: SessionRecord = {
+      id: crypto.randomUUID(),
+      ...session,
+      startedAt: new Date().toISOString(),
+    };
+    this.append({ event: 'start', ...record });
+    return record;
+  }
+
+  /**
+   * Record the end of a session
+   */
+  finish(session: SessionRecord, exitCode: number, tokens?: TokenUsage | null): SessionRecord {
+    const endedAt = new Date().toISOString();
+    this.append({ event: 'end', id: session.id, endedAt, exitCode, ...(tokens ? { tokens } : {}) });
+    return { ...session, endedAt, exitCode, ...(tokens ? { tokens } : {}) };
+  }
+
+  /**
+   * Read all sessions in start order, skipping damaged lines
+   */
+  read(): SessionRecord[] {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.logFile, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const sessions = new Map<string, SessionRecord>();
+    for (const line of data.split('\n')) {
+      let entry: SessionLogEntry;
+      try {
+        entry = JSON.parse(line) as SessionLogEntry;
+      } catch {
+        continue;
+      }
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+
+      if (entry.event === 'start' && typeof entry.provider === 'string') {
+        const { event: _event, ...record } = entry;
+        sessions.set(record.id, record);
+      } else if (entry.event === 'end') {
+        const session = sessions.get(entry.id);
+        if (session) {
+          const { event: _event, ...end } = entry;
+          Object.assign(session, end);
+        }
+      }
+    }
+
+    return [...sessions.values()];
+  }
+
+  /**
+   * Append an entry; logging is best-effort and never stops Claude Code from running
+   */
+  private append(entry: SessionLogEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.logFile), { recursive: true });
+      fs.appendFileSync(this.logFile, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    } catch (error) {
+      console.warn('⚠️ Failed to write session log:', error);
+    }
+  }
+}
+
+/**
+ * Get the directory where Claude Code keeps transcripts of sessions run in a directory
+ */
+export function getTranscriptDir(claudeConfigDir: string, cwd: string): string {
+  return path.join(claudeConfigDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+/**
+ * Sum token usage of assistant messages written to transcripts between two times
+ * Returns null when no usage was found
+ */
+export function readTranscriptUsage(
+  transcriptDir: string,
+  from: Date,
+  to: Date
+): TokenUsage | null {
+  let files: string[];
+  try {
+    files = fs.readdirSync(transcriptDir).filter((file) => file.endsWith('.jsonl'));
+  } catch {
+    return null;
+  }
+
+  const usage: TokenUsage = { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+  // A message is written once per content block, each time with the same usage
+  const seen = new Set<string>();
+  let found = false;
+
+  for (const file of files) {
+    const filePath = path.join(transcriptDir, file);
+    let data: string;
+    try {
+      if (fs.statSync(filePath).mtimeMs < from.getTime()) {
+        continue;
+      }
+      data = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      continue;
+    }
+
+    for (const line of data.split('\n')) {
+      let entry: {
+        timestamp?: string;
+        message?: { id?: string; usage?: Record<string, number | undefined> };
+      } | null;
+      try {
+        entry = JSON.parse(line) as typeof entry;
+      } catch {
+        continue;
+      }
+
+      const time = entry?.timestamp ? Date.parse(entry.timestamp) : NaN;
+      const messageUsage = entry?.message?.usage;
+      if (!messageUsage || !(time >= from.getTime() && time <= to.getTime())) {
+        continue;
+      }
+
+      const messageId = entry?.message?.id;
+      if (messageId) {
+        if (seen.has(messageId)) {
+          continue;
+        }
+        seen.add(messageId);
+      }
+
+      found = true;
+      usage.input += messageUsage.input_tokens || 0;
+      usage.output += messageUsage.output_tokens || 0;
+      usage.cacheCreation += messageUsage.cache_creation_input_tokens || 0;
+      usage.cacheRead += messageUsage.cache_read_input_tokens || 0;
+    }
+  }
+
+  return found ? usage : null;
+}
+
+/**
+ * Get the grouping key of a session
+ */
+function groupKey(session: SessionRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'provider':
+      return session.provider;
+    case 'project':
+      return session.cwd;
+    case 'day': {
+      const date = new Date(session.startedAt);
+      const pad = (value: number): string => String(value).padStart(2, '0');
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+  }
+}
+
+/**
+ * Aggregate sessions by provider, local day or project
+ * Days are sorted chronologically, other groups by number of sessions
+ */
+export function summarizeSessions(
+  sessions: SessionRecord[],
+  groupBy: UsageGroupBy
+): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+
+  for (const session of sessions) {
+    const key = groupKey(session, groupBy);
+    const summary = groups.get(key) || { key, sessions: 0, failed: 0, durationMs: 0 };
+    groups.set(key, summary);
+
+    summary.sessions++;
+    if (session.exitCode !== undefined && session.exitCode !== 0) {
+      summary.failed++;
+    }
+    if (session.endedAt) {
+      summary.durationMs += Math.max(
+        0,
+        Date.parse(session.endedAt) - Date.parse(session.startedAt)
+      );
+    }
+    if (session.tokens) {
+      const tokens = summary.tokens || { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+      tokens.input += session.tokens.input;
+      tokens.output += session.tokens.output;
+      tokens.cacheCreation += session.tokens.cacheCreation;
+      tokens.cacheRead += session.tokens.cacheRead;
+      summary.tokens = tokens;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    groupBy === 'day' ? a.key.localeCompare(b.key) : b.sessions - a.sessions
+  );
+}
@@ -0,0 +1,4 @@
+// Local proxy module entry point
+export * from './log';
+export * from './server';
+export * from './openai';
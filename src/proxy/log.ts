@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import type { ProxyLogEntry, ProxyTranscript } from '../types';
+
+/**
+ * Directory under the auo config directory where the proxy writes its logs
+ */
+export const PROXY_LOG_DIR = 'logs';
+
+/**
+ * Append-only log of requests forwarded by the local proxy, with optional transcripts
+ */
+export class ProxyLog {
+  private readonly logDir: string;
+  private readonly logFile: string;
+
+  constructor(configDir: string, logFileName = 'proxy.jsonl') {
+    this.logDir = path.join(configDir, PROXY_LOG_DIR);
+    this.logFile = path.join(this.logDir, logFileName);
+  }
+
+  /**
+   * Get request log path
+   */
+  getLogPath(): string {
+    return this.logFile;
+  }
+
+  /**
+   * Get the path of a request's transcript
+   */
+  getTranscriptPath(id: string): string {
+    return path.join(this.logDir, 'transcripts', `${id}.json`);
+  }
+
+  /**
+   * Record a forwarded request
+   */
+  record(entry: ProxyLogEntry): void {
+    this.write(() => {
+      fs.mkdirSync(this.logDir, { recursive: true });
+      fs.appendFileSync(this.logFile, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    });
+  }
+
+  /**
+   * Save the transcript of a request, returning whether it was written
+   */
+  saveTranscript(transcript: ProxyTranscript): boolean {
+    return this.write(() => {
+      const file = this.getTranscriptPath(transcript.id);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(transcript, null, 2), { mode: 0o600 });
+    });
+  }
+
+  /**
+   * Read all entries in request order, skipping damaged lines
+   */
+  read(): ProxyLogEntry[] {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.logFile, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const entries: ProxyLogEntry[] = [];
+    for (const line of data.split('\n')) {
+      try {
+        const entry = JSON.parse(line) as ProxyLogEntry;
+        if (entry && typeof entry.id === 'string') {
+          entries.push(entry);
+        }
+      } catch {
+        continue;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Read the transcript of a request, or null when none was saved
+   */
+  readTranscript(id: string): ProxyTranscript | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.getTranscriptPath(id), 'utf8')) as ProxyTranscript;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Run a write; logging is best-effort and never breaks a request
+   * Failures stay silent, printing would garble Claude Code's terminal UI
+   */
+  private write(action: () => void): boolean {
+    try {
+      action();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
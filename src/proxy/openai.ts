@@ -0,0 +1,667 @@
+import crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import type { EnvironmentVariables } from '../types';
+
+/**
+ * Path of the chat completions endpoint, relative to an OpenAI-compatible base URL
+ */
+export const OPENAI_CHAT_PATH = '/chat/completions';
+
+/**
+ * Content block of a Messages API request or response
+ */
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  source?: { type: string; media_type?: string; data?: string; url?: string };
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicBlock[];
+  is_error?: boolean;
+}
+
+/**
+ * Messages API request, limited to the fields that are translated
+ */
+interface AnthropicRequest {
+  model?: string;
+  system?: string | AnthropicBlock[];
+  messages?: Array<{ role: string; content: string | AnthropicBlock[] }>;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: Array<{ name: string; description?: string; input_schema?: unknown }>;
+  tool_choice?: { type: string; name?: string; disable_parallel_tool_use?: boolean };
+}
+
+/**
+ * Tool call of a chat completions message or stream delta
+ */
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Chat completions message
+ */
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | Array<Record<string, unknown>>;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Chat completions usage counters
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+/**
+ * Chat completions response, or one chunk of a streamed one
+ */
+interface OpenAICompletion {
+  id?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    delta?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * Turns an upstream response body into what Claude Code expects, chunk by chunk
+ */
+export interface ResponseTranslator {
+  /** Content type of the translated body */
+  contentType: string;
+  /** Status to send instead of the upstream's, set once the body was translated */
+  status?: number;
+  /** Translate a chunk, returning the text to send so far */
+  write(chunk: Buffer): string;
+  /** Flush the rest once the upstream response ended */
+  end(): string;
+}
+
+/**
+ * Build the bearer authentication chat completions servers expect, from the provider's token
+ * or API key
+ */
+export function buildOpenAIAuthHeaders(env: EnvironmentVariables): Record<string, string> {
+  const key = env.ANTHROPIC_AUTH_TOKEN || env.ANTHROPIC_API_KEY;
+  return key ? { authorization: `Bearer ${key}` } : {};
+}
+
+/**
+ * Check whether a request goes to the Messages API, the only endpoint that is translated
+ */
+export function isMessagesRequest(method: string | undefined, requestPath: string): boolean {
+  return method === 'POST' && requestPath.split('?')[0]?.replace(/\/+$/, '') === '/v1/messages';
+}
+
+/**
+ * Check whether a value is a JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether content is a string or a list of typed blocks
+ */
+function isContent(value: unknown): boolean {
+  return (
+    typeof value === 'string' ||
+    (Array.isArray(value) &&
+      value.every(
+        (block) =>
+          isObject(block) &&
+          typeof block.type === 'string' &&
+          (block.content === undefined || isContent(block.content))
+      ))
+  );
+}
+
+/**
+ * Check the shape of a Messages API request before translating it
+ * @returns The first problem found, or null when the request can be translated
+ */
+export function validateMessagesRequest(body: unknown): string | null {
+  if (!isObject(body)) {
+    return 'request body must be a JSON object';
+  }
+  if (!Array.isArray(body.messages)) {
+    return '"messages" must be an array';
+  }
+  const invalid = body.messages.findIndex(
+    (message) =>
+      !isObject(message) || typeof message.role !== 'string' || !isContent(message.content)
+  );
+  if (invalid !== -1) {
+    return `"messages.${invalid}" must have a role and string or block content`;
+  }
+  if (body.system !== undefined && !isContent(body.system)) {
+    return '"system" must be a string or an array of blocks';
+  }
+  if (
+    body.tools !== undefined &&
+    (!Array.isArray(body.tools) ||
+      !body.tools.every((tool) => isObject(tool) && typeof tool.name === 'string'))
+  ) {
+    return '"tools" must be an array of named tools';
+  }
+  if (
+    body.tool_choice !== undefined &&
+    (!isObject(body.tool_choice) || typeof body.tool_choice.type !== 'string')
+  ) {
+    return '"tool_choice" must be an object with a type';
+  }
+  if (
+    body.stop_sequences !== undefined &&
+    (!Array.isArray(body.stop_sequences) ||
+      !body.stop_sequences.every((stop) => typeof stop === 'string'))
+  ) {
+    return '"stop_sequences" must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Join the text of content blocks, noting the ones that can't be sent as text
+ */
+function blocksToText(content: string | AnthropicBlock[] | undefined): string {
+  if (typeof content === 'string' || content === undefined) {
+    return content || '';
+  }
+  return content
+    .map((block) => (block.type === 'text' ? block.text || '' : `[${block.type} omitted]`))
+    .join('\n');
+}
+
+/**
+ * Convert an image block to a chat completions content part
+ */
+function imagePart(block: AnthropicBlock): Record<string, unknown> {
+  const url =
+    block.source?.type === 'base64'
+      ? `data:${block.source.media_type};base64,${block.source.data}`
+      : block.source?.url;
+  return { type: 'image_url', image_url: { url } };
+}
+
+/**
+ * Prefix of a tool message whose tool failed, as tool messages have no error flag
+ */
+const TOOL_ERROR_PREFIX = 'Error: ';
+
+/**
+ * Convert a user message; tool results become tool messages, which must follow the assistant
+ * message that called them, so they come first
+ */
+function translateUserMessage(content: string | AnthropicBlock[]): OpenAIMessage[] {
+  if (typeof content === 'string') {
+    return [{ role: 'user', content }];
+  }
+
+  const messages: OpenAIMessage[] = content
+    .filter((block) => block.type === 'tool_result')
+    .map((block) => ({
+      role: 'tool',
+      tool_call_id: block.tool_use_id || '',
+      content: (block.is_error ? TOOL_ERROR_PREFIX : '') + blocksToText(block.content),
+    }));
+
+  const parts = content
+    .filter((block) => block.type === 'text' || block.type === 'image')
+    .map((block) =>
+      block.type === 'image' ? imagePart(block) : { type: 'text', text: block.text || '' }
+    );
+  if (parts.length > 0) {
+    // Plain strings are understood by every OpenAI-compatible server, content parts are not
+    const textOnly = parts.every((part) => part.type === 'text');
+    messages.push({
+      role: 'user',
+      content: textOnly ? parts.map((part) => part.text as string).join('\n') : parts,
+    });
+  }
+  return messages;
+}
+
+/**
+ * Convert an assistant message; thinking blocks are dropped
+ */
+function translateAssistantMessage(content: string | AnthropicBlock[]): OpenAIMessage {
+  if (typeof content === 'string') {
+    return { role: 'assistant', content };
+  }
+
+  const text = content
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text || '')
+    .join('');
+  const toolCalls: OpenAIToolCall[] = content
+    .filter((block) => block.type === 'tool_use')
+    .map((block) => ({
+      id: block.id || '',
+      type: 'function',
+      function: { name: block.name || '', arguments: JSON.stringify(block.input ?? {}) },
+    }));
+  return {
+    role: 'assistant',
+    content: text || (toolCalls.length > 0 ? null : ''),
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+/**
+ * Convert a Messages API tool choice
+ */
+function translateToolChoice(choice: NonNullable<AnthropicRequest['tool_choice']>): unknown {
+  switch (choice.type) {
+    case 'any':
+      return 'required';
+    case 'tool':
+      return { type: 'function', function: { name: choice.name } };
+    case 'none':
+      return 'none';
+    default:
+      return 'auto';
+  }
+}
+
+/**
+ * Convert a Messages API request to a chat completions request
+ * The request must have passed validateMessagesRequest
+ * Streamed requests ask for usage in the last chunk, so token counts stay available
+ */
+export function toOpenAIRequest(body: Record<string, unknown>): Record<string, unknown> {
+  const request = body as AnthropicRequest;
+  const messages: OpenAIMessage[] = [];
+  const system = blocksToText(request.system);
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  for (const message of request.messages || []) {
+    if (message.role === 'assistant') {
+      messages.push(translateAssistantMessage(message.content));
+    } else {
+      messages.push(...translateUserMessage(message.content));
+    }
+  }
+
+  // Server tools (web search and the like) have no schema and can't run elsewhere
+  const tools = (request.tools || [])
+    .filter((tool) => tool.input_schema !== undefined)
+    .map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        ...(tool.description !== undefined ? { description: tool.description } : {}),
+        parameters: tool.input_schema,
+      },
+    }));
+
+  return {
+    model: request.model,
+    messages,
+    ...(request.max_tokens !== undefined ? { max_tokens: request.max_tokens } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.top_p !== undefined ? { top_p: request.top_p } : {}),
+    ...(request.stop_sequences?.length ? { stop: request.stop_sequences } : {}),
+    ...(tools.length > 0 ? { tools } : {}),
+    ...(tools.length > 0 && request.tool_choice
+      ? { tool_choice: translateToolChoice(request.tool_choice) }
+      : {}),
+    ...(request.tool_choice?.disable_parallel_tool_use ? { parallel_tool_calls: false } : {}),
+    ...(request.stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  };
+}
+
+/**
+ * Map a chat completions finish reason to a Messages API stop reason
+ */
+function translateStopReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case 'length':
+      return 'max_tokens';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'content_filter':
+      return 'refusal';
+    default:
+      return 'end_turn';
+  }
+}
+
+/**
+ * Convert chat completions usage to Messages API usage
+ */
+function translateUsage(usage: OpenAIUsage | null | undefined): Record<string, number> {
+  const cached = usage?.prompt_tokens_details?.cached_tokens || 0;
+  return {
+    input_tokens: (usage?.prompt_tokens || 0) - cached,
+    output_tokens: usage?.completion_tokens || 0,
+    ...(cached > 0 ? { cache_read_input_tokens: cached } : {}),
+  };
+}
+
+/**
+ * Parse the JSON arguments of a tool call; arguments that aren't an object are kept as a string
+ */
+function parseToolArguments(text: string | undefined): unknown {
+  try {
+    const input = JSON.parse(text || '{}') as unknown;
+    return input && typeof input === 'object' ? input : { arguments: text };
+  } catch {
+    return { arguments: text };
+  }
+}
+
+/**
+ * Convert a chat completions response to a Messages API message
+ */
+export function toAnthropicMessage(
+  completion: OpenAICompletion,
+  model: string
+): Record<string, unknown> {
+  const choice = completion.choices?.[0];
+  const content: AnthropicBlock[] = [];
+  if (choice?.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+  for (const call of choice?.message?.tool_calls || []) {
+    content.push({
+      type: 'tool_use',
+      id: call.id || `toolu_${crypto.randomUUID()}`,
+      name: call.function?.name || '',
+      input: parseToolArguments(call.function?.arguments),
+    });
+  }
+
+  return {
+    id: completion.id || `msg_${crypto.randomUUID()}`,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: translateStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: translateUsage(completion.usage),
+  };
+}
+
+/**
+ * Map an HTTP status to a Messages API error type
+ */
+function errorType(status: number): string {
+  switch (status) {
+    case 400:
+      return 'invalid_request_error';
+    case 401:
+      return 'authentication_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 413:
+      return 'request_too_large';
+    case 429:
+      return 'rate_limit_error';
+    case 529:
+      return 'overloaded_error';
+    default:
+      return 'api_error';
+  }
+}
+
+/**
+ * Convert an error body of any shape to a Messages API error, keeping the upstream message
+ */
+export function toAnthropicError(status: number, body: string): Record<string, unknown> {
+  let message = body.trim() || `HTTP ${status}`;
+  try {
+    const parsed = JSON.parse(body) as {
+      error?: { message?: unknown } | string;
+      message?: unknown;
+    };
+    const found =
+      typeof parsed.error === 'string' ? parsed.error : (parsed.error?.message ?? parsed.message);
+    if (typeof found === 'string') {
+      message = found;
+    }
+  } catch {
+    // Not JSON, the body itself is the message
+  }
+  return { type: 'error', error: { type: errorType(status), message } };
+}
+
+/**
+ * Format one server-sent event
+ */
+function formatEvent(data: Record<string, unknown>): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Translate a streamed chat completion into Messages API events
+ * Text and each tool call become their own content block; a block is closed when the next starts
+ */
+class StreamTranslator implements ResponseTranslator {
+  readonly contentType = 'text/event-stream';
+  private buffer = '';
+  /** Keeps characters split across chunks whole */
+  private readonly decoder = new StringDecoder('utf8');
+  private started = false;
+  private finished = false;
+  private blockIndex = -1;
+  /** Tool call index of the open block, 'text' for text, null when none is open */
+  private openBlock: number | 'text' | null = null;
+  private stopReason: string | null = null;
+  private usage: OpenAIUsage | null = null;
+
+  constructor(private readonly model: string) {}
+
+  write(chunk: Buffer): string {
+    this.buffer += this.decoder.write(chunk);
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+    return lines.map((line) => this.translateLine(line.trim())).join('');
+  }
+
+  end(): string {
+    this.buffer += this.decoder.end();
+    return this.translateLine(this.buffer.trim()) + this.finish();
+  }
+
+  private translateLine(line: string): string {
+    if (!line.startsWith('data:')) {
+      return '';
+    }
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      return this.finish();
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return '';
+    }
+    if (!isObject(parsed)) {
+      return '';
+    }
+    const chunk = parsed as OpenAICompletion;
+
+    let events = this.start(chunk.id);
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+    const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+    if (typeof choice?.delta?.content === 'string' && choice.delta.content) {
+      if (this.openBlock !== 'text') {
+        events += this.openNext('text', { type: 'text', text: '' });
+      }
+      events += formatEvent({
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'text_delta', text: choice.delta.content },
+      });
+    }
+    const calls = choice?.delta?.tool_calls;
+    for (const call of Array.isArray(calls) ? calls : []) {
+      const index = call.index ?? 0;
+      if (this.openBlock !== index) {
+        events += this.openNext(index, {
+          type: 'tool_use',
+          id: call.id || `toolu_${crypto.randomUUID()}`,
+          name: call.function?.name || '',
+          input: {},
+        });
+      }
+      if (call.function?.arguments) {
+        events += formatEvent({
+          type: 'content_block_delta',
+          index: this.blockIndex,
+          delta: { type: 'input_json_delta', partial_json: call.function.arguments },
+        });
+      }
+    }
+    if (choice?.finish_reason) {
+      this.stopReason = translateStopReason(choice.finish_reason);
+    }
+    return events;
+  }
+
+  private start(id: string | undefined): string {
+    if (this.started) {
+      return '';
+    }
+    this.started = true;
+    return formatEvent({
+      type: 'message_start',
+      message: {
+        id: id || `msg_${crypto.randomUUID()}`,
+        type: 'message',
+        role: 'assistant',
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  private openNext(block: number | 'text', contentBlock: AnthropicBlock): string {
+    const closed = this.closeBlock();
+    this.openBlock = block;
+    this.blockIndex++;
+    return (
+      closed +
+      formatEvent({
+        type: 'content_block_start',
+        index: this.blockIndex,
+        content_block: contentBlock as unknown as Record<string, unknown>,
+      })
+    );
+  }
+
+  private closeBlock(): string {
+    if (this.openBlock === null) {
+      return '';
+    }
+    this.openBlock = null;
+    return formatEvent({ type: 'content_block_stop', index: this.blockIndex });
+  }
+
+  // Usage arrives in a chunk after the finish reason, so the message ends with [DONE]
+  private finish(): string {
+    if (this.finished) {
+      return '';
+    }
+    this.finished = true;
+    return (
+      this.start(undefined) +
+      this.closeBlock() +
+      formatEvent({
+        type: 'message_delta',
+        delta: { stop_reason: this.stopReason || 'end_turn', stop_sequence: null },
+        usage: translateUsage(this.usage),
+      }) +
+      formatEvent({ type: 'message_stop' })
+    );
+  }
+}
+
+/**
+ * Collect a whole body and translate it once the upstream response ended
+ */
+class BodyTranslator implements ResponseTranslator {
+  readonly contentType = 'application/json';
+  status?: number;
+  private readonly chunks: Buffer[] = [];
+
+  constructor(private readonly translate: (body: string) => Record<string, unknown>) {}
+
+  write(chunk: Buffer): string {
+    this.chunks.push(chunk);
+    return '';
+  }
+
+  /**
+   * A body that cannot be translated becomes a 502 error, never a successful response
+   */
+  end(): string {
+    try {
+      return JSON.stringify(this.translate(Buffer.concat(this.chunks).toString('utf8')));
+    } catch (error) {
+      this.status = 502;
+      return JSON.stringify(
+        toAnthropicError(502, error instanceof Error ? error.message : String(error))
+      );
+    }
+  }
+}
+
+/**
+ * Create the translator of a chat completions response
+ * @param stream Whether the upstream answered with server-sent events
+ * @param model Model name reported back to Claude Code
+ */
+export function createResponseTranslator(
+  status: number,
+  stream: boolean,
+  model: string
+): ResponseTranslator {
+  if (status >= 400) {
+    return new BodyTranslator((body) => toAnthropicError(status, body));
+  }
+  if (stream) {
+    return new StreamTranslator(model);
+  }
+  return new BodyTranslator((body) => {
+    let completion: OpenAICompletion | undefined;
+    try {
+      completion = JSON.parse(body) as OpenAICompletion;
+    } catch {
+      // Reported below
+    }
+    if (!Array.isArray(completion?.choices)) {
+      throw new Error(`Invalid chat completions response: ${body.slice(0, 200)}`);
+    }
+    return toAnthropicMessage(completion, model);
+  });
+}
@@ -0,0 +1,708 @@
+import http from 'http';
+import https from 'https';
+import crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import type { AddressInfo } from 'net';
+import { mapModel } from '../config/models';
+import { isSecretKey, maskSecret } from '../config/secrets';
+import { DEFAULT_BASE_URL, buildAuthHeaders } from '../utils/health';
+import { getProxyRequestOptions } from '../utils/tunnel';
+import { ProxyLog } from './log';
+import {
+  OPENAI_CHAT_PATH,
+  buildOpenAIAuthHeaders,
+  createResponseTranslator,
+  isMessagesRequest,
+  toOpenAIRequest,
+  validateMessagesRequest,
+} from './openai';
+import type { ResponseTranslator } from './openai';
+import type {
+  ProxyAttempt,
+  ProxyLogEntry,
+  ProxyOptions,
+  ProxyTranscript,
+  ProxyUpstream,
+  RunningProxy,
+  TokenUsage,
+} from '../types';
+
+/**
+ * Headers that only concern one connection and are never forwarded
+ */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'transfer-encoding',
+  'upgrade',
+  'te',
+  'trailer',
+  'host',
+];
+
+/**
+ * Headers carrying credentials, replaced by the upstream's own and masked in transcripts
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'x-api-key', 'cookie', 'set-cookie'];
+
+/**
+ * Request header carrying the session token when Claude Code signs in on its own
+ */
+export const PROXY_TOKEN_HEADER = 'x-auo-proxy-token';
+
+/**
+ * Response header telling Claude Code (and curl users) which provider answered
+ */
+const SERVED_BY_HEADER = 'x-auo-provider';
+
+/**
+ * Response headers kept in the request log
+ */
+const LOGGED_HEADER_PATTERN = /ratelimit|retry-after|request-id/i;
+
+/**
+ * Length of the start of an error response kept in the request log
+ */
+const LOGGED_ERROR_LENGTH = 500;
+
+/**
+ * Largest JSON response read for its usage; streams are read event by event instead
+ */
+const MAX_USAGE_BODY_LENGTH = 1024 * 1024;
+
+/**
+ * Build the upstream URL of a request, keeping any path prefix of the base URL
+ */
+function buildUpstreamUrl(upstream: ProxyUpstream, requestPath: string): URL {
+  const base = (upstream.env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  return new URL(`${base}${requestPath}`);
+}
+
+/**
+ * Flatten headers to strings, masking credentials
+ */
+function maskHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) {
+      continue;
+    }
+    const text = Array.isArray(value) ? value.join(', ') : value;
+    masked[name] =
+      CREDENTIAL_HEADERS.includes(name) || isSecretKey(name.replace(/-/g, '_'))
+        ? maskSecret(text)
+        : text;
+  }
+  return masked;
+}
+
+/**
+ * Mask every secret value of the upstreams' env that appears in a body
+ */
+function maskBody(body: string, upstreams: ProxyUpstream[]): string {
+  return upstreams
+    .flatMap((upstream) => Object.entries(upstream.env))
+    .filter(([key, value]) => value && isSecretKey(key))
+    .reduce(
+      (text, [, value]) => text.split(value as string).join(maskSecret(value as string)),
+      body
+    );
+}
+
+/**
+ * Read the model and stream flag of a Messages API request body
+ */
+function describeRequestBody(body: Buffer): Pick<ProxyLogEntry, 'model' | 'stream'> {
+  try {
+    const request = JSON.parse(body.toString('utf8')) as { model?: unknown; stream?: unknown };
+    return {
+      ...(typeof request.model === 'string' ? { model: request.model } : {}),
+      ...(request.stream === true ? { stream: true } : {}),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate the model of a request body with a provider's model map
+ * @returns The body to send, with the new model name when it was renamed
+ */
+export function mapRequestModel(
+  body: Buffer,
+  models: Record<string, string> | undefined
+): { body: Buffer; model?: string } {
+  if (!models || Object.keys(models).length === 0) {
+    return { body };
+  }
+
+  let request: Record<string, unknown>;
+  try {
+    request = JSON.parse(body.toString('utf8')) as Record<string, unknown>;
+  } catch {
+    return { body };
+  }
+  if (!request || typeof request.model !== 'string') {
+    return { body };
+  }
+
+  const model = mapModel(models, request.model);
+  if (model === request.model) {
+    return { body };
+  }
+  return { body: Buffer.from(JSON.stringify({ ...request, model })), model };
+}
+
+/**
+ * Reads token usage from a response body as it arrives
+ */
+interface UsageReader {
+  write(text: string): void;
+  end(): TokenUsage | null;
+}
+
+/**
+ * Create a reader of token usage in a Messages API response, either JSON or server-sent events
+ * Events are read as complete lines arrive, so a stream is never held in memory; later events
+ * carry running totals, so the last value of each counter wins
+ */
+function createUsageReader(stream: boolean): UsageReader {
+  const counters: Record<string, number> = {};
+  let found = false;
+  let pending = '';
+  let oversized = false;
+
+  const collect = (data: string): void => {
+    try {
+      const event = JSON.parse(data) as {
+        usage?: Record<string, unknown>;
+        message?: { usage?: Record<string, unknown> };
+      };
+      const usage = event?.message?.usage || event?.usage;
+      if (usage && typeof usage === 'object') {
+        found = true;
+        for (const [key, value] of Object.entries(usage)) {
+          if (typeof value === 'number') {
+            counters[key] = value;
+          }
+        }
+      }
+    } catch {
+      // Not JSON, e.g. an HTML error page
+    }
+  };
+  const readLine = (line: string): void => {
+    if (line.startsWith('data:')) {
+      collect(line.slice(5));
+    }
+  };
+
+  return {
+    write(text) {
+      if (!stream) {
+        oversized = oversized || pending.length + text.length > MAX_USAGE_BODY_LENGTH;
+        pending = oversized ? '' : pending + text;
+        return;
+      }
+      const lines = (pending + text).split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(readLine);
+    },
+    end() {
+      if (stream) {
+        readLine(pending);
+      } else if (!oversized) {
+        collect(pending);
+      }
+      pending = '';
+
+      if (!found) {
+        return null;
+      }
+      return {
+        input: counters.input_tokens ?? 0,
+        output: counters.output_tokens ?? 0,
+        cacheCreation: counters.cache_creation_input_tokens ?? 0,
+        cacheRead: counters.cache_read_input_tokens ?? 0,
+      };
+    },
+  };
+}
+
+/**
+ * Read token usage from a whole Messages API response, either JSON or server-sent events
+ */
+export function parseResponseUsage(body: string, stream: boolean): TokenUsage | null {
+  const reader = createUsageReader(stream);
+  reader.write(body);
+  return reader.end();
+}
+
+/**
+ * Request as it is sent to one upstream
+ */
+interface UpstreamRequest {
+  path: string;
+  body: Buffer;
+  /** Model name sent, when the upstream's model map renamed it */
+  model?: string;
+}
+
+/**
+ * Prepare a request for an upstream: rename the model and, for OpenAI-compatible providers,
+ * translate it to chat completions
+ * @returns The request to send, or the error to answer with when the upstream can't serve it
+ */
+function prepareUpstreamRequest(
+  upstream: ProxyUpstream,
+  request: http.IncomingMessage,
+  body: Buffer
+): UpstreamRequest | { status: number; message: string } {
+  const requestPath = request.url || '/';
+  const mapped = mapRequestModel(body, upstream.models);
+  if (upstream.protocol !== 'openai') {
+    return { path: requestPath, ...mapped };
+  }
+
+  if (!isMessagesRequest(request.method, requestPath)) {
+    return {
+      status: 404,
+      message: `${requestPath} is not available on OpenAI-compatible provider ${upstream.provider}`,
+    };
+  }
+  let messages: unknown;
+  try {
+    messages = JSON.parse(mapped.body.toString('utf8'));
+  } catch {
+    return { status: 400, message: 'Request body is not valid JSON' };
+  }
+  const problem = validateMessagesRequest(messages);
+  if (problem !== null) {
+    return { status: 400, message: `Invalid Messages API request: ${problem}` };
+  }
+  return {
+    path: OPENAI_CHAT_PATH,
+    body: Buffer.from(JSON.stringify(toOpenAIRequest(messages as Record<string, unknown>))),
+    ...(mapped.model !== undefined ? { model: mapped.model } : {}),
+  };
+}
+
+/**
+ * Send a request to the upstream, resolving with its response once the headers arrive
+ * Credentials of the upstream replace the ones Claude Code sent; compression is turned off so
+ * usage can be read from the response
+ */
+function sendUpstream(
+  upstream: ProxyUpstream,
+  request: http.IncomingMessage,
+  prepared: UpstreamRequest
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const { body } = prepared;
+    const url = buildUpstreamUrl(upstream, prepared.path);
+    const openai = upstream.protocol === 'openai';
+    const headers: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name) && name !== 'accept-encoding') {
+        headers[name] = value;
+      }
+    }
+
+    const credentials = openai
+      ? buildOpenAIAuthHeaders(upstream.env)
+      : buildAuthHeaders(upstream.env);
+    if (Object.keys(credentials).length > 0 || openai) {
+      delete headers.authorization;
+      delete headers['x-api-key'];
+      Object.assign(headers, credentials);
+    }
+    // Anthropic version and beta headers mean nothing to chat completions servers
+    if (openai) {
+      Object.keys(headers)
+        .filter((name) => name.startsWith('anthropic-'))
+        .forEach((name) => delete headers[name]);
+    }
+    if (body.length > 0) {
+      headers['content-length'] = body.length;
+    }
+
+    // Throws on an invalid proxy URL, rejecting like a network error
+    const proxyOptions = getProxyRequestOptions(upstream.env, url);
+    const transport = url.protocol === 'http:' ? http : https;
+    const upstreamRequest = transport.request(
+      url,
+      { ...proxyOptions, method: request.method, headers },
+      resolve
+    );
+    upstreamRequest.on('error', reject);
+    upstreamRequest.end(body);
+  });
+}
+
+/**
+ * Answer with an error in the Messages API format, so Claude Code shows the reason
+ */
+function sendError(response: http.ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify({ type: 'error', error: { type: 'api_error', message } }));
+}
+
+/**
+ * Check whether an upstream status means the next provider should be tried
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Read a whole response body
+ */
+function readBody(response: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    response.on('data', (chunk: Buffer) => chunks.push(chunk));
+    response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    response.on('error', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+}
+
+/**
+ * Index of the upstream that serves requests first, shared by all requests of a proxy
+ */
+interface ProxyState {
+  active: number;
+}
+
+/**
+ * Forward one request, moving on to the next upstream after a connection error, 429 or 5xx
+ * Each upstream receives the model name its model map asks for
+ * The response of the serving upstream is streamed back unchanged; once it has started, the
+ * request is no longer retried. The last upstream's failure is returned as it is
+ */
+async function proxyRequest(
+  request: http.IncomingMessage,
+  body: Buffer,
+  response: http.ServerResponse,
+  options: ProxyOptions,
+  state: ProxyState,
+  log: ProxyLog
+): Promise<void> {
+  const { upstreams } = options;
+  const startedAt = Date.now();
+  const entry: ProxyLogEntry = {
+    id: crypto.randomUUID(),
+    time: new Date(startedAt).toISOString(),
+    provider: (upstreams[state.active] as ProxyUpstream).provider,
+    method: request.method || 'GET',
+    path: request.url || '/',
+    ...describeRequestBody(body),
+    latencyMs: 0,
+  };
+  const transcript: ProxyTranscript | null = options.transcripts
+    ? {
+        id: entry.id,
+        request: {
+          method: entry.method,
+          path: entry.path,
+          headers: maskHeaders(request.headers),
+          body: maskBody(body.toString('utf8'), upstreams),
+        },
+      }
+    : null;
+
+  const attempts: ProxyAttempt[] = [];
+  const finish = (result: Partial<ProxyLogEntry>): void => {
+    const saved = transcript !== null && log.saveTranscript(transcript);
+    log.record({
+      ...entry,
+      ...result,
+      latencyMs: Date.now() - startedAt,
+      ...(attempts.length > 0 ? { attempts } : {}),
+      ...(saved ? { transcript: true } : {}),
+    });
+  };
+
+  // Start with the upstream that served last, then the following ones in order
+  const order = upstreams.map((_, offset) => (state.active + offset) % upstreams.length);
+  for (const [position, index] of order.entries()) {
+    const upstream = upstreams[index] as ProxyUpstream;
+    const last = position === order.length - 1;
+
+    const prepared = prepareUpstreamRequest(upstream, request, body);
+    if ('status' in prepared) {
+      sendError(response, prepared.status, prepared.message);
+      finish({ provider: upstream.provider, status: prepared.status, error: prepared.message });
+      return;
+    }
+    const served = {
+      provider: upstream.provider,
+      ...(prepared.model !== undefined ? { upstreamModel: prepared.model } : {}),
+    };
+
+    let upstreamResponse: http.IncomingMessage;
+    try {
+      upstreamResponse = await sendUpstream(upstream, request, prepared);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!last) {
+        attempts.push({ provider: upstream.provider, error: message });
+        continue;
+      }
+      sendError(response, 502, `auo proxy could not reach ${upstream.provider}: ${message}`);
+      finish({ ...served, error: message });
+      return;
+    }
+
+    const status = upstreamResponse.statusCode ?? 502;
+    if (isRetryableStatus(status) && !last) {
+      const error = await readBody(upstreamResponse);
+      attempts.push({ provider: upstream.provider, status, error: error.slice(0, 200) });
+      continue;
+    }
+
+    if (!isRetryableStatus(status)) {
+      state.active = index;
+    }
+    const translator =
+      upstream.protocol === 'openai'
+        ? createResponseTranslator(status, isEventStream(upstreamResponse), entry.model || '')
+        : undefined;
+    relayResponse(
+      upstreamResponse,
+      upstream,
+      response,
+      translator,
+      transcript !== null,
+      (result) => {
+        if (transcript && result.response) {
+          transcript.response = {
+            ...result.response,
+            body: maskBody(result.response.body, upstreams),
+          };
+        }
+        finish({ ...served, ...result.entry });
+      }
+    );
+    return;
+  }
+}
+
+/**
+ * Check whether a response is a stream of server-sent events
+ */
+function isEventStream(response: http.IncomingMessage): boolean {
+  return String(response.headers['content-type']).includes('text/event-stream');
+}
+
+/**
+ * Stream an upstream response back to Claude Code, then report what it contained
+ * The body is passed through unchanged unless a translator converts it to the Messages API
+ * Only the usage, the start of an error and, for a transcript, the body are kept; a response
+ * cut off by Claude Code going away is reported as aborted
+ */
+function relayResponse(
+  upstreamResponse: http.IncomingMessage,
+  upstream: ProxyUpstream,
+  response: http.ServerResponse,
+  translator: ResponseTranslator | undefined,
+  keepBody: boolean,
+  done: (result: {
+    entry: Partial<ProxyLogEntry>;
+    response?: NonNullable<ProxyTranscript['response']>;
+  }) => void
+): void {
+  let status = upstreamResponse.statusCode ?? 502;
+  const headers: http.OutgoingHttpHeaders = { [SERVED_BY_HEADER]: upstream.provider };
+  const logged: Record<string, string> = {};
+  for (const [name, value] of Object.entries(upstreamResponse.headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.includes(name)) {
+      continue;
+    }
+    headers[name] = value;
+    if (LOGGED_HEADER_PATTERN.test(name)) {
+      logged[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  if (translator) {
+    delete headers['content-length'];
+    headers['content-type'] = translator.contentType;
+  }
+  const stream = translator
+    ? translator.contentType === 'text/event-stream'
+    : isEventStream(upstreamResponse);
+
+  // A translated body can change the status, so a body's head is sent with its first output
+  const start = (): void => {
+    if (!response.headersSent) {
+      status = translator?.status ?? status;
+      response.writeHead(status, headers);
+    }
+  };
+  if (stream) {
+    start();
+  }
+
+  const decoder = new StringDecoder('utf8');
+  const usage = createUsageReader(stream);
+  let excerpt = '';
+  let body = '';
+  const send = (chunk: Buffer): void => {
+    if (chunk.length === 0) {
+      return;
+    }
+    start();
+    response.write(chunk);
+    const text = decoder.write(chunk);
+    usage.write(text);
+    if (status >= 400 && excerpt.length < LOGGED_ERROR_LENGTH) {
+      excerpt = (excerpt + text).slice(0, LOGGED_ERROR_LENGTH);
+    }
+    if (keepBody) {
+      body += text;
+    }
+  };
+
+  let finished = false;
+  const report = (result: Partial<ProxyLogEntry>): void => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    const rest = decoder.end();
+    usage.write(rest);
+    const tokens = usage.end();
+    done({
+      entry: {
+        status,
+        ...(stream ? { stream: true } : {}),
+        ...(tokens ? { tokens } : {}),
+        ...(Object.keys(logged).length > 0 ? { headers: logged } : {}),
+        ...(status >= 400 && excerpt ? { error: excerpt } : {}),
+        ...result,
+      },
+      ...(keepBody
+        ? {
+            response: {
+              status,
+              headers: maskHeaders(upstreamResponse.headers),
+              body: body + rest,
+            },
+          }
+        : {}),
+    });
+  };
+
+  upstreamResponse.on('data', (chunk: Buffer) => {
+    send(translator ? Buffer.from(translator.write(chunk)) : chunk);
+  });
+
+  // Claude Code went away (e.g. the user interrupted), stop reading the upstream
+  response.on('close', () => {
+    if (!response.writableFinished) {
+      upstreamResponse.destroy();
+      report({ aborted: true });
+    }
+  });
+
+  upstreamResponse.on('end', () => {
+    if (translator) {
+      send(Buffer.from(translator.end()));
+    }
+    start();
+    response.end();
+    report({});
+  });
+
+  upstreamResponse.on('error', (error) => {
+    response.destroy();
+    report({ error: error.message });
+  });
+}
+
+/**
+ * Compare a value with the session token in constant time
+ */
+function isSessionToken(value: string | string[] | undefined, token: string): boolean {
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(typeof value === 'string' ? value : '');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check that a request carries the session token, as its own header, API key or bearer token
+ * The token is removed from the request, so it is never forwarded or logged
+ */
+function takeSessionToken(request: http.IncomingMessage, token: string): boolean {
+  const { headers } = request;
+  const bearer = headers.authorization?.replace(/^Bearer /i, '');
+  const carriers = {
+    [PROXY_TOKEN_HEADER]: headers[PROXY_TOKEN_HEADER],
+    'x-api-key': headers['x-api-key'],
+    authorization: bearer,
+  };
+
+  let found = false;
+  for (const [name, value] of Object.entries(carriers)) {
+    if (isSessionToken(value, token)) {
+      found = true;
+      delete headers[name];
+    }
+  }
+  delete headers[PROXY_TOKEN_HEADER];
+  return found;
+}
+
+/**
+ * Start the local proxy on 127.0.0.1, forwarding every request to the first upstream that
+ * answers and logging it
+ * Only requests carrying the returned session token are served, so other local processes
+ * can't use the provider credentials the proxy adds
+ */
+export function startProxy(options: ProxyOptions, log: ProxyLog): Promise<RunningProxy> {
+  if (options.upstreams.length === 0) {
+    return Promise.reject(new Error('The proxy needs at least one upstream provider'));
+  }
+
+  const state: ProxyState = { active: 0 };
+  const token = `auo-${crypto.randomBytes(24).toString('hex')}`;
+  const server = http.createServer((request, response) => {
+    if (!takeSessionToken(request, token)) {
+      request.resume();
+      sendError(response, 401, 'Missing or wrong auo proxy token');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      proxyRequest(request, Buffer.concat(chunks), response, options, state, log).catch(
+        (error: unknown) => {
+          // A failure of the proxy itself must not end the session
+          const message = error instanceof Error ? error.message : String(error);
+          if (response.headersSent) {
+            response.destroy();
+          } else {
+            sendError(response, 502, `auo proxy failed: ${message}`);
+          }
+        }
+      );
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        token,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -1,3 +1,5 @@
+import type { ProviderProtocol, TokenUsage } from '../config/types';
+
 /**
  * Claude Code check result
  */
@@ -25,6 +27,42 @@ export interface InstallOptions {
 // Re-export all config-related types
 export type * from '../config/types';
 
+/**
+ * Provider fields given as flags to a scripted --add / --edit
+ */
+export interface ProviderFieldOptions {
+  /** Configuration name (--name) */
+  name?: string;
+  /** Configuration description (--description) */
+  description?: string;
+  /** ANTHROPIC_BASE_URL (--base-url) */
+  baseUrl?: string;
+  /** ANTHROPIC_AUTH_TOKEN (--token) */
+  token?: string;
+  /** ANTHROPIC_MODEL (--model) */
+  model?: string;
+  /** Extra variables (--env KEY=VALUE) */
+  env?: Record<string, string>;
+  /** Variables to remove when editing (--unset-env KEY) */
+  unsetEnv?: string[];
+  /** Tags to add (--tag) */
+  tags?: string[];
+  /** Tags to remove when editing (--untag) */
+  untags?: string[];
+  /** Configuration to inherit from, empty to stop inheriting (--extends) */
+  extends?: string;
+  /** Model names to translate (--model-map FROM=TO) */
+  models?: Record<string, string>;
+  /** Model mappings to remove when editing (--unset-model-map FROM) */
+  unsetModels?: string[];
+  /** API the provider speaks (--protocol) */
+  protocol?: ProviderProtocol;
+  /** Read the token from the first line of stdin (--token-stdin) */
+  tokenStdin?: boolean;
+  /** Read a provider JSON document from stdin (--json-stdin) */
+  jsonStdin?: boolean;
+}
+
 /**
  * CLI command options
  */
@@ -35,16 +73,44 @@ export interface CLIOptions {
   version?: boolean;
   /** Use configuration at specified index */
   useIndex?: number;
+  /** Use configuration matching specified name */
+  useName?: string;
   /** Remove configuration at specified index */
   removeIndex?: number;
+  /** Remove configuration matching specified name */
+  removeName?: string;
   /** Edit configuration at specified index */
   editIndex?: number;
+  /** Edit configuration matching specified name */
+  editName?: string;
   /** List all configurations */
   listConfigs?: boolean;
+  /** Only list configurations with this tag */
+  listTag?: string;
+  /** Print the list as JSON */
+  json?: boolean;
   /** Show configuration file path */
   configPath?: boolean;
   /** Add new configuration */
   addConfig?: boolean;
+  /** Force failover checks on (true) or off (false) for this run */
+  failover?: boolean;
+  /** Provider used for this run only, without changing the saved selection */
+  provider?: string;
+  /** Arguments forwarded to Claude Code */
+  claudeArgs?: string[];
+  /** Provider fields for a non-interactive --add / --edit */
+  providerFields?: ProviderFieldOptions;
+  /** Why the arguments couldn't be parsed */
+  error?: string;
+  /** Subcommand name (e.g. "env") */
+  command?: string;
+  /** Arguments following the subcommand */
+  commandArgs?: string[];
+  /** Route Claude Code through the local recording proxy (--proxy) */
+  proxy?: boolean;
+  /** Also save masked request and response transcripts (--proxy-transcripts) */
+  proxyTranscripts?: boolean;
 }
 
 /**
@@ -60,6 +126,85 @@ export interface EnvironmentVariables {
   [key: string]: string | undefined;
 }
 
+/**
+ * Provider probe options
+ */
+export interface ProbeOptions {
+  /** Timeout in milliseconds */
+  timeout?: number;
+  /** Model to request (defaults to ANTHROPIC_MODEL) */
+  model?: string;
+  /** API the provider speaks, decides the endpoint probed (defaults to anthropic) */
+  protocol?: ProviderProtocol;
+}
+
+/**
+ * Result of probing a provider with a minimal messages request
+ */
+export interface ProbeResult {
+  /** Whether an HTTP response was received */
+  reachable: boolean;
+  /** HTTP status code (if reachable) */
+  status?: number;
+  /** Total request latency in milliseconds */
+  latencyMs: number;
+  /** Response body, truncated (if reachable) */
+  body?: string;
+  /** Error message (if unreachable) */
+  error?: string;
+  /** Error code reported by Node.js, e.g. ENOTFOUND (if unreachable) */
+  errorCode?: string;
+  /** Connection phase timings */
+  timings?: ProbeTimings;
+}
+
+/**
+ * Milliseconds from request start until each connection phase completed
+ */
+export interface ProbeTimings {
+  /** DNS lookup finished (absent for IP addresses and reused sockets) */
+  lookup?: number;
+  /** TCP connection established */
+  connect?: number;
+  /** TLS handshake finished (https only) */
+  secureConnect?: number;
+  /** First response byte received */
+  response?: number;
+}
+
+/**
+ * Check outcome: passed, failed, or not determinable / not applicable
+ */
+export type CheckStatus = 'ok' | 'fail' | 'skip';
+
+/**
+ * Health report of a single provider
+ */
+export interface ProviderDiagnosis {
+  /** Provider name */
+  name: string;
+  /** Base URL that was checked */
+  baseUrl: string;
+  /** Model that was requested */
+  model: string;
+  /** DNS resolution */
+  dns: CheckStatus;
+  /** TLS handshake */
+  tls: CheckStatus;
+  /** Total request latency in milliseconds */
+  latencyMs: number;
+  /** HTTP status of the messages request (if any) */
+  status?: number;
+  /** Whether the token was accepted */
+  tokenAccepted: CheckStatus;
+  /** Whether the model is served */
+  modelServed: CheckStatus;
+  /** Whether the provider is usable (same rule as failover) */
+  healthy: boolean;
+  /** Error or failure description (if unhealthy) */
+  error?: string;
+}
+
 /**
  * Command execution result
  */
@@ -73,3 +218,127 @@ export interface CommandResult {
   /** Whether successful */
   success: boolean;
 }
+
+/**
+ * Machine-readable description of a configuration (auo show, auo current, auo --list --json)
+ */
+export interface ProviderSummary {
+  /** Index in the configuration list */
+  index: number;
+  /** Configuration name */
+  name: string;
+  /** Description, inherited when the configuration has none */
+  description: string;
+  /** Tags */
+  tags: string[];
+  /** Groups the configuration belongs to */
+  groups: string[];
+  /** Configurations inherited from, nearest first */
+  extends: string[];
+  /** Whether launches currently use this configuration */
+  current: boolean;
+  /** Resolved variables with secrets masked; references are shown unresolved */
+  env: Record<string, string>;
+  /** Where each variable comes from, e.g. "own", "defaults" or "extends relay" */
+  sources: Record<string, string>;
+  /** Model names translated for this provider, including inherited ones */
+  models: Record<string, string>;
+  /** API the provider speaks */
+  protocol: ProviderProtocol;
+  /** Why the env couldn't be resolved (env and sources are then the configuration's own) */
+  error?: string;
+}
+
+/**
+ * Provider the local proxy forwards requests to
+ */
+export interface ProxyUpstream {
+  /** Provider configuration name */
+  provider: string;
+  /** Resolved env of the provider: base URL, credentials and secrets to mask */
+  env: EnvironmentVariables;
+  /** Model names the provider expects, applied to request bodies */
+  models?: Record<string, string>;
+  /** API the provider speaks; OpenAI chat completions requests are translated */
+  protocol?: ProviderProtocol;
+}
+
+/**
+ * Local proxy options
+ */
+export interface ProxyOptions {
+  /** Providers in failover order; requests go to the last one that answered, the first at start */
+  upstreams: ProxyUpstream[];
+  /** Save masked request and response bodies next to the metadata log */
+  transcripts?: boolean;
+  /** Port to listen on (default: any free port) */
+  port?: number;
+}
+
+/**
+ * Failed attempt to forward a request, before the proxy moved on to the next provider
+ */
+export interface ProxyAttempt {
+  provider: string;
+  /** Upstream HTTP status (429 or 5xx), missing when it could not be reached */
+  status?: number;
+  /** Connection error or start of the error body */
+  error?: string;
+}
+
+/**
+ * Metadata of one request forwarded by the local proxy
+ */
+export interface ProxyLogEntry {
+  /** Unique request id */
+  id: string;
+  /** Time the request was received (ISO 8601) */
+  time: string;
+  /** Provider that served the request */
+  provider: string;
+  method: string;
+  path: string;
+  /** Model from the request body */
+  model?: string;
+  /** Model sent to the serving provider, when its model map renamed it */
+  upstreamModel?: string;
+  /** Whether the response was streamed (server-sent events) */
+  stream?: boolean;
+  /** Upstream HTTP status, missing when the upstream could not be reached */
+  status?: number;
+  /** Time until the response was complete */
+  latencyMs: number;
+  /** Token usage reported in the response */
+  tokens?: TokenUsage;
+  /** Rate limit and request id headers of the response */
+  headers?: Record<string, string>;
+  /** Connection or upstream error */
+  error?: string;
+  /** Whether Claude Code disconnected before the response was complete */
+  aborted?: boolean;
+  /** Providers that failed before the serving one, in order */
+  attempts?: ProxyAttempt[];
+  /** Whether a transcript was saved */
+  transcript?: boolean;
+}
+
+/**
+ * Transcript of one proxied request, with secrets masked
+ */
+export interface ProxyTranscript {
+  id: string;
+  request: { method: string; path: string; headers: Record<string, string>; body: string };
+  response?: { status: number; headers: Record<string, string>; body: string };
+}
+
+/**
+ * Local proxy listening for Claude Code
+ */
+export interface RunningProxy {
+  /** Base URL to give Claude Code */
+  url: string;
+  /** Random token of this session, requests without it are refused */
+  token: string;
+  /** Stop listening */
+  close(): Promise<void>;
+}
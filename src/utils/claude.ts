@@ -1,4 +1,18 @@
 import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { SpawnOptions } from 'child_process';
+
+/**
+ * Characters cmd.exe interprets, escaped with ^ (same set as cross-spawn)
+ */
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Signals passed on to Claude Code, so auo outlives it and records how the session ended
+ */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
 
 /**
  * Check if Claude Code is installed
@@ -72,27 +86,128 @@ export async function installClaudeCode(): Promise<void> {
   });
 }
 
+/**
+ * Read a variable the way Windows does, ignoring the case of its name
+ */
+function readWindowsVariable(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const key = Object.keys(env).find((candidate) => candidate.toUpperCase() === name);
+  return key === undefined ? undefined : env[key];
+}
+
+/**
+ * Find a command on the PATH of an env the way cmd.exe does, trying each PATHEXT extension
+ * Falls back to the npm shim name, e.g. claude.cmd
+ */
+function resolveWindowsCommand(command: string, env: NodeJS.ProcessEnv): string {
+  const extensions = (readWindowsVariable(env, 'PATHEXT') || '.COM;.EXE;.BAT;.CMD')
+    .split(';')
+    .filter(Boolean);
+  const dirs = (readWindowsVariable(env, 'PATH') || '').split(path.delimiter).filter(Boolean);
+
+  for (const dir of dirs) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, `${command}${extension.toLowerCase()}`);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return `${command}.cmd`;
+}
+
+/**
+ * Quote an argument for a batch file run through cmd.exe, so it arrives as one argument and
+ * characters like & or | stay literal
+ * Meta characters are escaped twice because the batch file passes them through cmd.exe again
+ */
+function quoteWindowsArgument(arg: string): string {
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+  return quoted.replace(CMD_META_CHARS, '^$1').replace(CMD_META_CHARS, '^$1');
+}
+
+/**
+ * Build the spawn call running a command with exact arguments
+ * On Windows, claude is an npm batch shim that only cmd.exe can run, and Node would join the
+ * arguments unquoted into its command line, so the command line is built here instead
+ */
+function buildSpawnCall(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): { command: string; args: string[]; options: SpawnOptions } {
+  if (process.platform !== 'win32') {
+    return { command, args, options: {} };
+  }
+
+  const resolved = resolveWindowsCommand(command, env);
+  if (!/\.(bat|cmd)$/i.test(resolved)) {
+    return { command: resolved, args, options: {} };
+  }
+
+  const commandLine = [
+    resolved.replace(CMD_META_CHARS, '^$1'),
+    ...args.map(quoteWindowsArgument),
+  ].join(' ');
+  return {
+    command: readWindowsVariable(env, 'COMSPEC') || 'cmd.exe',
+    args: ['/d', '/s', '/c', `"${commandLine}"`],
+    options: { windowsVerbatimArguments: true },
+  };
+}
+
+/**
+ * Get the exit status of a process the way shells report it: 128 + the signal number when a
+ * signal ended it
+ */
+function getExitStatus(code: number | null, signal: NodeJS.Signals | null): number {
+  if (code !== null) {
+    return code;
+  }
+  const number = signal ? os.constants.signals[signal] : undefined;
+  return number === undefined ? 1 : 128 + number;
+}
+
 /**
  * Run Claude Code command
  * @param args Arguments to pass to Claude Code
  * @param env Environment variables
+ * @param onExit Called with the exit status before auo exits with it
  */
-export function runClaudeCode(args: string[], env: NodeJS.ProcessEnv = {}): void {
+export function runClaudeCode(
+  args: string[],
+  env: NodeJS.ProcessEnv = {},
+  onExit?: (code: number) => void
+): void {
   const mergedEnv = { ...process.env, ...env };
 
-  const claude: ChildProcess = spawn('claude', args, {
+  // Arguments are passed verbatim, through cmd.exe quoting on Windows
+  const call = buildSpawnCall('claude', args, mergedEnv);
+  const claude: ChildProcess = spawn(call.command, call.args, {
+    ...call.options,
     stdio: 'inherit',
-    shell: true,
     env: mergedEnv,
   });
 
-  claude.on('close', (code: number | null) => {
-    process.exit(code || 0);
+  const forward = (signal: NodeJS.Signals): void => {
+    claude.kill(signal);
+  };
+  FORWARDED_SIGNALS.forEach((signal) => process.on(signal, forward));
+  const stopForwarding = (): void => {
+    FORWARDED_SIGNALS.forEach((signal) => process.off(signal, forward));
+  };
+
+  claude.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+    stopForwarding();
+    const status = getExitStatus(code, signal);
+    onExit?.(status);
+    process.exit(status);
   });
 
   claude.on('error', (error: Error) => {
+    stopForwarding();
     console.error('❌ Claude Code execution failed:', error.message);
     console.error('🔧 Please try reinstalling: npm install -g auo');
+    onExit?.(1);
     process.exit(1);
   });
 }
@@ -0,0 +1,367 @@
+import http from 'http';
+import https from 'https';
+import { OPENAI_CHAT_PATH, buildOpenAIAuthHeaders } from '../proxy/openai';
+import { getProxyRequestOptions } from './tunnel';
+import type {
+  CheckStatus,
+  EnvironmentVariables,
+  ProbeOptions,
+  ProbeResult,
+  ProbeTimings,
+  ProviderDiagnosis,
+  ProviderProtocol,
+} from '../types';
+
+/**
+ * Default Anthropic API base URL used when a provider doesn't set one
+ */
+export const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+
+/**
+ * Model used for probing when the provider doesn't pin ANTHROPIC_MODEL
+ */
+export const DEFAULT_PROBE_MODEL = 'claude-3-5-haiku-20241022';
+
+/**
+ * Default probe timeout in milliseconds
+ */
+export const DEFAULT_PROBE_TIMEOUT = 10000;
+
+/**
+ * Maximum response body size kept for diagnostics
+ */
+const MAX_BODY_LENGTH = 4096;
+
+/**
+ * Error codes raised when a host name cannot be resolved
+ */
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NONAME'];
+
+/**
+ * Build the messages endpoint URL for a base URL
+ */
+export function buildMessagesUrl(baseUrl: string | undefined): URL {
+  const base = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  return new URL(`${base}/v1/messages`);
+}
+
+/**
+ * Build the URL probed for a provider: the messages endpoint, or chat completions for
+ * OpenAI-compatible providers (reached through the translating proxy)
+ */
+export function buildProbeUrl(baseUrl: string | undefined, protocol?: ProviderProtocol): URL {
+  if (protocol !== 'openai') {
+    return buildMessagesUrl(baseUrl);
+  }
+  const base = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  return new URL(`${base}${OPENAI_CHAT_PATH}`);
+}
+
+/**
+ * Build authentication headers the way Claude Code sends them
+ */
+export function buildAuthHeaders(env: EnvironmentVariables): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (env.ANTHROPIC_AUTH_TOKEN) {
+    headers.authorization = `Bearer ${env.ANTHROPIC_AUTH_TOKEN}`;
+  }
+  if (env.ANTHROPIC_API_KEY) {
+    headers['x-api-key'] = env.ANTHROPIC_API_KEY;
+  }
+  return headers;
+}
+
+/**
+ * Send a minimal messages (or chat completions) request to a provider
+ * Never rejects: network failures are reported through the result
+ */
+export function probeProvider(
+  env: EnvironmentVariables,
+  options: ProbeOptions = {}
+): Promise<ProbeResult> {
+  const timeout = options.timeout ?? DEFAULT_PROBE_TIMEOUT;
+  const model = options.model || env.ANTHROPIC_MODEL || DEFAULT_PROBE_MODEL;
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let url: URL;
+    try {
+      url = buildProbeUrl(env.ANTHROPIC_BASE_URL, options.protocol);
+    } catch {
+      resolve({
+        reachable: false,
+        latencyMs: 0,
+        error: `Invalid base URL: ${env.ANTHROPIC_BASE_URL}`,
+      });
+      return;
+    }
+
+    // Relays may only be reachable through the provider's HTTPS_PROXY, like for Claude Code
+    let proxyOptions: ReturnType<typeof getProxyRequestOptions>;
+    try {
+      proxyOptions = getProxyRequestOptions(env, url);
+    } catch (error) {
+      resolve({
+        reachable: false,
+        latencyMs: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const payload = JSON.stringify({
+      model,
+      max_tokens: 1,
+      messages: [{ role: 'user', content: 'ping' }],
+    });
+
+    const timings: ProbeTimings = {};
+    const elapsed = (): number => Date.now() - startedAt;
+
+    // The request body is valid for both APIs, only headers differ
+    const transport = url.protocol === 'http:' ? http : https;
+    const request = transport.request(url, {
+      ...proxyOptions,
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload),
+        ...(options.protocol === 'openai'
+          ? buildOpenAIAuthHeaders(env)
+          : { 'anthropic-version': '2023-06-01', ...buildAuthHeaders(env) }),
+      },
+    });
+
+    request.setTimeout(timeout, () => {
+      request.destroy(new Error(`Timed out after ${timeout}ms`));
+    });
+
+    request.on('socket', (socket) => {
+      socket.once('lookup', () => (timings.lookup = elapsed()));
+      socket.once('connect', () => (timings.connect = elapsed()));
+      socket.once('secureConnect', () => (timings.secureConnect = elapsed()));
+    });
+
+    request.on('response', (response) => {
+      timings.response = elapsed();
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (body.length < MAX_BODY_LENGTH) {
+          body += chunk;
+        }
+      });
+      response.on('end', () => {
+        resolve({
+          reachable: true,
+          status: response.statusCode ?? 0,
+          latencyMs: elapsed(),
+          body: body.slice(0, MAX_BODY_LENGTH),
+          timings,
+        });
+      });
+    });
+
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      resolve({
+        reachable: false,
+        latencyMs: elapsed(),
+        error: error.message,
+        ...(error.code ? { errorCode: error.code } : {}),
+        timings,
+      });
+    });
+
+    request.end(payload);
+  });
+}
+
+/**
+ * Check whether a probe result means the provider can serve requests
+ * Only a successful response, or an API error about the request body (which the endpoint and
+ * token had to pass to produce), counts; a wrong base path (404) or an unserved model does not
+ */
+export function isHealthyProbe(result: ProbeResult): boolean {
+  if (!result.reachable || result.status === undefined) {
+    return false;
+  }
+  return (result.status >= 200 && result.status < 300) || isRequestBodyError(result);
+}
+
+/**
+ * Describe why a probe result is considered unhealthy
+ */
+export function describeProbeFailure(result: ProbeResult): string {
+  if (!result.reachable) {
+    return `unreachable (${result.error || 'unknown error'})`;
+  }
+
+  switch (result.status) {
+    case 401:
+    case 403:
+      return `auth rejected (HTTP ${result.status})`;
+    case 429:
+      return 'rate limited or out of quota (HTTP 429)';
+  }
+  if (isModelError(result)) {
+    return `model not served (HTTP ${result.status})`;
+  }
+  if (result.status === 404) {
+    return 'endpoint not found (HTTP 404), check the base URL';
+  }
+  return result.status !== undefined && result.status >= 500
+    ? `server error (HTTP ${result.status})`
+    : `unexpected response (HTTP ${result.status})`;
+}
+
+/**
+ * Probe candidates in order and return the first healthy one
+ * Every unhealthy candidate is reported through onSkip, including ones whose environment
+ * cannot be built (e.g. a secret that cannot be resolved)
+ */
+export async function findHealthyProvider<T>(
+  candidates: T[],
+  getEnv: (candidate: T) => EnvironmentVariables,
+  options: ProbeOptions & {
+    onSkip?: (candidate: T, reason: string) => void;
+    /** API each candidate speaks, overriding options.protocol */
+    getProtocol?: (candidate: T) => ProviderProtocol | undefined;
+  } = {}
+): Promise<T | null> {
+  const { onSkip, getProtocol, ...probeOptions } = options;
+
+  for (const candidate of candidates) {
+    let env: EnvironmentVariables;
+    let protocol: ProviderProtocol | undefined;
+    try {
+      env = getEnv(candidate);
+      protocol = getProtocol ? getProtocol(candidate) : probeOptions.protocol;
+    } catch (error) {
+      onSkip?.(candidate, error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    const result = await probeProvider(env, {
+      ...probeOptions,
+      ...(protocol ? { protocol } : {}),
+    });
+    if (isHealthyProbe(result)) {
+      return candidate;
+    }
+    onSkip?.(candidate, describeProbeFailure(result));
+  }
+
+  return null;
+}
+
+/**
+ * Build the messages URL, returning null for invalid base URLs
+ */
+function buildMessagesUrlSafe(baseUrl: string | undefined): URL | null {
+  try {
+    return buildMessagesUrl(baseUrl);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a failed response complains about the requested model
+ */
+function isModelError(result: ProbeResult): boolean {
+  if (result.status !== 400 && result.status !== 404) {
+    return false;
+  }
+  return /model/i.test(result.body || '');
+}
+
+/**
+ * Check whether a 400 response is an API error about the request body rather than the model,
+ * unlike an error page served for a wrong path
+ */
+function isRequestBodyError(result: ProbeResult): boolean {
+  if (result.status !== 400 || isModelError(result)) {
+    return false;
+  }
+  try {
+    const body = JSON.parse(result.body || '') as { error?: unknown } | null;
+    return typeof body?.error === 'object' && body.error !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turn a probe result into a per-check health report
+ */
+export function diagnoseProbe(
+  name: string,
+  env: EnvironmentVariables,
+  result: ProbeResult,
+  model: string
+): ProviderDiagnosis {
+  const isHttps = buildMessagesUrlSafe(env.ANTHROPIC_BASE_URL)?.protocol === 'https:';
+  const timings = result.timings || {};
+  const dnsFailed = DNS_ERROR_CODES.includes(result.errorCode || '');
+  const connected = result.reachable || timings.connect !== undefined;
+
+  let tls: CheckStatus = 'skip';
+  if (isHttps) {
+    if (timings.secureConnect !== undefined || result.reachable) {
+      tls = 'ok';
+    } else if (connected) {
+      tls = 'fail';
+    }
+  }
+
+  let tokenAccepted: CheckStatus = 'skip';
+  let modelServed: CheckStatus = 'skip';
+  if (result.reachable) {
+    if (result.status === 401 || result.status === 403) {
+      tokenAccepted = 'fail';
+    } else if (result.status !== undefined && result.status < 500) {
+      tokenAccepted = 'ok';
+    }
+    if (result.status !== undefined && result.status >= 200 && result.status < 300) {
+      modelServed = 'ok';
+    } else if (isModelError(result)) {
+      modelServed = 'fail';
+    }
+  }
+
+  const healthy = isHealthyProbe(result);
+
+  return {
+    name,
+    baseUrl: env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL,
+    model,
+    dns: dnsFailed ? 'fail' : connected ? 'ok' : 'skip',
+    tls,
+    latencyMs: result.latencyMs,
+    ...(result.status !== undefined ? { status: result.status } : {}),
+    tokenAccepted,
+    modelServed,
+    healthy,
+    ...(healthy
+      ? {}
+      : {
+          error:
+            modelServed === 'fail'
+              ? `model "${model}" not served (HTTP ${result.status})`
+              : describeProbeFailure(result),
+        }),
+  };
+}
+
+/**
+ * Probe a provider and report DNS, TLS, latency, status, token and model checks
+ */
+export async function diagnoseProvider(
+  name: string,
+  env: EnvironmentVariables,
+  options: ProbeOptions = {}
+): Promise<ProviderDiagnosis> {
+  const model = options.model || env.ANTHROPIC_MODEL || DEFAULT_PROBE_MODEL;
+  const result = await probeProvider(env, { ...options, model });
+  return diagnoseProbe(name, env, result, model);
+}
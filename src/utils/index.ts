@@ -1,3 +1,6 @@
 // Utilities module entry point
 export * from './claude';
 export * from './system';
+export * from './health';
+export * from './table';
+export * from './shell';
@@ -0,0 +1,170 @@
+import path from 'path';
+
+/**
+ * Shells auo can print environment changes for
+ */
+export type ShellName = 'bash' | 'zsh' | 'fish' | 'powershell';
+
+/**
+ * All supported shells
+ */
+export const SHELL_NAMES: ShellName[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+/**
+ * Variable listing the keys exported by auo env, so they can be removed again
+ */
+export const SHELL_KEYS_VAR = 'AUO_ENV_KEYS';
+
+/**
+ * Variable holding the project file the shell hook applied
+ */
+export const SHELL_PROJECT_VAR = 'AUO_ENV_PROJECT';
+
+/**
+ * Check whether a string names a supported shell (pwsh is accepted for PowerShell)
+ */
+export function parseShellName(name: string): ShellName | null {
+  if (name === 'pwsh') {
+    return 'powershell';
+  }
+  return (SHELL_NAMES as string[]).includes(name) ? (name as ShellName) : null;
+}
+
+/**
+ * Guess the shell auo runs in, falling back to bash (PowerShell on Windows)
+ */
+export function detectShell(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+): ShellName {
+  const shell = env.SHELL ? parseShellName(path.basename(env.SHELL)) : null;
+  if (shell) {
+    return shell;
+  }
+  return platform === 'win32' ? 'powershell' : 'bash';
+}
+
+/**
+ * Quote a value so the shell reads it literally
+ */
+function quote(value: string, shell: ShellName): string {
+  switch (shell) {
+    case 'bash':
+    case 'zsh':
+      return `'${value.replace(/'/g, `'\\''`)}'`;
+    case 'fish':
+      return `'${value.replace(/[\\']/g, '\\$&')}'`;
+    case 'powershell':
+      return `'${value.replace(/'/g, "''")}'`;
+  }
+}
+
+/**
+ * Format a statement setting an environment variable
+ */
+export function formatSetVariable(key: string, value: string, shell: ShellName): string {
+  switch (shell) {
+    case 'bash':
+    case 'zsh':
+      return `export ${key}=${quote(value, shell)}`;
+    case 'fish':
+      return `set -gx ${key} ${quote(value, shell)}`;
+    case 'powershell':
+      return `$env:${key} = ${quote(value, shell)}`;
+  }
+}
+
+/**
+ * Format a statement removing an environment variable
+ */
+export function formatUnsetVariable(key: string, shell: ShellName): string {
+  switch (shell) {
+    case 'bash':
+    case 'zsh':
+      return `unset ${key}`;
+    case 'fish':
+      return `set -e ${key}`;
+    case 'powershell':
+      return `Remove-Item Env:${key} -ErrorAction SilentlyContinue`;
+  }
+}
+
+/**
+ * Get the script that re-applies `auo env --hook` whenever the working directory changes
+ */
+export function getShellHook(shell: ShellName): string {
+  switch (shell) {
+    case 'bash':
+      return `_auo_hook() {
+  local previous_status=$?
+  if [[ "$PWD" != "\${_AUO_HOOK_PWD-}" ]]; then
+    _AUO_HOOK_PWD="$PWD"
+    eval "$(auo env --hook --shell bash)"
+  fi
+  return $previous_status
+}
+if [[ ";\${PROMPT_COMMAND[*]-};" != *";_auo_hook;"* ]]; then
+  PROMPT_COMMAND="_auo_hook\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi`;
+    case 'zsh':
+      return `_auo_hook() {
+  eval "$(auo env --hook --shell zsh)"
+}
+typeset -ag chpwd_functions
+if (( ! \${chpwd_functions[(I)_auo_hook]} )); then
+  chpwd_functions+=(_auo_hook)
+fi
+_auo_hook`;
+    case 'fish':
+      return `function __auo_hook --on-variable PWD
+    auo env --hook --shell fish | source
+end
+__auo_hook`;
+    case 'powershell':
+      return `$global:AuoHookPwd = $null
+$global:AuoHookPrompt = $function:prompt
+function global:prompt {
+  if ($PWD.Path -ne $global:AuoHookPwd) {
+    $global:AuoHookPwd = $PWD.Path
+    $auoEnv = (auo env --hook --shell powershell) -join "\`n"
+    if ($auoEnv) { Invoke-Expression $auoEnv }
+  }
+  & $global:AuoHookPrompt
+}`;
+  }
+}
+
+/**
+ * Get the completion script of a shell; candidates come from `auo completion --complete`
+ */
+export function getCompletionScript(shell: Exclude<ShellName, 'powershell'>): string {
+  switch (shell) {
+    case 'bash':
+      return `_auo_completion() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local IFS=$'\\n'
+  COMPREPLY=($(compgen -W "$(auo completion --complete "\${COMP_WORDS[@]:1:COMP_CWORD-1}" 2>/dev/null)" -- "$cur"))
+}
+complete -o default -F _auo_completion auo`;
+    case 'zsh':
+      return `_auo() {
+  local -a candidates
+  candidates=("\${(@f)$(auo completion --complete "\${(@)words[2,CURRENT-1]}" 2>/dev/null)}")
+  if [[ -n "\${candidates[1]}" ]]; then
+    compadd -a candidates
+  else
+    _files
+  fi
+}
+if ! (( $+functions[compdef] )); then
+  autoload -Uz compinit && compinit
+fi
+compdef _auo auo`;
+    case 'fish':
+      return `function __auo_complete
+    set -l tokens (commandline -opc)
+    auo completion --complete $tokens[2..-1] 2>/dev/null
+end
+complete -c auo -f -a '(__auo_complete)'`;
+  }
+}
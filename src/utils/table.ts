@@ -0,0 +1,22 @@
+/**
+ * Format rows as a plain-text table with aligned columns
+ * @param headers Column headers
+ * @param rows Table rows (cells are converted to strings)
+ * @returns Table text without trailing newline
+ */
+export function formatTable(headers: string[], rows: Array<Array<string | number>>): string {
+  const cells = [headers, ...rows.map((row) => row.map((cell) => String(cell)))];
+  const widths = headers.map((_, column) =>
+    Math.max(...cells.map((row) => (row[column] || '').length))
+  );
+
+  const formatRow = (row: string[]): string =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] || 0))
+      .join('  ')
+      .trimEnd();
+
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+
+  return [formatRow(headers), separator, ...cells.slice(1).map(formatRow)].join('\n');
+}
@@ -0,0 +1,121 @@
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Duplex } from 'stream';
+import type { EnvironmentVariables } from '../types';
+
+/**
+ * Connection factory accepted by http.request and https.request
+ */
+type CreateConnection = NonNullable<http.ClientRequestArgs['createConnection']>;
+
+/**
+ * Read a proxy variable the way curl and Node tools do, upper case first
+ */
+function readProxyVariable(env: EnvironmentVariables, name: string): string | undefined {
+  return env[name] || env[name.toLowerCase()] || undefined;
+}
+
+/**
+ * Check whether NO_PROXY exempts a host, e.g. "localhost,.internal,10.0.0.1"
+ */
+function isExempt(env: EnvironmentVariables, target: URL): boolean {
+  const entries = (readProxyVariable(env, 'NO_PROXY') || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const hostname = target.hostname.toLowerCase();
+
+  return entries.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const domain = entry.replace(/^\*?\./, '').replace(/:\d+$/, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Get the proxy a provider's requests to a URL go through, from the provider's env
+ * HTTPS_PROXY applies to https URLs and HTTP_PROXY to http ones, ALL_PROXY to both; NO_PROXY
+ * exempts hosts
+ * @returns null when the request goes out directly
+ */
+export function getProxyUrl(env: EnvironmentVariables, target: URL): URL | null {
+  const value =
+    (target.protocol === 'https:'
+      ? readProxyVariable(env, 'HTTPS_PROXY')
+      : readProxyVariable(env, 'HTTP_PROXY')) || readProxyVariable(env, 'ALL_PROXY');
+  if (!value || isExempt(env, target)) {
+    return null;
+  }
+
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`);
+  } catch {
+    throw new Error(`Invalid proxy URL: ${value}`);
+  }
+}
+
+/**
+ * Build a connection factory that tunnels through an HTTP(S) proxy with CONNECT, then speaks
+ * TLS to https targets over the tunnel
+ */
+function createTunnel(proxy: URL, target: URL): CreateConnection {
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const authority = `${target.hostname}:${port}`;
+  const headers: http.OutgoingHttpHeaders = { host: authority };
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    headers['proxy-authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  return (_options, oncreate) => {
+    const transport = proxy.protocol === 'https:' ? https : http;
+    const connect = transport.request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: authority,
+      headers,
+    });
+
+    connect.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        oncreate(
+          new Error(`Proxy ${proxy.host} refused the tunnel (HTTP ${response.statusCode})`),
+          socket
+        );
+        return;
+      }
+      oncreate(
+        null,
+        target.protocol === 'https:' ? tls.connect({ socket, servername: target.hostname }) : socket
+      );
+    });
+    // The socket is only used when there is no error
+    connect.once('error', (error) => oncreate(error, connect.socket as Duplex));
+    connect.end();
+    return undefined;
+  };
+}
+
+/**
+ * Get request options sending a provider's request through its proxy, if it sets one
+ * Throws on an invalid proxy URL
+ */
+export function getProxyRequestOptions(
+  env: EnvironmentVariables,
+  target: URL
+): Pick<http.RequestOptions, 'createConnection' | 'defaultPort'> {
+  const proxy = getProxyUrl(env, target);
+  if (!proxy) {
+    return {};
+  }
+  // Without an agent Node doesn't know the default port and would add it to the Host header
+  return {
+    createConnection: createTunnel(proxy, target),
+    defaultPort: target.protocol === 'https:' ? 443 : 80,
+  };
+}
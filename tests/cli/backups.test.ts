@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleBackupsCommand, handleRestoreCommand } from '../../src/cli/backups';
+
+describe('backups and restore commands', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+  let output: string[];
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-backups-cli-test-${Date.now()}`);
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => output.push(args.join(' ')));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    configManager = new ConfigManager({ configDir: tempDir });
+    configManager.addConfig({
+      name: 'relay',
+      env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-secret-9999' },
+    });
+    configManager.updateConfig('relay', { env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-rotated-0000' } });
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should list snapshots and diff them with secrets masked', () => {
+    handleBackupsCommand([], configManager);
+    expect(output.join('\n')).toContain('edit');
+
+    output = [];
+    handleBackupsCommand(['diff', '0'], configManager);
+
+    const text = output.join('\n');
+    expect(text).toContain('~ relay.env.ANTHROPIC_AUTH_TOKEN: sk-...0000 → sk-...9999');
+    expect(text).not.toContain('secret');
+  });
+
+  it('should restore a snapshot', () => {
+    handleRestoreCommand(['0'], configManager);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(configManager.getConfig('relay')?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-relay-secret-9999');
+  });
+
+  it('should fail for unknown snapshots', () => {
+    handleRestoreCommand(['42'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import {
+  BUNDLE_PASSPHRASE_ENV,
+  handleExportCommand,
+  handleImportCommand,
+} from '../../src/cli/bundle';
+
+describe('export and import commands', () => {
+  let tempDir: string;
+  let source: ConfigManager;
+  let target: ConfigManager;
+  let bundleFile: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-bundle-test-${Date.now()}`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env[BUNDLE_PASSPHRASE_ENV] = 'bundle-pass';
+
+    source = new ConfigManager({ configDir: path.join(tempDir, 'source') });
+    source.addConfig({
+      name: 'relay',
+      env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_AUTH_TOKEN: 'sk-relay' },
+    });
+    target = new ConfigManager({ configDir: path.join(tempDir, 'target') });
+    target.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-existing' } });
+    bundleFile = path.join(tempDir, 'bundle.json');
+  });
+
+  afterEach(() => {
+    delete process.env[BUNDLE_PASSPHRASE_ENV];
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should move encrypted tokens between machines', async () => {
+    await handleExportCommand([bundleFile, '--encrypt'], source);
+    expect(process.exitCode).toBeUndefined();
+    expect(fs.readFileSync(bundleFile, 'utf8')).not.toContain('sk-relay');
+
+    await handleImportCommand([bundleFile, '--on-conflict', 'rename'], target);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(target.getConfig('relay')?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-existing');
+    expect(target.getConfig('relay-2')?.env).toEqual({
+      ANTHROPIC_BASE_URL: 'https://relay.example.com',
+      ANTHROPIC_AUTH_TOKEN: 'sk-relay',
+    });
+  });
+
+  it('should not write anything on a dry run or an invalid bundle', async () => {
+    const before = fs.readFileSync(target.getConfigPath(), 'utf8');
+
+    await handleExportCommand([bundleFile, '--plain'], source);
+    await handleImportCommand([bundleFile, '--replace', '--dry-run'], target);
+    expect(fs.readFileSync(target.getConfigPath(), 'utf8')).toBe(before);
+
+    fs.writeFileSync(bundleFile, '{"format":"auo-bundle","version":1,"tokens":"plain"}');
+    await handleImportCommand([bundleFile, '--replace'], target);
+    expect(process.exitCode).toBe(1);
+    expect(fs.readFileSync(target.getConfigPath(), 'utf8')).toBe(before);
+  });
+
+  it('should ask before importing values that run commands or read files', async () => {
+    source.updateConfig('relay', { env: { ANTHROPIC_AUTH_TOKEN: '${cmd:pass show relay}' } });
+    source.updateDefaultEnv({ API_TIMEOUT_MS: '${file:~/.timeout}', DISABLE_TELEMETRY: '1' });
+    await handleExportCommand([bundleFile, '--plain'], source);
+    const before = fs.readFileSync(target.getConfigPath(), 'utf8');
+
+    await handleImportCommand([bundleFile, '--replace'], target);
+    expect(process.exitCode).toBe(1);
+    expect(fs.readFileSync(target.getConfigPath(), 'utf8')).toBe(before);
+    expect(console.log).toHaveBeenCalledWith('   relay/ANTHROPIC_AUTH_TOKEN');
+    expect(console.log).toHaveBeenCalledWith('   defaults/API_TIMEOUT_MS');
+
+    process.exitCode = undefined;
+    await handleImportCommand([bundleFile, '--replace', '--yes'], target);
+    expect(process.exitCode).toBeUndefined();
+    expect(target.getConfig('relay')?.env.ANTHROPIC_AUTH_TOKEN).toBe('${cmd:pass show relay}');
+  });
+
+  it('should reject unknown arguments', async () => {
+    await handleImportCommand([bundleFile, '--on-conflict', 'merge'], target);
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { parseArgs, showHelp, setupEnvironment } from '../../src/cli/commands';
-import type { ConfigItemV2 } from '../../src/types';
+import { getProviderOverride, parseArgs, showHelp, setupEnvironment } from '../../src/cli/commands';
+import type { ConfigItemV2, ConfigItemV3 } from '../../src/types';
 
 describe('CLI Command Parsing', () => {
   it('should correctly parse help parameters', () => {
@@ -24,6 +24,12 @@ describe('CLI Command Parsing', () => {
     expect(result.listConfigs).toBe(true);
   });
 
+  it('should parse --tag only together with --list', () => {
+    expect(parseArgs(['--list', '--tag', 'work']).listTag).toBe('work');
+    expect(parseArgs(['--tag', 'work']).error).toContain('--tag filters --list');
+    expect(parseArgs(['--list', '--tag']).error).toBe('--tag requires a tag name');
+  });
+
   it('should correctly parse use config parameter with index', () => {
     const result = parseArgs(['--use', '1']);
     expect(result.useIndex).toBe(1);
@@ -44,6 +50,30 @@ describe('CLI Command Parsing', () => {
     expect(result.useIndex).toBeUndefined();
   });
 
+  it('should parse non-numeric targets as configuration names', () => {
+    expect(parseArgs(['--use', 'anyrouter']).useName).toBe('anyrouter');
+    expect(parseArgs(['--remove', 'old-relay']).removeName).toBe('old-relay');
+    expect(parseArgs(['--edit', 'official']).editName).toBe('official');
+  });
+
+  it('should keep numeric targets as names too, which are tried first', () => {
+    expect(parseArgs(['--remove', '2'])).toMatchObject({ removeIndex: 2, removeName: '2' });
+    expect(parseArgs(['--use', '-1']).useName).toBeUndefined();
+  });
+
+  it('should not treat following flags as configuration names', () => {
+    const result = parseArgs(['--use', '--list']);
+    expect(result.useName).toBeUndefined();
+    expect(result.listConfigs).toBe(true);
+  });
+
+  it('should parse subcommands with their own arguments', () => {
+    const result = parseArgs(['env', 'set', 'relay', 'API_TIMEOUT_MS=1', '--list']);
+    expect(result.command).toBe('env');
+    expect(result.commandArgs).toEqual(['set', 'relay', 'API_TIMEOUT_MS=1', '--list']);
+    expect(result.listConfigs).toBeUndefined();
+  });
+
   it('should correctly parse add config parameter', () => {
     const result = parseArgs(['--add']);
     expect(result.addConfig).toBe(true);
@@ -76,6 +106,11 @@ describe('CLI Command Parsing', () => {
     expect(result.listConfigs).toBe(true);
   });
 
+  it('should parse --json only together with --list', () => {
+    expect(parseArgs(['--list', '--json']).json).toBe(true);
+    expect(parseArgs(['--json']).error).toContain('--json is only supported with --list');
+  });
+
   it('should correctly parse use config parameter with index', () => {
     const result = parseArgs(['--use', '1']);
     expect(result.useIndex).toBe(1);
@@ -95,6 +130,105 @@ describe('CLI Command Parsing', () => {
     const result = parseArgs(['--use']);
     expect(result.useIndex).toBeUndefined();
   });
+
+  it('should parse a one-shot provider and forward the remaining args', () => {
+    const result = parseArgs(['--provider', 'anyrouter', 'write a test', '--verbose']);
+    expect(result.provider).toBe('anyrouter');
+    expect(result.claudeArgs).toEqual(['write a test', '--verbose']);
+
+    expect(parseArgs(['--provider=official', 'hi']).provider).toBe('official');
+    expect(parseArgs(['--provider']).error).toBe(
+      '--provider requires a configuration name or index'
+    );
+  });
+
+  it('should not forward launch options to Claude Code', () => {
+    const result = parseArgs(['--no-failover', 'hello']);
+    expect(result.claudeArgs).toEqual(['hello']);
+  });
+});
+
+describe('Claude Code argument forwarding', () => {
+  it.each([
+    [[], []],
+    [['write a test'], ['write a test']],
+    [
+      ['--provider', 'a', 'hi', '--verbose'],
+      ['hi', '--verbose'],
+    ],
+    [
+      ['--model', 'opus', '--failover'],
+      ['--model', 'opus', '--failover'],
+    ],
+    [
+      ['-p', 'prompt', '-v'],
+      ['-p', 'prompt', '-v'],
+    ],
+    [
+      ['hi', '--use', '1'],
+      ['hi', '--use', '1'],
+    ],
+    [['--no-failover', '--', '--version'], ['--version']],
+    [
+      ['--', '-h', '--', 'x'],
+      ['-h', '--', 'x'],
+    ],
+    [['--', 'doctor'], ['doctor']],
+  ])('should forward %j as %j', (args, expected) => {
+    const result = parseArgs(args);
+    expect(result.error).toBeUndefined();
+    expect(result.claudeArgs).toEqual(expected);
+  });
+
+  it('should keep auo options before the separator', () => {
+    const result = parseArgs(['-v', '--', '-v']);
+    expect(result.version).toBe(true);
+    expect(result.claudeArgs).toEqual(['-v']);
+  });
+
+  it('should only parse auo options before the first Claude argument', () => {
+    const result = parseArgs(['hello', '--list']);
+    expect(result.listConfigs).toBeUndefined();
+    expect(result.claudeArgs).toEqual(['hello', '--list']);
+  });
+
+  it('should reject anything but auo options before the separator', () => {
+    expect(parseArgs(['--verbose', '--', 'hi']).error).toBe(
+      'Unknown auo option "--verbose". Claude Code arguments go after "--"'
+    );
+    expect(parseArgs(['hi', '--']).error).toBe(
+      'Unexpected argument "hi" before "--". Claude Code arguments go after "--"'
+    );
+  });
+
+  it('should reject flags that look like mistyped auo options', () => {
+    expect(parseArgs(['--fialover', 'hi']).error).toBe(
+      'Unknown option "--fialover", did you mean "--failover"? ' +
+        'Use "auo -- --fialover" to pass it to Claude Code'
+    );
+    expect(parseArgs(['--lst']).error).toContain('did you mean "--list"');
+    expect(parseArgs(['--auo-debug']).error).toBe('Unknown auo option "--auo-debug"');
+  });
+
+  it('should not mistake known Claude Code flags for typos', () => {
+    expect(parseArgs(['--model', 'opus']).error).toBeUndefined();
+    expect(parseArgs(['--resume']).error).toBeUndefined();
+    expect(parseArgs(['--debug']).error).toBeUndefined();
+  });
+});
+
+describe('getProviderOverride', () => {
+  it('should prefer --provider over AUO_PROVIDER', () => {
+    expect(getProviderOverride({ provider: 'a' }, { AUO_PROVIDER: 'b' })).toEqual({
+      name: 'a',
+      origin: '--provider',
+    });
+    expect(getProviderOverride({}, { AUO_PROVIDER: ' b ' })).toEqual({
+      name: 'b',
+      origin: 'AUO_PROVIDER',
+    });
+    expect(getProviderOverride({}, {})).toBeUndefined();
+  });
 });
 
 describe('CLI Commands', () => {
@@ -117,6 +251,8 @@ describe('CLI Commands', () => {
   });
 
   describe('setupEnvironment', () => {
+    const PROXY = { url: 'http://127.0.0.1:4000', token: 'auo-session' };
+
     it('should correctly set environment variables', () => {
       const config: ConfigItemV2 = {
         name: 'test',
@@ -189,6 +325,70 @@ describe('CLI Commands', () => {
       expect(env.ANTHROPIC_MODEL).toBeUndefined();
     });
 
+    it('should translate model variables with the model map, except behind the proxy', () => {
+      const config: ConfigItemV3 = {
+        name: 'test',
+        description: 'Test configuration',
+        env: { ANTHROPIC_MODEL: 'sonnet[1m]', ANTHROPIC_SMALL_FAST_MODEL: 'haiku' },
+        models: { 'sonnet[1m]': 'vendor/sonnet-long' },
+      };
+
+      expect(setupEnvironment(config)).toEqual({
+        ANTHROPIC_MODEL: 'vendor/sonnet-long',
+        ANTHROPIC_SMALL_FAST_MODEL: 'haiku',
+      });
+      expect(setupEnvironment(config, undefined, PROXY).ANTHROPIC_MODEL).toBe('sonnet[1m]');
+    });
+
+    it('should point Claude Code at the local proxy', () => {
+      const config: ConfigItemV2 = {
+        name: 'test',
+        description: 'Test configuration',
+        env: {
+          ANTHROPIC_BASE_URL: 'https://relay.example.com',
+          ANTHROPIC_AUTH_TOKEN: 'test-token',
+        },
+      };
+
+      expect(setupEnvironment(config, undefined, PROXY)).toEqual({
+        ANTHROPIC_BASE_URL: 'http://127.0.0.1:4000',
+        ANTHROPIC_AUTH_TOKEN: 'auo-session',
+      });
+    });
+
+    it('should send the proxy token in a header when Claude Code signs in on its own', () => {
+      const config: ConfigItemV3 = {
+        name: 'official',
+        env: { ANTHROPIC_CUSTOM_HEADERS: 'x-team: core' },
+      };
+
+      expect(setupEnvironment(config, undefined, PROXY)).toEqual({
+        ANTHROPIC_BASE_URL: 'http://127.0.0.1:4000',
+        ANTHROPIC_CUSTOM_HEADERS: 'x-team: core\nx-auo-proxy-token: auo-session',
+      });
+    });
+
+    it('should pass through arbitrary variables', () => {
+      const config: ConfigItemV2 = {
+        name: 'test',
+        description: 'Test configuration',
+        env: {
+          ANTHROPIC_AUTH_TOKEN: 'test-token',
+          ANTHROPIC_SMALL_FAST_MODEL: 'claude-3-5-haiku-20241022',
+          API_TIMEOUT_MS: '600000',
+          HTTPS_PROXY: '',
+        },
+      };
+
+      const env = setupEnvironment(config);
+
+      expect(env).toEqual({
+        ANTHROPIC_AUTH_TOKEN: 'test-token',
+        ANTHROPIC_SMALL_FAST_MODEL: 'claude-3-5-haiku-20241022',
+        API_TIMEOUT_MS: '600000',
+      });
+    });
+
     it('should handle missing env object', () => {
       const config: ConfigItemV2 = {
         name: 'test',
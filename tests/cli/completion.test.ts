@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { getCompletions, handleCompletionCommand } from '../../src/cli/completion';
+import type { CompletionSpec } from '../../src/cli/completion';
+
+const spec: CompletionSpec = {
+  subcommands: ['env', 'rotate', 'show'],
+  flags: ['--use', '--list', '--tag', '--add', '--edit'],
+  providerFlags: ['--name', '--tag', '--token-stdin'],
+  claudeFlags: ['--model', '--verbose'],
+};
+
+const values = { providers: ['relay', 'other'], groups: ['pool'], tags: ['work'] };
+
+describe('completion', () => {
+  it('should offer subcommands and flags, including Claude Code flags', () => {
+    expect(getCompletions([], spec, values)).toEqual([
+      'env',
+      'rotate',
+      'show',
+      '--use',
+      '--list',
+      '--tag',
+      '--add',
+      '--edit',
+      '--model',
+      '--verbose',
+    ]);
+    expect(getCompletions(['hello', '--'], spec, values)).toEqual(['--model', '--verbose']);
+  });
+
+  it('should offer configuration names, groups and tags after flags that take them', () => {
+    expect(getCompletions(['--use'], spec, values)).toEqual(['relay', 'other', '@pool']);
+    expect(getCompletions(['--edit'], spec, values)).toEqual(['relay', 'other']);
+    expect(getCompletions(['--list', '--tag'], spec, values)).toEqual(['work']);
+  });
+
+  it('should offer provider flags while adding or editing', () => {
+    expect(getCompletions(['--add'], spec, values)).toContain('--token-stdin');
+    expect(getCompletions(['--add', '--name'], spec, values)).toEqual([]);
+    expect(getCompletions(['--add', '--token-stdin'], spec, values)).toContain('--name');
+  });
+
+  it('should complete subcommand arguments', () => {
+    expect(getCompletions(['show'], spec, values)).toEqual(['relay', 'other']);
+    expect(getCompletions(['env', 'set'], spec, values)).toEqual([
+      'relay',
+      'other',
+      '@pool',
+      '--defaults',
+    ]);
+    expect(getCompletions(['env', '--shell'], spec, values)).toContain('fish');
+    expect(getCompletions(['rotate', 'use'], spec, values)).toEqual(['pool']);
+    expect(getCompletions(['rotate', 'strategy', 'pool'], spec, values)).toContain('weighted');
+    expect(getCompletions(['rotate', 'set', 'pool', 'relay'], spec, values)).toEqual([
+      'relay',
+      'other',
+    ]);
+  });
+
+  describe('command', () => {
+    let tempDir: string;
+    let configManager: ConfigManager;
+    let output: string[];
+
+    beforeEach(() => {
+      tempDir = path.join(os.tmpdir(), `auo-completion-test-${Date.now()}`);
+      configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({
+        name: 'relay',
+        env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay' },
+        tags: ['work', 'cheap'],
+      });
+      output = [];
+      vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+    });
+
+    afterEach(() => {
+      process.exitCode = undefined;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should print candidates read from the configuration', () => {
+      handleCompletionCommand(['--complete', '--list', '--tag'], configManager, spec);
+      expect(output).toEqual(['work', 'cheap']);
+
+      output = [];
+      handleCompletionCommand(['--complete', '--use'], configManager, spec);
+      expect(output).toEqual(['default', 'relay']);
+    });
+
+    it('should print scripts for bash, zsh and fish only', () => {
+      handleCompletionCommand(['bash'], configManager, spec);
+      expect(output.join('\n')).toContain('complete -o default -F _auo_completion auo');
+
+      handleCompletionCommand(['powershell'], configManager, spec);
+      expect(process.exitCode).toBe(1);
+    });
+  });
+});
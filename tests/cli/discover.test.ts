@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleDetectImport } from '../../src/cli/discover';
+
+describe('import --detect command', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+  let settingsFile: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-discover-test-${Date.now()}`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    configManager = new ConfigManager({ configDir: tempDir });
+    settingsFile = path.join(tempDir, 'settings.json');
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should recognize the active provider exported by "auo env"', async () => {
+    vi.stubEnv('RELAY_TOKEN', 'sk-relay');
+    configManager.updateDefaultEnv({ ANTHROPIC_BASE_URL: 'https://relay.example.com' });
+    configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: '${env:RELAY_TOKEN}' } });
+    configManager.addConfig({
+      name: 'relay-opus',
+      env: { ANTHROPIC_MODEL: 'opus' },
+      extends: 'relay',
+    });
+    const before = configManager.getAllConfigs().length;
+
+    await handleDetectImport(['--yes'], configManager, {
+      env: {
+        ANTHROPIC_BASE_URL: 'https://relay.example.com',
+        ANTHROPIC_AUTH_TOKEN: 'sk-relay',
+        ANTHROPIC_MODEL: 'opus',
+      },
+      settingsFile,
+    });
+
+    expect(configManager.getAllConfigs()).toHaveLength(before);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"relay-opus"'));
+  });
+
+  it('should still add providers whose token differs', async () => {
+    configManager.addConfig({
+      name: 'relay',
+      env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_AUTH_TOKEN: 'sk-old' },
+    });
+
+    await handleDetectImport(['--yes'], configManager, {
+      env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_AUTH_TOKEN: 'sk-new' },
+      settingsFile,
+    });
+
+    const added = configManager.getAllConfigs().at(-1);
+    expect(added?.name).not.toBe('relay');
+    expect(added?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-new');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ConfigManager } from '../../src/config/manager';
+import { setupEnvironment } from '../../src/cli/commands';
+import { handleDoctorCommand } from '../../src/cli/doctor';
+import type { ProviderDiagnosis } from '../../src/types';
+
+describe('doctor command', () => {
+  let configManager: ConfigManager;
+  let tempDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `auo-doctor-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+
+    // Stub relay: accepts "good-token" and serves only "claude-served"
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { model } = JSON.parse(body) as { model: string };
+        if (req.headers.authorization !== 'Bearer good-token') {
+          res.writeHead(401).end('{"error":{"type":"authentication_error"}}');
+        } else if (model !== 'claude-served') {
+          res
+            .writeHead(404)
+            .end(`{"error":{"type":"not_found_error","message":"model: ${model}"}}`);
+        } else {
+          res.writeHead(200).end('{"type":"message"}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const providers = [
+      ['healthy', 'good-token', 'claude-served'],
+      ['bad-token', 'wrong-token', 'claude-served'],
+      ['bad-model', 'good-token', 'claude-unknown'],
+    ];
+    for (const [name, token, model] of providers) {
+      configManager.addConfig({
+        name: name!,
+        env: { ANTHROPIC_BASE_URL: baseUrl, ANTHROPIC_AUTH_TOKEN: token, ANTHROPIC_MODEL: model },
+      });
+    }
+  });
+
+  afterEach(async () => {
+    process.exitCode = undefined;
+    await new Promise((resolve) => server.close(resolve));
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Run doctor with --json and parse its output
+   */
+  async function runJson(args: string[]): Promise<ProviderDiagnosis[]> {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await handleDoctorCommand([...args, '--json'], configManager, setupEnvironment);
+    return JSON.parse(logSpy.mock.calls.map((call) => call.join(' ')).join('\n'));
+  }
+
+  it('should report a healthy provider', async () => {
+    const [diagnosis] = await runJson(['healthy']);
+
+    expect(diagnosis).toMatchObject({
+      name: 'healthy',
+      dns: 'ok',
+      tls: 'skip',
+      status: 200,
+      tokenAccepted: 'ok',
+      modelServed: 'ok',
+      healthy: true,
+    });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('should report rejected tokens and unserved models', async () => {
+    const [badToken] = await runJson(['bad-token']);
+    expect(badToken).toMatchObject({ status: 401, tokenAccepted: 'fail', healthy: false });
+
+    const [badModel] = await runJson(['bad-model']);
+    expect(badModel).toMatchObject({
+      status: 404,
+      tokenAccepted: 'ok',
+      modelServed: 'fail',
+      healthy: false,
+    });
+    expect(badModel?.error).toContain('claude-unknown');
+  });
+
+  it('should check all providers and print a table', async () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleDoctorCommand([], configManager, setupEnvironment);
+
+    const output = logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toMatch(/Name\s+DNS\s+TLS\s+Latency\s+HTTP\s+Token\s+Model\s+Result/);
+    expect(output).toMatch(/healthy\s+ok\s+-\s+\d+ms\s+200\s+ok\s+ok\s+healthy/);
+    expect(output).toContain('bad-token');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should report a provider that cannot be resolved in its own row', async () => {
+    const file = JSON.parse(fs.readFileSync(configManager.getConfigPath(), 'utf8'));
+    file.providers.push({ name: 'orphan', description: '', extends: 'gone', env: {} });
+    file.providers.push({
+      name: 'locked',
+      description: '',
+      env: { ANTHROPIC_AUTH_TOKEN: '${vault:locked}' },
+    });
+    fs.writeFileSync(configManager.getConfigPath(), JSON.stringify(file));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const diagnoses = await runJson([]);
+
+    expect(diagnoses.find((diagnosis) => diagnosis.name === 'healthy')?.healthy).toBe(true);
+    expect(diagnoses.find((diagnosis) => diagnosis.name === 'orphan')).toMatchObject({
+      healthy: false,
+      error: 'Configuration "orphan" extends "gone", which does not exist',
+    });
+    expect(diagnoses.find((diagnosis) => diagnosis.name === 'locked')?.healthy).toBe(false);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Vault is locked'));
+
+    // A single provider never unlocks the vault for the others
+    warnSpy.mockClear();
+    const [healthy] = await runJson(['healthy']);
+    expect(healthy?.healthy).toBe(true);
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fail without checking when the target is ambiguous', async () => {
+    await handleDoctorCommand(['bad'], configManager, setupEnvironment);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should reject unknown options', async () => {
+    await handleDoctorCommand(['--bogus'], configManager, setupEnvironment);
+    expect(process.exitCode).toBe(1);
+  });
+});
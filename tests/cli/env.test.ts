@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleEnvCommand, handleShellHookCommand, parseEnvAssignments } from '../../src/cli/env';
+import { loadProjectFile, trustProject } from '../../src/config/project';
+
+describe('env command', () => {
+  let configManager: ConfigManager;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-env-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    configManager.addConfig({
+      name: 'relay',
+      env: { ANTHROPIC_AUTH_TOKEN: 'relay-token', HTTPS_PROXY: 'http://127.0.0.1:7890' },
+    });
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should parse assignments keeping "=" inside values', () => {
+    expect(parseEnvAssignments(['A=1', 'B=x=y', 'C='])).toEqual({ A: '1', B: 'x=y', C: '' });
+  });
+
+  it('should reject malformed assignments', () => {
+    expect(parseEnvAssignments(['NOVALUE'])).toBeNull();
+    expect(parseEnvAssignments(['1BAD=x'])).toBeNull();
+  });
+
+  it('should set variables on a configuration by name', async () => {
+    await handleEnvCommand(
+      ['set', 'relay', 'API_TIMEOUT_MS=600000', 'DISABLE_TELEMETRY=1'],
+      configManager
+    );
+
+    const relay = configManager.getConfig('relay');
+    expect(relay?.env).toEqual({
+      ANTHROPIC_AUTH_TOKEN: 'relay-token',
+      HTTPS_PROXY: 'http://127.0.0.1:7890',
+      API_TIMEOUT_MS: '600000',
+      DISABLE_TELEMETRY: '1',
+    });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('should unset variables on a configuration by index', async () => {
+    await handleEnvCommand(['unset', '1', 'HTTPS_PROXY'], configManager);
+
+    expect(configManager.getConfig('relay')?.env).toEqual({ ANTHROPIC_AUTH_TOKEN: 'relay-token' });
+  });
+
+  it('should set and unset defaults of a group', async () => {
+    configManager.setGroup('work', { providers: ['relay'], strategy: 'least-recent' });
+
+    await handleEnvCommand(
+      ['set', '@work', 'API_TIMEOUT_MS=600000', 'HTTPS_PROXY=http://proxy'],
+      configManager
+    );
+    expect(configManager.getGroups().work?.env).toEqual({
+      API_TIMEOUT_MS: '600000',
+      HTTPS_PROXY: 'http://proxy',
+    });
+    // The provider's own value wins over the group default
+    expect(configManager.resolveConfig(configManager.getConfig('relay')!).env).toEqual({
+      ANTHROPIC_AUTH_TOKEN: 'relay-token',
+      HTTPS_PROXY: 'http://127.0.0.1:7890',
+      API_TIMEOUT_MS: '600000',
+    });
+
+    await handleEnvCommand(['unset', '@work', 'API_TIMEOUT_MS', 'HTTPS_PROXY'], configManager);
+    expect(configManager.getGroups().work).toEqual({
+      providers: ['relay'],
+      strategy: 'least-recent',
+    });
+
+    await handleEnvCommand(['set', '@missing', 'A=1'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should fail for unknown configurations', async () => {
+    await handleEnvCommand(['set', 'missing-provider', 'A=1'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should fail for invalid assignments without saving', async () => {
+    await handleEnvCommand(['set', 'relay', 'A=1', 'oops'], configManager);
+
+    expect(process.exitCode).toBe(1);
+    expect(configManager.getConfig('relay')?.env.A).toBeUndefined();
+  });
+
+  describe('shell exports', () => {
+    let output: string[];
+
+    beforeEach(() => {
+      output = [];
+      vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+      vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+      delete process.env.AUO_ENV_KEYS;
+      delete process.env.AUO_ENV_PROJECT;
+    });
+
+    afterEach(() => {
+      delete process.env.AUO_ENV_KEYS;
+      delete process.env.AUO_ENV_PROJECT;
+    });
+
+    it('should print exports of a configuration for the chosen shell', async () => {
+      await handleEnvCommand(['relay', '--shell', 'bash'], configManager);
+
+      expect(output).toEqual([
+        "export ANTHROPIC_AUTH_TOKEN='relay-token'",
+        "export HTTPS_PROXY='http://127.0.0.1:7890'",
+        "export AUO_ENV_KEYS='ANTHROPIC_AUTH_TOKEN HTTPS_PROXY'",
+        'unset AUO_ENV_PROJECT',
+      ]);
+    });
+
+    it('should resolve value references and remove stale keys', async () => {
+      configManager.updateConfig('relay', { env: { ANTHROPIC_MODEL: '${env:AUO_TEST_MODEL}' } });
+      process.env.AUO_TEST_MODEL = 'opus';
+      process.env.AUO_ENV_KEYS = 'OLD_KEY HTTPS_PROXY';
+
+      await handleEnvCommand(['relay', '--shell', 'fish'], configManager);
+      delete process.env.AUO_TEST_MODEL;
+
+      expect(output).toContain('set -e OLD_KEY');
+      expect(output).not.toContain('set -e HTTPS_PROXY');
+      expect(output).toContain("set -gx ANTHROPIC_MODEL 'opus'");
+    });
+
+    it('should remove exported keys in unset mode', async () => {
+      process.env.AUO_ENV_KEYS = 'ANTHROPIC_AUTH_TOKEN';
+
+      await handleEnvCommand(['--unset', '--shell', 'powershell'], configManager);
+
+      expect(output).toEqual([
+        'Remove-Item Env:ANTHROPIC_AUTH_TOKEN -ErrorAction SilentlyContinue',
+        'Remove-Item Env:AUO_ENV_KEYS -ErrorAction SilentlyContinue',
+        'Remove-Item Env:AUO_ENV_PROJECT -ErrorAction SilentlyContinue',
+      ]);
+    });
+
+    it('should load project providers in hook mode and unload them outside', async () => {
+      const projectFile = path.join(tempDir, '.auorc');
+      fs.writeFileSync(projectFile, JSON.stringify({ provider: 'relay' }));
+      trustProject(configManager.getStateStore(), loadProjectFile(projectFile));
+
+      await handleEnvCommand(['--hook', '--shell', 'bash'], configManager);
+      expect(output).toContain("export AUO_ENV_PROJECT='" + projectFile + "'");
+
+      // Nothing to do until the project changes
+      output = [];
+      process.env.AUO_ENV_PROJECT = projectFile;
+      await handleEnvCommand(['--hook', '--shell', 'bash'], configManager);
+      expect(output).toEqual([]);
+
+      fs.rmSync(projectFile);
+      process.env.AUO_ENV_KEYS = 'ANTHROPIC_AUTH_TOKEN';
+      await handleEnvCommand(['--hook', '--shell', 'bash'], configManager);
+      expect(output).toEqual([
+        'unset ANTHROPIC_AUTH_TOKEN',
+        'unset AUO_ENV_KEYS',
+        'unset AUO_ENV_PROJECT',
+      ]);
+    });
+
+    it('should skip untrusted project files in hook mode', async () => {
+      const errors: string[] = [];
+      vi.spyOn(console, 'error').mockImplementation((line: string) => errors.push(line));
+      const projectFile = path.join(tempDir, '.auorc');
+      fs.writeFileSync(projectFile, JSON.stringify({ provider: 'relay' }));
+
+      await handleEnvCommand(['--hook', '--shell', 'bash'], configManager);
+      expect(output).toEqual([]);
+      expect(errors).toEqual([
+        `🔒 auo: not loading untrusted ${projectFile}, review it and run "auo trust"`,
+      ]);
+
+      // A file changed after it was loaded unloads what it exported
+      process.env.AUO_ENV_PROJECT = projectFile;
+      process.env.AUO_ENV_KEYS = 'ANTHROPIC_AUTH_TOKEN';
+      await handleEnvCommand(['--hook', '--shell', 'bash'], configManager);
+      expect(output).toContain('unset ANTHROPIC_AUTH_TOKEN');
+      expect(output.some((line) => line.startsWith('export'))).toBe(false);
+    });
+
+    it('should only export model variables of an untrusted project file', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fs.writeFileSync(
+        path.join(tempDir, '.auorc'),
+        JSON.stringify({ env: { PATH: '/tmp/evil:/usr/bin', ANTHROPIC_MODEL: 'opus' } })
+      );
+
+      await handleEnvCommand(['relay', '--shell', 'bash'], configManager);
+
+      expect(output).toContain("export ANTHROPIC_MODEL='opus'");
+      expect(output.some((line) => line.includes('PATH'))).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Ignoring PATH'));
+    });
+
+    it('should fail without printing exports for unknown configurations and shells', async () => {
+      await handleEnvCommand(['missing-provider', '--shell', 'bash'], configManager);
+      expect(process.exitCode).toBe(1);
+
+      process.exitCode = undefined;
+      await handleEnvCommand(['relay', '--shell', 'csh'], configManager);
+      expect(process.exitCode).toBe(1);
+      expect(output.some((line) => line.startsWith('export'))).toBe(false);
+    });
+
+    it('should print the hook for a shell', () => {
+      handleShellHookCommand(['zsh']);
+      expect(output.join('\n')).toContain('chpwd_functions');
+
+      handleShellHookCommand(['tcsh']);
+      expect(process.exitCode).toBe(1);
+    });
+  });
+});
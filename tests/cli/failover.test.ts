@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ConfigManager } from '../../src/config/manager';
+import { setupEnvironment } from '../../src/cli/commands';
+import {
+  buildFailoverCandidates,
+  handleFailoverCommand,
+  selectFailoverProvider,
+} from '../../src/cli/failover';
+
+describe('failover', () => {
+  let configManager: ConfigManager;
+  let tempDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `auo-failover-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Stub relay answering with the status code given as first path segment
+    server = http.createServer((req, res) => {
+      res.writeHead(Number(req.url?.split('/')[1]) || 200);
+      res.end('{}');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    for (const [name, status] of [
+      ['exhausted', 429],
+      ['broken', 502],
+      ['healthy', 200],
+    ] as const) {
+      configManager.addConfig({
+        name,
+        env: { ANTHROPIC_BASE_URL: `${baseUrl}/${status}`, ANTHROPIC_AUTH_TOKEN: 'token' },
+      });
+    }
+  });
+
+  afterEach(async () => {
+    process.exitCode = undefined;
+    await new Promise((resolve) => server.close(resolve));
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should order candidates with the current provider first', () => {
+    const all = configManager.getAllConfigs();
+    const current = all[2]!;
+    const candidates = buildFailoverCandidates(
+      current,
+      { enabled: true, providers: ['healthy', 'broken', 'missing'] },
+      all
+    );
+
+    expect(candidates.map((cfg) => cfg.name)).toEqual(['broken', 'healthy']);
+  });
+
+  it('should fail over to the first healthy provider and record the choice', async () => {
+    handleFailoverCommand(['set', 'broken', 'healthy'], configManager);
+    const current = configManager.getConfig('exhausted')!;
+
+    const selected = await selectFailoverProvider(configManager, current, setupEnvironment);
+
+    expect(selected?.name).toBe('healthy');
+    const record = configManager.getStateStore().read().lastFailover;
+    expect(record?.selected).toBe('healthy');
+    expect(record?.skipped.map((entry) => entry.name)).toEqual(['exhausted', 'broken']);
+  });
+
+  it('should keep the current provider when it is healthy', async () => {
+    handleFailoverCommand(['set', 'broken'], configManager);
+    const current = configManager.getConfig('healthy')!;
+
+    const selected = await selectFailoverProvider(configManager, current, setupEnvironment);
+
+    expect(selected?.name).toBe('healthy');
+    expect(configManager.getStateStore().read().lastFailover?.skipped).toEqual([]);
+  });
+
+  it('should return null when no provider is healthy', async () => {
+    handleFailoverCommand(['set', 'broken'], configManager);
+    const current = configManager.getConfig('exhausted')!;
+
+    expect(await selectFailoverProvider(configManager, current, setupEnvironment)).toBeNull();
+  });
+
+  it('should manage failover settings through the command', () => {
+    handleFailoverCommand(['enable'], configManager);
+    handleFailoverCommand(['set', 'heal', 'exh'], configManager);
+    handleFailoverCommand(['timeout', '3000'], configManager);
+
+    expect(configManager.getFailoverSettings()).toEqual({
+      enabled: true,
+      providers: ['healthy', 'exhausted'],
+      timeout: 3000,
+    });
+
+    handleFailoverCommand(['set', 'nothing-like-this'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should keep the fallback list in sync with renames and deletions', () => {
+    handleFailoverCommand(['set', 'healthy', 'broken'], configManager);
+
+    configManager.updateConfig('healthy', { name: 'renamed' });
+    configManager.deleteConfig('broken');
+
+    expect(configManager.getFailoverSettings().providers).toEqual(['renamed']);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { getProxyLog, handleLogsCommand } from '../../src/cli/logs';
+
+describe('logs command', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+  let output: string[];
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-logs-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const log = getProxyLog(configManager);
+    const base = { method: 'POST', path: '/v1/messages', latencyMs: 120 };
+    log.record({
+      id: 'aaaa1111-1',
+      time: '2025-01-01T10:00:00Z',
+      provider: 'relay',
+      status: 200,
+      attempts: [{ provider: 'primary', status: 529, error: 'overloaded' }],
+      ...base,
+    });
+    log.record({
+      id: 'bbbb2222-2',
+      time: '2025-01-01T10:01:00Z',
+      provider: 'backup',
+      error: 'connect ECONNREFUSED',
+      transcript: true,
+      ...base,
+    });
+    log.saveTranscript({
+      id: 'bbbb2222-2',
+      request: { method: 'POST', path: '/v1/messages', headers: {}, body: '{"model":"opus"}' },
+    });
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list requests and filter failures', () => {
+    handleLogsCommand([], configManager);
+    const text = output.join('\n');
+    expect(text).toMatch(/aaaa1111.*⤳ after primary \(529\)/);
+    expect(text).toMatch(/bbbb2222.*backup.*ERR.*connect ECONNREFUSED/);
+
+    output = [];
+    handleLogsCommand(['--errors', '--json'], configManager);
+    expect(JSON.parse(output.join('\n')).map((entry: { id: string }) => entry.id)).toEqual([
+      'bbbb2222-2',
+    ]);
+  });
+
+  it('should show a request with its transcript by id prefix', () => {
+    handleLogsCommand(['show', 'bbbb'], configManager);
+    expect(output.join('\n')).toContain('"model": "opus"');
+
+    handleLogsCommand(['show', 'zzzz'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+});
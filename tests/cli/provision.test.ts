@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { Readable } from 'stream';
+import { ConfigManager } from '../../src/config/manager';
+import { handleConfigCommands, parseArgs } from '../../src/cli/commands';
+import {
+  addConfigScripted,
+  editConfigScripted,
+  parseProviderDocument,
+} from '../../src/cli/provision';
+
+describe('scripted add/edit', () => {
+  let configManager: ConfigManager;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-provision-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('parseArgs', () => {
+    it('should read provider fields after --add', () => {
+      const result = parseArgs([
+        '--add',
+        '--name',
+        'relay',
+        '--base-url',
+        'https://relay.example.com',
+        '--token-stdin',
+        '--model',
+        'opus',
+        '--env',
+        'API_TIMEOUT_MS=600000',
+      ]);
+
+      expect(result.error).toBeUndefined();
+      expect(result.providerFields).toEqual({
+        name: 'relay',
+        baseUrl: 'https://relay.example.com',
+        tokenStdin: true,
+        model: 'opus',
+        env: { API_TIMEOUT_MS: '600000' },
+      });
+      expect(result.claudeArgs).toEqual([]);
+    });
+
+    it('should leave --model to Claude Code when not adding or editing', () => {
+      const result = parseArgs(['--model', 'opus']);
+      expect(result.providerFields).toBeUndefined();
+      expect(result.claudeArgs).toEqual(['--model', 'opus']);
+    });
+
+    it('should report invalid provider flags', () => {
+      expect(parseArgs(['--add', '--name']).error).toBe('--name requires a value');
+      expect(parseArgs(['--edit', '0', '--env', 'NOVALUE']).error).toBe(
+        'Invalid --env "NOVALUE", expected KEY=VALUE'
+      );
+    });
+  });
+
+  describe('parseProviderDocument', () => {
+    it('should parse a provider document with null env values', () => {
+      expect(
+        parseProviderDocument('{"name":"relay","env":{"ANTHROPIC_AUTH_TOKEN":"t","X":null}}')
+      ).toEqual({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 't', X: undefined } });
+    });
+
+    it('should reject malformed documents', () => {
+      expect(() => parseProviderDocument('nope')).toThrow('Invalid provider JSON on stdin');
+      expect(() => parseProviderDocument('{"env":{"A":1}}')).toThrow(
+        'Provider JSON "env.A" must be a string or null'
+      );
+    });
+  });
+
+  describe('addConfigScripted', () => {
+    it('should add a provider with the token read from stdin', async () => {
+      const added = await addConfigScripted(
+        { name: 'relay', baseUrl: 'https://relay.example.com', tokenStdin: true },
+        configManager,
+        Readable.from(['sk-from-stdin\n'])
+      );
+
+      expect(added).toBe(true);
+      expect(configManager.getConfig('relay')?.env).toEqual({
+        ANTHROPIC_BASE_URL: 'https://relay.example.com',
+        ANTHROPIC_AUTH_TOKEN: 'sk-from-stdin',
+      });
+    });
+
+    it('should add a provider from a JSON document, letting flags win', async () => {
+      const document = JSON.stringify({
+        name: 'from-json',
+        description: 'Provisioned',
+        env: { ANTHROPIC_AUTH_TOKEN: 'sk-json', ANTHROPIC_MODEL: 'sonnet' },
+      });
+
+      const added = await addConfigScripted(
+        { jsonStdin: true, model: 'opus' },
+        configManager,
+        Readable.from([document])
+      );
+
+      expect(added).toBe(true);
+      expect(configManager.getConfig('from-json')).toEqual({
+        name: 'from-json',
+        description: 'Provisioned',
+        env: { ANTHROPIC_AUTH_TOKEN: 'sk-json', ANTHROPIC_MODEL: 'opus' },
+      });
+    });
+
+    it('should fail without a name or token', async () => {
+      expect(await addConfigScripted({ token: 'sk' }, configManager)).toBe(false);
+      expect(await addConfigScripted({ name: 'no-token' }, configManager)).toBe(false);
+      await expect(
+        addConfigScripted({ name: 'x', tokenStdin: true }, configManager, Readable.from(['']))
+      ).rejects.toThrow('No token received on stdin');
+    });
+  });
+
+  describe('editConfigScripted', () => {
+    it('should update fields and remove variables', async () => {
+      configManager.addConfig({
+        name: 'relay',
+        env: { ANTHROPIC_AUTH_TOKEN: 'sk', HTTPS_PROXY: 'http://127.0.0.1:7890' },
+      });
+      const index = configManager.findConfigIndex('relay');
+
+      const updated = await editConfigScripted(
+        { name: 'relay-2', model: 'opus', unsetEnv: ['HTTPS_PROXY'] },
+        configManager,
+        index
+      );
+
+      expect(updated).toBe(true);
+      expect(configManager.getConfig('relay-2')?.env).toEqual({
+        ANTHROPIC_AUTH_TOKEN: 'sk',
+        ANTHROPIC_MODEL: 'opus',
+      });
+    });
+  });
+
+  describe('tags', () => {
+    it('should add and remove tags', async () => {
+      await addConfigScripted(
+        { name: 'relay', token: 'sk', tags: ['work', 'relay', 'work'] },
+        configManager
+      );
+      expect(configManager.getConfig('relay')?.tags).toEqual(['work', 'relay']);
+
+      const index = configManager.findConfigIndex('relay');
+      await editConfigScripted({ tags: ['cheap'], untags: ['work'] }, configManager, index);
+      expect(configManager.getConfig('relay')?.tags).toEqual(['relay', 'cheap']);
+
+      await editConfigScripted({ untags: ['relay', 'cheap'] }, configManager, index);
+      expect(configManager.getConfig('relay')).not.toHaveProperty('tags');
+    });
+
+    it('should reject invalid tags and --untag when adding', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(
+        await addConfigScripted({ name: 'a', token: 'sk', tags: ['a b'] }, configManager)
+      ).toBe(false);
+      expect(
+        await addConfigScripted({ name: 'a', token: 'sk', untags: ['work'] }, configManager)
+      ).toBe(false);
+    });
+  });
+
+  describe('model maps', () => {
+    it('should set, merge and remove model mappings', async () => {
+      const options = parseArgs([
+        '--add',
+        '--name',
+        'relay',
+        '--token',
+        'sk',
+        '--model-map',
+        'sonnet[1m]=vendor/sonnet-long',
+        '--model-map',
+        'opus=vendor/opus',
+      ]);
+      expect(options.providerFields?.models).toEqual({
+        'sonnet[1m]': 'vendor/sonnet-long',
+        opus: 'vendor/opus',
+      });
+      await addConfigScripted(options.providerFields || {}, configManager);
+
+      const index = configManager.findConfigIndex('relay');
+      await editConfigScripted(
+        { models: { haiku: 'vendor/haiku' }, unsetModels: ['opus'] },
+        configManager,
+        index
+      );
+      expect(configManager.getConfig('relay')?.models).toEqual({
+        'sonnet[1m]': 'vendor/sonnet-long',
+        haiku: 'vendor/haiku',
+      });
+
+      const document = '{"models":{"sonnet[1m]":null,"haiku":null}}';
+      await editConfigScripted(
+        { jsonStdin: true },
+        configManager,
+        index,
+        Readable.from([document])
+      );
+      expect(configManager.getConfig('relay')).not.toHaveProperty('models');
+    });
+
+    it('should reject malformed mappings', async () => {
+      expect(parseArgs(['--add', '--model-map', 'sonnet']).error).toContain('expected FROM=TO');
+      expect(() => parseProviderDocument('{"models":{"sonnet":1}}')).toThrow('models.sonnet');
+      expect(
+        await addConfigScripted({ name: 'a', token: 'sk', unsetModels: ['opus'] }, configManager)
+      ).toBe(false);
+    });
+  });
+
+  describe('protocol', () => {
+    it('should set and validate the protocol', async () => {
+      const options = parseArgs([
+        '--add',
+        '--name',
+        'local',
+        '--token',
+        'sk',
+        '--protocol',
+        'openai',
+      ]);
+      await addConfigScripted(options.providerFields || {}, configManager);
+      expect(configManager.getConfig('local')?.protocol).toBe('openai');
+
+      const index = configManager.findConfigIndex('local');
+      await editConfigScripted({ protocol: 'anthropic' }, configManager, index);
+      expect(configManager.getConfig('local')?.protocol).toBe('anthropic');
+
+      expect(parseArgs(['--add', '--protocol', 'grpc']).error).toContain(
+        'expected anthropic or openai'
+      );
+      expect(() => parseProviderDocument('{"protocol":"grpc"}')).toThrow('"protocol"');
+    });
+  });
+
+  describe('handleConfigCommands', () => {
+    it('should exit non-zero when scripted validation fails', async () => {
+      await handleConfigCommands(parseArgs(['--add', '--name', 'x']), configManager);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should exit non-zero for unknown targets', async () => {
+      await handleConfigCommands(parseArgs(['--use', 'missing']), configManager);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should list configurations with a tag', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      configManager.addConfig({
+        name: 'work-1',
+        env: { ANTHROPIC_AUTH_TOKEN: 'sk' },
+        tags: ['work'],
+      });
+      configManager.addConfig({ name: 'home', env: { ANTHROPIC_AUTH_TOKEN: 'sk' } });
+      log.mockClear();
+
+      await handleConfigCommands(parseArgs(['--list', '--tag', 'work']), configManager);
+
+      const output = log.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(output).toContain('[1] work-1 [work]');
+      expect(output).not.toContain('home');
+    });
+
+    it('should rotate through a group with --use @group', async () => {
+      configManager.addConfig({ name: 'a', env: { ANTHROPIC_AUTH_TOKEN: 'sk' } });
+      configManager.setGroup('pool', { providers: ['a'] });
+
+      await handleConfigCommands(parseArgs(['--use', '@pool']), configManager);
+      expect(configManager.getActiveGroup()).toBe('pool');
+
+      await handleConfigCommands(parseArgs(['--use', '@missing']), configManager);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should succeed for valid scripted input', async () => {
+      await handleConfigCommands(
+        parseArgs(['--add', '--name', 'ok', '--token', 'sk-ok']),
+        configManager
+      );
+      expect(process.exitCode).toBeUndefined();
+      expect(configManager.hasConfig('ok')).toBe(true);
+    });
+  });
+});
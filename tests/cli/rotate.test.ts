@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleRotateCommand, parseResetTime } from '../../src/cli/rotate';
+
+describe('rotate command', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-rotate-test-${Date.now()}`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    configManager = new ConfigManager({ configDir: tempDir });
+    for (const name of ['alpha', 'beta']) {
+      configManager.addConfig({ name, env: { ANTHROPIC_AUTH_TOKEN: `sk-${name}` } });
+    }
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse reset times', () => {
+    const now = new Date('2026-03-01T10:00:00');
+
+    expect(parseResetTime('90m', now)?.getTime()).toBe(now.getTime() + 90 * 60_000);
+    expect(parseResetTime('2d', now)?.getTime()).toBe(now.getTime() + 2 * 86_400_000);
+    expect(parseResetTime(undefined, now)).toEqual(new Date('2026-03-02T00:00:00'));
+    expect(parseResetTime('2026-03-01T12:00:00Z', now)?.toISOString()).toBe(
+      '2026-03-01T12:00:00.000Z'
+    );
+    expect(parseResetTime('soon', now)).toBeNull();
+  });
+
+  it('should set up a weighted group and skip exhausted members', () => {
+    handleRotateCommand(['set', 'pool', 'alpha', '2'], configManager);
+    handleRotateCommand(['strategy', 'pool', 'weighted'], configManager);
+    handleRotateCommand(['weight', 'pool', 'beta', '3'], configManager);
+    handleRotateCommand(['use', 'pool'], configManager);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(configManager.getGroups().pool).toEqual({
+      providers: ['alpha', 'beta'],
+      strategy: 'weighted',
+      weights: { beta: 3 },
+    });
+
+    handleRotateCommand(['exhausted', 'beta', '--until', '1h'], configManager);
+    expect(configManager.getCurrentConfig({ rotate: true }).name).toBe('alpha');
+    expect(configManager.getCurrentConfig({ rotate: true }).name).toBe('alpha');
+
+    handleRotateCommand(['available', 'beta'], configManager);
+    expect(configManager.getCurrentConfig({ rotate: true }).name).toBe('beta');
+  });
+
+  it('should reject unknown strategies and members', () => {
+    handleRotateCommand(['set', 'pool', 'alpha'], configManager);
+    handleRotateCommand(['strategy', 'pool', 'random'], configManager);
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    handleRotateCommand(['weight', 'pool', 'beta', '2'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleCurrentCommand, handleShowCommand } from '../../src/cli/show';
+
+describe('show command', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+  let output: string[];
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-show-test-${Date.now()}`);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    configManager = new ConfigManager({ configDir: tempDir });
+    configManager.addConfig({
+      name: 'base',
+      description: 'Shared relay',
+      env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_AUTH_TOKEN: 'sk-base' },
+    });
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should show resolved values with masked secrets and their sources', () => {
+    configManager.updateDefaultEnv({ API_TIMEOUT_MS: '600000' });
+    configManager.addConfig({
+      name: 'relay-1',
+      env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-0123456789abcd' },
+      extends: 'base',
+      tags: ['work'],
+    });
+    output = [];
+
+    handleShowCommand(['relay-1'], configManager);
+
+    const text = output.join('\n');
+    expect(text).toContain('[2] relay-1 - Shared relay');
+    expect(text).toContain('Extends: base');
+    expect(text).toContain('Tags: work');
+    expect(text).toMatch(/ANTHROPIC_AUTH_TOKEN\s+sk-\.\.\.abcd\s+own/);
+    expect(text).toMatch(/ANTHROPIC_BASE_URL\s+https:\/\/relay\.example\.com\s+extends base/);
+    expect(text).toMatch(/API_TIMEOUT_MS\s+600000\s+defaults/);
+    expect(text).not.toContain('0123456789');
+  });
+
+  it('should fail for unknown configurations and missing arguments', () => {
+    handleShowCommand(['missing'], configManager);
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    handleShowCommand([], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should print summaries as JSON', () => {
+    configManager.addConfig({
+      name: 'relay-1',
+      env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-0123456789abcd' },
+      extends: 'base',
+      tags: ['work'],
+    });
+    configManager.setGroup('pool', { providers: ['relay-1'] });
+    output = [];
+
+    handleShowCommand(['relay-1', '--json'], configManager);
+
+    const summary = JSON.parse(output.join('\n'));
+    expect(summary).toMatchObject({
+      index: 2,
+      name: 'relay-1',
+      description: 'Shared relay',
+      tags: ['work'],
+      groups: ['pool'],
+      extends: ['base'],
+      current: false,
+    });
+    expect(summary.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-...abcd');
+    expect(summary.sources.ANTHROPIC_BASE_URL).toBe('extends base');
+  });
+
+  it('should show the current configuration and why it is used', () => {
+    configManager.switchToIndex(1);
+    output = [];
+
+    handleCurrentCommand(['--name'], configManager);
+    expect(output).toEqual(['base']);
+
+    output = [];
+    handleCurrentCommand(['--json'], configManager);
+    const summary = JSON.parse(output.join('\n'));
+    expect(summary).toMatchObject({ index: 1, name: 'base', current: true, source: 'global' });
+    expect(summary.env.ANTHROPIC_AUTH_TOKEN).toBe('*******');
+
+    output = [];
+    handleCurrentCommand([], configManager, { name: '0', origin: 'AUO_PROVIDER' });
+    expect(output.join('\n')).toContain('Selected by AUO_PROVIDER, this run only');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { formatDuration, handleStatsCommand, startSessionLog } from '../../src/cli/stats';
+import { getTranscriptDir } from '../../src/config/usage';
+
+describe('stats', () => {
+  let tempDir: string;
+  let configManager: ConfigManager;
+  let output: string[];
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-stats-test-${Date.now()}`);
+    configManager = new ConfigManager({ configDir: tempDir });
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => output.push(args.join(' ')));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.CLAUDE_CONFIG_DIR = path.join(tempDir, 'claude');
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_CONFIG_DIR;
+    process.exitCode = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record sessions with the model from Claude arguments or env', () => {
+    startSessionLog(configManager, 'relay', ['--model', 'sonnet'], { ANTHROPIC_MODEL: 'opus' })(0);
+    startSessionLog(configManager, 'relay', [], { ANTHROPIC_MODEL: 'opus' })(2);
+
+    const sessions = configManager.getUsageLog().read();
+    expect(sessions.map((session) => [session.model, session.exitCode])).toEqual([
+      ['sonnet', 0],
+      ['opus', 2],
+    ]);
+    expect(sessions[0]?.cwd).toBe(process.cwd());
+  });
+
+  it('should read token counts from the Claude config dir the provider sets', () => {
+    const claudeDir = path.join(tempDir, 'provider-claude');
+    const end = startSessionLog(configManager, 'relay', [], { CLAUDE_CONFIG_DIR: claudeDir });
+    const transcriptDir = getTranscriptDir(claudeDir, process.cwd());
+    fs.mkdirSync(transcriptDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(transcriptDir, 'session.jsonl'),
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        message: { id: 'msg_1', usage: { input_tokens: 10, output_tokens: 4 } },
+      })
+    );
+
+    end(130);
+
+    expect(configManager.getUsageLog().read()[0]).toMatchObject({
+      exitCode: 130,
+      tokens: { input: 10, output: 4 },
+    });
+  });
+
+  it('should print grouped sessions as JSON', () => {
+    startSessionLog(configManager, 'relay', [], {})(1);
+
+    handleStatsCommand(['--by', 'project', '--days', '7', '--json'], configManager);
+
+    const summary = JSON.parse(output.join('\n'));
+    expect(summary.groupBy).toBe('project');
+    expect(summary.groups).toEqual([
+      { key: process.cwd(), sessions: 1, failed: 1, durationMs: expect.any(Number) },
+    ]);
+  });
+
+  it('should reject invalid arguments', () => {
+    handleStatsCommand(['--by', 'model'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(12_000)).toBe('12s');
+    expect(formatDuration(25 * 60_000)).toBe('25m');
+    expect(formatDuration(135 * 60_000)).toBe('2h 15m');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { handleTrustCommand } from '../../src/cli/trust';
+import { loadProjectConfig } from '../../src/config/project';
+
+describe('trust command', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let configManager: ConfigManager;
+  let output: string[];
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-trust-test-${Date.now()}`);
+    repoDir = path.join(tempDir, 'repo');
+    fs.mkdirSync(path.join(repoDir, 'src'), { recursive: true });
+    fs.writeFileSync(
+      path.join(repoDir, '.auorc'),
+      JSON.stringify({ env: { ANTHROPIC_BASE_URL: 'https://relay.internal' } })
+    );
+    configManager = new ConfigManager({ configDir: path.join(tempDir, 'home') });
+
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => output.push(args.join(' ')));
+    vi.spyOn(console, 'error').mockImplementation((...args) => output.push(args.join(' ')));
+    vi.spyOn(process, 'cwd').mockReturnValue(path.join(repoDir, 'src'));
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const isTrusted = (): boolean | undefined =>
+    loadProjectConfig(repoDir, configManager.getStateStore())?.trusted;
+
+  it('should trust the nearest project file and show what it allows', () => {
+    handleTrustCommand([], configManager);
+
+    expect(isTrusted()).toBe(true);
+    expect(output.join('\n')).toContain(`✅ Trusted ${path.join(repoDir, '.auorc')}`);
+    expect(output.join('\n')).toContain('Now allowed to override: ANTHROPIC_BASE_URL');
+  });
+
+  it('should list trusted files and notice changes', () => {
+    handleTrustCommand([repoDir], configManager);
+    fs.writeFileSync(path.join(repoDir, '.auorc'), '{}');
+    output = [];
+
+    handleTrustCommand(['--list'], configManager);
+
+    expect(output.join('\n')).toMatch(/\.auorc\s+changed/);
+  });
+
+  it('should revoke trust', () => {
+    handleTrustCommand([], configManager);
+    handleTrustCommand(['--revoke'], configManager);
+
+    expect(isTrusted()).toBe(false);
+    handleTrustCommand(['--revoke'], configManager);
+    expect(process.exitCode).toBe(1);
+  });
+});
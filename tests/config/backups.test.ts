@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { BackupStore, diffConfigs } from '../../src/config/backups';
+import type { ConfigFileV3 } from '../../src/types';
+
+describe('backups', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-backups-test-${Date.now()}`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('BackupStore', () => {
+    it('should list snapshots newest first and keep only the most recent', () => {
+      const store = new BackupStore(tempDir, 3);
+
+      for (const operation of ['delete', 'edit', 'import', 'reset']) {
+        store.create(`{"op":"${operation}"}`, operation);
+      }
+
+      const backups = store.list();
+      expect(backups.map((backup) => backup.operation)).toEqual(['reset', 'import', 'edit']);
+      expect(store.find('0')).toEqual(backups[0]);
+      expect(store.find(backups[2]?.id as string)).toEqual(backups[2]);
+      expect(store.find('3')).toBeNull();
+      expect(fs.readFileSync(backups[0]?.path as string, 'utf8')).toBe('{"op":"reset"}');
+    });
+
+    it('should reject unusable snapshots', () => {
+      const store = new BackupStore(tempDir);
+      const backup = store.create('{ nope', 'delete');
+
+      expect(() => store.load(backup)).toThrow(`Backup ${backup.id} is unreadable`);
+    });
+  });
+
+  describe('ConfigManager', () => {
+    it('should snapshot before destructive changes and restore them', () => {
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay' } });
+      expect(configManager.getBackupStore().list()).toEqual([]);
+
+      configManager.deleteConfig('relay');
+      const [snapshot] = configManager.getBackupStore().list();
+      expect(snapshot?.operation).toBe('delete');
+
+      configManager.restoreBackup(snapshot!);
+
+      expect(configManager.getConfig('relay')?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-relay');
+      expect(configManager.getBackupStore().list()[0]?.operation).toBe('restore');
+    });
+  });
+
+  describe('diffConfigs', () => {
+    it('should report changes with secrets masked', () => {
+      const current: ConfigFileV3 = {
+        version: 'v3',
+        currentIndex: 0,
+        providers: [
+          {
+            name: 'relay',
+            description: '',
+            env: { ANTHROPIC_AUTH_TOKEN: 'sk-ant-current-1111', ANTHROPIC_MODEL: 'opus' },
+          },
+          { name: 'gone', description: '', env: { ANTHROPIC_AUTH_TOKEN: 'sk-gone' } },
+        ],
+      };
+      const snapshot: ConfigFileV3 = {
+        version: 'v3',
+        currentIndex: 1,
+        providers: [
+          { name: 'relay', description: '', env: { ANTHROPIC_AUTH_TOKEN: 'sk-ant-older-2222' } },
+          { name: 'back', description: '', env: { ANTHROPIC_AUTH_TOKEN: 'sk-back' } },
+        ],
+      };
+
+      const changes = diffConfigs(current, snapshot);
+
+      expect(changes).toEqual([
+        {
+          kind: 'changed',
+          path: 'relay.env.ANTHROPIC_AUTH_TOKEN',
+          before: 'sk-...1111',
+          after: 'sk-...2222',
+        },
+        { kind: 'removed', path: 'relay.env.ANTHROPIC_MODEL', before: 'opus' },
+        { kind: 'removed', path: 'gone' },
+        { kind: 'added', path: 'back' },
+        { kind: 'changed', path: 'current', before: 'relay', after: 'back' },
+      ]);
+      expect(JSON.stringify(changes)).not.toContain('current-1111');
+    });
+
+    it('should report changes to groups, defaults and provider settings', () => {
+      const relay = { name: 'relay', description: '', env: {} };
+      const current: ConfigFileV3 = {
+        version: 'v3',
+        currentIndex: 0,
+        providers: [relay, { ...relay, name: 'opus' }],
+        groups: { pool: { providers: ['relay'], env: { ANTHROPIC_API_KEY: 'sk-ant-pool-3333' } } },
+        defaults: { env: { API_TIMEOUT_MS: '5' } },
+      };
+      const snapshot: ConfigFileV3 = {
+        ...current,
+        providers: [
+          relay,
+          {
+            ...relay,
+            name: 'opus',
+            tags: ['work'],
+            extends: 'relay',
+            models: { sonnet: 'x' },
+            protocol: 'openai',
+          },
+        ],
+        groups: {
+          pool: { providers: ['relay', 'opus'], strategy: 'weighted' },
+          spare: { providers: [] },
+        },
+        activeGroup: 'pool',
+        defaults: {},
+      };
+
+      expect(diffConfigs(current, snapshot)).toEqual([
+        { kind: 'added', path: 'opus.tags', after: 'work' },
+        { kind: 'added', path: 'opus.extends', after: 'relay' },
+        { kind: 'added', path: 'opus.protocol', after: 'openai' },
+        { kind: 'added', path: 'opus.models.sonnet', after: 'x' },
+        { kind: 'removed', path: 'defaults.env.API_TIMEOUT_MS', before: '5' },
+        { kind: 'changed', path: '@pool.providers', before: 'relay', after: 'relay, opus' },
+        { kind: 'added', path: '@pool.strategy', after: 'weighted' },
+        { kind: 'removed', path: '@pool.env.ANTHROPIC_API_KEY', before: 'sk-...3333' },
+        { kind: 'added', path: '@spare' },
+        { kind: 'added', path: 'activeGroup', after: 'pool' },
+      ]);
+    });
+  });
+
+  describe('group snapshots', () => {
+    it('should snapshot group changes', () => {
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay' } });
+
+      configManager.setGroup('pool', { providers: ['relay'] });
+      configManager.setActiveGroup('pool');
+
+      expect(
+        configManager
+          .getBackupStore()
+          .list()
+          .map((backup) => backup.operation)
+      ).toEqual(['group-switch', 'group']);
+    });
+  });
+});
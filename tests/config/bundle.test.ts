@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import { createBundle, mergeConfigs, openBundle, parseBundle } from '../../src/config/bundle';
+import type { ConfigFileV3 } from '../../src/types';
+
+const config: ConfigFileV3 = {
+  version: 'v3',
+  currentIndex: 1,
+  providers: [
+    {
+      name: 'official',
+      description: '',
+      env: { ANTHROPIC_AUTH_TOKEN: 'sk-official', ANTHROPIC_MODEL: 'opus' },
+    },
+    {
+      name: 'relay',
+      description: 'Relay',
+      env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_API_KEY: 'sk-relay' },
+    },
+  ],
+};
+
+describe('bundle', () => {
+  describe('createBundle', () => {
+    it('should redact secrets and list them', () => {
+      const bundle = createBundle(config, 'redacted');
+
+      expect(JSON.stringify(bundle)).not.toContain('sk-');
+      expect(bundle.redacted).toEqual(['official/ANTHROPIC_AUTH_TOKEN', 'relay/ANTHROPIC_API_KEY']);
+      expect(config.providers[0]?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-official');
+    });
+
+    it('should encrypt secrets and restore them with the passphrase', () => {
+      const bundle = createBundle(config, 'encrypted', { passphrase: 'pw' });
+      const text = JSON.stringify(bundle);
+
+      expect(text).not.toContain('sk-');
+      expect(text).toContain('${bundle:official/ANTHROPIC_AUTH_TOKEN}');
+
+      const opened = openBundle(parseBundle(text), 'pw');
+      expect(opened.config).toEqual(config);
+      expect(() => openBundle(parseBundle(text), 'wrong')).toThrow('Wrong passphrase');
+    });
+
+    it('should resolve stored references in plain bundles', () => {
+      const withReference: ConfigFileV3 = {
+        ...config,
+        providers: [
+          {
+            name: 'vaulted',
+            description: '',
+            env: { ANTHROPIC_AUTH_TOKEN: '${vault:vaulted/ANTHROPIC_AUTH_TOKEN}' },
+          },
+        ],
+        currentIndex: 0,
+      };
+
+      const bundle = createBundle(withReference, 'plain', {
+        resolveValue: (_key, value) => (value.startsWith('${vault:') ? 'sk-resolved' : value),
+      });
+
+      expect(openBundle(bundle).config.providers[0]?.env.ANTHROPIC_AUTH_TOKEN).toBe('sk-resolved');
+    });
+
+    it('should export env, file and command references as they are', () => {
+      const withReferences: ConfigFileV3 = {
+        ...config,
+        providers: [
+          {
+            name: 'linked',
+            description: '',
+            env: {
+              ANTHROPIC_AUTH_TOKEN: '${cmd:pass show relay}',
+              ANTHROPIC_API_KEY: '${env:RELAY_KEY}',
+            },
+          },
+        ],
+        currentIndex: 0,
+      };
+      const resolveValue = (): string => 'sk-resolved';
+
+      for (const mode of ['plain', 'encrypted', 'redacted'] as const) {
+        const bundle = createBundle(withReferences, mode, { passphrase: 'pw', resolveValue });
+        expect(bundle.config.providers).toEqual(withReferences.providers);
+        expect(JSON.stringify(bundle)).not.toContain('sk-resolved');
+      }
+    });
+
+    it('should protect secrets of shared and group defaults too', () => {
+      const withDefaults: ConfigFileV3 = {
+        ...config,
+        defaults: { env: { ANTHROPIC_API_KEY: 'sk-shared', API_TIMEOUT_MS: '600000' } },
+        groups: { pool: { providers: ['relay'], env: { ANTHROPIC_AUTH_TOKEN: 'sk-pool' } } },
+      };
+
+      const redacted = createBundle(withDefaults, 'redacted');
+      expect(JSON.stringify(redacted)).not.toContain('sk-');
+      expect(redacted.redacted).toEqual(
+        expect.arrayContaining(['defaults/ANTHROPIC_API_KEY', '@pool/ANTHROPIC_AUTH_TOKEN'])
+      );
+
+      const encrypted = JSON.stringify(
+        createBundle(withDefaults, 'encrypted', { passphrase: 'pw' })
+      );
+      expect(encrypted).not.toContain('sk-');
+      expect(openBundle(parseBundle(encrypted), 'pw').config).toEqual(withDefaults);
+    });
+  });
+
+  describe('parseBundle', () => {
+    it('should accept plain configuration files of older versions', () => {
+      const v1 = {
+        providers: [
+          {
+            name: 'old',
+            baseUrl: 'https://old.example.com',
+            authToken: 'sk-old',
+            description: '',
+          },
+        ],
+        currentIndex: 0,
+      };
+
+      const opened = openBundle(parseBundle(JSON.stringify(v1)));
+
+      expect(opened.config.version).toBe('v3');
+      expect(opened.config.providers[0]?.env).toEqual({
+        ANTHROPIC_BASE_URL: 'https://old.example.com',
+        ANTHROPIC_AUTH_TOKEN: 'sk-old',
+      });
+    });
+
+    it('should reject invalid bundles', () => {
+      expect(() => parseBundle('nope')).toThrow('Bundle is not valid JSON');
+      expect(() => parseBundle('{"hello":1}')).toThrow('Not an auo bundle');
+      expect(() => parseBundle('{"format":"auo-bundle","version":9}')).toThrow(
+        'Unsupported bundle version 9'
+      );
+      expect(() =>
+        parseBundle(
+          JSON.stringify({
+            format: 'auo-bundle',
+            version: 1,
+            tokens: 'plain',
+            config: { version: 'v3', currentIndex: 0, providers: [{ name: 'x', env: { A: 1 } }] },
+          })
+        )
+      ).toThrow('Bundle contains an invalid configuration');
+    });
+  });
+
+  describe('mergeConfigs', () => {
+    const existing: ConfigFileV3 = {
+      version: 'v3',
+      currentIndex: 0,
+      providers: [{ name: 'relay', description: 'Mine', env: { ANTHROPIC_AUTH_TOKEN: 'sk-mine' } }],
+    };
+
+    it('should skip existing names by default', () => {
+      const { config: merged, summary } = mergeConfigs(existing, config);
+
+      expect(merged.providers.map((p) => p.name)).toEqual(['relay', 'official']);
+      expect(merged.providers[0]?.description).toBe('Mine');
+      expect(summary).toEqual({
+        added: ['official'],
+        overwritten: [],
+        renamed: [],
+        skipped: ['relay'],
+        groups: { added: [], overwritten: [], renamed: [], skipped: [] },
+        settings: { imported: [], kept: [] },
+        commands: [],
+      });
+    });
+
+    it('should overwrite or rename on conflict', () => {
+      const overwritten = mergeConfigs(existing, config, { onConflict: 'overwrite' });
+      expect(overwritten.config.providers[0]?.description).toBe('Relay');
+      expect(overwritten.summary.overwritten).toEqual(['relay']);
+
+      const renamed = mergeConfigs(existing, config, { onConflict: 'rename' });
+      expect(renamed.config.providers.map((p) => p.name)).toEqual(['relay', 'official', 'relay-2']);
+      expect(renamed.summary.renamed).toEqual([{ from: 'relay', to: 'relay-2' }]);
+    });
+
+    it('should keep renamed providers pointing at each other', () => {
+      const incoming: ConfigFileV3 = {
+        version: 'v3',
+        currentIndex: 0,
+        providers: [
+          { name: 'relay', description: '', env: { ANTHROPIC_AUTH_TOKEN: 'sk-base' } },
+          {
+            name: 'relay-opus',
+            description: '',
+            env: { ANTHROPIC_MODEL: 'opus' },
+            extends: 'relay',
+          },
+        ],
+        groups: { pool: { providers: ['relay', 'relay-opus'], weights: { relay: 2 } } },
+        failover: { enabled: true, providers: ['relay'] },
+      };
+
+      const { config: merged, summary } = mergeConfigs(existing, incoming, {
+        onConflict: 'rename',
+      });
+
+      expect(merged.providers.find((p) => p.name === 'relay-opus')?.extends).toBe('relay-2');
+      expect(merged.groups?.pool).toEqual({
+        providers: ['relay-2', 'relay-opus'],
+        weights: { 'relay-2': 2 },
+      });
+      expect(merged.failover?.providers).toEqual(['relay-2']);
+      expect(summary.groups.added).toEqual(['pool']);
+    });
+
+    it('should merge groups, failover settings and defaults or report them as kept', () => {
+      const mine: ConfigFileV3 = {
+        ...existing,
+        groups: { pool: { providers: ['relay'] } },
+        failover: { enabled: true, providers: ['relay'] },
+        defaults: { env: { API_TIMEOUT_MS: '1000' } },
+      };
+      const incoming: ConfigFileV3 = {
+        ...config,
+        groups: { pool: { providers: ['official'] }, team: { providers: ['official', 'relay'] } },
+        failover: { enabled: true, providers: ['official'] },
+        defaults: { env: { API_TIMEOUT_MS: '600000', DISABLE_TELEMETRY: '1' } },
+      };
+
+      const skipped = mergeConfigs(mine, incoming);
+      expect(skipped.config.groups).toEqual({
+        pool: { providers: ['relay'] },
+        team: { providers: ['official', 'relay'] },
+      });
+      expect(skipped.config.failover?.providers).toEqual(['relay']);
+      expect(skipped.config.defaults?.env).toEqual({
+        API_TIMEOUT_MS: '1000',
+        DISABLE_TELEMETRY: '1',
+      });
+      expect(skipped.summary.groups).toMatchObject({ added: ['team'], skipped: ['pool'] });
+      expect(skipped.summary.settings).toEqual({
+        imported: ['default DISABLE_TELEMETRY'],
+        kept: ['failover settings', 'default API_TIMEOUT_MS'],
+      });
+
+      const overwritten = mergeConfigs(mine, incoming, { onConflict: 'overwrite' });
+      expect(overwritten.config.groups?.pool).toEqual({ providers: ['official'] });
+      expect(overwritten.config.failover?.providers).toEqual(['official']);
+      expect(overwritten.config.defaults?.env?.API_TIMEOUT_MS).toBe('600000');
+      expect(overwritten.summary.settings.kept).toEqual([]);
+    });
+
+    it('should replace everything with the replace strategy', () => {
+      const { config: replaced } = mergeConfigs(existing, config, { strategy: 'replace' });
+      expect(replaced).toEqual(config);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  detectClaudeSettings,
+  detectShellEnvironment,
+  planDetectedImport,
+  providerIdentity,
+  suggestProviderName,
+} from '../../src/config/discovery';
+import type { DetectedProvider } from '../../src/config/discovery';
+
+describe('discovery', () => {
+  describe('suggestProviderName', () => {
+    it.each([
+      [undefined, 'official'],
+      ['https://api.anthropic.com', 'official'],
+      ['https://api.anyrouter.top/v1', 'anyrouter'],
+      ['https://www.relay.example.com', 'example'],
+      ['http://localhost:8080', 'localhost'],
+      ['http://127.0.0.1:3000', '127.0.0.1'],
+      ['not a url', 'imported'],
+    ])('should name %s as %s', (baseUrl, expected) => {
+      expect(suggestProviderName(baseUrl ? { ANTHROPIC_BASE_URL: baseUrl } : {})).toBe(expected);
+    });
+  });
+
+  describe('detectShellEnvironment', () => {
+    it('should pick ANTHROPIC_* variables when a token is set', () => {
+      const detected = detectShellEnvironment({
+        ANTHROPIC_BASE_URL: 'https://api.anyrouter.top',
+        ANTHROPIC_AUTH_TOKEN: 'sk-shell',
+        ANTHROPIC_MODEL: '',
+        PATH: '/usr/bin',
+      });
+
+      expect(detected?.config).toEqual({
+        name: 'anyrouter',
+        description: 'Imported from shell environment',
+        env: { ANTHROPIC_BASE_URL: 'https://api.anyrouter.top', ANTHROPIC_AUTH_TOKEN: 'sk-shell' },
+      });
+      expect(detectShellEnvironment({ ANTHROPIC_BASE_URL: 'https://x.dev' })).toBeNull();
+    });
+  });
+
+  describe('detectClaudeSettings', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = path.join(os.tmpdir(), `auo-discovery-test-${Date.now()}`);
+      fs.mkdirSync(tempDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read the env block of settings.json', () => {
+      const file = path.join(tempDir, 'settings.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          model: 'opus',
+          env: { ANTHROPIC_API_KEY: 'sk-settings', DISABLE_TELEMETRY: '1', BAD: 1 },
+        })
+      );
+
+      expect(detectClaudeSettings(file)?.config.env).toEqual({
+        ANTHROPIC_API_KEY: 'sk-settings',
+        DISABLE_TELEMETRY: '1',
+      });
+    });
+
+    it('should ignore missing or malformed files', () => {
+      const file = path.join(tempDir, 'settings.json');
+      expect(detectClaudeSettings(file)).toBeNull();
+
+      fs.writeFileSync(file, '{ nope');
+      expect(detectClaudeSettings(file)).toBeNull();
+    });
+  });
+
+  describe('planDetectedImport', () => {
+    const detected = (source: string, env: Record<string, string>): DetectedProvider => ({
+      source,
+      config: { name: suggestProviderName(env), description: '', env },
+    });
+
+    it('should match providers by base URL and token regardless of trailing slash', () => {
+      expect(
+        providerIdentity({ ANTHROPIC_BASE_URL: 'https://X.dev/', ANTHROPIC_AUTH_TOKEN: 't' })
+      ).toBe(providerIdentity({ ANTHROPIC_BASE_URL: 'https://x.dev', ANTHROPIC_API_KEY: 't' }));
+    });
+
+    it('should skip known providers and keep new names unique', () => {
+      const existing = [
+        {
+          name: 'anyrouter',
+          description: '',
+          env: { ANTHROPIC_BASE_URL: 'https://anyrouter.top', ANTHROPIC_AUTH_TOKEN: 'sk-a' },
+        },
+      ];
+
+      const plan = planDetectedImport(existing, [
+        detected('shell', {
+          ANTHROPIC_BASE_URL: 'https://anyrouter.top',
+          ANTHROPIC_AUTH_TOKEN: 'sk-a',
+        }),
+        detected('settings', {
+          ANTHROPIC_BASE_URL: 'https://anyrouter.top',
+          ANTHROPIC_AUTH_TOKEN: 'sk-b',
+        }),
+      ]);
+
+      expect(plan.duplicates).toEqual([{ detected: expect.anything(), matches: 'anyrouter' }]);
+      expect(plan.toAdd.map(({ config }) => config.name)).toEqual(['anyrouter-2']);
+    });
+
+    it('should compare against the effective env of existing providers', () => {
+      const existing = [
+        { name: 'relay', description: '', env: { ANTHROPIC_AUTH_TOKEN: '${vault:relay}' } },
+        { name: 'broken', description: '', env: { ANTHROPIC_AUTH_TOKEN: 'sk-b' } },
+      ];
+      const getEnv = (provider: { name: string }) => {
+        if (provider.name === 'broken') {
+          throw new Error('Vault is locked');
+        }
+        return { ANTHROPIC_BASE_URL: 'https://relay.dev', ANTHROPIC_AUTH_TOKEN: 'sk-a' };
+      };
+
+      const plan = planDetectedImport(
+        existing,
+        [
+          detected('shell', {
+            ANTHROPIC_BASE_URL: 'https://relay.dev',
+            ANTHROPIC_AUTH_TOKEN: 'sk-a',
+          }),
+          detected('settings', { ANTHROPIC_AUTH_TOKEN: 'sk-b' }),
+        ],
+        getEnv
+      );
+
+      expect(plan.duplicates.map(({ matches }) => matches)).toEqual(['relay', 'broken']);
+      expect(plan.toAdd).toEqual([]);
+    });
+  });
+});
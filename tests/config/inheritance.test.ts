@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { formatEnvSource, resolveProvider } from '../../src/config/inheritance';
+import type { ConfigFileV3, ConfigItemV3 } from '../../src/types';
+
+describe('inheritance', () => {
+  const base: ConfigItemV3 = {
+    name: 'base',
+    description: 'Relay',
+    env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_MODEL: 'sonnet' },
+  };
+  const child: ConfigItemV3 = {
+    name: 'relay-1',
+    description: '',
+    env: { ANTHROPIC_AUTH_TOKEN: 'sk-one', ANTHROPIC_MODEL: 'opus' },
+    extends: 'base',
+  };
+  const config: ConfigFileV3 = {
+    version: 'v3',
+    currentIndex: 0,
+    providers: [base, child],
+    defaults: { env: { API_TIMEOUT_MS: '600000', ANTHROPIC_MODEL: 'haiku' } },
+    groups: { team: { providers: ['relay-1'], env: { HTTPS_PROXY: 'http://proxy' } } },
+  };
+
+  describe('resolveProvider', () => {
+    it('should layer defaults, groups and extended providers with their sources', () => {
+      const resolved = resolveProvider(config, child);
+
+      expect(resolved.config.description).toBe('Relay');
+      expect(resolved.chain).toEqual(['base']);
+      expect(resolved.config.env).toEqual({
+        API_TIMEOUT_MS: '600000',
+        ANTHROPIC_MODEL: 'opus',
+        HTTPS_PROXY: 'http://proxy',
+        ANTHROPIC_BASE_URL: 'https://relay.example.com',
+        ANTHROPIC_AUTH_TOKEN: 'sk-one',
+      });
+      expect(resolved.sources).toEqual({
+        API_TIMEOUT_MS: { kind: 'defaults' },
+        ANTHROPIC_MODEL: { kind: 'provider', name: 'relay-1' },
+        HTTPS_PROXY: { kind: 'group', name: 'team' },
+        ANTHROPIC_BASE_URL: { kind: 'provider', name: 'base' },
+        ANTHROPIC_AUTH_TOKEN: { kind: 'provider', name: 'relay-1' },
+      });
+    });
+
+    it('should merge model maps and inherit the protocol along the chain', () => {
+      const mapped: ConfigFileV3 = {
+        ...config,
+        providers: [
+          { ...base, models: { sonnet: 'relay/sonnet', opus: 'relay/opus' }, protocol: 'openai' },
+          { ...child, models: { opus: 'relay/opus-fast' } },
+        ],
+      };
+
+      const resolved = resolveProvider(mapped, mapped.providers[1] as ConfigItemV3).config;
+      expect(resolved.models).toEqual({ sonnet: 'relay/sonnet', opus: 'relay/opus-fast' });
+      expect(resolved.protocol).toBe('openai');
+      expect(resolveProvider(config, child).config).not.toHaveProperty('models');
+    });
+
+    it('should report cycles and missing parents', () => {
+      const a: ConfigItemV3 = { name: 'a', description: '', env: {}, extends: 'b' };
+      const b: ConfigItemV3 = { name: 'b', description: '', env: {}, extends: 'a' };
+      const loop: ConfigFileV3 = { version: 'v3', currentIndex: 0, providers: [a, b] };
+
+      expect(() => resolveProvider(loop, a)).toThrow(
+        'Configuration "a" has an inheritance cycle: a → b → a'
+      );
+      expect(() => resolveProvider(loop, { ...a, extends: 'gone' })).toThrow(
+        'Configuration "a" extends "gone", which does not exist'
+      );
+    });
+  });
+
+  it('should describe sources relative to the shown provider', () => {
+    expect(formatEnvSource({ kind: 'provider', name: 'relay-1' }, 'relay-1')).toBe('own');
+    expect(formatEnvSource({ kind: 'provider', name: 'base' }, 'relay-1')).toBe('extends base');
+    expect(formatEnvSource({ kind: 'group', name: 'team' }, 'relay-1')).toBe('group team');
+  });
+
+  describe('ConfigManager', () => {
+    let tempDir: string;
+    let configManager: ConfigManager;
+
+    beforeEach(() => {
+      tempDir = path.join(os.tmpdir(), `auo-inheritance-test-${Date.now()}`);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({
+        name: 'base',
+        env: { ANTHROPIC_BASE_URL: 'https://relay.example.com', ANTHROPIC_AUTH_TOKEN: 'sk-base' },
+      });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should add a configuration that inherits its token', () => {
+      expect(configManager.addConfig({ name: 'child', env: {}, extends: 'base' })).toBe(true);
+      expect(configManager.addConfig({ name: 'orphan', env: {}, extends: 'missing' })).toBe(false);
+
+      const child = configManager.getConfig('child');
+      expect(child?.extends).toBe('base');
+      expect(configManager.resolveConfig(child!).env.ANTHROPIC_AUTH_TOKEN).toBe('sk-base');
+    });
+
+    it('should follow renames and refuse to delete or loop parents', () => {
+      configManager.addConfig({ name: 'child', env: {}, extends: 'base' });
+
+      configManager.updateConfig('base', { name: 'root' });
+      expect(configManager.getConfig('child')?.extends).toBe('root');
+
+      expect(configManager.deleteConfig('root')).toBe(false);
+      expect(configManager.updateConfig('root', { extends: 'child' })).toBe(false);
+      expect(configManager.getConfig('root')).not.toHaveProperty('extends');
+
+      expect(configManager.updateConfig('child', { extends: '' })).toBe(true);
+      expect(configManager.getConfig('child')).not.toHaveProperty('extends');
+    });
+
+    it('should update shared defaults', () => {
+      configManager.updateDefaultEnv({ API_TIMEOUT_MS: '600000', DISABLE_TELEMETRY: '1' });
+      configManager.updateDefaultEnv({ DISABLE_TELEMETRY: undefined });
+
+      expect(configManager.getDefaultEnv()).toEqual({ API_TIMEOUT_MS: '600000' });
+      expect(configManager.resolveConfig(configManager.getConfig('base')!).env.API_TIMEOUT_MS).toBe(
+        '600000'
+      );
+
+      configManager.updateDefaultEnv({ API_TIMEOUT_MS: undefined });
+      expect(JSON.parse(fs.readFileSync(configManager.getConfigPath(), 'utf8'))).not.toHaveProperty(
+        'defaults'
+      );
+    });
+  });
+});
@@ -69,7 +69,7 @@ describe('ConfigManager', () => {
       expect(config.name).toBe('default'); // Current is still default config
     });
 
-    it('should handle corrupted configuration file', () => {
+    it('should refuse a corrupted configuration file and keep a copy', () => {
       // Write invalid JSON
       const configPath = path.join(tempDir, 'config.json');
       fs.writeFileSync(configPath, '{ invalid json }');
@@ -78,8 +78,18 @@ describe('ConfigManager', () => {
         configDir: tempDir,
       });
 
-      const config = newManager.getCurrentConfig();
-      expect(config.name).toBe('default');
+      expect(() => newManager.getCurrentConfig()).toThrow(/config\.json is corrupt/);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(newManager.addConfig({ name: 'test', authToken: 'token' })).toBe(false);
+      expect(() => newManager.getCurrentConfig()).toThrow();
+
+      // The original is left alone and backed up once
+      expect(fs.readFileSync(configPath, 'utf8')).toBe('{ invalid json }');
+      const backups = fs.readdirSync(tempDir).filter((file) => file.includes('.corrupt-'));
+      expect(backups).toHaveLength(1);
+      expect(fs.readFileSync(path.join(tempDir, backups[0] as string), 'utf8')).toBe(
+        '{ invalid json }'
+      );
     });
 
     it('should reset invalid currentIndex to 0', () => {
@@ -113,6 +123,15 @@ describe('ConfigManager', () => {
       expect(fs.existsSync(path.join(tempDir, 'config.json'))).toBe(true);
     });
 
+    it.skipIf(process.platform === 'win32')('should restrict config file permissions', () => {
+      configManager.addConfig({
+        name: 'test',
+        env: { ANTHROPIC_AUTH_TOKEN: 'test-token' },
+      });
+
+      expect(fs.statSync(path.join(tempDir, 'config.json')).mode & 0o777).toBe(0o600);
+    });
+
     it('should handle save failure', () => {
       // Create a read-only directory to simulate save failure
       const readOnlyDir = path.join(os.tmpdir(), `auo-readonly-${Date.now()}`);
@@ -188,6 +207,24 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('listConfigs', () => {
+    it('should still print every configuration for library callers', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      configManager.addConfig({
+        name: 'second',
+        env: { ANTHROPIC_AUTH_TOKEN: 'second-token', API_TIMEOUT_MS: '600000' },
+      });
+      configManager.switchToIndex(1);
+
+      configManager.listConfigs();
+
+      const output = log.mock.calls.map(([line]) => String(line)).join('\n');
+      expect(output).toContain('👉 [1] second');
+      expect(output).toContain('Extra Env: API_TIMEOUT_MS');
+      expect(output).not.toContain('second-token');
+    });
+  });
+
   describe('removeConfigByIndex', () => {
     it('should successfully remove configuration by index', () => {
       // Add a configuration to remove
@@ -446,4 +483,53 @@ describe('ConfigManager', () => {
       expect(updatedConfig?.env.ANTHROPIC_AUTH_TOKEN).toBe('test-token'); // Should remain unchanged
     });
   });
+
+  describe('findConfigIndex', () => {
+    beforeEach(() => {
+      configManager.addConfig({
+        name: 'anyrouter-primary',
+        env: { ANTHROPIC_AUTH_TOKEN: 'primary-token' },
+      });
+      configManager.addConfig({
+        name: 'anyrouter-backup',
+        env: { ANTHROPIC_AUTH_TOKEN: 'backup-token' },
+      });
+    });
+
+    it('should find configuration by unique prefix', () => {
+      expect(configManager.findConfigIndex('anyrouter-b')).toBe(2);
+    });
+
+    it('should report ambiguous matches with candidates', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(configManager.findConfigIndex('anyrouter')).toBe(-1);
+      const output = errorSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+      expect(output).toContain('Ambiguous');
+      expect(output).toContain('[1] anyrouter-primary');
+      expect(output).toContain('[2] anyrouter-backup');
+    });
+
+    it('should select names that look like indices before indices', () => {
+      configManager.addConfig({ name: '1', env: { ANTHROPIC_AUTH_TOKEN: 'one-token' } });
+
+      expect(configManager.findConfigIndex('1')).toBe(3);
+      expect(configManager.findConfigIndex('0')).toBe(0);
+    });
+
+    it('should suggest instead of acting on fuzzy matches in strict mode', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(configManager.findConfigIndex('anyrouter-backpu')).toBe(2);
+      expect(configManager.findConfigIndex('anyrouter-backpu', { strict: true })).toBe(-1);
+      expect(configManager.findConfigIndex('anyrouter-p', { strict: true })).toBe(1);
+      const output = errorSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+      expect(output).toContain('Did you mean "anyrouter-backup"?');
+    });
+
+    it('should return -1 when nothing matches', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(configManager.findConfigIndex('missing-relay')).toBe(-1);
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { matchProviderName, editDistance } from '../../src/config/matcher';
+
+describe('matchProviderName', () => {
+  const names = ['default', 'anyrouter-primary', 'anyrouter-backup', 'official', 'Local-Dev'];
+
+  it('should match exact names', () => {
+    expect(matchProviderName(names, 'official')).toEqual({
+      status: 'found',
+      index: 3,
+      name: 'official',
+    });
+  });
+
+  it('should match names case-insensitively', () => {
+    expect(matchProviderName(names, 'local-dev')).toMatchObject({ status: 'found', index: 4 });
+  });
+
+  it('should match a unique prefix', () => {
+    expect(matchProviderName(names, 'off')).toMatchObject({ status: 'found', name: 'official' });
+  });
+
+  it('should report ambiguous prefixes with all candidates', () => {
+    expect(matchProviderName(names, 'anyrouter')).toEqual({
+      status: 'ambiguous',
+      candidates: ['anyrouter-primary', 'anyrouter-backup'],
+    });
+  });
+
+  it('should match unique substrings', () => {
+    expect(matchProviderName(names, 'backup')).toMatchObject({
+      status: 'found',
+      name: 'anyrouter-backup',
+    });
+  });
+
+  it('should match abbreviations as subsequences', () => {
+    expect(matchProviderName(names, 'arprim')).toMatchObject({
+      status: 'found',
+      name: 'anyrouter-primary',
+    });
+  });
+
+  it('should tolerate small typos', () => {
+    expect(matchProviderName(names, 'offical')).toMatchObject({
+      status: 'found',
+      name: 'official',
+    });
+  });
+
+  it('should prefer earlier stages over fuzzy matches', () => {
+    expect(matchProviderName(['dev', 'devel'], 'dev')).toMatchObject({
+      status: 'found',
+      name: 'dev',
+    });
+  });
+
+  it('should only accept exact names and unique prefixes in strict mode', () => {
+    const relays = ['relay-2', 'relay-backup'];
+    expect(matchProviderName(relays, 'relay-1')).toMatchObject({ name: 'relay-2' });
+    expect(matchProviderName(relays, 'relay-1', { strict: true })).toEqual({
+      status: 'not-found',
+    });
+    expect(matchProviderName(relays, 'RELAY-B', { strict: true })).toMatchObject({
+      name: 'relay-backup',
+    });
+  });
+
+  it('should report not found for unrelated or empty queries', () => {
+    expect(matchProviderName(names, 'zzzzzz')).toEqual({ status: 'not-found' });
+    expect(matchProviderName(names, '  ')).toEqual({ status: 'not-found' });
+  });
+});
+
+describe('editDistance', () => {
+  it('should compute Levenshtein distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+});
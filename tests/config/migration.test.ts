@@ -1,6 +1,6 @@
 import { describe, test, expect } from 'vitest';
 import { ConfigMigration } from '../../src/config/migration';
-import type { ConfigFileV1, ConfigFileV2 } from '../../src/config/types';
+import type { ConfigFileV1, ConfigFileV2, ConfigFileV3 } from '../../src/config/types';
 
 describe('ConfigMigration', () => {
   test('should detect v1 config needs migration', () => {
@@ -19,7 +19,7 @@ describe('ConfigMigration', () => {
     expect(ConfigMigration.needsMigration(v1Config)).toBe(true);
   });
 
-  test('should detect v2 config does not need migration', () => {
+  test('should detect v2 config needs migration', () => {
     const v2Config: ConfigFileV2 = {
       version: 'v2',
       providers: [
@@ -36,7 +36,17 @@ describe('ConfigMigration', () => {
       currentIndex: 0,
     };
 
-    expect(ConfigMigration.needsMigration(v2Config)).toBe(false);
+    expect(ConfigMigration.needsMigration(v2Config)).toBe(true);
+  });
+
+  test('should detect v3 config does not need migration', () => {
+    const v3Config: ConfigFileV3 = {
+      version: 'v3',
+      providers: [{ name: 'default', description: 'Default config', env: {} }],
+      currentIndex: 0,
+    };
+
+    expect(ConfigMigration.needsMigration(v3Config)).toBe(false);
   });
 
   test('should migrate v1 to v2 format correctly', () => {
@@ -161,11 +171,15 @@ describe('ConfigMigration', () => {
 
     expect(result.migrated).toBe(true);
     expect(result.fromVersion).toBe('v1');
-    expect(result.toVersion).toBe('v2');
-    expect(config.version).toBe('v2');
+    expect(result.toVersion).toBe('v3');
+    expect(config.version).toBe('v3');
+    expect(config.providers[0].env).toEqual({
+      ANTHROPIC_BASE_URL: 'https://api.anthropic.com',
+      ANTHROPIC_AUTH_TOKEN: 'sk-test-123',
+    });
   });
 
-  test('should not migrate already v2 config', () => {
+  test('should migrate v2 to v3 dropping unset variables', () => {
     const v2Config: ConfigFileV2 = {
       version: 'v2',
       providers: [
@@ -173,7 +187,9 @@ describe('ConfigMigration', () => {
           name: 'test',
           description: 'Test config',
           env: {
+            ANTHROPIC_BASE_URL: undefined,
             ANTHROPIC_AUTH_TOKEN: 'sk-test-123',
+            ANTHROPIC_MODEL: '',
           },
         },
       ],
@@ -182,8 +198,68 @@ describe('ConfigMigration', () => {
 
     const { config, result } = ConfigMigration.migrate(v2Config);
 
+    expect(result).toEqual({ migrated: true, fromVersion: 'v2', toVersion: 'v3' });
+    expect(config.version).toBe('v3');
+    expect(config.providers[0].env).toEqual({ ANTHROPIC_AUTH_TOKEN: 'sk-test-123' });
+    expect(ConfigMigration.validateV3Config(config)).toBe(true);
+  });
+
+  test('should not migrate already v3 config', () => {
+    const v3Config: ConfigFileV3 = {
+      version: 'v3',
+      providers: [
+        {
+          name: 'test',
+          description: 'Test config',
+          env: {
+            ANTHROPIC_AUTH_TOKEN: 'sk-test-123',
+            API_TIMEOUT_MS: '600000',
+          },
+        },
+      ],
+      currentIndex: 0,
+    };
+
+    const { config, result } = ConfigMigration.migrate(v3Config);
+
     expect(result.migrated).toBe(false);
-    expect(result.toVersion).toBe('v2');
-    expect(config).toBe(v2Config); // Should return same object
+    expect(result.toVersion).toBe('v3');
+    expect(config).toBe(v3Config); // Should return same object
+  });
+
+  test('should validate v3 config with arbitrary variables', () => {
+    const v3Config: ConfigFileV3 = {
+      version: 'v3',
+      providers: [
+        {
+          name: 'relay',
+          description: '',
+          env: {
+            ANTHROPIC_AUTH_TOKEN: 'sk-test-123',
+            HTTPS_PROXY: 'http://127.0.0.1:7890',
+            DISABLE_TELEMETRY: '1',
+          },
+        },
+      ],
+      currentIndex: 0,
+    };
+
+    expect(ConfigMigration.validateV3Config(v3Config)).toBe(true);
+  });
+
+  test('should invalidate v3 config with bad variable names or values', () => {
+    const badName = {
+      version: 'v3',
+      providers: [{ name: 'relay', description: '', env: { 'BAD-NAME': 'x' } }],
+      currentIndex: 0,
+    } as ConfigFileV3;
+    const badValue = {
+      version: 'v3',
+      providers: [{ name: 'relay', description: '', env: { API_TIMEOUT_MS: 600000 } }],
+      currentIndex: 0,
+    } as unknown as ConfigFileV3;
+
+    expect(ConfigMigration.validateV3Config(badName)).toBe(false);
+    expect(ConfigMigration.validateV3Config(badValue)).toBe(false);
   });
 });
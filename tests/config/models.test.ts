@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { mapModel, mapModelArgs } from '../../src/config/models';
+
+describe('model maps', () => {
+  const models = { 'sonnet[1m]': 'vendor/sonnet-long', opus: 'vendor/opus' };
+
+  it('should translate mapped names and keep the others', () => {
+    expect(mapModel(models, 'sonnet[1m]')).toBe('vendor/sonnet-long');
+    expect(mapModel(models, 'haiku')).toBe('haiku');
+    expect(mapModel(models, 'constructor')).toBe('constructor');
+    expect(mapModel(undefined, 'opus')).toBe('opus');
+  });
+
+  it('should translate model options of Claude Code arguments', () => {
+    expect(
+      mapModelArgs(['--model', 'opus', '--fallback-model=sonnet[1m]', '-p', 'opus'], models)
+    ).toEqual(['--model', 'vendor/opus', '--fallback-model=vendor/sonnet-long', '-p', 'opus']);
+    expect(mapModelArgs(['--', '--model', 'opus'], models)).toEqual(['--', '--model', 'opus']);
+    expect(mapModelArgs(['--model', 'opus'], undefined)).toEqual(['--model', 'opus']);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import { pickGroupMember } from '../../src/config/rotation';
+import { StateStore } from '../../src/config/state';
+import type { AuoState, ProviderGroup } from '../../src/types';
+
+/**
+ * Pick repeatedly, carrying the state over like consecutive launches
+ */
+function pickSequence(group: ProviderGroup, count: number, state: AuoState = {}): string[] {
+  const picks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const decision = pickGroupMember('pool', group, group.providers, state, 1000 + i);
+    picks.push(decision.selected);
+    state = decision.state;
+  }
+  return picks;
+}
+
+describe('rotation', () => {
+  describe('pickGroupMember', () => {
+    it('should take members in turn with round-robin', () => {
+      expect(pickSequence({ providers: ['a', 'b', 'c'] }, 4)).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should honor weights evenly with weighted', () => {
+      const group: ProviderGroup = {
+        providers: ['a', 'b'],
+        strategy: 'weighted',
+        weights: { a: 2 },
+      };
+      expect(pickSequence(group, 6)).toEqual(['a', 'b', 'a', 'a', 'b', 'a']);
+    });
+
+    it('should take the member used longest ago with least-recent', () => {
+      const state: AuoState = {
+        lastUsed: { a: new Date(500).toISOString(), b: new Date(100).toISOString() },
+      };
+      expect(
+        pickSequence({ providers: ['a', 'b', 'c'], strategy: 'least-recent' }, 3, state)
+      ).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should skip exhausted members until their reset time', () => {
+      const group: ProviderGroup = { providers: ['a', 'b'], strategy: 'until-exhausted' };
+      const state: AuoState = { exhausted: { a: new Date(5000).toISOString() } };
+
+      const during = pickGroupMember('pool', group, group.providers, state, 4000);
+      expect(during.selected).toBe('b');
+      expect(during.skipped).toEqual(['a']);
+      expect(pickGroupMember('pool', group, group.providers, state, 6000).selected).toBe('a');
+    });
+
+    it('should fall back to the member resetting first when all are exhausted', () => {
+      const state: AuoState = {
+        exhausted: { a: new Date(9000).toISOString(), b: new Date(7000).toISOString() },
+      };
+      const decision = pickGroupMember('pool', { providers: ['a', 'b'] }, ['a', 'b'], state, 0);
+
+      expect(decision.allExhausted).toBe(true);
+      expect(decision.selected).toBe('b');
+    });
+  });
+
+  describe('ConfigManager', () => {
+    let tempDir: string;
+    let configManager: ConfigManager;
+
+    beforeEach(() => {
+      tempDir = path.join(os.tmpdir(), `auo-rotation-test-${Date.now()}`);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      configManager = new ConfigManager({ configDir: tempDir });
+      for (const name of ['one', 'two', 'three']) {
+        configManager.addConfig({ name, env: { ANTHROPIC_AUTH_TOKEN: `sk-${name}` } });
+      }
+      configManager.setGroup('pool', { providers: ['one', 'two'] });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should delegate to the active group and continue between runs', () => {
+      expect(configManager.getCurrentConfig().name).toBe('default');
+
+      configManager.setActiveGroup('pool');
+      expect(configManager.getCurrentConfig().name).toBe('one');
+      expect(configManager.getCurrentConfig().name).toBe('one');
+
+      const picks = [1, 2, 3].map(
+        () => new ConfigManager({ configDir: tempDir }).getCurrentConfig({ rotate: true }).name
+      );
+      expect(picks).toEqual(['one', 'two', 'one']);
+      // Without rotating, the next pick is shown
+      expect(configManager.getCurrentIndex()).toBe(2);
+    });
+
+    it('should continue the rotation another launch saved after this one read the state', () => {
+      configManager.setActiveGroup('pool');
+      expect(configManager.getCurrentConfig({ rotate: true }).name).toBe('one');
+
+      // The first read happens before another launch saves its pick
+      vi.spyOn(StateStore.prototype, 'read').mockReturnValueOnce({});
+      expect(configManager.getCurrentConfig({ rotate: true }).name).toBe('two');
+    });
+
+    it('should hold the state lock while updating the state', () => {
+      const store = configManager.getStateStore();
+      store.update(() => {
+        expect(fs.existsSync(`${store.getStatePath()}.lock`)).toBe(true);
+      });
+      expect(fs.existsSync(`${store.getStatePath()}.lock`)).toBe(false);
+    });
+
+    it('should stop rotating when a configuration is picked by hand', () => {
+      configManager.setActiveGroup('pool');
+      configManager.switchToIndex(3);
+
+      expect(configManager.getActiveGroup()).toBeUndefined();
+      expect(configManager.getCurrentConfig().name).toBe('three');
+    });
+
+    it('should keep groups in sync with renamed and deleted providers', () => {
+      configManager.setGroup('pool', { providers: ['one', 'two'], weights: { one: 3 } });
+      configManager.updateConfig('one', { name: 'first' });
+      configManager.deleteConfig('two');
+
+      expect(configManager.getGroups()).toEqual({
+        pool: { providers: ['first'], weights: { first: 3 } },
+      });
+    });
+
+    it('should reject groups with unknown members or bad weights', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(configManager.setGroup('bad', { providers: ['nope'] })).toBe(false);
+      expect(configManager.setGroup('bad', { providers: ['one'], weights: { one: 0 } })).toBe(
+        false
+      );
+      expect(configManager.setActiveGroup('missing')).toBe(false);
+    });
+  });
+});
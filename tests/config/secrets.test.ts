@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/config/manager';
+import {
+  CommandValueSource,
+  EnvValueSource,
+  FileValueSource,
+  SecretResolver,
+  VaultSecretBackend,
+  decryptSecret,
+  encryptSecret,
+  formatSecretReference,
+  hasSecretReferences,
+  isSecretKey,
+  maskSecret,
+  parseSecretReference,
+} from '../../src/config/secrets';
+import { setupEnvironment } from '../../src/cli/commands';
+import { prepareSecretWrites } from '../../src/cli/secrets';
+import { MAX_BACKUPS } from '../../src/config/backups';
+
+describe('secrets', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-secrets-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('references', () => {
+    it('should parse and format secret references', () => {
+      const reference = formatSecretReference('vault', 'relay/ANTHROPIC_AUTH_TOKEN');
+      expect(reference).toBe('${vault:relay/ANTHROPIC_AUTH_TOKEN}');
+      expect(parseSecretReference(reference)).toEqual({
+        backend: 'vault',
+        id: 'relay/ANTHROPIC_AUTH_TOKEN',
+      });
+      expect(parseSecretReference('sk-plain-token')).toBeNull();
+      expect(parseSecretReference('${unknown:id}')).toBeNull();
+    });
+
+    it('should detect secret variable names and references', () => {
+      expect(isSecretKey('ANTHROPIC_AUTH_TOKEN')).toBe(true);
+      expect(isSecretKey('ANTHROPIC_API_KEY')).toBe(true);
+      expect(isSecretKey('ANTHROPIC_MODEL')).toBe(false);
+      expect(hasSecretReferences({ A: '${keychain:x}' }, 'vault')).toBe(false);
+      expect(hasSecretReferences({ A: '${keychain:x}' })).toBe(true);
+    });
+
+    it('should mask secrets for display', () => {
+      expect(maskSecret('sk-ant-api03-abcdefabcd')).toBe('sk-...abcd');
+      expect(maskSecret('short')).toBe('*****');
+      expect(maskSecret('${vault:relay/ANTHROPIC_AUTH_TOKEN}')).toBe(
+        '${vault:relay/ANTHROPIC_AUTH_TOKEN}'
+      );
+    });
+  });
+
+  describe('encryptSecret', () => {
+    it('should round-trip values with the right passphrase only', () => {
+      const encrypted = encryptSecret('sk-secret', 'correct horse');
+      expect(JSON.stringify(encrypted)).not.toContain('sk-secret');
+      expect(decryptSecret(encrypted, 'correct horse')).toBe('sk-secret');
+      expect(() => decryptSecret(encrypted, 'wrong')).toThrow('Wrong passphrase');
+    });
+  });
+
+  describe('VaultSecretBackend', () => {
+    it('should store encrypted secrets in a private file', () => {
+      const vaultFile = path.join(tempDir, 'vault.json');
+      const vault = new VaultSecretBackend(vaultFile, () => 'passphrase');
+
+      vault.set('relay/ANTHROPIC_AUTH_TOKEN', 'sk-relay');
+
+      const content = fs.readFileSync(vaultFile, 'utf8');
+      expect(content).not.toContain('sk-relay');
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(vaultFile).mode & 0o777).toBe(0o600);
+      }
+
+      const reopened = new VaultSecretBackend(vaultFile, () => 'passphrase');
+      expect(reopened.get('relay/ANTHROPIC_AUTH_TOKEN')).toBe('sk-relay');
+      expect(reopened.get('missing')).toBeNull();
+    });
+
+    it('should reject a wrong passphrase', () => {
+      const vaultFile = path.join(tempDir, 'vault.json');
+      new VaultSecretBackend(vaultFile, () => 'right').set('id', 'value');
+
+      const locked = new VaultSecretBackend(vaultFile, () => 'wrong');
+      expect(() => locked.get('id')).toThrow('Wrong vault passphrase');
+      expect(() => locked.set('other', 'value')).toThrow('Wrong vault passphrase');
+    });
+  });
+
+  describe('SecretResolver', () => {
+    it('should resolve references and report missing secrets clearly', () => {
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      vault.set('relay/TOKEN', 'sk-relay');
+      const resolver = new SecretResolver([vault]);
+
+      expect(resolver.resolveValue('TOKEN', '${vault:relay/TOKEN}')).toBe('sk-relay');
+      expect(resolver.resolveValue('MODEL', 'claude')).toBe('claude');
+      expect(() => resolver.resolveValue('TOKEN', '${vault:other}')).toThrow(
+        'Secret "other" for TOKEN not found in vault'
+      );
+      expect(() => resolver.resolveValue('TOKEN', '${keychain:x}')).toThrow(
+        'No "keychain" secret backend'
+      );
+    });
+
+    it('should interpolate env, file and command references', () => {
+      const tokenFile = path.join(tempDir, 'token');
+      fs.writeFileSync(tokenFile, 'sk-from-file\n');
+      const resolver = new SecretResolver(
+        [],
+        [
+          new EnvValueSource({ RELAY_HOST: 'relay.example.com' }),
+          new FileValueSource(),
+          new CommandValueSource(),
+        ]
+      );
+
+      expect(resolver.resolveValue('URL', 'https://${env:RELAY_HOST}/api')).toBe(
+        'https://relay.example.com/api'
+      );
+      expect(resolver.resolveValue('TOKEN', `\${file:${tokenFile}}`)).toBe('sk-from-file');
+      expect(resolver.resolveValue('TOKEN', '${cmd:echo sk-from-cmd}')).toBe('sk-from-cmd');
+      expect(resolver.resolveValue('PLAIN', '${other:x}')).toBe('${other:x}');
+    });
+
+    it('should explain why a reference cannot be resolved', () => {
+      const resolver = new SecretResolver(
+        [],
+        [new EnvValueSource({}), new FileValueSource(), new CommandValueSource()]
+      );
+
+      expect(() => resolver.resolveValue('TOKEN', '${env:MISSING}')).toThrow(
+        'Failed to resolve ${env:MISSING} in TOKEN: environment variable MISSING is not set'
+      );
+      expect(() =>
+        resolver.resolveValue('TOKEN', `\${file:${path.join(tempDir, 'none')}}`)
+      ).toThrow(/cannot read .*none \(ENOENT\)/);
+      expect(() => resolver.resolveValue('TOKEN', '${cmd:exit 3}')).toThrow(
+        'Failed to resolve ${cmd:exit 3} in TOKEN: command exited with code 3'
+      );
+    });
+
+    it('should run each command once per resolver', () => {
+      const counter = path.join(tempDir, 'count');
+      const resolver = new SecretResolver([], [new CommandValueSource()]);
+      const value = `\${cmd:echo x >> ${counter}; echo sk}`;
+
+      resolver.resolveValue('A', value);
+      resolver.resolveValue('B', value);
+
+      expect(fs.readFileSync(counter, 'utf8')).toBe('x\n');
+    });
+  });
+
+  describe('ConfigManager.moveSecretsToBackend', () => {
+    it('should leave references and never write resolved values', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({
+        name: 'relay',
+        env: { ANTHROPIC_AUTH_TOKEN: '${env:AUO_TEST_RELAY_TOKEN}' },
+      });
+      vi.stubEnv('AUO_TEST_RELAY_TOKEN', 'sk-env-token');
+
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      expect(configManager.moveSecretsToBackend(vault)).toEqual([]);
+      expect(setupEnvironment(configManager.getConfig('relay')!)).toEqual({
+        ANTHROPIC_AUTH_TOKEN: 'sk-env-token',
+      });
+      expect(fs.readFileSync(configManager.getConfigPath(), 'utf8')).not.toContain('sk-env-token');
+      expect(maskSecret('${env:AUO_TEST_RELAY_TOKEN}')).toBe('${env:AUO_TEST_RELAY_TOKEN}');
+      vi.unstubAllEnvs();
+    });
+
+    it('should keep only references in the config file and resolve them at launch', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({
+        name: 'relay',
+        env: {
+          ANTHROPIC_BASE_URL: 'https://relay.example.com',
+          ANTHROPIC_AUTH_TOKEN: 'sk-relay-token',
+        },
+      });
+
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      const moved = configManager.moveSecretsToBackend(vault);
+
+      expect(moved).toEqual(['relay/ANTHROPIC_AUTH_TOKEN']);
+      const raw = fs.readFileSync(configManager.getConfigPath(), 'utf8');
+      expect(raw).not.toContain('sk-relay-token');
+      expect(raw).toMatch(/\$\{vault:relay\/ANTHROPIC_AUTH_TOKEN-[0-9a-f]{8}\}/);
+
+      const relay = configManager.getConfig('relay')!;
+      expect(() => setupEnvironment(relay)).toThrow('not resolved');
+      expect(setupEnvironment(relay, new SecretResolver([vault]))).toEqual({
+        ANTHROPIC_BASE_URL: 'https://relay.example.com',
+        ANTHROPIC_AUTH_TOKEN: 'sk-relay-token',
+      });
+
+      // Running again finds nothing left to move
+      expect(configManager.moveSecretsToBackend(vault)).toEqual([]);
+    });
+
+    it('should move plaintext secrets out of backup snapshots too', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' } });
+      configManager.addConfig({ name: 'old', env: { ANTHROPIC_AUTH_TOKEN: 'sk-old-token' } });
+      configManager.deleteConfig('old');
+
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      configManager.moveSecretsToBackend(vault);
+
+      const backups = configManager.getBackupStore().list();
+      expect(backups.map((backup) => backup.operation)).toEqual(['secrets-migrate', 'delete']);
+      for (const backup of backups) {
+        expect(fs.readFileSync(backup.path, 'utf8')).not.toMatch(/sk-(relay|old)-token/);
+      }
+      // The current configuration and the snapshots share one entry per token
+      expect(
+        Object.keys(JSON.parse(fs.readFileSync(path.join(tempDir, 'vault.json'), 'utf8')).entries)
+      ).toHaveLength(2);
+
+      configManager.restoreBackup(backups[1]!);
+      expect(fs.readFileSync(configManager.getConfigPath(), 'utf8')).not.toContain('sk-old-token');
+      expect(
+        setupEnvironment(configManager.getConfig('old')!, new SecretResolver([vault]))
+      ).toEqual({ ANTHROPIC_AUTH_TOKEN: 'sk-old-token' });
+    });
+
+    it('should not overwrite secrets of a renamed provider when its name is reused', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-old-token' } });
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      configManager.moveSecretsToBackend(vault);
+
+      configManager.updateConfig('relay', { name: 'relay-old' });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-new-token' } });
+      configManager.moveSecretsToBackend(vault);
+
+      const resolver = new SecretResolver([vault]);
+      expect(setupEnvironment(configManager.getConfig('relay-old')!, resolver)).toEqual({
+        ANTHROPIC_AUTH_TOKEN: 'sk-old-token',
+      });
+      expect(setupEnvironment(configManager.getConfig('relay')!, resolver)).toEqual({
+        ANTHROPIC_AUTH_TOKEN: 'sk-new-token',
+      });
+    });
+
+    it('should remove stored secrets of deleted and edited providers once no snapshot needs them', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' } });
+      configManager.addConfig({ name: 'backup', env: { ANTHROPIC_AUTH_TOKEN: 'sk-backup-token' } });
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      configManager.moveSecretsToBackend(vault);
+      const entries = () =>
+        Object.keys(JSON.parse(fs.readFileSync(path.join(tempDir, 'vault.json'), 'utf8')).entries);
+      expect(entries()).toHaveLength(2);
+
+      configManager.updateConfig('backup', { env: { ANTHROPIC_AUTH_TOKEN: '${env:TOKEN}' } });
+      configManager.deleteConfig('relay');
+      expect(entries()).toHaveLength(2);
+
+      // Restoring the snapshot taken before the delete brings back a working token
+      configManager.restoreBackup(configManager.getBackupStore().list()[0]!);
+      expect(
+        setupEnvironment(configManager.getConfig('relay')!, new SecretResolver([vault]))
+      ).toEqual({ ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' });
+
+      configManager.deleteConfig('relay');
+      for (let i = 0; i <= MAX_BACKUPS; i++) {
+        configManager.updateConfig('backup', { env: { API_TIMEOUT_MS: String(i) } });
+      }
+      expect(entries()).toEqual([]);
+    });
+
+    it('should remove stored secrets of providers an import replaces', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' } });
+      configManager.moveSecretsToBackend(
+        new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw')
+      );
+      const incoming = configManager.getConfigFile();
+      incoming.providers = [
+        { name: 'relay', description: '', env: { ANTHROPIC_AUTH_TOKEN: '${env:TOKEN}' } },
+      ];
+
+      configManager.importConfig(incoming, { onConflict: 'overwrite' });
+      for (let i = 0; i < MAX_BACKUPS; i++) {
+        configManager.updateConfig('relay', { env: { API_TIMEOUT_MS: String(i) } });
+      }
+
+      const vault = JSON.parse(fs.readFileSync(path.join(tempDir, 'vault.json'), 'utf8'));
+      expect(vault.entries).toEqual({});
+    });
+
+    it('should store secrets written after migrating in the backend', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.stubEnv('AUO_VAULT_PASSPHRASE', 'pw');
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' } });
+      const vault = new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw');
+      configManager.moveSecretsToBackend(vault);
+
+      const env = { ANTHROPIC_AUTH_TOKEN: 'sk-new-token' };
+      expect(await prepareSecretWrites(configManager, env)).toBe(true);
+      expect(configManager.addConfig({ name: 'new', env })).toBe(true);
+
+      expect(fs.readFileSync(configManager.getConfigPath(), 'utf8')).not.toContain('sk-new-token');
+      expect(
+        setupEnvironment(configManager.getConfig('new')!, new SecretResolver([vault]))
+      ).toEqual(env);
+      vi.unstubAllEnvs();
+    });
+
+    it('should refuse to write a secret while the vault is locked', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubEnv('AUO_VAULT_PASSPHRASE', '');
+      const configManager = new ConfigManager({ configDir: tempDir });
+      configManager.addConfig({ name: 'relay', env: { ANTHROPIC_AUTH_TOKEN: 'sk-relay-token' } });
+      configManager.moveSecretsToBackend(
+        new VaultSecretBackend(path.join(tempDir, 'vault.json'), () => 'pw')
+      );
+
+      expect(await prepareSecretWrites(configManager, { ANTHROPIC_API_KEY: 'sk-key' })).toBe(false);
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Vault is locked'));
+      // Values that aren't secrets need no backend
+      expect(await prepareSecretWrites(configManager, { ANTHROPIC_MODEL: 'm' })).toBe(true);
+      vi.unstubAllEnvs();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { FileLock, writeFileAtomic } from '../../src/config/storage';
+
+describe('storage', () => {
+  let tempDir: string;
+  let lockFile: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-storage-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+    lockFile = path.join(tempDir, 'config.json.lock');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file without leaving temporary files', () => {
+      const file = path.join(tempDir, 'config.json');
+      fs.writeFileSync(file, 'old');
+
+      writeFileAtomic(file, 'new');
+
+      expect(fs.readFileSync(file, 'utf8')).toBe('new');
+      expect(fs.readdirSync(tempDir)).toEqual(['config.json']);
+    });
+
+    it.skipIf(process.platform === 'win32')('should apply the given mode', () => {
+      const file = path.join(tempDir, 'config.json');
+      writeFileAtomic(file, '{}', 0o600);
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('FileLock', () => {
+    it('should hold the lock while running and release it afterwards', () => {
+      const lock = new FileLock(lockFile);
+
+      const result = lock.withLock(() => {
+        expect(fs.existsSync(lockFile)).toBe(true);
+        // Nested calls reuse the held lock
+        return lock.withLock(() => 42);
+      });
+
+      expect(result).toBe(42);
+      expect(fs.existsSync(lockFile)).toBe(false);
+    });
+
+    it('should release the lock when the function throws', () => {
+      const lock = new FileLock(lockFile);
+
+      expect(() =>
+        lock.withLock(() => {
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+      expect(fs.existsSync(lockFile)).toBe(false);
+    });
+
+    it('should time out while another live process holds the lock', () => {
+      fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, createdAt: Date.now() }));
+
+      expect(() => new FileLock(lockFile, 100).withLock(() => undefined)).toThrow(
+        `Configuration is locked by process ${process.ppid}`
+      );
+      expect(fs.existsSync(lockFile)).toBe(true);
+    });
+
+    it('should take over stale locks', () => {
+      const lock = new FileLock(lockFile, 100);
+
+      fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, createdAt: 0 }));
+      expect(lock.withLock(() => 'old lock')).toBe('old lock');
+
+      fs.writeFileSync(lockFile, JSON.stringify({ pid: 2 ** 22 + 1, createdAt: Date.now() }));
+      expect(lock.withLock(() => 'dead owner')).toBe('dead owner');
+    });
+
+    it('should not remove a lock taken over by another process in the meantime', () => {
+      const fresh = JSON.stringify({ pid: process.ppid, createdAt: Date.now() });
+      fs.writeFileSync(lockFile, fresh);
+      // The first read still sees the stale lock the other process has just replaced
+      const readFileSync = fs.readFileSync;
+      vi.spyOn(fs, 'readFileSync').mockImplementationOnce(() =>
+        JSON.stringify({ pid: process.ppid, createdAt: 0 })
+      );
+
+      expect(() => new FileLock(lockFile, 100).withLock(() => undefined)).toThrow(
+        `Configuration is locked by process ${process.ppid}`
+      );
+      expect(readFileSync(lockFile, 'utf8')).toBe(fresh);
+    });
+
+    it('should leave stale locks to a takeover already in progress', () => {
+      fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, createdAt: 0 }));
+      fs.writeFileSync(`${lockFile}.takeover`, String(process.ppid));
+
+      expect(() => new FileLock(lockFile, 100).withLock(() => undefined)).toThrow(
+        'Configuration is locked'
+      );
+
+      fs.rmSync(`${lockFile}.takeover`);
+      expect(new FileLock(lockFile, 100).withLock(() => 'taken over')).toBe('taken over');
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  UsageLog,
+  getTranscriptDir,
+  readTranscriptUsage,
+  summarizeSessions,
+} from '../../src/config/usage';
+import type { SessionRecord } from '../../src/types';
+
+describe('usage', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-usage-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('UsageLog', () => {
+    it('should join start and end records and skip damaged lines', () => {
+      const log = new UsageLog(tempDir);
+      const first = log.start({ provider: 'relay', model: 'opus', cwd: '/work/app' });
+      const second = log.start({ provider: 'official', cwd: '/work/lib' });
+      fs.appendFileSync(log.getLogPath(), '{ broken\nnull\n');
+      log.finish(first, 0, { input: 10, output: 5, cacheCreation: 0, cacheRead: 100 });
+
+      const sessions = log.read();
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0]).toMatchObject({
+        id: first.id,
+        provider: 'relay',
+        model: 'opus',
+        exitCode: 0,
+        tokens: { input: 10, output: 5, cacheCreation: 0, cacheRead: 100 },
+      });
+      expect(sessions[0]?.endedAt).toBeDefined();
+      expect(sessions[1]).toEqual(second);
+    });
+  });
+
+  describe('readTranscriptUsage', () => {
+    it('should sum usage inside the session window once per message', () => {
+      const dir = getTranscriptDir(tempDir, '/work/my.app');
+      expect(dir).toBe(path.join(tempDir, 'projects', '-work-my-app'));
+      fs.mkdirSync(dir, { recursive: true });
+
+      const line = (timestamp: string, id: string, input: number, output: number): string =>
+        JSON.stringify({
+          timestamp,
+          message: { id, usage: { input_tokens: input, output_tokens: output } },
+        });
+      fs.writeFileSync(
+        path.join(dir, 'session.jsonl'),
+        [
+          line('2026-01-01T09:00:00Z', 'before', 1000, 1000),
+          line('2026-01-01T10:00:00Z', 'msg-1', 10, 20),
+          line('2026-01-01T10:00:01Z', 'msg-1', 10, 20),
+          line('2026-01-01T10:05:00Z', 'msg-2', 5, 1),
+          '{"type":"user","timestamp":"2026-01-01T10:06:00Z"}',
+          'not json',
+        ].join('\n')
+      );
+
+      const window = [new Date('2026-01-01T09:30:00Z'), new Date('2026-01-01T11:00:00Z')] as const;
+
+      expect(readTranscriptUsage(dir, ...window)).toEqual({
+        input: 15,
+        output: 21,
+        cacheCreation: 0,
+        cacheRead: 0,
+      });
+      expect(readTranscriptUsage(path.join(tempDir, 'missing'), ...window)).toBeNull();
+    });
+  });
+
+  describe('summarizeSessions', () => {
+    const session = (overrides: Partial<SessionRecord>): SessionRecord => ({
+      id: Math.random().toString(),
+      provider: 'relay',
+      cwd: '/work/app',
+      startedAt: '2026-01-01T10:00:00Z',
+      endedAt: '2026-01-01T10:30:00Z',
+      exitCode: 0,
+      ...overrides,
+    });
+
+    it('should group sessions and add up time, failures and tokens', () => {
+      const sessions = [
+        session({ tokens: { input: 1, output: 2, cacheCreation: 3, cacheRead: 4 } }),
+        session({ exitCode: 1, tokens: { input: 1, output: 1, cacheCreation: 1, cacheRead: 1 } }),
+        session({ provider: 'official', cwd: '/work/lib', endedAt: undefined }),
+      ];
+
+      expect(summarizeSessions(sessions, 'provider')).toEqual([
+        {
+          key: 'relay',
+          sessions: 2,
+          failed: 1,
+          durationMs: 60 * 60 * 1000,
+          tokens: { input: 2, output: 3, cacheCreation: 4, cacheRead: 5 },
+        },
+        { key: 'official', sessions: 1, failed: 0, durationMs: 0 },
+      ]);
+      expect(summarizeSessions(sessions, 'project').map((group) => group.key)).toEqual([
+        '/work/app',
+        '/work/lib',
+      ]);
+      expect(summarizeSessions(sessions, 'day')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createResponseTranslator,
+  isMessagesRequest,
+  toAnthropicError,
+  toAnthropicMessage,
+  toOpenAIRequest,
+  validateMessagesRequest,
+} from '../../src/proxy/openai';
+
+/**
+ * Parse translated server-sent events into their data objects
+ */
+function parseEvents(text: string): Array<Record<string, unknown>> {
+  return text
+    .split('\n')
+    .filter((line) => line.startsWith('data: '))
+    .map((line) => JSON.parse(line.slice(6)) as Record<string, unknown>);
+}
+
+describe('OpenAI translation', () => {
+  it('should only translate Messages API requests', () => {
+    expect(isMessagesRequest('POST', '/v1/messages?beta=true')).toBe(true);
+    expect(isMessagesRequest('POST', '/v1/messages/count_tokens')).toBe(false);
+    expect(isMessagesRequest('GET', '/v1/messages')).toBe(false);
+  });
+
+  it('should report the first problem of a malformed request', () => {
+    expect(
+      validateMessagesRequest({
+        system: [{ type: 'text', text: 'Be brief.' }],
+        messages: [
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'a', content: 'ok' }] },
+        ],
+      })
+    ).toBeNull();
+    expect(validateMessagesRequest(null)).toBe('request body must be a JSON object');
+    expect(validateMessagesRequest({ messages: 'hi' })).toBe('"messages" must be an array');
+    expect(validateMessagesRequest({ messages: [{ role: 'user', content: [null] }] })).toBe(
+      '"messages.0" must have a role and string or block content'
+    );
+    expect(validateMessagesRequest({ messages: [], tool_choice: 'auto' })).toBe(
+      '"tool_choice" must be an object with a type'
+    );
+  });
+
+  it('should convert messages, tool calls and tool results to chat completions', () => {
+    const request = toOpenAIRequest({
+      model: 'gpt-4o',
+      system: [{ type: 'text', text: 'Be brief.', cache_control: { type: 'ephemeral' } }],
+      max_tokens: 256,
+      stop_sequences: ['END'],
+      stream: true,
+      messages: [
+        { role: 'user', content: 'What is the weather in Paris?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'Call the tool.' },
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'call_1',
+              content: [{ type: 'text', text: '21C' }],
+            },
+            { type: 'text', text: 'And now?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+      ],
+      tools: [
+        {
+          name: 'weather',
+          description: 'Current weather',
+          input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+        { type: 'web_search_20250305', name: 'web_search' },
+      ],
+      tool_choice: { type: 'any', disable_parallel_tool_use: true },
+    });
+
+    expect(request).toEqual({
+      model: 'gpt-4o',
+      max_tokens: 256,
+      stop: ['END'],
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What is the weather in Paris?' },
+        {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '21C' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And now?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'weather',
+            description: 'Current weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } } },
+          },
+        },
+      ],
+      tool_choice: 'required',
+      parallel_tool_calls: false,
+    });
+  });
+
+  it('should convert a completion with tool calls to a message', () => {
+    const message = toAnthropicMessage(
+      {
+        id: 'chatcmpl-1',
+        choices: [
+          {
+            message: {
+              content: 'Let me check.',
+              tool_calls: [
+                {
+                  id: 'call_2',
+                  type: 'function',
+                  function: { name: 'weather', arguments: '{"city":"Oslo"}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 30, completion_tokens: 9 },
+      },
+      'claude-sonnet-4-5'
+    );
+
+    expect(message).toEqual({
+      id: 'chatcmpl-1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'call_2', name: 'weather', input: { city: 'Oslo' } },
+      ],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 30, output_tokens: 9 },
+    });
+  });
+
+  it('should convert errors of any shape', () => {
+    expect(toAnthropicError(429, '{"error":{"message":"Slow down","type":"requests"}}')).toEqual({
+      type: 'error',
+      error: { type: 'rate_limit_error', message: 'Slow down' },
+    });
+    expect(toAnthropicError(500, 'Bad gateway')).toEqual({
+      type: 'error',
+      error: { type: 'api_error', message: 'Bad gateway' },
+    });
+  });
+
+  it('should mark failed tool results in the tool message', () => {
+    const request = toOpenAIRequest({
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call_1', content: 'No such file', is_error: true },
+          ],
+        },
+      ],
+    });
+
+    expect(request.messages).toEqual([
+      { role: 'tool', tool_call_id: 'call_1', content: 'Error: No such file' },
+    ]);
+  });
+
+  it('should answer 502 when a successful response is not a chat completion', () => {
+    for (const body of ['<html>Gateway</html>', '{"error":{"message":"quota exceeded"}}']) {
+      const translator = createResponseTranslator(200, false, 'm');
+      translator.write(Buffer.from(body));
+      const translated = JSON.parse(translator.end()) as { error: { message: string } };
+
+      expect(translator.status).toBe(502);
+      expect(translated.error.message).toMatch(/^Invalid chat completions response: /);
+    }
+
+    const translator = createResponseTranslator(200, false, 'm');
+    translator.write(Buffer.from('{"choices":[{"message":{"content":"Hi"}}]}'));
+    translator.end();
+    expect(translator.status).toBeUndefined();
+  });
+
+  it('should translate a stream of text and tool call chunks split anywhere', () => {
+    const chunks = [
+      { id: 'chatcmpl-2', choices: [{ delta: { role: 'assistant', content: 'Sure' } }] },
+      { choices: [{ delta: { content: ', checking.' } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                { index: 0, id: 'call_3', function: { name: 'weather', arguments: '{"ci' } },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        choices: [
+          { delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Rome"}' } }] } },
+        ],
+      },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 40, completion_tokens: 12 } },
+    ];
+    const body = `${chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('')}data: [DONE]\n\n`;
+
+    const translator = createResponseTranslator(200, true, 'claude-sonnet-4-5');
+    let text = '';
+    for (let i = 0; i < body.length; i += 7) {
+      text += translator.write(Buffer.from(body.slice(i, i + 7)));
+    }
+    text += translator.end();
+
+    expect(translator.contentType).toBe('text/event-stream');
+    expect(text).toContain('event: message_start\n');
+    expect(parseEvents(text)).toEqual([
+      {
+        type: 'message_start',
+        message: {
+          id: 'chatcmpl-2',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Sure' } },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: ', checking.' },
+      },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'call_3', name: 'weather', input: {} },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '{"ci' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: 'ty":"Rome"}' },
+      },
+      { type: 'content_block_stop', index: 1 },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { input_tokens: 40, output_tokens: 12 },
+      },
+      { type: 'message_stop' },
+    ]);
+  });
+
+  it('should keep characters split across chunks whole', () => {
+    const body = Buffer.from(
+      'data: {"choices":[{"delta":{"content":"世界"}}]}\n\ndata: [DONE]\n\n'
+    );
+    // Split inside the three bytes of "世"
+    const split = body.indexOf(Buffer.from('世')) + 1;
+
+    const translator = createResponseTranslator(200, true, 'm');
+    const text =
+      translator.write(body.subarray(0, split)) +
+      translator.write(body.subarray(split)) +
+      translator.end();
+
+    expect(parseEvents(text)).toContainEqual({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'text_delta', text: '世界' },
+    });
+  });
+
+  it('should skip malformed chunks and still end the message without [DONE]', () => {
+    const translator = createResponseTranslator(200, true, 'm');
+    const text =
+      translator.write(Buffer.from('data: null\ndata: {"choices":"x"}\n')) +
+      translator.write(Buffer.from('data: {"choices":[{"delta":{"content":"Hi"}}]}\n')) +
+      translator.end();
+
+    expect(parseEvents(text).map((event) => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+  });
+});
@@ -0,0 +1,610 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import path from 'path';
+import os from 'os';
+import type { AddressInfo } from 'net';
+import { ProxyLog } from '../../src/proxy/log';
+import { parseResponseUsage, startProxy } from '../../src/proxy/server';
+import type { RunningProxy } from '../../src/types';
+
+/**
+ * Request received by the fake upstream
+ */
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Start a fake upstream answering every request with the given handler
+ */
+async function startUpstream(
+  handler: (request: ReceivedRequest, response: http.ServerResponse) => void
+): Promise<{ url: string; received: ReceivedRequest[]; server: http.Server }> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      const entry = { url: request.url || '', headers: request.headers, body };
+      received.push(entry);
+      handler(entry, response);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, received, server };
+}
+
+const SSE_BODY = [
+  'event: message_start',
+  'data: {"type":"message_start","message":{"usage":{"input_tokens":12,"output_tokens":1}}}',
+  '',
+  'event: content_block_delta',
+  'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}',
+  '',
+  'event: message_delta',
+  'data: {"type":"message_delta","usage":{"output_tokens":7}}',
+  '',
+  '',
+].join('\n');
+
+describe('local proxy', () => {
+  let tempDir: string;
+  let log: ProxyLog;
+  let upstream: Awaited<ReturnType<typeof startUpstream>> | undefined;
+  let proxy: RunningProxy | undefined;
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `auo-proxy-test-${Date.now()}`);
+    log = new ProxyLog(tempDir);
+  });
+
+  /**
+   * Send a request to the proxy with the session token
+   */
+  const send = (requestPath: string, init: RequestInit = {}): Promise<Response> => {
+    if (!proxy) {
+      throw new Error('The proxy is not running');
+    }
+    return fetch(`${proxy.url}${requestPath}`, {
+      ...init,
+      headers: { 'x-auo-proxy-token': proxy.token, ...(init.headers as Record<string, string>) },
+    });
+  };
+
+  afterEach(async () => {
+    await proxy?.close();
+    upstream?.server.close();
+    proxy = undefined;
+    upstream = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should forward requests with the provider credentials and log metadata', async () => {
+    upstream = await startUpstream((_request, response) => {
+      response.writeHead(200, {
+        'content-type': 'application/json',
+        'anthropic-ratelimit-requests-remaining': '41',
+        'request-id': 'req_1',
+      });
+      response.end(JSON.stringify({ id: 'msg_1', usage: { input_tokens: 5, output_tokens: 3 } }));
+    });
+    proxy = await startProxy(
+      {
+        upstreams: [
+          {
+            provider: 'relay',
+            env: {
+              ANTHROPIC_BASE_URL: `${upstream.url}/api/`,
+              ANTHROPIC_AUTH_TOKEN: 'sk-relay-secret',
+            },
+          },
+        ],
+      },
+      log
+    );
+
+    const response = await send('/v1/messages?beta=true', {
+      method: 'POST',
+      headers: { authorization: 'Bearer other', 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-sonnet-4', messages: [] }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 'msg_1' });
+    expect(upstream.received[0]?.url).toBe('/api/v1/messages?beta=true');
+    expect(upstream.received[0]?.headers.authorization).toBe('Bearer sk-relay-secret');
+    expect(upstream.received[0]?.headers['accept-encoding']).toBeUndefined();
+
+    const [entry] = log.read();
+    expect(entry).toMatchObject({
+      provider: 'relay',
+      method: 'POST',
+      path: '/v1/messages?beta=true',
+      model: 'claude-sonnet-4',
+      status: 200,
+      tokens: { input: 5, output: 3, cacheCreation: 0, cacheRead: 0 },
+      headers: { 'anthropic-ratelimit-requests-remaining': '41', 'request-id': 'req_1' },
+    });
+    expect(entry?.transcript).toBeUndefined();
+  });
+
+  it('should refuse requests without the session token and never forward it', async () => {
+    upstream = await startUpstream((_request, response) => response.end('{}'));
+    proxy = await startProxy(
+      { upstreams: [{ provider: 'official', env: { ANTHROPIC_BASE_URL: upstream.url } }] },
+      log
+    );
+
+    const refused = await fetch(`${proxy.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'x-api-key': 'guess' },
+      body: '{}',
+    });
+    expect(refused.status).toBe(401);
+    expect(upstream.received).toHaveLength(0);
+
+    // Claude Code signed in on its own keeps its credentials, the token goes in its own header
+    await send('/v1/messages', {
+      method: 'POST',
+      headers: { authorization: 'Bearer oauth-login' },
+      body: '{}',
+    });
+    await fetch(`${proxy.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'x-api-key': proxy.token },
+      body: '{}',
+    });
+    expect(upstream.received.map((request) => request.headers)).toEqual([
+      expect.objectContaining({ authorization: 'Bearer oauth-login' }),
+      expect.not.objectContaining({ 'x-api-key': expect.anything() }),
+    ]);
+    expect(upstream.received[0]?.headers['x-auo-proxy-token']).toBeUndefined();
+  });
+
+  it('should pass server-sent events through unchanged', async () => {
+    upstream = await startUpstream((_request, response) => {
+      response.writeHead(200, { 'content-type': 'text/event-stream' });
+      // Send the events in pieces, like a real stream
+      response.write(SSE_BODY.slice(0, 40));
+      setTimeout(() => response.end(SSE_BODY.slice(40)), 10);
+    });
+    proxy = await startProxy(
+      { upstreams: [{ provider: 'relay', env: { ANTHROPIC_BASE_URL: upstream.url } }] },
+      log
+    );
+
+    const response = await send('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'opus', stream: true }),
+    });
+
+    expect(await response.text()).toBe(SSE_BODY);
+    expect(log.read()[0]).toMatchObject({ stream: true, tokens: { input: 12, output: 7 } });
+  });
+
+  it('should log a stream cut off by Claude Code as aborted', async () => {
+    upstream = await startUpstream((_request, response) => {
+      response.writeHead(200, { 'content-type': 'text/event-stream' });
+      // Send the first event only and keep the stream open
+      response.write(SSE_BODY.slice(0, SSE_BODY.indexOf('event: content_block_delta')));
+    });
+    proxy = await startProxy(
+      { upstreams: [{ provider: 'relay', env: { ANTHROPIC_BASE_URL: upstream.url } }] },
+      log
+    );
+
+    const controller = new AbortController();
+    const response = await send('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'opus', stream: true }),
+      signal: controller.signal,
+    });
+    await response.body?.getReader().read();
+    controller.abort();
+
+    await expect.poll(() => log.read().length).toBe(1);
+    expect(log.read()[0]).toMatchObject({
+      status: 200,
+      stream: true,
+      aborted: true,
+      tokens: { input: 12, output: 1 },
+    });
+  });
+
+  it('should reach the provider through the proxy set in its env', async () => {
+    upstream = await startUpstream((_request, response) => response.end('{"id":"msg_1"}'));
+    const tunnels: string[] = [];
+    const tunnel = http.createServer();
+    tunnel.on('connect', (request: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      tunnels.push(request.url || '');
+      const target = net.connect(Number(new URL(upstream?.url || '').port), '127.0.0.1', () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        target.write(head);
+        target.pipe(socket);
+        socket.pipe(target);
+      });
+    });
+    await new Promise<void>((resolve) => tunnel.listen(0, '127.0.0.1', resolve));
+    const { port } = tunnel.address() as AddressInfo;
+
+    // The relay host only resolves through the proxy
+    proxy = await startProxy(
+      {
+        upstreams: [
+          {
+            provider: 'relay',
+            env: {
+              ANTHROPIC_BASE_URL: 'http://relay.internal.invalid',
+              HTTP_PROXY: `http://127.0.0.1:${port}`,
+            },
+          },
+        ],
+      },
+      log
+    );
+
+    const response = await send('/v1/messages', { method: 'POST', body: '{}' });
+    tunnel.close();
+
+    expect(response.status).toBe(200);
+    expect(tunnels).toEqual(['relay.internal.invalid:80']);
+    expect(upstream.received[0]?.headers.host).toBe('relay.internal.invalid');
+  });
+
+  it('should answer with an API error when the provider is unreachable', async () => {
+    proxy = await startProxy(
+      { upstreams: [{ provider: 'down', env: { ANTHROPIC_BASE_URL: 'http://127.0.0.1:1' } }] },
+      log
+    );
+
+    const response = await send('/v1/messages', { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({
+      type: 'error',
+      error: { message: expect.stringContaining('could not reach down') },
+    });
+    expect(log.read()[0]?.error).toBeDefined();
+    expect(log.read()[0]?.status).toBeUndefined();
+  });
+
+  it('should save transcripts with secrets masked', async () => {
+    upstream = await startUpstream((request, response) => {
+      response.writeHead(401, { 'content-type': 'application/json' });
+      response.end(`{"error":"bad key ${request.headers['x-api-key']}"}`);
+    });
+    const key = 'sk-ant-0123456789abcdef';
+    proxy = await startProxy(
+      {
+        upstreams: [
+          { provider: 'relay', env: { ANTHROPIC_BASE_URL: upstream.url, ANTHROPIC_API_KEY: key } },
+        ],
+        transcripts: true,
+      },
+      log
+    );
+
+    await send('/v1/messages', {
+      method: 'POST',
+      headers: { 'x-api-key': key },
+      body: JSON.stringify({ model: 'opus', note: key }),
+    });
+
+    const [entry] = log.read();
+    expect(entry).toMatchObject({ status: 401, transcript: true });
+    const transcript = log.readTranscript(entry?.id as string);
+    expect(transcript?.request.headers['x-api-key']).toBe('sk-...cdef');
+    expect(JSON.stringify(transcript)).not.toContain(key);
+    expect(transcript?.response?.body).toContain('bad key sk-...cdef');
+  });
+
+  it('should read usage from JSON and event stream bodies', () => {
+    expect(parseResponseUsage('<html>', false)).toBeNull();
+    expect(
+      parseResponseUsage('{"usage":{"input_tokens":1,"cache_read_input_tokens":9}}', false)
+    ).toEqual({ input: 1, output: 0, cacheCreation: 0, cacheRead: 9 });
+    expect(parseResponseUsage(SSE_BODY, true)).toEqual({
+      input: 12,
+      output: 7,
+      cacheCreation: 0,
+      cacheRead: 0,
+    });
+  });
+
+  describe('failover', () => {
+    const servers: http.Server[] = [];
+
+    const upstreamServing = async (
+      status: number,
+      body: string,
+      contentType = 'application/json'
+    ): Promise<string> => {
+      const started = await startUpstream((_request, response) => {
+        response.writeHead(status, { 'content-type': contentType });
+        response.end(body);
+      });
+      servers.push(started.server);
+      return started.url;
+    };
+
+    afterEach(() => {
+      servers.splice(0).forEach((server) => server.close());
+    });
+
+    it('should retry on the next provider after a connection error', async () => {
+      const backup = await upstreamServing(200, '{"usage":{"output_tokens":2}}');
+      proxy = await startProxy(
+        {
+          upstreams: [
+            { provider: 'down', env: { ANTHROPIC_BASE_URL: 'http://127.0.0.1:1' } },
+            { provider: 'backup', env: { ANTHROPIC_BASE_URL: backup } },
+          ],
+        },
+        log
+      );
+
+      const response = await send('/v1/messages', { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-auo-provider')).toBe('backup');
+      const [entry] = log.read();
+      expect(entry).toMatchObject({ provider: 'backup', status: 200 });
+      expect(entry?.attempts).toEqual([{ provider: 'down', error: expect.any(String) }]);
+    });
+
+    it('should fail over on 429 and 5xx and stay on the provider that answered', async () => {
+      const limited = await upstreamServing(429, '{"error":"quota"}');
+      const broken = await upstreamServing(529, '{"error":"overloaded"}');
+      const backup = await upstreamServing(200, SSE_BODY, 'text/event-stream');
+      proxy = await startProxy(
+        {
+          upstreams: [
+            { provider: 'limited', env: { ANTHROPIC_BASE_URL: limited } },
+            { provider: 'broken', env: { ANTHROPIC_BASE_URL: broken } },
+            { provider: 'backup', env: { ANTHROPIC_BASE_URL: backup } },
+          ],
+        },
+        log
+      );
+
+      const first = await send('/v1/messages', { method: 'POST', body: '{}' });
+      expect(await first.text()).toBe(SSE_BODY);
+      await send('/v1/messages', { method: 'POST', body: '{}' });
+
+      const [failedOver, next] = log.read();
+      expect(failedOver?.attempts).toEqual([
+        { provider: 'limited', status: 429, error: '{"error":"quota"}' },
+        { provider: 'broken', status: 529, error: '{"error":"overloaded"}' },
+      ]);
+      expect(failedOver).toMatchObject({ provider: 'backup', stream: true });
+      expect(next).toMatchObject({ provider: 'backup', status: 200 });
+      expect(next?.attempts).toBeUndefined();
+    });
+
+    it('should send each provider the model name it expects', async () => {
+      const limited = await startUpstream((_request, response) => {
+        response.writeHead(429, { 'content-type': 'application/json' });
+        response.end('{"error":"quota"}');
+      });
+      const backup = await startUpstream((_request, response) => {
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end('{}');
+      });
+      servers.push(limited.server, backup.server);
+      proxy = await startProxy(
+        {
+          upstreams: [
+            {
+              provider: 'limited',
+              env: { ANTHROPIC_BASE_URL: limited.url },
+              models: { 'claude-sonnet-4-5': 'limited/sonnet' },
+            },
+            {
+              provider: 'backup',
+              env: { ANTHROPIC_BASE_URL: backup.url },
+              models: { 'claude-sonnet-4-5': 'backup/sonnet' },
+            },
+          ],
+        },
+        log
+      );
+
+      const body = '{"model":"claude-sonnet-4-5","max_tokens":10}';
+      await send('/v1/messages', { method: 'POST', body });
+
+      expect(JSON.parse(limited.received[0]?.body || '{}').model).toBe('limited/sonnet');
+      expect(JSON.parse(backup.received[0]?.body || '{}')).toEqual({
+        model: 'backup/sonnet',
+        max_tokens: 10,
+      });
+      expect(log.read()[0]).toMatchObject({
+        provider: 'backup',
+        model: 'claude-sonnet-4-5',
+        upstreamModel: 'backup/sonnet',
+      });
+    });
+
+    it('should return the last failure when every provider fails', async () => {
+      const limited = await upstreamServing(429, '{"error":"quota"}');
+      const broken = await upstreamServing(500, '{"error":"boom"}');
+      proxy = await startProxy(
+        {
+          upstreams: [
+            { provider: 'limited', env: { ANTHROPIC_BASE_URL: limited } },
+            { provider: 'broken', env: { ANTHROPIC_BASE_URL: broken } },
+          ],
+        },
+        log
+      );
+
+      const response = await send('/v1/messages', { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('{"error":"boom"}');
+      expect(log.read()[0]).toMatchObject({ provider: 'broken', status: 500 });
+
+      // The first provider is tried first again, nothing answered in between
+      await send('/v1/messages', { method: 'POST', body: '{}' });
+      expect(log.read()[1]?.attempts?.[0]?.provider).toBe('limited');
+    });
+  });
+
+  describe('OpenAI-compatible providers', () => {
+    const startOpenAIProxy = async (url: string): Promise<RunningProxy> =>
+      startProxy(
+        {
+          upstreams: [
+            {
+              provider: 'local',
+              env: { ANTHROPIC_BASE_URL: `${url}/v1`, ANTHROPIC_API_KEY: 'sk-local' },
+              protocol: 'openai',
+            },
+          ],
+        },
+        log
+      );
+
+    it('should translate requests and responses to and from chat completions', async () => {
+      upstream = await startUpstream((_request, response) => {
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(
+          JSON.stringify({
+            id: 'chatcmpl-1',
+            choices: [{ message: { content: 'Hello!' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 8, completion_tokens: 2 },
+          })
+        );
+      });
+      proxy = await startOpenAIProxy(upstream.url);
+
+      const response = await send('/v1/messages?beta=true', {
+        method: 'POST',
+        headers: { 'x-api-key': 'placeholder', 'anthropic-version': '2023-06-01' },
+        body: JSON.stringify({
+          model: 'qwen3',
+          max_tokens: 100,
+          messages: [{ role: 'user', content: 'Hi' }],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        type: 'message',
+        model: 'qwen3',
+        content: [{ type: 'text', text: 'Hello!' }],
+        stop_reason: 'end_turn',
+      });
+      const [received] = upstream.received;
+      expect(received?.url).toBe('/v1/chat/completions');
+      expect(received?.headers.authorization).toBe('Bearer sk-local');
+      expect(received?.headers['x-api-key']).toBeUndefined();
+      expect(received?.headers['anthropic-version']).toBeUndefined();
+      expect(JSON.parse(received?.body || '{}')).toEqual({
+        model: 'qwen3',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+      expect(log.read()[0]).toMatchObject({ provider: 'local', tokens: { input: 8, output: 2 } });
+    });
+
+    it('should translate streamed completions to Messages API events', async () => {
+      upstream = await startUpstream((_request, response) => {
+        response.writeHead(200, { 'content-type': 'text/event-stream' });
+        response.write('data: {"id":"c1","choices":[{"delta":{"content":"Hel"}}]}\n\n');
+        response.write('data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n\n');
+        response.end(
+          'data: {"choices":[],"usage":{"prompt_tokens":8,"completion_tokens":2}}\n\ndata: [DONE]\n\n'
+        );
+      });
+      proxy = await startOpenAIProxy(upstream.url);
+
+      const response = await send('/v1/messages', {
+        method: 'POST',
+        body: JSON.stringify({ model: 'qwen3', stream: true, messages: [] }),
+      });
+      const text = await response.text();
+
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      expect(text.match(/^event: (\w+)$/gm)).toEqual([
+        'event: message_start',
+        'event: content_block_start',
+        'event: content_block_delta',
+        'event: content_block_delta',
+        'event: content_block_stop',
+        'event: message_delta',
+        'event: message_stop',
+      ]);
+      expect(JSON.parse(upstream.received[0]?.body || '{}')).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      expect(log.read()[0]).toMatchObject({ stream: true, tokens: { input: 8, output: 2 } });
+    });
+
+    it('should translate errors and refuse endpoints chat completions lack', async () => {
+      upstream = await startUpstream((_request, response) => {
+        response.writeHead(400, { 'content-type': 'application/json' });
+        response.end('{"error":{"message":"model not found"}}');
+      });
+      proxy = await startOpenAIProxy(upstream.url);
+
+      const failed = await send('/v1/messages', {
+        method: 'POST',
+        body: '{"messages":[]}',
+      });
+      expect(failed.status).toBe(400);
+      expect(await failed.json()).toEqual({
+        type: 'error',
+        error: { type: 'invalid_request_error', message: 'model not found' },
+      });
+
+      const counted = await send('/v1/messages/count_tokens', {
+        method: 'POST',
+        body: '{}',
+      });
+      expect(counted.status).toBe(404);
+      expect(upstream.received).toHaveLength(1);
+    });
+
+    it('should answer 502 when a successful response is not a chat completion', async () => {
+      upstream = await startUpstream((_request, response) => {
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end('{"error":{"message":"quota exceeded"}}');
+      });
+      proxy = await startOpenAIProxy(upstream.url);
+
+      const response = await send('/v1/messages', { method: 'POST', body: '{"messages":[]}' });
+
+      expect(response.status).toBe(502);
+      expect(((await response.json()) as { type: string }).type).toBe('error');
+      expect(log.read()[0]).toMatchObject({
+        status: 502,
+        error: expect.stringContaining('Invalid chat completions response'),
+      });
+    });
+
+    it('should reject malformed requests without reaching the provider', async () => {
+      upstream = await startUpstream((_request, response) => response.end('{}'));
+      proxy = await startOpenAIProxy(upstream.url);
+
+      for (const body of [
+        'null',
+        '{"messages":"hi"}',
+        '{"messages":[{"role":"user","content":5}]}',
+        '{"messages":[],"tools":[1]}',
+      ]) {
+        const response = await send('/v1/messages', { method: 'POST', body });
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { error: { message: string } }).error.message).toMatch(
+          /^Invalid Messages API request: /
+        );
+      }
+      expect(upstream.received).toHaveLength(0);
+    });
+  });
+});
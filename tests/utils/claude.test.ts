@@ -1,5 +1,10 @@
 import { describe, it, expect, vi } from 'vitest';
-import { checkClaudeCode, installClaudeCode } from '../../src/utils/claude';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkClaudeCode, installClaudeCode, runClaudeCode } from '../../src/utils/claude';
 
 // Mock child_process
 vi.mock('child_process');
@@ -16,4 +21,68 @@ describe('Claude Utils', () => {
       expect(installClaudeCode).toBeDefined();
     });
   });
+
+  describe('runClaudeCode', () => {
+    it('should pass arguments verbatim without a shell on POSIX', () => {
+      vi.mocked(spawn).mockReturnValue(new EventEmitter() as ReturnType<typeof spawn>);
+
+      runClaudeCode(['-p', 'fix the "bug"; rm -rf *', '--verbose'], { ANTHROPIC_MODEL: 'opus' });
+
+      const [command, args, options] = vi.mocked(spawn).mock.calls[0]!;
+      expect(command).toBe('claude');
+      expect(args).toEqual(['-p', 'fix the "bug"; rm -rf *', '--verbose']);
+      expect(options).toMatchObject({
+        stdio: 'inherit',
+        env: expect.objectContaining({ ANTHROPIC_MODEL: 'opus' }),
+      });
+      expect(options?.shell).toBeUndefined();
+    });
+
+    it('should exit with 128 + the signal number when a signal ends Claude Code', () => {
+      const child = Object.assign(new EventEmitter(), { kill: vi.fn() });
+      vi.mocked(spawn).mockReturnValue(child as unknown as ReturnType<typeof spawn>);
+      const exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+      const onExit = vi.fn();
+
+      const listeners = process.listeners('SIGTERM');
+
+      runClaudeCode([], {}, onExit);
+      // Call the forwarding listener only, never the test runner's own
+      const forward = process
+        .listeners('SIGTERM')
+        .find((listener) => !listeners.includes(listener));
+      forward?.('SIGTERM');
+      expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+
+      child.emit('close', null, 'SIGTERM');
+      expect(onExit).toHaveBeenCalledWith(143);
+      expect(exit).toHaveBeenCalledWith(143);
+      expect(process.listeners('SIGTERM')).toEqual(listeners);
+    });
+
+    it('should quote every argument for cmd.exe when running the Windows shim', () => {
+      const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auo-claude-test-'));
+      fs.writeFileSync(path.join(binDir, 'claude.cmd'), '');
+      const platform = vi.spyOn(process, 'platform', 'get').mockReturnValue('win32');
+      vi.mocked(spawn).mockReturnValue(new EventEmitter() as ReturnType<typeof spawn>);
+
+      try {
+        runClaudeCode(['-p', 'fix the bug & echo "x"'], { PATH: binDir, COMSPEC: 'cmd.exe' });
+      } finally {
+        platform.mockRestore();
+        fs.rmSync(binDir, { recursive: true, force: true });
+      }
+
+      const [command, args, options] = vi.mocked(spawn).mock.calls.at(-1)!;
+      expect(command).toBe('cmd.exe');
+      expect(args).toEqual([
+        '/d',
+        '/s',
+        '/c',
+        `"${path.join(binDir, 'claude.cmd')} ^^^"-p^^^" ` +
+          '^^^"fix^^^ the^^^ bug^^^ ^^^&^^^ echo^^^ \\^^^"x\\^^^"^^^""',
+      ]);
+      expect(options).toMatchObject({ windowsVerbatimArguments: true });
+    });
+  });
 });
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import {
+  buildMessagesUrl,
+  buildProbeUrl,
+  probeProvider,
+  isHealthyProbe,
+  describeProbeFailure,
+  findHealthyProvider,
+  diagnoseProbe,
+} from '../../src/utils/health';
+
+describe('Health Utils', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeAll(async () => {
+    // Stub relay: the path prefix selects the status code to answer with
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body });
+        const status = Number(req.url?.split('/')[1]) || 200;
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ status }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should build messages URL from base URL', () => {
+    expect(buildMessagesUrl('https://relay.example.com/api/').href).toBe(
+      'https://relay.example.com/api/v1/messages'
+    );
+    expect(buildMessagesUrl(undefined).href).toBe('https://api.anthropic.com/v1/messages');
+  });
+
+  it('should send a minimal authenticated messages request', async () => {
+    const result = await probeProvider({
+      ANTHROPIC_BASE_URL: `${baseUrl}/200`,
+      ANTHROPIC_AUTH_TOKEN: 'sk-test',
+      ANTHROPIC_MODEL: 'claude-test',
+    });
+
+    expect(result.reachable).toBe(true);
+    expect(result.status).toBe(200);
+    expect(isHealthyProbe(result)).toBe(true);
+
+    const request = requests[requests.length - 1];
+    expect(request?.url).toBe('/200/v1/messages');
+    expect(request?.headers.authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(request?.body || '{}')).toMatchObject({
+      model: 'claude-test',
+      max_tokens: 1,
+    });
+  });
+
+  it('should probe chat completions for OpenAI-compatible providers', async () => {
+    expect(buildProbeUrl('https://api.example.com/v1/', 'openai').href).toBe(
+      'https://api.example.com/v1/chat/completions'
+    );
+
+    const result = await probeProvider(
+      { ANTHROPIC_BASE_URL: `${baseUrl}/200`, ANTHROPIC_API_KEY: 'sk-openai' },
+      { protocol: 'openai', model: 'gpt-test' }
+    );
+
+    expect(isHealthyProbe(result)).toBe(true);
+    const request = requests[requests.length - 1];
+    expect(request?.url).toBe('/200/chat/completions');
+    expect(request?.headers.authorization).toBe('Bearer sk-openai');
+    expect(request?.headers['anthropic-version']).toBeUndefined();
+  });
+
+  it('should treat auth, quota and server errors as unhealthy', async () => {
+    for (const status of [401, 403, 429, 500, 503]) {
+      const result = await probeProvider({ ANTHROPIC_BASE_URL: `${baseUrl}/${status}` });
+      expect(isHealthyProbe(result)).toBe(false);
+    }
+  });
+
+  it('should only accept a 400 about the request body, never a wrong path or model', () => {
+    const probe = (status: number, body: string) => ({
+      reachable: true,
+      status,
+      latencyMs: 1,
+      body,
+    });
+    const badBody = '{"type":"error","error":{"type":"invalid_request_error","message":"bad"}}';
+
+    expect(isHealthyProbe(probe(400, badBody))).toBe(true);
+    expect(isHealthyProbe(probe(400, '<html>Bad Request</html>'))).toBe(false);
+    expect(isHealthyProbe(probe(400, '{"error":{"message":"unknown model: opus"}}'))).toBe(false);
+    expect(isHealthyProbe(probe(404, badBody))).toBe(false);
+    expect(describeProbeFailure(probe(404, '<html>Not Found</html>'))).toBe(
+      'endpoint not found (HTTP 404), check the base URL'
+    );
+  });
+
+  it('should probe through the proxy set by the provider', async () => {
+    const tunnels: string[] = [];
+    const proxy = http.createServer();
+    proxy.on('connect', (req: http.IncomingMessage, socket: Duplex) => {
+      tunnels.push(req.url || '');
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    const port = (proxy.address() as AddressInfo).port;
+
+    const result = await probeProvider({
+      ANTHROPIC_BASE_URL: 'http://relay.example.com',
+      HTTP_PROXY: `http://127.0.0.1:${port}`,
+    });
+    await new Promise((resolve) => proxy.close(resolve));
+
+    expect(tunnels).toEqual(['relay.example.com:80']);
+    expect(result).toMatchObject({ reachable: false, error: expect.stringContaining('HTTP 403') });
+  });
+
+  it('should report unreachable providers without throwing', async () => {
+    const result = await probeProvider(
+      { ANTHROPIC_BASE_URL: 'http://127.0.0.1:1' },
+      { timeout: 2000 }
+    );
+
+    expect(result.reachable).toBe(false);
+    expect(describeProbeFailure(result)).toContain('unreachable');
+  });
+
+  it('should describe failures by category', () => {
+    expect(describeProbeFailure({ reachable: true, status: 401, latencyMs: 1 })).toContain('auth');
+    expect(describeProbeFailure({ reachable: true, status: 429, latencyMs: 1 })).toContain('quota');
+    expect(describeProbeFailure({ reachable: true, status: 502, latencyMs: 1 })).toContain('502');
+  });
+
+  it('should return the first healthy candidate in order', async () => {
+    const skipped: string[] = [];
+    const selected = await findHealthyProvider(
+      ['429', '503', '200', '201'],
+      (status) => ({ ANTHROPIC_BASE_URL: `${baseUrl}/${status}` }),
+      { onSkip: (candidate) => skipped.push(candidate) }
+    );
+
+    expect(selected).toBe('200');
+    expect(skipped).toEqual(['429', '503']);
+  });
+
+  it('should skip candidates whose environment cannot be built', async () => {
+    const skipped: Array<[string, string]> = [];
+    const selected = await findHealthyProvider(
+      ['locked', '200'],
+      (status) => {
+        if (status === 'locked') {
+          throw new Error('Vault is locked');
+        }
+        return { ANTHROPIC_BASE_URL: `${baseUrl}/${status}` };
+      },
+      { onSkip: (candidate, reason) => skipped.push([candidate, reason]) }
+    );
+
+    expect(selected).toBe('200');
+    expect(skipped).toEqual([['locked', 'Vault is locked']]);
+  });
+
+  it('should probe each candidate with its own protocol', async () => {
+    const selected = await findHealthyProvider(
+      ['200'],
+      (status) => ({ ANTHROPIC_BASE_URL: `${baseUrl}/${status}` }),
+      { getProtocol: () => 'openai' }
+    );
+
+    expect(selected).toBe('200');
+    expect(requests[requests.length - 1]?.url).toBe('/200/chat/completions');
+  });
+
+  it('should return null when no candidate is healthy', async () => {
+    const selected = await findHealthyProvider(['401', '500'], (status) => ({
+      ANTHROPIC_BASE_URL: `${baseUrl}/${status}`,
+    }));
+
+    expect(selected).toBeNull();
+  });
+
+  it('should diagnose DNS failures', () => {
+    const diagnosis = diagnoseProbe(
+      'relay',
+      { ANTHROPIC_BASE_URL: 'https://no-such-host.invalid' },
+      { reachable: false, latencyMs: 5, error: 'getaddrinfo ENOTFOUND', errorCode: 'ENOTFOUND' },
+      'claude-test'
+    );
+
+    expect(diagnosis).toMatchObject({
+      dns: 'fail',
+      tls: 'skip',
+      tokenAccepted: 'skip',
+      modelServed: 'skip',
+      healthy: false,
+    });
+  });
+
+  it('should diagnose TLS failures after connecting', () => {
+    const diagnosis = diagnoseProbe(
+      'relay',
+      { ANTHROPIC_BASE_URL: 'https://relay.example.com' },
+      { reachable: false, latencyMs: 5, error: 'certificate has expired', timings: { connect: 3 } },
+      'claude-test'
+    );
+
+    expect(diagnosis.dns).toBe('ok');
+    expect(diagnosis.tls).toBe('fail');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectShell,
+  formatSetVariable,
+  formatUnsetVariable,
+  getShellHook,
+  parseShellName,
+} from '../../src/utils/shell';
+
+describe('shell formatting', () => {
+  it('should quote values so each shell reads them literally', () => {
+    const value = `it's $HOME \\ "x"`;
+
+    expect(formatSetVariable('A', value, 'bash')).toBe(`export A='it'\\''s $HOME \\ "x"'`);
+    expect(formatSetVariable('A', value, 'fish')).toBe(`set -gx A 'it\\'s $HOME \\\\ "x"'`);
+    expect(formatSetVariable('A', value, 'powershell')).toBe(`$env:A = 'it''s $HOME \\ "x"'`);
+  });
+
+  it('should format removals', () => {
+    expect(formatUnsetVariable('A', 'zsh')).toBe('unset A');
+    expect(formatUnsetVariable('A', 'fish')).toBe('set -e A');
+    expect(formatUnsetVariable('A', 'powershell')).toContain('Remove-Item Env:A');
+  });
+
+  it('should detect the shell from $SHELL', () => {
+    expect(detectShell({ SHELL: '/usr/bin/fish' }, 'linux')).toBe('fish');
+    expect(detectShell({ SHELL: '/bin/zsh' }, 'darwin')).toBe('zsh');
+    expect(detectShell({}, 'linux')).toBe('bash');
+    expect(detectShell({}, 'win32')).toBe('powershell');
+    expect(parseShellName('pwsh')).toBe('powershell');
+    expect(parseShellName('csh')).toBeNull();
+  });
+
+  it('should call auo env --hook from every hook', () => {
+    for (const shell of ['bash', 'zsh', 'fish', 'powershell'] as const) {
+      expect(getShellHook(shell)).toContain(`auo env --hook --shell ${shell}`);
+    }
+  });
+});
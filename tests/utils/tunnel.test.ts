@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { getProxyRequestOptions, getProxyUrl } from '../../src/utils/tunnel';
+
+describe('Tunnel Utils', () => {
+  let target: http.Server;
+  let proxy: http.Server;
+  let targetUrl: string;
+  let proxyUrl: string;
+  const tunnels: Array<{ url?: string; authorization?: string }> = [];
+
+  beforeAll(async () => {
+    target = http.createServer((req, res) => res.end(`reached ${req.url}`));
+    await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+    targetUrl = `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+
+    // Stub proxy: tunnels CONNECT requests, refuses the ones with a wrong password
+    proxy = http.createServer((_req, res) => res.writeHead(405).end());
+    proxy.on('connect', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      const authorization = req.headers['proxy-authorization'];
+      tunnels.push({ url: req.url, ...(authorization ? { authorization } : {}) });
+      if (authorization === `Basic ${Buffer.from('user:wrong').toString('base64')}`) {
+        socket.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n');
+        return;
+      }
+      const [host, port] = (req.url || '').split(':');
+      const upstream = net.connect(Number(port), host, () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+      upstream.on('error', () => socket.destroy());
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => proxy.close(resolve));
+    await new Promise((resolve) => target.close(resolve));
+  });
+
+  /**
+   * Send a GET request with the proxy options of an env
+   */
+  const get = (url: string, env: Record<string, string>): Promise<string> =>
+    new Promise((resolve, reject) => {
+      const request = http.request(url, getProxyRequestOptions(env, new URL(url)), (response) => {
+        let body = '';
+        response.on('data', (chunk) => (body += chunk));
+        response.on('end', () => resolve(body));
+      });
+      request.on('error', reject);
+      request.end();
+    });
+
+  it('should pick the proxy variable matching the URL scheme', () => {
+    const env = { HTTPS_PROXY: 'http://secure:8080', http_proxy: 'plain:3128' };
+    expect(getProxyUrl(env, new URL('https://relay.example.com'))?.href).toBe(
+      'http://secure:8080/'
+    );
+    expect(getProxyUrl(env, new URL('http://relay.example.com'))?.href).toBe('http://plain:3128/');
+    expect(getProxyUrl({ ALL_PROXY: 'http://all:1' }, new URL('https://a.b'))?.host).toBe('all:1');
+    expect(getProxyUrl({}, new URL('https://relay.example.com'))).toBeNull();
+  });
+
+  it('should exempt hosts listed in NO_PROXY', () => {
+    const env = { HTTPS_PROXY: 'http://proxy:8080', NO_PROXY: 'localhost, .internal,10.0.0.1:443' };
+    expect(getProxyUrl(env, new URL('https://localhost:8443'))).toBeNull();
+    expect(getProxyUrl(env, new URL('https://relay.corp.internal'))).toBeNull();
+    expect(getProxyUrl(env, new URL('https://10.0.0.1'))).toBeNull();
+    expect(getProxyUrl(env, new URL('https://relay.example.com'))).not.toBeNull();
+    expect(getProxyUrl({ ...env, NO_PROXY: '*' }, new URL('https://relay.example.com'))).toBeNull();
+  });
+
+  it('should reject invalid proxy URLs', () => {
+    expect(() => getProxyUrl({ HTTPS_PROXY: 'http://' }, new URL('https://a.b'))).toThrow(
+      'Invalid proxy URL'
+    );
+  });
+
+  it('should tunnel requests through the proxy with CONNECT', async () => {
+    const body = await get(`${targetUrl}/v1/messages`, {
+      HTTP_PROXY: proxyUrl.replace('http://', 'http://user:p%40ss@'),
+    });
+
+    expect(body).toBe('reached /v1/messages');
+    expect(tunnels[tunnels.length - 1]).toEqual({
+      url: new URL(targetUrl).host,
+      authorization: `Basic ${Buffer.from('user:p@ss').toString('base64')}`,
+    });
+  });
+
+  it('should fail when the proxy refuses the tunnel', async () => {
+    await expect(
+      get(targetUrl, { HTTP_PROXY: proxyUrl.replace('http://', 'http://user:wrong@') })
+    ).rejects.toThrow('refused the tunnel (HTTP 407)');
+  });
+});
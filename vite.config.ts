@@ -39,6 +39,11 @@ export default defineConfig({
         'process',
         'module',
         'readline',
+        'http',
+        'https',
+        'net',
+        'string_decoder',
+        'tls',
         // Prevent bundling these dependencies
         /^node:/,
       ],